@@ -6,6 +6,9 @@ import Categories from './pages/Categories';
 import Wrapped from './pages/Wrapped';
 import DataTable from './pages/DataTable';
 import About from './pages/About';
+import DuplicateReview from './pages/DuplicateReview';
+import Rules from './pages/Rules';
+import WorkspaceGate from './components/workspace/WorkspaceGate';
 import { usePageTracking } from './hooks/usePageTracking';
 import './App.css';
 
@@ -21,6 +24,8 @@ function AppContent() {
       <Route path="/story" element={<Wrapped />} />
       <Route path="/explore-data" element={<DataTable />} />
       <Route path="/about" element={<About />} />
+      <Route path="/review-duplicates" element={<DuplicateReview />} />
+      <Route path="/rules" element={<Rules />} />
     </Routes>
   );
 }
@@ -28,7 +33,9 @@ function AppContent() {
 function App() {
   return (
     <Router>
-      <AppContent />
+      <WorkspaceGate>
+        <AppContent />
+      </WorkspaceGate>
     </Router>
   );
 }
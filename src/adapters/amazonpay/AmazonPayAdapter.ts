@@ -0,0 +1,47 @@
+// Amazon Pay adapter - handles Amazon Pay UPI and balance statements (PDF/CSV)
+
+import { UpiStatementAdapter } from '../base/UpiStatementAdapter';
+import type { BankStatementLayout } from '../bank/BankStatementAdapter';
+import { UpiApp, type AdapterMetadata } from '../../types/app.types';
+
+/**
+ * Amazon Pay adapter
+ * Detected by the statement's columns together with the Amazon Pay name or file name
+ */
+export class AmazonPayAdapter extends UpiStatementAdapter {
+  readonly appId = UpiApp.AMAZON_PAY;
+  readonly bankName = 'Amazon Pay';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'Amazon Pay',
+    icon: '🟡',
+    color: '#FF9900',
+    category: 'upi',
+    fileNamePattern: /amazon.?pay|apay/,
+    exportGuide: [
+      { text: 'Amazon app → Amazon Pay → Amazon Pay UPI → Transaction history' },
+      { text: 'Tap "Download statement" and choose PDF or CSV' },
+    ],
+    fixtures: ['amazonpay_statement.csv'],
+  };
+
+  protected readonly layouts: BankStatementLayout[] = [
+    {
+      // UPI statement (PDF)
+      date: 'Date',
+      description: 'Transaction Details',
+      amount: 'Amount',
+      debitCredit: 'Type',
+      reference: 'Transaction ID',
+    },
+    {
+      // Amazon Pay balance statement (CSV)
+      date: 'Date',
+      description: 'Description',
+      debit: 'Debit',
+      credit: 'Credit',
+      reference: 'Order ID',
+    },
+  ];
+
+  protected readonly brandPattern = /amazon ?pay/i;
+}
@@ -0,0 +1,40 @@
+// Axis Bank adapter - handles Axis Bank account statement (XLS/CSV/PDF)
+
+import { BankStatementAdapter, type BankStatementLayout } from './BankStatementAdapter';
+import { UpiApp, type AdapterMetadata } from '../../types/app.types';
+
+/**
+ * Axis Bank adapter
+ * Detected by the statement's column headers; encrypted PDFs by file name
+ */
+export class AxisAdapter extends BankStatementAdapter {
+  readonly appId = UpiApp.AXIS;
+  readonly bankName = 'Axis Bank';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'Axis Bank',
+    icon: '🏦',
+    color: '#97144D',
+    category: 'bank',
+    fileNamePattern: /axis/,
+    exportGuide: [
+      { text: 'Internet Banking → Accounts → Statement of Account' },
+      { text: 'Download as XLS, CSV or PDF' },
+    ],
+    passwordHint: {
+      text: 'Axis Bank statements usually use the first 4 letters of your name in capitals followed by your day and month of birth (DDMM)',
+      schemes: ['name_ddmm'],
+    },
+    fixtures: ['axis_statement.csv'],
+  };
+
+  protected readonly layouts: BankStatementLayout[] = [
+    {
+      // Internet banking XLS/CSV and PDF
+      date: 'Tran Date',
+      description: 'Particulars',
+      debit: 'DR',
+      credit: 'CR',
+      reference: 'CHQNO',
+    },
+  ];
+}
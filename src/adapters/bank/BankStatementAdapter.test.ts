@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { getPaymentChannel, matchBankLayout } from './BankStatementAdapter';
+import { SbiAdapter } from './SbiAdapter';
+import { HdfcAdapter } from './HdfcAdapter';
+import { IciciAdapter } from './IciciAdapter';
+import { AxisAdapter } from './AxisAdapter';
+import { KotakAdapter } from './KotakAdapter';
+
+const hdfcRows = [
+  ['HDFC BANK Ltd.', '', '', '', '', '', ''],
+  ['Statement of account', '', '', '', '', '', ''],
+  ['Date', 'Narration', 'Chq./Ref.No.', 'Value Dt', 'Withdrawal Amt.', 'Deposit Amt.', 'Closing Balance'],
+  ['01/06/25', 'UPI-SWIGGY-SWIGGY@ICICI-ICIC0000001-512345678901-PAYMENT', '0000512345678901', '01/06/25', '250.00', '', '9750.00'],
+  ['02/06/25', 'NEFT CR-SALARY JUNE', 'N123456789', '02/06/25', '', '50000.00', '59750.00'],
+  ['03/06/25', 'ACH D- LIC OF INDIA', '0000000000000000', '03/06/25', '1200.00', '', '58550.00'],
+];
+
+const csvFile = (name: string, rows: string[][]) =>
+  new File([rows.map(row => row.map(cell => `"${cell}"`).join(',')).join('\n')], name, {
+    type: 'text/csv',
+  });
+
+describe('BankStatementAdapter', () => {
+  describe('matchBankLayout', () => {
+    it('should resolve headers regardless of case and trailing text', () => {
+      const match = matchBankLayout(
+        ['S No.', 'Transaction Date', 'Transaction Remarks', 'Withdrawal Amount (INR )', 'Deposit Amount (INR )'],
+        {
+          date: 'Transaction Date',
+          description: 'Transaction Remarks',
+          debit: 'Withdrawal Amount',
+          credit: 'Deposit Amount',
+        },
+        4
+      );
+
+      expect(match?.headerRow).toBe(4);
+      expect(match?.mapping.debit).toBe('Withdrawal Amount (INR )');
+      expect(match?.mapping.amountMode).toBe('split');
+    });
+
+    it('should not match when a required column is missing', () => {
+      expect(
+        matchBankLayout(['Date', 'Narration'], { date: 'Date', description: 'Narration', debit: 'Debit', credit: 'Credit' }, 0)
+      ).toBeNull();
+    });
+  });
+
+  describe('getPaymentChannel', () => {
+    it('should recognise common narration prefixes', () => {
+      expect(getPaymentChannel('UPI/DR/512345678901/SWIGGY')).toBe('UPI');
+      expect(getPaymentChannel('NEFT-HDFC0001-RENT')).toBe('NEFT');
+      expect(getPaymentChannel('ACH D- LIC OF INDIA')).toBe('Autopay');
+      expect(getPaymentChannel('ATW-512345XXXXXX1234-S1ANMU01')).toBe('ATM');
+      expect(getPaymentChannel('POS 512345XXXXXX1234 AMAZON')).toBe('Debit Card');
+    });
+  });
+
+  describe('parse', () => {
+    it('should read an HDFC statement after its preamble', async () => {
+      const result = await new HdfcAdapter().parse({ bankRows: JSON.stringify(hdfcRows) });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.transactions).toHaveLength(2);
+      expect(result.data?.transactions?.[0]).toMatchObject({
+        amount: { value: 250, currency: 'INR' },
+        product: 'HDFC Bank',
+        method: 'UPI',
+        referenceId: '512345678901',
+        sourceApp: 'hdfc',
+      });
+      expect(result.data?.transactions?.[1].method).toBe('Autopay');
+      expect(result.data?.activities).toHaveLength(1);
+    });
+
+    it('should take the UPI reference from the narration when the reference column is empty', async () => {
+      const rows = [
+        ['Txn Date', 'Value Date', 'Description', 'Ref No./Cheque No.', 'Debit', 'Credit', 'Balance'],
+        ['1 Jun 2025', '1 Jun 2025', 'TO TRANSFER-UPI/DR/512345678901/ZOMATO/YESB/zomato@ybl', '', '320.00', '', '1000.00'],
+      ];
+
+      const result = await new SbiAdapter().parse({ bankRows: JSON.stringify(rows) });
+
+      expect(result.data?.transactions?.[0].referenceId).toBe('512345678901');
+      expect(result.data?.transactions?.[0].time).toEqual(new Date(2025, 5, 1));
+    });
+
+    it('should use the Dr/Cr column for Kotak statements', async () => {
+      const rows = [
+        ['Sl. No.', 'Transaction Date', 'Value Date', 'Description', 'Chq / Ref No.', 'Amount', 'Dr / Cr', 'Balance', 'Dr / Cr'],
+        ['1', '01-06-2025', '01-06-2025', 'UPI/BLINKIT/512345678901', 'UPI-512345678901', '450.00', 'DR', '5000.00', 'CR'],
+        ['2', '02-06-2025', '02-06-2025', 'IMPS-REFUND', 'IMPS-1', '100.00', 'CR', '5100.00', 'CR'],
+      ];
+
+      const result = await new KotakAdapter().parse({ bankRows: JSON.stringify(rows) });
+
+      expect(result.data?.transactions).toHaveLength(1);
+      expect(result.data?.activities).toHaveLength(1);
+    });
+
+    it('should fail on a layout from another bank', async () => {
+      const result = await new AxisAdapter().parse({ bankRows: JSON.stringify(hdfcRows) });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('detect', () => {
+    it('should detect statements by header signature', async () => {
+      const file = csvFile('statement.csv', hdfcRows);
+
+      expect((await new HdfcAdapter().detect(file)).confidence).toBe(0.9);
+      expect((await new IciciAdapter().detect(file)).canHandle).toBe(false);
+    });
+
+    it('should not claim unrelated spreadsheets', async () => {
+      const file = csvFile('expenses.csv', [['Item', 'Cost'], ['Tea', '20']]);
+      expect((await new SbiAdapter().detect(file)).canHandle).toBe(false);
+    });
+  });
+});
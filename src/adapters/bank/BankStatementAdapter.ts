@@ -0,0 +1,285 @@
+// Base adapter for bank account statements (CSV/XLS/XLSX and PDF)
+
+import { BaseAppAdapter, DetectionResult, ParseResult } from '../base/AppAdapter';
+import { FileFormat } from '../../types/app.types';
+import type { ColumnMapping } from '../../types/mapping.types';
+import { applyMapping } from '../../utils/columnMapping';
+import { readSpreadsheetRows } from '../../utils/spreadsheetRows';
+import {
+  extractPDFLines,
+  isPDFEncrypted,
+  pdfLinesToRows,
+  type PdfTextLine,
+} from '../../utils/pdfParser';
+
+const HEADER_SCAN_ROWS = 40;
+
+// Every bank adapter inspects the same upload during detection; read it once
+const detectionCache = new WeakMap<File, Promise<string[][] | PdfTextLine[] | null>>();
+
+/**
+ * Column headers of one statement layout, as printed by the bank
+ * Matching ignores case, spacing and punctuation, and allows the bank to append
+ * to a header (e.g. "Withdrawal Amount (INR )" matches "Withdrawal Amount")
+ */
+export interface BankStatementLayout {
+  date: string;
+  description: string;
+  debit?: string; // Separate debit/credit columns...
+  credit?: string;
+  amount?: string; // ...or one amount with a Dr/Cr indicator column
+  debitCredit?: string;
+  reference?: string;
+}
+
+/**
+ * Header row of a statement resolved against one of the bank's layouts
+ */
+export interface BankLayoutMatch {
+  headerRow: number;
+  mapping: ColumnMapping;
+}
+
+/**
+ * Normalize a header for comparison: "Chq./Ref.No." -> "chqrefno"
+ */
+function normalizeHeader(header: string): string {
+  return String(header || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Find the cell that holds a layout column
+ * Exact matches win, then cells that extend the expected header
+ */
+function findHeaderCell(cells: string[], expected: string): string | undefined {
+  const key = normalizeHeader(expected);
+  return (
+    cells.find(cell => normalizeHeader(cell) === key) ||
+    cells.find(cell => normalizeHeader(cell).startsWith(key))
+  );
+}
+
+/**
+ * Resolve a header row against a layout
+ * @returns Column mapping using the statement's own header text, or null if a column is missing
+ */
+export function matchBankLayout(
+  cells: string[],
+  layout: BankStatementLayout,
+  headerRow: number
+): BankLayoutMatch | null {
+  const trimmed = cells.map(cell => String(cell || '').trim());
+  const resolve = (expected?: string) => (expected ? findHeaderCell(trimmed, expected) : undefined);
+
+  const date = resolve(layout.date);
+  const description = resolve(layout.description);
+  if (!date || !description) return null;
+
+  const isSplit = Boolean(layout.debit || layout.credit);
+  const debit = resolve(layout.debit);
+  const credit = resolve(layout.credit);
+  const amount = resolve(layout.amount);
+  const debitCreditColumn = resolve(layout.debitCredit);
+
+  if (isSplit && (!debit || !credit)) return null;
+  if (!isSplit && (!amount || !debitCreditColumn)) return null;
+
+  return {
+    headerRow,
+    mapping: {
+      headerRow,
+      date,
+      dateFormat: 'auto',
+      description,
+      amountMode: isSplit ? 'split' : 'signed',
+      debit,
+      credit,
+      amount,
+      debitCreditColumn,
+      reference: resolve(layout.reference),
+    },
+  };
+}
+
+/**
+ * Work out how a payment left the account from the narration
+ */
+export function getPaymentChannel(description: string): string {
+  const text = description.toUpperCase();
+  if (/\bUPI\b|^UPI[/-]/.test(text)) return 'UPI';
+  if (/\bNEFT\b/.test(text)) return 'NEFT';
+  if (/\bIMPS\b|^MMT\//.test(text)) return 'IMPS';
+  if (/\bRTGS\b/.test(text)) return 'RTGS';
+  if (/\b(ACH|NACH|ECS|SI|AUTOPAY|MANDATE)\b/.test(text)) return 'Autopay';
+  if (/\b(ATM|ATW|NWD|CASH WDL)\b/.test(text)) return 'ATM';
+  if (/\b(POS|PCD|DEBIT CARD|VPS|VIN)\b/.test(text)) return 'Debit Card';
+  if (/\b(CHQ|CHEQUE|CLG)\b/.test(text)) return 'Cheque';
+  return 'Bank Transfer';
+}
+
+/**
+ * Base class for bank statement adapters
+ * Subclasses describe their header layouts; reading, detection and parsing are shared.
+ * Spreadsheets are recognised by header signature. PDFs are read into the same rows
+ * through their header line; encrypted ones are matched by file name and need a password.
+ */
+export abstract class BankStatementAdapter extends BaseAppAdapter {
+  readonly supportedFormats = [FileFormat.CSV, FileFormat.XLSX, FileFormat.PDF];
+
+  /**
+   * Bank name shown as the transaction product
+   */
+  abstract readonly bankName: string;
+
+  /**
+   * Header layouts the bank uses across its download formats
+   */
+  protected abstract readonly layouts: BankStatementLayout[];
+
+  async detect(file: File): Promise<DetectionResult> {
+    try {
+      const name = file.name.toLowerCase();
+      // File names the bank gives its downloads; the only clue for encrypted PDFs
+      const nameMatches = Boolean(this.metadata.fileNamePattern?.test(name));
+
+      if (name.endsWith('.pdf')) {
+        const lines = (await this.readForDetection(file)) as PdfTextLine[] | null;
+
+        // Encrypted: the transaction table can't be read without the password, so trust the name
+        if (!lines) {
+          return nameMatches
+            ? { canHandle: true, confidence: 0.6, requiresPassword: true, signals: ['file name', 'encrypted PDF'] }
+            : { canHandle: false, confidence: 0 };
+        }
+
+        if (this.findPdfHeader(lines) !== -1) {
+          return { canHandle: true, confidence: 0.9, signals: ['column headers'] };
+        }
+        return { canHandle: false, confidence: 0 };
+      }
+
+      if (name.endsWith('.csv') || name.endsWith('.xls') || name.endsWith('.xlsx')) {
+        const rows = (await this.readForDetection(file)) as string[][] | null;
+        if (rows && this.findLayout(rows)) {
+          return {
+            canHandle: true,
+            confidence: nameMatches ? 0.95 : 0.9,
+            signals: nameMatches ? ['column headers', 'file name'] : ['column headers'],
+          };
+        }
+      }
+
+      return { canHandle: false, confidence: 0 };
+    } catch (error) {
+      return { canHandle: false, confidence: 0 };
+    }
+  }
+
+  /**
+   * Read the statement into rows; PDFs are decrypted and rebuilt into a table here
+   */
+  async extract(file: File, password?: string): Promise<Record<string, string>> {
+    const buffer = await this.readFileAsArrayBuffer(file);
+
+    if (!file.name.toLowerCase().endsWith('.pdf')) {
+      return { bankRows: JSON.stringify(readSpreadsheetRows(buffer, file.name)) };
+    }
+
+    if (isPDFEncrypted(buffer) && !password) {
+      throw new Error(`Password required for ${this.bankName} PDF`);
+    }
+
+    const result = await extractPDFLines(buffer, password);
+    if (!result.success || !result.lines) {
+      throw new Error(result.error || `Failed to read ${this.bankName} PDF`);
+    }
+
+    const headerIndex = this.findPdfHeader(result.lines);
+    if (headerIndex === -1) {
+      throw new Error(`No ${this.bankName} transaction table found in the PDF`);
+    }
+
+    return { bankRows: JSON.stringify(pdfLinesToRows(result.lines, headerIndex)) };
+  }
+
+  async parse(rawData: Record<string, string>): Promise<ParseResult> {
+    try {
+      if (!rawData.bankRows) {
+        return { success: false, error: `No ${this.bankName} statement data found` };
+      }
+
+      const rows = JSON.parse(rawData.bankRows) as string[][];
+      const match = this.findLayout(rows);
+      if (!match) {
+        return { success: false, error: `Unrecognised ${this.bankName} statement layout` };
+      }
+
+      const { transactions, activities, report } = applyMapping(rows, match.mapping, this.appId);
+
+      return {
+        success: true,
+        data: {
+          transactions: transactions.map(transaction => ({
+            ...transaction,
+            product: this.bankName,
+            method: getPaymentChannel(transaction.description),
+            // UPI narrations carry the 12-digit RRN, which links them to UPI app exports
+            referenceId: transaction.referenceId || transaction.description.match(/\b\d{12}\b/)?.[0],
+          })),
+          groupExpenses: [],
+          cashbackRewards: [],
+          voucherRewards: [],
+          activities,
+        },
+        report,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `Failed to parse ${this.bankName} statement`,
+      };
+    }
+  }
+
+  /**
+   * Find the header row of any of the bank's layouts
+   */
+  findLayout(rows: string[][]): BankLayoutMatch | null {
+    const limit = Math.min(rows.length, HEADER_SCAN_ROWS);
+    for (let i = 0; i < limit; i++) {
+      for (const layout of this.layouts) {
+        const match = matchBankLayout(rows[i], layout, i);
+        if (match) return match;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Spreadsheet rows, or PDF lines (null when the PDF is encrypted), shared across adapters
+   */
+  protected readForDetection(file: File): Promise<string[][] | PdfTextLine[] | null> {
+    let pending = detectionCache.get(file);
+    if (!pending) {
+      pending = this.readFileAsArrayBuffer(file).then(async buffer => {
+        if (!file.name.toLowerCase().endsWith('.pdf')) {
+          return readSpreadsheetRows(buffer, file.name);
+        }
+        if (isPDFEncrypted(buffer)) return null;
+
+        const result = await extractPDFLines(buffer);
+        return result.lines || [];
+      });
+      detectionCache.set(file, pending);
+    }
+    return pending;
+  }
+
+  protected findPdfHeader(lines: PdfTextLine[]): number {
+    return lines.findIndex((line, index) =>
+      this.layouts.some(layout => matchBankLayout(line.items.map(item => item.text), layout, index))
+    );
+  }
+}
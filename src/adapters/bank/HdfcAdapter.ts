@@ -0,0 +1,40 @@
+// HDFC Bank adapter - handles HDFC Bank account statement (XLS/CSV/PDF)
+
+import { BankStatementAdapter, type BankStatementLayout } from './BankStatementAdapter';
+import { UpiApp, type AdapterMetadata } from '../../types/app.types';
+
+/**
+ * HDFC Bank adapter
+ * Detected by the statement's column headers; encrypted PDFs by file name
+ */
+export class HdfcAdapter extends BankStatementAdapter {
+  readonly appId = UpiApp.HDFC;
+  readonly bankName = 'HDFC Bank';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'HDFC Bank',
+    icon: '🏦',
+    color: '#004C8F',
+    category: 'bank',
+    fileNamePattern: /hdfc|acct_statement/,
+    exportGuide: [
+      { text: 'NetBanking → Accounts → Account Statement' },
+      { text: 'Select the period and download as Delimited, XLS or PDF' },
+    ],
+    passwordHint: {
+      text: 'HDFC Bank account statements are usually locked with your Customer ID',
+      schemes: ['customer_id'],
+    },
+    fixtures: ['hdfc_acct_statement.csv'],
+  };
+
+  protected readonly layouts: BankStatementLayout[] = [
+    {
+      // NetBanking XLS/delimited download and e-statement PDF
+      date: 'Date',
+      description: 'Narration',
+      debit: 'Withdrawal Amt',
+      credit: 'Deposit Amt',
+      reference: 'Chq./Ref.No.',
+    },
+  ];
+}
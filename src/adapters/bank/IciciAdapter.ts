@@ -0,0 +1,40 @@
+// ICICI Bank adapter - handles ICICI Bank account statement (XLS/PDF)
+
+import { BankStatementAdapter, type BankStatementLayout } from './BankStatementAdapter';
+import { UpiApp, type AdapterMetadata } from '../../types/app.types';
+
+/**
+ * ICICI Bank adapter
+ * Detected by the statement's column headers; encrypted PDFs by file name
+ */
+export class IciciAdapter extends BankStatementAdapter {
+  readonly appId = UpiApp.ICICI;
+  readonly bankName = 'ICICI Bank';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'ICICI Bank',
+    icon: '🏦',
+    color: '#F37021',
+    category: 'bank',
+    fileNamePattern: /icici|optransactionhistory/,
+    exportGuide: [
+      { text: 'Internet Banking → My Accounts → Bank Accounts → Account Statement' },
+      { text: 'Download the detailed statement as XLS or PDF' },
+    ],
+    passwordHint: {
+      text: 'ICICI Bank statements usually use the first 4 letters of your name followed by your day and month of birth (DDMM)',
+      schemes: ['name_ddmm'],
+    },
+    fixtures: ['icici_optransactionhistory.csv'],
+  };
+
+  protected readonly layouts: BankStatementLayout[] = [
+    {
+      // OpTransactionHistory XLS and PDF
+      date: 'Transaction Date',
+      description: 'Transaction Remarks',
+      debit: 'Withdrawal Amount',
+      credit: 'Deposit Amount',
+      reference: 'Cheque Number',
+    },
+  ];
+}
@@ -0,0 +1,48 @@
+// Kotak adapter - handles Kotak Mahindra Bank account statement (CSV/XLS/PDF)
+
+import { BankStatementAdapter, type BankStatementLayout } from './BankStatementAdapter';
+import { UpiApp, type AdapterMetadata } from '../../types/app.types';
+
+/**
+ * Kotak adapter
+ * Detected by the statement's column headers; encrypted PDFs by file name
+ */
+export class KotakAdapter extends BankStatementAdapter {
+  readonly appId = UpiApp.KOTAK;
+  readonly bankName = 'Kotak Mahindra Bank';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'Kotak',
+    icon: '🏦',
+    color: '#ED1C24',
+    category: 'bank',
+    fileNamePattern: /kotak/,
+    exportGuide: [
+      { text: 'Net Banking → Banking → Account Statement' },
+      { text: 'Download as CSV, XLS or PDF' },
+    ],
+    passwordHint: {
+      text: 'Kotak statements are usually locked with your CRN (customer relationship number)',
+      schemes: ['customer_id'],
+    },
+    fixtures: ['kotak_statement.csv'],
+  };
+
+  protected readonly layouts: BankStatementLayout[] = [
+    {
+      // Net banking CSV with a Dr/Cr column
+      date: 'Transaction Date',
+      description: 'Description',
+      amount: 'Amount',
+      debitCredit: 'Dr / Cr',
+      reference: 'Chq / Ref No',
+    },
+    {
+      // Net banking XLS/PDF with withdrawal and deposit columns
+      date: 'Date',
+      description: 'Narration',
+      debit: 'Withdrawal (Dr)',
+      credit: 'Deposit (Cr)',
+      reference: 'Chq/Ref No',
+    },
+  ];
+}
@@ -0,0 +1,48 @@
+// SBI adapter - handles SBI account statement (XLS/PDF)
+
+import { BankStatementAdapter, type BankStatementLayout } from './BankStatementAdapter';
+import { UpiApp, type AdapterMetadata } from '../../types/app.types';
+
+/**
+ * SBI adapter
+ * Detected by the statement's column headers; encrypted PDFs by file name
+ */
+export class SbiAdapter extends BankStatementAdapter {
+  readonly appId = UpiApp.SBI;
+  readonly bankName = 'SBI';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'SBI',
+    icon: '🏦',
+    color: '#22409A',
+    category: 'bank',
+    fileNamePattern: /sbi|state.?bank/,
+    exportGuide: [
+      { text: 'Log in to OnlineSBI → My Accounts & Profile → Account Statement' },
+      { text: 'Choose the period and download as Excel or PDF' },
+    ],
+    passwordHint: {
+      text: 'SBI e-statements are usually locked with the last 5 digits of your registered mobile number followed by your date of birth (DDMMYY)',
+      schemes: ['phone5_ddmmyy'],
+    },
+    fixtures: ['sbi_statement.csv'],
+  };
+
+  protected readonly layouts: BankStatementLayout[] = [
+    {
+      // Internet banking XLS (tab-separated text) and PDF
+      date: 'Txn Date',
+      description: 'Description',
+      debit: 'Debit',
+      credit: 'Credit',
+      reference: 'Ref No./Cheque No.',
+    },
+    {
+      // YONO statement download
+      date: 'Date',
+      description: 'Details',
+      debit: 'Debit',
+      credit: 'Credit',
+      reference: 'Ref No/Cheque No',
+    },
+  ];
+}
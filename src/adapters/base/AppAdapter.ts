@@ -1,7 +1,7 @@
 // Base adapter interface for UPI app data processing
 
-import type { UpiAppId, FileFormat } from '../../types/app.types';
-import type { ParsedData } from '../../types/data.types';
+import type { UpiAppId, FileFormat, AdapterMetadata } from '../../types/app.types';
+import type { ParsedData, ImportReport } from '../../types/data.types';
 
 /**
  * Result from file detection
@@ -10,6 +10,38 @@ export interface DetectionResult {
   canHandle: boolean;
   confidence: number; // 0-1
   requiresPassword?: boolean;
+  signals?: string[]; // Evidence that matched, shown in the detection report
+}
+
+/**
+ * Confidence below which a detection is only a guess: the file isn't imported
+ * until the user confirms the app
+ */
+export const MIN_DETECTION_CONFIDENCE = 0.5;
+
+/**
+ * One piece of evidence that a file comes from an app (file name, headers, brand text...)
+ */
+export interface DetectionSignal {
+  label: string; // Shown in the detection report, e.g. "file name"
+  matched: boolean;
+  weight: number; // Confidence it adds when matched
+}
+
+/**
+ * Confidence from independent detection signals: the sum of the matched weights,
+ * capped below certainty so an exact format match can still outrank it
+ */
+export function scoreDetection(signals: DetectionSignal[]): number {
+  const score = signals.reduce((sum, signal) => (signal.matched ? sum + signal.weight : sum), 0);
+  return Math.min(Math.round(score * 100) / 100, 0.95);
+}
+
+/**
+ * Labels of the signals that matched, for DetectionResult.signals
+ */
+export function getMatchedSignals(signals: DetectionSignal[]): string[] {
+  return signals.filter(signal => signal.matched).map(signal => signal.label);
 }
 
 /**
@@ -19,6 +51,8 @@ export interface ParseResult {
   success: boolean;
   data?: Partial<ParsedData>; // Each adapter returns what it can parse
   error?: string;
+  warnings?: string[]; // Non-fatal notes, e.g. fields in the file that weren't imported
+  report?: ImportReport; // Rows read, parsed and skipped (with reasons)
 }
 
 /**
@@ -36,6 +70,11 @@ export interface AppAdapter {
    */
   readonly supportedFormats: FileFormat[];
 
+  /**
+   * Display details, file name signature, export guide and sample fixtures
+   */
+  readonly metadata: AdapterMetadata;
+
   /**
    * Detect if this adapter can handle the given file
    * @param file - File to analyze
@@ -68,6 +107,7 @@ export interface AppAdapter {
 export abstract class BaseAppAdapter implements AppAdapter {
   abstract readonly appId: UpiAppId;
   abstract readonly supportedFormats: FileFormat[];
+  abstract readonly metadata: AdapterMetadata;
 
   abstract detect(file: File, content?: string | ArrayBuffer): Promise<DetectionResult>;
   abstract extract(file: File, password?: string): Promise<Record<string, string>>;
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { cleanDescription } from './UpiStatementAdapter';
+import { scoreDetection } from './AppAdapter';
+import { AmazonPayAdapter } from '../amazonpay/AmazonPayAdapter';
+import { CredAdapter } from '../cred/CredAdapter';
+import { MobiKwikAdapter } from '../mobikwik/MobiKwikAdapter';
+
+const csvFile = (name: string, rows: string[][]) =>
+  new File([rows.map(row => row.map(cell => `"${cell}"`).join(',')).join('\n')], name, {
+    type: 'text/csv',
+  });
+
+const mobikwikRows = [
+  ['MobiKwik Wallet Statement', '', '', '', ''],
+  ['Date', 'Transaction Id', 'Description', 'Debit', 'Credit'],
+  ['01/06/2025 10:15', 'MBK1234567', 'Paid to Swiggy', '250.00', ''],
+  ['02/06/2025 18:40', 'MBK1234568', 'Wallet top-up from HDFC Bank', '', '1000.00'],
+];
+
+const credRows = [
+  ['Date', 'Transaction Details', 'Type', 'Amount', 'UTR'],
+  ['05/06/2025', 'Paid to Blinkit Transaction ID CRD987654 UTR No. 512345678901', 'Debit', '₹640.00', '512345678901'],
+];
+
+describe('UpiStatementAdapter', () => {
+  describe('scoreDetection', () => {
+    it('should add the weights of matched signals and stay below certainty', () => {
+      expect(
+        scoreDetection([
+          { label: 'headers', matched: true, weight: 0.5 },
+          { label: 'brand', matched: false, weight: 0.35 },
+        ])
+      ).toBe(0.5);
+      expect(
+        scoreDetection([
+          { label: 'headers', matched: true, weight: 0.6 },
+          { label: 'brand', matched: true, weight: 0.6 },
+        ])
+      ).toBe(0.95);
+    });
+  });
+
+  describe('detect', () => {
+    it('should score brand text higher than a matching file name', async () => {
+      const branded = await new MobiKwikAdapter().detect(csvFile('statement.csv', mobikwikRows));
+      const named = await new MobiKwikAdapter().detect(csvFile('mobikwik_statement.csv', mobikwikRows.slice(1)));
+      const both = await new MobiKwikAdapter().detect(csvFile('mobikwik_statement.csv', mobikwikRows));
+
+      expect(branded).toEqual({
+        canHandle: true,
+        confidence: 0.85,
+        signals: ['column headers', 'app name in statement'],
+      });
+      expect(named).toEqual({ canHandle: true, confidence: 0.6, signals: ['column headers', 'file name'] });
+      expect(both.confidence).toBe(0.95);
+    });
+
+    it('should not claim a matching table without the app name', async () => {
+      const file = csvFile('statement.csv', mobikwikRows.slice(1));
+
+      expect((await new MobiKwikAdapter().detect(file)).canHandle).toBe(false);
+      expect((await new AmazonPayAdapter().detect(file)).canHandle).toBe(false);
+    });
+
+    it('should not mistake credit card files for CRED', async () => {
+      const file = csvFile('credit_card.csv', credRows);
+      expect((await new CredAdapter().detect(file)).canHandle).toBe(false);
+      expect((await new CredAdapter().detect(csvFile('cred_upi.csv', credRows))).canHandle).toBe(true);
+    });
+  });
+
+  describe('parse', () => {
+    it('should read wallet statements as UPI and wallet payments', async () => {
+      const result = await new MobiKwikAdapter().parse({ bankRows: JSON.stringify(mobikwikRows) });
+
+      expect(result.data?.transactions).toHaveLength(1);
+      expect(result.data?.transactions?.[0]).toMatchObject({
+        description: 'Paid to Swiggy',
+        product: 'MobiKwik',
+        method: 'UPI',
+        sourceApp: 'mobikwik',
+      });
+      expect(result.data?.transactions?.[0].time).toEqual(new Date(2025, 5, 1, 10, 15));
+      expect(result.data?.activities).toHaveLength(1);
+    });
+
+    it('should strip reference labels from the details and keep the UTR', async () => {
+      const result = await new CredAdapter().parse({ bankRows: JSON.stringify(credRows) });
+
+      expect(result.data?.transactions?.[0]).toMatchObject({
+        description: 'Paid to Blinkit',
+        referenceId: '512345678901',
+        amount: { value: 640, currency: 'INR' },
+      });
+    });
+  });
+
+  describe('cleanDescription', () => {
+    it('should keep descriptions that are only a reference', () => {
+      expect(cleanDescription('Order ID 402-1234567')).toBe('Order ID 402-1234567');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+// Base adapter for UPI apps whose official export is a statement table (PDF or CSV)
+
+import { DetectionResult, DetectionSignal, ParseResult, getMatchedSignals, scoreDetection } from './AppAdapter';
+import { BankStatementAdapter } from '../bank/BankStatementAdapter';
+import type { PdfTextLine } from '../../utils/pdfParser';
+
+// Rows scanned for the app's name; it sits in the title or preamble
+const BRAND_SCAN_ROWS = 40;
+
+// Reference labels that statement cells fold into the transaction details
+const REFERENCE_LABELS =
+  /\s*\b(transaction id|txn id|order id|utr no\.?|utr|upi ref(erence)? no\.?)\s*[:.-]?\s*[A-Za-z0-9/-]+/gi;
+
+/**
+ * Base class for UPI app statements (Amazon Pay, CRED, MobiKwik)
+ * Tables are read like bank statements, but the column headers are too common to
+ * identify the app on their own, so detection scores three signals:
+ * - the transaction table matches one of the app's layouts (required)
+ * - the app's name appears in the statement
+ * - the file name is the one the app gives its downloads
+ */
+export abstract class UpiStatementAdapter extends BankStatementAdapter {
+  /**
+   * The app's name as printed on its statements
+   */
+  protected abstract readonly brandPattern: RegExp;
+
+  async detect(file: File): Promise<DetectionResult> {
+    try {
+      const name = file.name.toLowerCase();
+      const nameMatches = Boolean(this.metadata.fileNamePattern?.test(name));
+      const isPdf = name.endsWith('.pdf');
+
+      if (!isPdf && !name.endsWith('.csv') && !name.endsWith('.xls') && !name.endsWith('.xlsx')) {
+        return { canHandle: false, confidence: 0 };
+      }
+
+      const content = await this.readForDetection(file);
+
+      // Encrypted PDF: only the file name can tell
+      if (!content) {
+        return nameMatches
+          ? { canHandle: true, confidence: 0.6, requiresPassword: true, signals: ['file name', 'encrypted PDF'] }
+          : { canHandle: false, confidence: 0 };
+      }
+
+      let layoutMatches: boolean;
+      let text: string;
+      if (isPdf) {
+        const lines = content as PdfTextLine[];
+        layoutMatches = this.findPdfHeader(lines) !== -1;
+        text = lines
+          .slice(0, BRAND_SCAN_ROWS)
+          .map(line => line.items.map(item => item.text).join(' '))
+          .join('\n');
+      } else {
+        const rows = content as string[][];
+        layoutMatches = this.findLayout(rows) !== null;
+        text = rows
+          .slice(0, BRAND_SCAN_ROWS)
+          .map(row => row.join(' '))
+          .join('\n');
+      }
+      const brandMatches = this.brandPattern.test(text);
+
+      // The headers alone would claim every similar bank or wallet statement
+      if (!layoutMatches || (!brandMatches && !nameMatches)) {
+        return { canHandle: false, confidence: 0 };
+      }
+
+      const signals: DetectionSignal[] = [
+        { label: 'column headers', matched: layoutMatches, weight: 0.5 },
+        { label: 'app name in statement', matched: brandMatches, weight: 0.35 },
+        { label: 'file name', matched: nameMatches, weight: 0.1 },
+      ];
+      return { canHandle: true, confidence: scoreDetection(signals), signals: getMatchedSignals(signals) };
+    } catch (error) {
+      return { canHandle: false, confidence: 0 };
+    }
+  }
+
+  /**
+   * Parse the table like a bank statement, then tidy the app's narration
+   */
+  async parse(rawData: Record<string, string>): Promise<ParseResult> {
+    const result = await super.parse(rawData);
+    if (!result.success || !result.data) return result;
+
+    return {
+      ...result,
+      data: {
+        ...result.data,
+        transactions: (result.data.transactions || []).map(transaction => ({
+          ...transaction,
+          description: cleanDescription(transaction.description),
+          method: this.getMethod(transaction.description),
+        })),
+        activities: (result.data.activities || []).map(activity => ({
+          ...activity,
+          description: activity.description && cleanDescription(activity.description),
+          sender: activity.sender && cleanDescription(activity.sender),
+        })),
+      },
+    };
+  }
+
+  /**
+   * How a payment was made: UPI unless the narration names the app's wallet
+   */
+  protected getMethod(description: string): string {
+    return /\b(wallet|balance)\b/i.test(description) ? 'Wallet' : 'UPI';
+  }
+}
+
+/**
+ * Drop reference labels that multi-line PDF cells merge into the details
+ * ("Paid to Swiggy Transaction ID T2506 UTR No. 5123..." -> "Paid to Swiggy")
+ */
+export function cleanDescription(description: string): string {
+  return description.replace(REFERENCE_LABELS, '').replace(/\s+/g, ' ').trim() || description;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { BhimAdapter } from './BhimAdapter';
+
+const header = ['Date', 'Time', 'Bank Name', 'Account Number', 'Sender', 'Receiver', 'Payment ID', 'Pay/Collect', 'Amount', 'DR/CR', 'Status'];
+
+const tableHtml = (rows: string[][]) => `<!DOCTYPE html>
+<html><body><table>
+  <tr>${header.map(cell => `<th>${cell}</th>`).join('')}</tr>
+  ${rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('\n')}
+</table></body></html>`;
+
+describe('BhimAdapter', () => {
+  const adapter = new BhimAdapter();
+
+  it('should import successful payments from the HTML table', async () => {
+    const html = tableHtml([
+      ['05/06/2025', '14:30:00', 'SBI', 'XX1234', 'me@upi', 'swiggy@axl', 'P001', 'PAY', '1,250.00', 'DR', 'SUCCESS'],
+      ['05/06/2025', '14:31:00', 'SBI', 'XX1234', 'me@upi', 'swiggy@axl', 'P001', 'PAY', '1,250.00', 'DR', 'SUCCESS'],
+      ['06/06/2025', '09:00:00', 'SBI', 'XX1234', 'friend@upi', 'me@upi', 'P002', 'PAY', '500.00', 'CR', 'SUCCESS'],
+      ['07/06/2025', '10:00:00', 'SBI', 'XX1234', 'me@upi', 'shop@upi', 'P003', 'PAY', '80.00', 'DR', 'FAILURE'],
+    ]);
+
+    const result = await adapter.parse({ bhimHtml: html });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.transactions).toHaveLength(1);
+    expect(result.data?.transactions?.[0]).toMatchObject({
+      id: 'P001',
+      description: 'PAY - To swiggy@axl',
+      amount: { value: 1250, currency: 'INR' },
+      method: 'SBI (XX1234)',
+      time: new Date(2025, 5, 5, 14, 30, 0),
+    });
+    expect(result.report?.skipped.map(skip => skip.reason)).toEqual([
+      'Duplicate payment ID',
+      'Money received (only payments are imported)',
+      'Status "FAILURE"',
+    ]);
+  });
+
+  it('should import payments from the embedded XML', async () => {
+    const html = `<html><head><script>
+      var DATA = '<?xml version="1.0"?><UPITransactions><Transactions>` +
+      `<Transaction Id="T1" Amount="99.50" Bank="HDFC" AccountNumber="XX9876" BenefitType="DR" PayeeVpa="zomato@hdfc" PayerVpa="me@upi" Time="2025-06-10T12:00:00.000Z" Type="PAY"/>` +
+      `<Transaction Id="T2" Amount="10" BenefitType="CR" PayeeVpa="me@upi" PayerVpa="x@upi" Time="2025-06-11T12:00:00.000Z" Type="PAY"/>` +
+      `</Transactions></UPITransactions>';
+    </script></head><body>BHIM - Bharat Interface For Money</body></html>`;
+
+    const result = await adapter.parse({ bhimHtml: html });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.transactions).toHaveLength(1);
+    expect(result.data?.transactions?.[0]).toMatchObject({
+      id: 'T1',
+      description: 'PAY - To zomato@hdfc',
+      amount: { value: 99.5, currency: 'INR' },
+      method: 'HDFC (XX9876)',
+      time: new Date('2025-06-10T12:00:00.000Z'),
+    });
+  });
+});
@@ -1,11 +1,18 @@
 // BHIM adapter - handles BHIM HTML transaction history export
 
-import JSZip from 'jszip';
 import { BaseAppAdapter, DetectionResult, ParseResult } from '../base/AppAdapter';
-import { UpiApp, FileFormat } from '../../types/app.types';
-import { Transaction, Currency } from '../../types/data.types';
-import { TransactionCategory } from '../../utils/categoryUtils';
-import { classifyTransaction } from '../../utils/multi-layer-classifier';
+import { UpiApp, FileFormat, type AdapterMetadata } from '../../types/app.types';
+import { Transaction, Currency, ImportReport } from '../../types/data.types';
+import { classifyRecord } from '../../utils/multi-layer-classifier';
+import { createImportReport, recordParsed, recordSkipped } from '../../utils/importReport';
+import { listZip, loadZip } from '../../utils/zipUtils';
+import {
+  byName,
+  findElements,
+  parseMarkup,
+  textContent,
+  type MarkupElement,
+} from '../../utils/markupParser';
 
 /**
  * BHIM adapter - handles BHIM HTML export (supports both ZIP and HTML formats)
@@ -13,6 +20,17 @@ import { classifyTransaction } from '../../utils/multi-layer-classifier';
 export class BhimAdapter extends BaseAppAdapter {
   readonly appId = UpiApp.BHIM;
   readonly supportedFormats = [FileFormat.HTML, FileFormat.ZIP];
+  readonly metadata: AdapterMetadata = {
+    displayName: 'BHIM',
+    icon: '🟠',
+    color: '#FF6B35',
+    category: 'upi',
+    fileNamePattern: /bhim/,
+    exportGuide: [
+      { text: 'Open BHIM app and go to Transaction History' },
+      { text: 'Export as HTML file (or the ZIP it comes in)' },
+    ],
+  };
 
   /**
    * Detect if file is BHIM HTML export (supports both ZIP and HTML)
@@ -23,19 +41,29 @@ export class BhimAdapter extends BaseAppAdapter {
 
       // Handle ZIP files
       if (file.name.endsWith('.zip')) {
-        const arrayBuffer = await this.readFileAsArrayBuffer(file);
-        const zip = await JSZip.loadAsync(arrayBuffer);
+        const { names, encrypted } = await listZip(file);
 
         // Look for HTML file inside ZIP
-        const htmlFile = Object.keys(zip.files).find(name =>
-          name.endsWith('.html') || name.endsWith('.htm')
-        );
+        const htmlFile = names.find(name => name.endsWith('.html') || name.endsWith('.htm'));
 
         if (!htmlFile) {
           return { canHandle: false, confidence: 0 };
         }
 
+        // Encrypted: the content can't be checked before the password is entered,
+        // so only a BHIM file name is confident enough to ask for it
+        if (encrypted) {
+          const nameMatches = this.metadata.fileNamePattern!.test(file.name.toLowerCase());
+          return {
+            canHandle: true,
+            confidence: nameMatches ? 0.85 : 0.3,
+            requiresPassword: true,
+            signals: nameMatches ? ['HTML file in encrypted ZIP', 'file name'] : ['HTML file in encrypted ZIP'],
+          };
+        }
+
         // Extract HTML content for checking
+        const zip = await loadZip(file);
         htmlToCheck = await zip.files[htmlFile].async('text');
       }
       // Handle HTML files
@@ -53,7 +81,7 @@ export class BhimAdapter extends BaseAppAdapter {
         htmlToCheck.includes('BHIM - Bharat Interface For Money');
 
       if (hasXmlFormat) {
-        return { canHandle: true, confidence: 0.95 };
+        return { canHandle: true, confidence: 0.95, signals: ['BHIM transaction data'] };
       }
 
       // Check for old table format
@@ -64,7 +92,7 @@ export class BhimAdapter extends BaseAppAdapter {
         htmlToCheck.includes('DR/CR');
 
       if (hasTableFormat) {
-        return { canHandle: true, confidence: 0.9 };
+        return { canHandle: true, confidence: 0.9, signals: ['BHIM table columns'] };
       }
 
       return { canHandle: false, confidence: 0 };
@@ -76,13 +104,12 @@ export class BhimAdapter extends BaseAppAdapter {
   /**
    * Extract raw data from BHIM file (HTML or ZIP)
    */
-  async extract(file: File): Promise<Record<string, string>> {
+  async extract(file: File, password?: string): Promise<Record<string, string>> {
     let html: string;
 
-    // Handle ZIP files
+    // Handle ZIP files (decrypted first when password-protected)
     if (file.name.endsWith('.zip')) {
-      const arrayBuffer = await this.readFileAsArrayBuffer(file);
-      const zip = await JSZip.loadAsync(arrayBuffer);
+      const zip = await loadZip(file, password);
 
       // Find HTML file inside ZIP
       const htmlFile = Object.keys(zip.files).find(name =>
@@ -116,13 +143,11 @@ export class BhimAdapter extends BaseAppAdapter {
 
       // Check if HTML table exists (preferred format as it has status info)
       // Try table format first because it contains complete status information
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(html, 'text/html');
-      const table = doc.querySelector('table');
+      const table = findElements(parseMarkup(html, 'html'), byName('table'))[0];
 
       if (table) {
         // Use HTML table parser - it has status information
-        const transactions = this.parseBhimHtmlTable(html);
+        const { transactions, report } = this.parseBhimHtmlTable(table);
         return {
           success: true,
           data: {
@@ -132,12 +157,13 @@ export class BhimAdapter extends BaseAppAdapter {
             voucherRewards: [],
             activities: [],
           },
+          report,
         };
       }
 
       // Fall back to XML format if table not found
       if (html.includes('var DATA') && html.includes('<UPITransactions')) {
-        const transactions = this.parseBhimXml(html);
+        const { transactions, report } = this.parseBhimXml(html);
         return {
           success: true,
           data: {
@@ -147,6 +173,7 @@ export class BhimAdapter extends BaseAppAdapter {
             voucherRewards: [],
             activities: [],
           },
+          report,
         };
       }
 
@@ -179,53 +206,54 @@ export class BhimAdapter extends BaseAppAdapter {
    * Parse BHIM XML format (embedded in JavaScript variable)
    * XML structure: <UPITransactions><Transactions><Transaction .../></Transactions></UPITransactions>
    */
-  private parseBhimXml(html: string): Transaction[] {
+  private parseBhimXml(html: string): { transactions: Transaction[]; report: ImportReport } {
     const transactions: Transaction[] = [];
+    const report = createImportReport();
 
     try {
       // Extract XML from JavaScript variable
       const match = html.match(/var DATA\s*=\s*'(.*?)';/s);
       if (!match || !match[1]) {
         console.warn('Could not find DATA variable in BHIM HTML');
-        return [];
+        return { transactions, report };
       }
 
       const xmlString = match[1];
 
       // Parse XML
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlString, 'text/xml');
-
-      // Check for parsing errors
-      const parserError = xmlDoc.querySelector('parsererror');
-      if (parserError) {
-        console.error('XML parsing error:', parserError.textContent);
-        return [];
+      let xmlDoc: MarkupElement;
+      try {
+        xmlDoc = parseMarkup(xmlString, 'xml');
+      } catch (error) {
+        console.error('XML parsing error:', error instanceof Error ? error.message : error);
+        return { transactions, report };
       }
 
       // Get all transaction elements
-      const transactionElements = xmlDoc.querySelectorAll('Transaction');
+      const transactionElements = findElements(xmlDoc, byName('Transaction'));
 
       // Use a Set to track transaction IDs and avoid duplicates
       // BHIM exports sometimes contain duplicate transactions
       const seenIds = new Set<string>();
 
-      for (const element of transactionElements) {
+      transactionElements.forEach((element, index) => {
+        const snippet = Object.entries(element.attributes).map(([name, value]) => `${name}: ${value}`);
         try {
           // Extract attributes
-          const accountNumber = element.getAttribute('AccountNumber') || '';
-          const amountStr = element.getAttribute('Amount') || '0';
-          const bank = element.getAttribute('Bank') || '';
-          const benefitType = element.getAttribute('BenefitType') || ''; // CR (credit) or DR (debit)
-          const id = element.getAttribute('Id') || '';
-          const payeeVpa = element.getAttribute('PayeeVpa') || '';
-          const payerVpa = element.getAttribute('PayerVpa') || '';
-          const timeStr = element.getAttribute('Time') || '';
-          const type = element.getAttribute('Type') || '';
+          const accountNumber = element.attributes.AccountNumber || '';
+          const amountStr = element.attributes.Amount || '0';
+          const bank = element.attributes.Bank || '';
+          const benefitType = element.attributes.BenefitType || ''; // CR (credit) or DR (debit)
+          const id = element.attributes.Id || '';
+          const payeeVpa = element.attributes.PayeeVpa || '';
+          const payerVpa = element.attributes.PayerVpa || '';
+          const timeStr = element.attributes.Time || '';
+          const type = element.attributes.Type || '';
 
           // Skip duplicate transactions
           if (seenIds.has(id)) {
-            continue;
+            recordSkipped(report, 'Duplicate transaction ID', snippet, index + 1);
+            return;
           }
           seenIds.add(id);
 
@@ -249,11 +277,12 @@ export class BhimAdapter extends BaseAppAdapter {
           // Transactions array is meant for expenses/spending only
           // Credits (money received) should not be included
           if (benefitType !== 'DR') {
-            continue;
+            recordSkipped(report, 'Money received (only payments are imported)', snippet, index + 1);
+            return;
           }
 
           // Classify transaction
-          const category = classifyTransaction(description, amountValue);
+          const { category, classification } = classifyRecord(description, amountValue);
 
           // Create transaction
           const transaction: Transaction = {
@@ -264,21 +293,24 @@ export class BhimAdapter extends BaseAppAdapter {
             method: `${bank} (${accountNumber})`,
             status: 'Completed', // XML format doesn't have explicit status
             amount: amount,
-            category: category as TransactionCategory | undefined,
+            category,
+            classification,
+            referenceId: id || undefined,
             sourceApp: this.appId,
           };
 
           transactions.push(transaction);
+          recordParsed(report);
         } catch (error) {
           console.error('Error parsing BHIM XML transaction:', error);
-          continue;
+          recordSkipped(report, error instanceof Error ? error.message : 'Unreadable transaction', snippet, index + 1);
         }
-      }
+      });
 
-      return transactions;
+      return { transactions, report };
     } catch (error) {
       console.error('Error parsing BHIM XML:', error);
-      return [];
+      return { transactions, report };
     }
   }
 
@@ -286,20 +318,11 @@ export class BhimAdapter extends BaseAppAdapter {
    * Parse BHIM HTML table
    * Table columns: Date | Time | Bank Name | Account Number | Sender | Receiver | Payment ID | Pay/Collect | Amount | DR/CR | Status
    */
-  private parseBhimHtmlTable(html: string): Transaction[] {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-
+  private parseBhimHtmlTable(table: MarkupElement): { transactions: Transaction[]; report: ImportReport } {
     const transactions: Transaction[] = [];
+    const report = createImportReport();
 
-    // Find the table (assuming single table or main table)
-    const table = doc.querySelector('table');
-    if (!table) {
-      console.warn('No table found in BHIM HTML');
-      return [];
-    }
-
-    const rows = table.querySelectorAll('tr');
+    const rows = findElements(table, byName('tr'));
 
     // Use a Set to track transaction IDs and avoid duplicates
     // BHIM exports sometimes contain duplicate transactions
@@ -308,26 +331,32 @@ export class BhimAdapter extends BaseAppAdapter {
     // Skip header row (first row)
     for (let i = 1; i < rows.length; i++) {
       const row = rows[i];
-      const cells = row.querySelectorAll('td');
+      // Cell text doubles as the snippet shown for skipped rows
+      const cells = findElements(row, byName('td')).map(cell => textContent(cell).trim());
 
-      if (cells.length < 11) continue; // Expect 11 columns
+      if (cells.length < 11) {
+        // Expect 11 columns
+        recordSkipped(report, `Expected 11 columns, found ${cells.length}`, cells, i);
+        continue;
+      }
 
       try {
         // Extract cell values
-        const dateStr = cells[0].textContent?.trim() || '';
-        const timeStr = cells[1].textContent?.trim() || '';
-        const bankName = cells[2].textContent?.trim() || '';
-        const accountNumber = cells[3].textContent?.trim() || '';
-        const sender = cells[4].textContent?.trim() || '';
-        const receiver = cells[5].textContent?.trim() || '';
-        const paymentId = cells[6].textContent?.trim() || '';
-        const payCollect = cells[7].textContent?.trim() || '';
-        const amountStr = cells[8].textContent?.trim() || '0';
-        const drCr = cells[9].textContent?.trim() || '';
-        const status = cells[10].textContent?.trim() || '';
+        const dateStr = cells[0] || '';
+        const timeStr = cells[1] || '';
+        const bankName = cells[2] || '';
+        const accountNumber = cells[3] || '';
+        const sender = cells[4] || '';
+        const receiver = cells[5] || '';
+        const paymentId = cells[6] || '';
+        const payCollect = cells[7] || '';
+        const amountStr = cells[8] || '0';
+        const drCr = cells[9] || '';
+        const status = cells[10] || '';
 
         // Skip duplicate transactions
         if (seenIds.has(paymentId)) {
+          recordSkipped(report, 'Duplicate payment ID', cells, i);
           continue;
         }
         seenIds.add(paymentId);
@@ -352,15 +381,17 @@ export class BhimAdapter extends BaseAppAdapter {
         // 1. Credits (money received) - drCr !== 'DR'
         // 2. Failed transactions - status !== 'SUCCESS'
         if (drCr !== 'DR') {
+          recordSkipped(report, 'Money received (only payments are imported)', cells, i);
           continue;
         }
 
         if (status !== 'SUCCESS') {
+          recordSkipped(report, `Status "${status}"`, cells, i);
           continue;
         }
 
         // Create transaction
-        const category = classifyTransaction(description, amountValue);
+        const { category, classification } = classifyRecord(description, amountValue);
         const transaction: Transaction = {
           time: transactionDate,
           id: paymentId,
@@ -369,17 +400,20 @@ export class BhimAdapter extends BaseAppAdapter {
           method: `${bankName} (${accountNumber})`,
           status: status,
           amount: amount,
-          category: category as TransactionCategory | undefined,
+          category,
+          classification,
+          referenceId: paymentId || undefined,
           sourceApp: this.appId,
         };
 
         transactions.push(transaction);
+        recordParsed(report);
       } catch (error) {
         console.error(`Error parsing BHIM row ${i}:`, error);
-        continue;
+        recordSkipped(report, error instanceof Error ? error.message : 'Unreadable row', cells, i);
       }
     }
 
-    return transactions;
+    return { transactions, report };
   }
 }
@@ -0,0 +1,39 @@
+// CRED adapter - handles CRED UPI transaction statements (PDF/CSV)
+
+import { UpiStatementAdapter } from '../base/UpiStatementAdapter';
+import type { BankStatementLayout } from '../bank/BankStatementAdapter';
+import { UpiApp, type AdapterMetadata } from '../../types/app.types';
+
+/**
+ * CRED adapter
+ * Detected by the statement's columns together with the CRED name or file name
+ */
+export class CredAdapter extends UpiStatementAdapter {
+  readonly appId = UpiApp.CRED;
+  readonly bankName = 'CRED';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'CRED',
+    icon: '⚫',
+    color: '#1C1C1C',
+    category: 'upi',
+    // "cred" on its own, so credit card statements don't match
+    fileNamePattern: /(^|[^a-z])cred([^a-z]|$)/,
+    exportGuide: [
+      { text: 'CRED app → UPI → Payment history' },
+      { text: 'Tap "Download statement" and pick the period' },
+    ],
+    fixtures: ['cred_upi_statement.csv'],
+  };
+
+  protected readonly layouts: BankStatementLayout[] = [
+    {
+      date: 'Date',
+      description: 'Transaction Details',
+      amount: 'Amount',
+      debitCredit: 'Type',
+      reference: 'UTR',
+    },
+  ];
+
+  protected readonly brandPattern = /\bCRED\b|cred\.club|dreamplug/;
+}
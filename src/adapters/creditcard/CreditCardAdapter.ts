@@ -0,0 +1,174 @@
+// Credit card adapter - handles credit card statements (PDF and CSV/XLS)
+
+import { BaseAppAdapter, DetectionResult, ParseResult } from '../base/AppAdapter';
+import { UpiApp, FileFormat, type AdapterMetadata } from '../../types/app.types';
+import { readSpreadsheetRows } from '../../utils/spreadsheetRows';
+import { extractPDFLines, isPDFEncrypted } from '../../utils/pdfParser';
+import { getSheetPreview } from '../../utils/columnMapping';
+import { createImportReport } from '../../utils/importReport';
+import {
+  buildCardStatementData,
+  detectIssuer,
+  parseCardStatementLines,
+  parseCardStatementRows,
+  parseCardSummary,
+  type CardStatementLine,
+  type CardStatementSummary,
+} from '../../utils/cardStatementParser';
+
+/**
+ * Credit card statement adapter
+ * Supports: card statement PDFs (usually password-protected) and CSV/XLS exports
+ *
+ * Besides transactions, the statement's billing cycle, dues, fees and reward points
+ * are kept as a CardStatement so UPI bill payments can be linked to it
+ */
+export class CreditCardAdapter extends BaseAppAdapter {
+  readonly appId = UpiApp.CREDIT_CARD;
+  readonly supportedFormats = [FileFormat.PDF, FileFormat.CSV, FileFormat.XLSX];
+  readonly metadata: AdapterMetadata = {
+    displayName: 'Credit Card',
+    icon: '💳',
+    color: '#0F766E',
+    category: 'card',
+    fileNamePattern: /credit.?card|card.?statement|cc.?statement|(^|[^a-z])cc([^a-z]|$)/,
+    exportGuide: [
+      { text: "Open the statement email from your card issuer, or the issuer's net banking → Cards" },
+      { text: 'Download the monthly statement PDF (the password is usually in the email)' },
+      { text: 'Or export the transactions as CSV/XLS where the issuer offers it' },
+    ],
+    passwordHint: {
+      text: 'Card statements usually use the first 4 letters of your name followed by your day and month of birth (DDMM); some issuers use your date of birth alone',
+      schemes: ['name_ddmm', 'dob'],
+    },
+    fixtures: ['credit_card_statement.csv'],
+  };
+
+  /**
+   * Detect card statements by their summary box, or by file name when encrypted
+   */
+  async detect(file: File): Promise<DetectionResult> {
+    try {
+      const name = file.name.toLowerCase();
+      const nameMatches = this.metadata.fileNamePattern!.test(name);
+
+      if (name.endsWith('.pdf')) {
+        const buffer = await this.readFileAsArrayBuffer(file);
+
+        if (isPDFEncrypted(buffer)) {
+          return nameMatches
+            ? { canHandle: true, confidence: 0.65, requiresPassword: true, signals: ['file name', 'encrypted PDF'] }
+            : { canHandle: false, confidence: 0 };
+        }
+
+        const result = await extractPDFLines(buffer);
+        const text = (result.lines || []).map(line => line.items.map(i => i.text).join(' ')).join('\n');
+        const isCardStatement =
+          /credit card/i.test(text) && /(payment due date|minimum (amount )?due|total (amount )?due)/i.test(text);
+
+        return isCardStatement
+          ? { canHandle: true, confidence: 0.9, signals: ['card statement summary'] }
+          : { canHandle: false, confidence: 0 };
+      }
+
+      if (name.endsWith('.csv') || name.endsWith('.xls') || name.endsWith('.xlsx')) {
+        const rows = readSpreadsheetRows(await this.readFileAsArrayBuffer(file), file.name);
+        const { headers } = getSheetPreview(rows);
+        const hasCardColumns = headers.some(header => /card|reward/i.test(header));
+
+        if ((nameMatches || hasCardColumns) && parseCardStatementRows(rows).length > 0) {
+          return {
+            canHandle: true,
+            confidence: 0.85,
+            signals: [nameMatches ? 'file name' : 'card columns', 'card transaction rows'],
+          };
+        }
+      }
+
+      return { canHandle: false, confidence: 0 };
+    } catch (error) {
+      return { canHandle: false, confidence: 0 };
+    }
+  }
+
+  /**
+   * Extract text lines (PDF) or rows (CSV/XLS)
+   * PDFs are decrypted here so the password isn't kept with the raw data
+   */
+  async extract(file: File, password?: string): Promise<Record<string, string>> {
+    const buffer = await this.readFileAsArrayBuffer(file);
+
+    if (!file.name.toLowerCase().endsWith('.pdf')) {
+      return {
+        cardRows: JSON.stringify(readSpreadsheetRows(buffer, file.name)),
+        fileName: file.name,
+      };
+    }
+
+    if (isPDFEncrypted(buffer) && !password) {
+      throw new Error('Password required for credit card statement PDF');
+    }
+
+    const result = await extractPDFLines(buffer, password);
+    if (!result.success || !result.lines) {
+      throw new Error(result.error || 'Failed to read credit card statement PDF');
+    }
+
+    const lines = result.lines.map(line => line.items.map(item => item.text).join(' '));
+    return { cardText: JSON.stringify(lines), fileName: file.name };
+  }
+
+  /**
+   * Parse statement lines into transactions and the cycle summary
+   */
+  async parse(rawData: Record<string, string>): Promise<ParseResult> {
+    try {
+      let summary: CardStatementSummary;
+      let lines: CardStatementLine[];
+      const report = createImportReport();
+
+      if (rawData.cardText) {
+        const textLines = JSON.parse(rawData.cardText) as string[];
+        summary = parseCardSummary(textLines);
+        lines = parseCardStatementLines(textLines);
+        // Statement text mixes transactions with prose, so only matched lines count as rows
+        report.rowsRead = report.rowsParsed = lines.length;
+      } else if (rawData.cardRows) {
+        const rows = JSON.parse(rawData.cardRows) as string[][];
+        // CSV exports have no summary; the file name often names the issuer
+        summary = { issuer: detectIssuer(rawData.fileName || '') || 'Credit Card' };
+        lines = parseCardStatementRows(rows, report);
+      } else {
+        return { success: false, error: 'No credit card statement data found' };
+      }
+
+      if (lines.length === 0) {
+        return { success: false, error: 'No transactions found in the card statement' };
+      }
+
+      const { transactions, activities, statement } = buildCardStatementData(
+        summary,
+        lines,
+        this.appId
+      );
+
+      return {
+        success: true,
+        data: {
+          transactions,
+          groupExpenses: [],
+          cashbackRewards: [],
+          voucherRewards: [],
+          activities,
+          cardStatements: [statement],
+        },
+        report,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to parse credit card statement',
+      };
+    }
+  }
+}
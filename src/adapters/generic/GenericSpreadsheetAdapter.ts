@@ -0,0 +1,90 @@
+// Generic adapter - handles any CSV/XLSX statement through a user-defined column mapping
+
+import { BaseAppAdapter, DetectionResult, MIN_DETECTION_CONFIDENCE, ParseResult } from '../base/AppAdapter';
+import { UpiApp, FileFormat, type AdapterMetadata } from '../../types/app.types';
+import type { ColumnMapping } from '../../types/mapping.types';
+import { applyMapping, validateMapping } from '../../utils/columnMapping';
+import { readSpreadsheetRows } from '../../utils/spreadsheetRows';
+
+/**
+ * Generic spreadsheet adapter
+ * Catches CSV/XLSX files no app-specific adapter recognises. The rows are extracted
+ * as-is; parsing needs a ColumnMapping attached to the raw data (rawData.mapping),
+ * chosen in the mapping wizard or taken from a saved profile.
+ */
+export class GenericSpreadsheetAdapter extends BaseAppAdapter {
+  readonly appId = UpiApp.GENERIC;
+  readonly supportedFormats = [FileFormat.CSV, FileFormat.XLSX];
+  readonly metadata: AdapterMetadata = {
+    displayName: 'Spreadsheet',
+    icon: '📄',
+    color: '#64748B',
+    category: 'spreadsheet',
+    exportGuide: [
+      { text: 'Download the statement from your bank or app as CSV or Excel' },
+      { text: 'Upload it and pick which columns hold the date, description and amount' },
+      { text: 'The mapping is saved, so the next statement in the same layout imports directly' },
+    ],
+  };
+
+  /**
+   * Accept any spreadsheet with low confidence so app-specific adapters win
+   */
+  async detect(file: File): Promise<DetectionResult> {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.csv') || name.endsWith('.xlsx') || name.endsWith('.xls')) {
+      // Lowest usable confidence: any spreadsheet can be mapped by hand in the wizard
+      return { canHandle: true, confidence: MIN_DETECTION_CONFIDENCE, signals: ['spreadsheet file'] };
+    }
+    return { canHandle: false, confidence: 0 };
+  }
+
+  /**
+   * Read every row of the file (first sheet for workbooks) as strings
+   */
+  async extract(file: File): Promise<Record<string, string>> {
+    const arrayBuffer = await this.readFileAsArrayBuffer(file);
+    const rows = readSpreadsheetRows(arrayBuffer, file.name);
+    return { genericRows: JSON.stringify(rows) };
+  }
+
+  /**
+   * Apply the attached column mapping to the extracted rows
+   */
+  async parse(rawData: Record<string, string>): Promise<ParseResult> {
+    try {
+      if (!rawData.genericRows) {
+        return { success: false, error: 'No spreadsheet data found' };
+      }
+      if (!rawData.mapping) {
+        return { success: false, error: 'Map the spreadsheet columns before importing' };
+      }
+
+      const mapping = JSON.parse(rawData.mapping) as ColumnMapping;
+      const mappingError = validateMapping(mapping);
+      if (mappingError) {
+        return { success: false, error: mappingError };
+      }
+
+      const rows = JSON.parse(rawData.genericRows) as string[][];
+      const { transactions, activities, report } = applyMapping(rows, mapping, this.appId);
+
+      return {
+        success: true,
+        data: {
+          transactions,
+          groupExpenses: [],
+          cashbackRewards: [],
+          voucherRewards: [],
+          activities,
+        },
+        report,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to parse spreadsheet',
+      };
+    }
+  }
+}
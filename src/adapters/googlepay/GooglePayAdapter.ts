@@ -1,13 +1,14 @@
 // Google Pay adapter - handles Google Takeout ZIP files
 
-import JSZip from 'jszip';
 import { BaseAppAdapter, DetectionResult, ParseResult } from '../base/AppAdapter';
-import { UpiApp, FileFormat } from '../../types/app.types';
-import { ParsedData, Transaction, GroupExpense, CashbackReward, Voucher, ActivityRecord } from '../../types/data.types';
+import { UpiApp, FileFormat, type AdapterMetadata } from '../../types/app.types';
+import { ParsedData, Transaction, GroupExpense, CashbackReward, Voucher, ActivityRecord, ImportReport } from '../../types/data.types';
 import { parseTransactionsCSV, parseCashbackRewardsCSV } from '../../utils/csvParser';
 import { parseGroupExpensesJSON, parseVoucherRewardsJSON } from '../../utils/jsonParser';
 import { parseMyActivityHTML } from '../../utils/htmlParser';
 import { parseCurrency } from '../../utils/currencyUtils';
+import { mergeImportReports } from '../../utils/importReport';
+import { listZip, loadZip } from '../../utils/zipUtils';
 
 /**
  * Google Pay adapter - handles Google Takeout ZIP files
@@ -15,6 +16,17 @@ import { parseCurrency } from '../../utils/currencyUtils';
 export class GooglePayAdapter extends BaseAppAdapter {
   readonly appId = UpiApp.GOOGLE_PAY;
   readonly supportedFormats = [FileFormat.ZIP];
+  readonly metadata: AdapterMetadata = {
+    displayName: 'Google Pay',
+    icon: '🔵',
+    color: '#4285F4',
+    category: 'upi',
+    exportGuide: [
+      { text: 'Visit', link: { label: 'Google Takeout', href: 'https://takeout.google.com/' } },
+      { text: 'Select only "Google Pay" from the list' },
+      { text: 'Download your data as a ZIP file' },
+    ],
+  };
 
   /**
    * Detect if file is Google Pay Takeout ZIP
@@ -26,19 +38,25 @@ export class GooglePayAdapter extends BaseAppAdapter {
     }
 
     try {
-      const zip = await JSZip.loadAsync(file);
+      // File names are readable even when the Takeout ZIP is password-protected
+      const { names, encrypted } = await listZip(file);
 
       // Look for Google Pay signature files
-      const hasGoogleTransactions = Object.keys(zip.files).some(name =>
+      const hasGoogleTransactions = names.some(name =>
         name.includes('Google transactions/transactions_')
       );
 
-      const hasGooglePayFolder = Object.keys(zip.files).some(name =>
+      const hasGooglePayFolder = names.some(name =>
         name.includes('Google Pay/')
       );
 
       if (hasGoogleTransactions || hasGooglePayFolder) {
-        return { canHandle: true, confidence: 0.95 };
+        return {
+          canHandle: true,
+          confidence: 0.95,
+          requiresPassword: encrypted,
+          signals: hasGoogleTransactions ? ['Google transactions in ZIP'] : ['Google Pay folder in ZIP'],
+        };
       }
 
       return { canHandle: false, confidence: 0 };
@@ -51,8 +69,8 @@ export class GooglePayAdapter extends BaseAppAdapter {
    * Extract raw data from Google Takeout ZIP
    * This is the existing zipParser.ts logic
    */
-  async extract(file: File): Promise<Record<string, string>> {
-    const zip = await JSZip.loadAsync(file);
+  async extract(file: File, password?: string): Promise<Record<string, string>> {
+    const zip = await loadZip(file, password);
     const extractedData: Record<string, string> = {};
 
     // Find and read Google transactions CSV
@@ -113,6 +131,7 @@ export class GooglePayAdapter extends BaseAppAdapter {
         voucherRewards: [],
         activities: [],
       };
+      const reports: ImportReport[] = [];
 
       // Parse transactions CSV
       if (rawData.transactions) {
@@ -124,6 +143,7 @@ export class GooglePayAdapter extends BaseAppAdapter {
             sourceApp: this.appId, // Tag with source app
           })) as Transaction[];
         }
+        if (result.report) reports.push(result.report);
       }
 
       // Parse group expenses JSON
@@ -169,9 +189,10 @@ export class GooglePayAdapter extends BaseAppAdapter {
             sourceApp: this.appId,
           })) as ActivityRecord[];
         }
+        if (result.report) reports.push(result.report);
       }
 
-      return { success: true, data: parsedData };
+      return { success: true, data: parsedData, report: mergeImportReports(reports) };
     } catch (error) {
       return {
         success: false,
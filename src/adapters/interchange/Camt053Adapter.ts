@@ -0,0 +1,34 @@
+// CAMT.053 adapter - handles ISO 20022 bank-to-customer statements
+
+import { UpiApp, FileFormat, type AdapterMetadata } from '../../types/app.types';
+import type { InterchangeStatement } from '../../types/interchange.types';
+import { parseCamt053 } from '../../utils/camtParser';
+import { InterchangeAdapter } from './InterchangeAdapter';
+
+/**
+ * CAMT.053 adapter
+ * Supports: camt.053.001.02 and later versions, batch entries split per transaction
+ */
+export class Camt053Adapter extends InterchangeAdapter {
+  readonly appId = UpiApp.CAMT053;
+  readonly supportedFormats = [FileFormat.XML];
+  readonly formatName = 'CAMT.053';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'CAMT.053',
+    icon: '🗂️',
+    color: '#B45309',
+    category: 'interchange',
+    exportGuide: [
+      { text: 'In business or net banking, download the account statement as ISO 20022 camt.053 (XML)' },
+    ],
+    fixtures: ['camt053_statement.xml'],
+  };
+
+  protected matchesContent(preview: string): boolean {
+    return /camt\.053|<(\w+:)?BkToCstmrStmt[\s>]/.test(preview);
+  }
+
+  protected readStatement(text: string): InterchangeStatement {
+    return parseCamt053(text);
+  }
+}
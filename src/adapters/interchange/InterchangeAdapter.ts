@@ -0,0 +1,99 @@
+// Interchange adapters - shared base for OFX/QFX, QIF and CAMT.053 files
+
+import { BaseAppAdapter, DetectionResult, ParseResult } from '../base/AppAdapter';
+import { FILE_FORMAT_EXTENSIONS } from '../../types/app.types';
+import type { InterchangeEntry, InterchangeStatement } from '../../types/interchange.types';
+import { buildInterchangeData, getInterchangeWarnings } from '../../utils/interchangeUtils';
+import { getPaymentChannel } from '../bank/BankStatementAdapter';
+
+/**
+ * Base class for standard interchange formats exported by banks and finance tools
+ * (GnuCash, Quicken, Moneydance...). Files are read as text; subclasses recognise and
+ * parse their format. Fields that don't map onto a Transaction are reported as warnings.
+ */
+export abstract class InterchangeAdapter extends BaseAppAdapter {
+  /**
+   * Format name shown as the transaction product when the file doesn't name the bank
+   */
+  abstract readonly formatName: string;
+
+  /**
+   * Whether the start of a file looks like this format
+   */
+  protected abstract matchesContent(preview: string): boolean;
+
+  /**
+   * Read the entries of a file
+   */
+  protected abstract readStatement(text: string): InterchangeStatement;
+
+  async detect(file: File, content?: string | ArrayBuffer): Promise<DetectionResult> {
+    try {
+      const name = file.name.toLowerCase();
+      const extensionMatches = this.supportedFormats
+        .flatMap(format => FILE_FORMAT_EXTENSIONS[format])
+        .some(extension => name.endsWith(extension));
+      const preview = typeof content === 'string' ? content : await file.slice(0, 10240).text();
+
+      if (this.matchesContent(preview)) {
+        return {
+          canHandle: true,
+          confidence: extensionMatches ? 0.95 : 0.9,
+          signals: extensionMatches ? [`${this.formatName} content`, 'file extension'] : [`${this.formatName} content`],
+        };
+      }
+      return { canHandle: false, confidence: 0 };
+    } catch (error) {
+      return { canHandle: false, confidence: 0 };
+    }
+  }
+
+  async extract(file: File): Promise<Record<string, string>> {
+    return { interchangeText: await this.readFileAsText(file) };
+  }
+
+  async parse(rawData: Record<string, string>): Promise<ParseResult> {
+    try {
+      if (!rawData.interchangeText) {
+        return { success: false, error: `No ${this.formatName} data found` };
+      }
+
+      const statement = this.readStatement(rawData.interchangeText);
+      if (statement.entries.length === 0) {
+        return { success: false, error: `No transactions found in the ${this.formatName} file` };
+      }
+
+      const { transactions, activities, report } = buildInterchangeData(
+        statement,
+        statement.institution || this.formatName,
+        this.appId,
+        entry => this.getMethod(entry)
+      );
+
+      return {
+        success: true,
+        data: {
+          transactions,
+          groupExpenses: [],
+          cashbackRewards: [],
+          voucherRewards: [],
+          activities,
+        },
+        warnings: getInterchangeWarnings(statement),
+        report,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : `Failed to parse ${this.formatName} file`,
+      };
+    }
+  }
+
+  /**
+   * Payment method of an entry; formats with typed transactions override this
+   */
+  protected getMethod(entry: InterchangeEntry): string {
+    return getPaymentChannel(entry.description);
+  }
+}
@@ -0,0 +1,52 @@
+// OFX adapter - handles OFX/QFX downloads (SGML and XML variants)
+
+import { UpiApp, FileFormat, type AdapterMetadata } from '../../types/app.types';
+import type { InterchangeEntry, InterchangeStatement } from '../../types/interchange.types';
+import { parseOfx } from '../../utils/ofxParser';
+import { InterchangeAdapter } from './InterchangeAdapter';
+
+// TRNTYPE values that name the payment method outright
+const TRANSACTION_TYPE_METHODS: Record<string, string> = {
+  ATM: 'ATM',
+  POS: 'Debit Card',
+  CHECK: 'Cheque',
+  FEE: 'Bank Charges',
+  SRVCHG: 'Bank Charges',
+  INT: 'Interest',
+  DIRECTDEBIT: 'Autopay',
+  REPEATPMT: 'Autopay',
+  CASH: 'Cash',
+};
+
+/**
+ * OFX/QFX adapter
+ * Supports: bank (STMTRS) and credit card (CCSTMTRS) statements, OFX 1.x and 2.x
+ */
+export class OfxAdapter extends InterchangeAdapter {
+  readonly appId = UpiApp.OFX;
+  readonly supportedFormats = [FileFormat.OFX];
+  readonly formatName = 'OFX';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'OFX/QFX',
+    icon: '🗂️',
+    color: '#0369A1',
+    category: 'interchange',
+    exportGuide: [
+      { text: 'In net banking, download the statement in OFX or QFX (Money/Quicken) format' },
+      { text: 'Finance tools such as Moneydance also export accounts as OFX' },
+    ],
+    fixtures: ['statement.ofx'],
+  };
+
+  protected matchesContent(preview: string): boolean {
+    return /OFXHEADER|<\?OFX|<OFX>/i.test(preview);
+  }
+
+  protected readStatement(text: string): InterchangeStatement {
+    return parseOfx(text);
+  }
+
+  protected getMethod(entry: InterchangeEntry): string {
+    return (entry.type && TRANSACTION_TYPE_METHODS[entry.type]) || super.getMethod(entry);
+  }
+}
@@ -0,0 +1,35 @@
+// QIF adapter - handles Quicken Interchange Format exports
+
+import { UpiApp, FileFormat, type AdapterMetadata } from '../../types/app.types';
+import type { InterchangeStatement } from '../../types/interchange.types';
+import { parseQif } from '../../utils/qifParser';
+import { InterchangeAdapter } from './InterchangeAdapter';
+
+/**
+ * QIF adapter
+ * Supports: Bank, Cash, CCard and other asset/liability account sections
+ */
+export class QifAdapter extends InterchangeAdapter {
+  readonly appId = UpiApp.QIF;
+  readonly supportedFormats = [FileFormat.QIF];
+  readonly formatName = 'QIF';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'QIF',
+    icon: '🗂️',
+    color: '#7C3AED',
+    category: 'interchange',
+    exportGuide: [
+      { text: 'Export the account from Quicken, Moneydance or your bank as QIF' },
+      { text: 'Use the Bank, Cash or Credit Card account type' },
+    ],
+    fixtures: ['accounts.qif'],
+  };
+
+  protected matchesContent(preview: string): boolean {
+    return /^\s*!(Type|Account|Option)/i.test(preview);
+  }
+
+  protected readStatement(text: string): InterchangeStatement {
+    return parseQif(text);
+  }
+}
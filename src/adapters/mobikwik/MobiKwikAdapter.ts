@@ -0,0 +1,47 @@
+// MobiKwik adapter - handles MobiKwik wallet and UPI statements (PDF/CSV)
+
+import { UpiStatementAdapter } from '../base/UpiStatementAdapter';
+import type { BankStatementLayout } from '../bank/BankStatementAdapter';
+import { UpiApp, type AdapterMetadata } from '../../types/app.types';
+
+/**
+ * MobiKwik adapter
+ * Detected by the statement's columns together with the MobiKwik name or file name
+ */
+export class MobiKwikAdapter extends UpiStatementAdapter {
+  readonly appId = UpiApp.MOBIKWIK;
+  readonly bankName = 'MobiKwik';
+  readonly metadata: AdapterMetadata = {
+    displayName: 'MobiKwik',
+    icon: '🔹',
+    color: '#0A6FE8',
+    category: 'upi',
+    fileNamePattern: /mobikwik|mbk/,
+    exportGuide: [
+      { text: 'MobiKwik app → History' },
+      { text: 'Tap "Download statement" and download the PDF or CSV' },
+    ],
+    fixtures: ['mobikwik_statement.csv'],
+  };
+
+  protected readonly layouts: BankStatementLayout[] = [
+    {
+      // Wallet statement with debit and credit columns
+      date: 'Date',
+      description: 'Description',
+      debit: 'Debit',
+      credit: 'Credit',
+      reference: 'Transaction Id',
+    },
+    {
+      // UPI transaction history
+      date: 'Date',
+      description: 'Transaction Details',
+      amount: 'Amount',
+      debitCredit: 'Type',
+      reference: 'UTR',
+    },
+  ];
+
+  protected readonly brandPattern = /mobikwik/i;
+}
@@ -1,19 +1,39 @@
-// Paytm adapter - handles Paytm XLSX export
+// Paytm adapter - handles Paytm XLSX export, on its own or in a password-protected ZIP
 
+import * as XLSX from 'xlsx';
 import { BaseAppAdapter, DetectionResult, ParseResult } from '../base/AppAdapter';
-import { UpiApp, FileFormat } from '../../types/app.types';
+import { UpiApp, FileFormat, type AdapterMetadata } from '../../types/app.types';
 import { Transaction, Currency } from '../../types/data.types';
 import { TransactionCategory } from '../../utils/categoryUtils';
 import { parsePaytmXLSX } from '../../utils/xlsxParser';
 import { parseCurrency } from '../../utils/currencyUtils';
+import { listZip, loadZip } from '../../utils/zipUtils';
 
 /**
  * Paytm adapter - handles Paytm XLSX export
- * Supports: Paytm_UPI_Statement_*.xlsx files
+ * Supports: Paytm_UPI_Statement_*.xlsx files, and ZIPs containing one (often emailed encrypted)
  */
 export class PaytmAdapter extends BaseAppAdapter {
   readonly appId = UpiApp.PAYTM;
-  readonly supportedFormats = [FileFormat.XLSX];
+  readonly supportedFormats = [FileFormat.XLSX, FileFormat.ZIP];
+  readonly metadata: AdapterMetadata = {
+    displayName: 'PayTM',
+    icon: '🔷',
+    color: '#00BAF2',
+    category: 'upi',
+    fileNamePattern: /^(?=.*paytm)(?=.*upi_statement)/,
+    alpha: true,
+    exportGuide: [
+      { text: 'Open Paytm app → Passbook' },
+      { text: 'Tap on "Download Statement"' },
+      { text: 'Select date range and export as XLSX file' },
+      { text: 'Statements emailed as a password-protected ZIP can be uploaded as they are' },
+    ],
+    passwordHint: {
+      text: 'Paytm statements are usually locked with your registered mobile number',
+      schemes: ['phone'],
+    },
+  };
 
   /**
    * Detect if file is Paytm XLSX export
@@ -22,19 +42,23 @@ export class PaytmAdapter extends BaseAppAdapter {
     try {
       // Check filename pattern
       const isPaytmFile =
-        file.name.includes('Paytm') &&
-        file.name.includes('UPI_Statement') &&
-        file.name.endsWith('.xlsx');
+        this.metadata.fileNamePattern!.test(file.name.toLowerCase()) && file.name.endsWith('.xlsx');
 
       if (isPaytmFile) {
-        return { canHandle: true, confidence: 0.95 };
+        return { canHandle: true, confidence: 0.95, signals: ['file name'] };
       }
 
-      // Check for .xlsx extension and try to parse
+      // Renamed exports: look for the "Passbook Payment History" sheet
+      // Other workbooks are left to the generic spreadsheet adapter
       if (file.name.endsWith('.xlsx')) {
-        // If we have the ArrayBuffer content, we could parse and check for "Passbook Payment History" sheet
-        // For now, return lower confidence for generic .xlsx files
-        return { canHandle: true, confidence: 0.3 };
+        const arrayBuffer = await this.readFileAsArrayBuffer(file);
+        if (this.isPassbookWorkbook(arrayBuffer)) {
+          return { canHandle: true, confidence: 0.9, signals: ['Passbook Payment History sheet'] };
+        }
+      }
+
+      if (file.name.endsWith('.zip')) {
+        return await this.detectZip(file);
       }
 
       return { canHandle: false, confidence: 0 };
@@ -44,10 +68,62 @@ export class PaytmAdapter extends BaseAppAdapter {
   }
 
   /**
-   * Extract raw data from Paytm XLSX file
+   * Detect a ZIP holding a Paytm statement
+   * Encrypted ZIPs can't be opened before the password is entered, so their names decide
+   */
+  private async detectZip(file: File): Promise<DetectionResult> {
+    const { names, encrypted } = await listZip(file);
+    const workbookName = names.find(name => name.toLowerCase().endsWith('.xlsx'));
+    if (!workbookName) {
+      return { canHandle: false, confidence: 0 };
+    }
+
+    const nameMatches = [file.name, workbookName].some(name =>
+      this.metadata.fileNamePattern!.test(name.toLowerCase())
+    );
+    if (encrypted) {
+      return {
+        canHandle: true,
+        confidence: nameMatches ? 0.9 : 0.3,
+        requiresPassword: true,
+        signals: nameMatches ? ['statement in encrypted ZIP', 'file name'] : ['spreadsheet in encrypted ZIP'],
+      };
+    }
+
+    if (nameMatches) {
+      return { canHandle: true, confidence: 0.95, signals: ['statement in ZIP', 'file name'] };
+    }
+
+    const zip = await loadZip(file);
+    if (this.isPassbookWorkbook(await zip.files[workbookName].async('arraybuffer'))) {
+      return { canHandle: true, confidence: 0.9, signals: ['Passbook Payment History sheet'] };
+    }
+    return { canHandle: false, confidence: 0 };
+  }
+
+  /**
+   * Whether a workbook has Paytm's "Passbook Payment History" sheet
    */
-  async extract(file: File): Promise<Record<string, string>> {
-    const arrayBuffer = await this.readFileAsArrayBuffer(file);
+  private isPassbookWorkbook(arrayBuffer: ArrayBuffer): boolean {
+    const workbook = XLSX.read(arrayBuffer, { type: 'array', bookSheets: true });
+    return workbook.SheetNames.includes('Passbook Payment History');
+  }
+
+  /**
+   * Extract raw data from Paytm XLSX file, or the one inside a (possibly encrypted) ZIP
+   */
+  async extract(file: File, password?: string): Promise<Record<string, string>> {
+    let arrayBuffer: ArrayBuffer;
+    if (file.name.endsWith('.zip')) {
+      const zip = await loadZip(file, password);
+      const workbookName = Object.keys(zip.files).find(name => name.toLowerCase().endsWith('.xlsx'));
+      if (!workbookName) {
+        throw new Error('No XLSX statement found in the Paytm ZIP');
+      }
+      arrayBuffer = await zip.files[workbookName].async('arraybuffer');
+    } else {
+      arrayBuffer = await this.readFileAsArrayBuffer(file);
+    }
 
     // Store as base64 string since Record<string, string> is expected
     // We'll convert it back in parse()
@@ -94,6 +170,9 @@ export class PaytmAdapter extends BaseAppAdapter {
           status: row.status,
           amount,
           category: row.category as TransactionCategory | undefined,
+          classification: row.classification,
+          referenceId: row.id, // Paytm rows are keyed by UPI Ref No.
+          direction: row._paytmData.transactionType === 'received' ? 'credit' : 'debit',
           sourceApp: this.appId,
         };
       });
@@ -107,6 +186,7 @@ export class PaytmAdapter extends BaseAppAdapter {
           voucherRewards: [],
           activities: [],
         },
+        report: result.report,
       };
     } catch (error) {
       return {
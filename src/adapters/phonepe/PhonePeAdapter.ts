@@ -5,12 +5,29 @@
  */
 
 import { BaseAppAdapter, DetectionResult, ParseResult } from '../base/AppAdapter';
-import { UpiApp, FileFormat } from '../../types/app.types';
-import { parsePhonePePDF } from '../../utils/pdfParser';
+import { UpiApp, FileFormat, type AdapterMetadata } from '../../types/app.types';
+import { extractPhonePeRows, parsePhonePePDF, parsePhonePeRows } from '../../utils/pdfParser';
 
 export class PhonePeAdapter extends BaseAppAdapter {
   readonly appId = UpiApp.PHONEPE;
   readonly supportedFormats = [FileFormat.PDF];
+  readonly metadata: AdapterMetadata = {
+    displayName: 'PhonePe',
+    icon: '🟣',
+    color: '#5F259F',
+    category: 'upi',
+    fileNamePattern: /phone[_-]?pe/,
+    alpha: true,
+    exportGuide: [
+      { text: 'Open PhonePe app → History' },
+      { text: 'Tap on "Download Statement"' },
+      { text: 'Select date range and download as PDF' },
+    ],
+    passwordHint: {
+      text: 'PhonePe statements are locked with your registered mobile number',
+      schemes: ['phone'],
+    },
+  };
 
   /**
    * Detect if file is PhonePe PDF transaction statement
@@ -19,26 +36,25 @@ export class PhonePeAdapter extends BaseAppAdapter {
     try {
       // Check filename pattern
       const isPhonePeFile =
-        (file.name.toLowerCase().includes('phonepe') ||
-          file.name.toLowerCase().includes('phone_pe') ||
-          file.name.toLowerCase().includes('phone-pe')) &&
-        file.name.endsWith('.pdf');
+        this.metadata.fileNamePattern!.test(file.name.toLowerCase()) && file.name.endsWith('.pdf');
 
       if (isPhonePeFile) {
         return {
           canHandle: true,
           confidence: 0.95,
           requiresPassword: true, // PhonePe PDFs are password-protected
+          signals: ['file name'],
         };
       }
 
       // Lower confidence for generic PDF files
       if (file.name.endsWith('.pdf')) {
-        // Could be a PhonePe PDF without clear naming
+        // Could be a PhonePe PDF without clear naming; too weak to use without asking
         return {
           canHandle: true,
           confidence: 0.3,
           requiresPassword: true,
+          signals: ['PDF file'],
         };
       }
 
@@ -49,9 +65,8 @@ export class PhonePeAdapter extends BaseAppAdapter {
   }
 
   /**
-   * Extract raw data from PhonePe PDF
-   * Requires password for decryption
-   * Validates password during extraction to fail fast
+   * Extract the statement's text rows from the PhonePe PDF
+   * The PDF is decrypted here so the password isn't kept with the raw data
    */
   async extract(file: File, password?: string): Promise<Record<string, string>> {
     if (!password) {
@@ -59,65 +74,33 @@ export class PhonePeAdapter extends BaseAppAdapter {
     }
 
     const arrayBuffer = await this.readFileAsArrayBuffer(file);
-
-    // Clone ArrayBuffer to avoid detachment issues
-    // PDF.js will detach the buffer when creating Uint8Array
-    const clonedBuffer = arrayBuffer.slice(0);
-
-    // Validate password by attempting to open the PDF (fail fast)
-    // Don't parse transactions yet - just verify password works
-    const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
-    try {
-      const loadingTask = pdfjsLib.getDocument({
-        data: new Uint8Array(clonedBuffer),
-        password: password,
-      });
-      const pdf = await loadingTask.promise;
-      // Password is valid if we can get the PDF object
-      // Check we can access at least one page
-      await pdf.getPage(1);
-    } catch (error: any) {
-      if (error.name === 'PasswordException') {
-        throw new Error('Invalid PDF password. Please try again.');
-      }
-      if (error.name === 'InvalidPDFException') {
-        throw new Error('Invalid or corrupted PDF file.');
-      }
-      throw new Error(error.message || 'Failed to decrypt PDF');
+    const result = await extractPhonePeRows(arrayBuffer, password);
+    if (!result.success || !result.rows) {
+      throw new Error(result.error || 'Failed to decrypt PDF');
     }
 
-    // Store as base64 string (similar to PaytmAdapter pattern)
-    // Use original buffer since cloned buffer may be detached now
-    const base64 = this.arrayBufferToBase64(arrayBuffer);
-
-    return {
-      phonepePdf: base64,
-      password: password, // Store password for parse() step
-    };
+    return { phonepeRows: JSON.stringify(result.rows) };
   }
 
   /**
-   * Parse PhonePe PDF into unified Transaction format
+   * Parse PhonePe statement rows into unified Transaction format
+   * Sources saved by earlier versions carry the encrypted PDF and its password instead.
    */
   async parse(rawData: Record<string, string>): Promise<ParseResult> {
     try {
-      const base64Data = rawData.phonepePdf;
-      const password = rawData.password;
-
-      if (!base64Data) {
+      let result;
+
+      if (rawData.phonepeRows) {
+        result = parsePhonePeRows(JSON.parse(rawData.phonepeRows) as string[], this.appId);
+      } else if (rawData.phonepePdf) {
+        if (!rawData.password) {
+          return { success: false, error: 'Password required to decrypt PDF' };
+        }
+        result = await parsePhonePePDF(this.base64ToArrayBuffer(rawData.phonepePdf), rawData.password, this.appId);
+      } else {
         return { success: false, error: 'No PhonePe PDF data found' };
       }
 
-      if (!password) {
-        return { success: false, error: 'Password required to decrypt PDF' };
-      }
-
-      // Convert base64 back to ArrayBuffer
-      const arrayBuffer = this.base64ToArrayBuffer(base64Data);
-
-      // Parse using pdfParser
-      const result = await parsePhonePePDF(arrayBuffer, password, this.appId);
-
       if (!result.success || !result.data) {
         return {
           success: false,
@@ -135,6 +118,7 @@ export class PhonePeAdapter extends BaseAppAdapter {
           voucherRewards: [],
           activities: [],
         },
+        report: result.report,
       };
     } catch (error) {
       return {
@@ -144,18 +128,6 @@ export class PhonePeAdapter extends BaseAppAdapter {
     }
   }
 
-  /**
-   * Helper: Convert ArrayBuffer to base64
-   */
-  private arrayBufferToBase64(buffer: ArrayBuffer): string {
-    const bytes = new Uint8Array(buffer);
-    let binary = '';
-    for (let i = 0; i < bytes.byteLength; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }
-
   /**
    * Helper: Convert base64 to ArrayBuffer
    */
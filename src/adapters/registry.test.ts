@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ADAPTERS, APP_METADATA, getAcceptedExtensions, getAdapterGroups } from './registry';
+import { AppDetector } from '../services/AppDetector';
+import { UpiApp, FileFormat } from '../types/app.types';
+
+const fixtureFile = (name: string) =>
+  new File([readFileSync(join(__dirname, '__fixtures__', name))], name);
+
+describe('adapter registry', () => {
+  it('should register one adapter per app', () => {
+    const appIds = ADAPTERS.map(adapter => adapter.appId);
+
+    expect(new Set(appIds).size).toBe(appIds.length);
+    expect([...appIds].sort()).toEqual([...Object.values(UpiApp)].sort());
+  });
+
+  it('should derive app metadata from the adapters', () => {
+    for (const adapter of ADAPTERS) {
+      expect(APP_METADATA[adapter.appId].supportedFormats).toEqual(adapter.supportedFormats);
+      expect(APP_METADATA[adapter.appId].displayName).toBe(adapter.metadata.displayName);
+    }
+    expect(APP_METADATA[UpiApp.BHIM].supportedFormats).toContain(FileFormat.ZIP);
+  });
+
+  it('should accept every supported extension once', () => {
+    const extensions = getAcceptedExtensions();
+
+    expect(extensions).toEqual(expect.arrayContaining(['.zip', '.html', '.pdf', '.csv', '.xls', '.qfx', '.qif']));
+    expect(new Set(extensions).size).toBe(extensions.length);
+  });
+
+  it('should group adapters by category in display order', () => {
+    const groups = getAdapterGroups();
+
+    expect(groups.map(group => group.category)).toEqual(['upi', 'bank', 'card', 'interchange', 'spreadsheet']);
+    expect(groups.flatMap(group => group.adapters)).toHaveLength(ADAPTERS.length);
+  });
+
+  describe('fixtures', () => {
+    const detector = new AppDetector();
+    const cases = ADAPTERS.flatMap(adapter =>
+      (adapter.metadata.fixtures || []).map(fixture => [adapter.appId, fixture] as const)
+    );
+
+    it.each(cases)('should detect and parse the %s fixture %s', async (appId, fixture) => {
+      const file = fixtureFile(fixture);
+      const match = await detector.detectApp(file);
+
+      expect(match?.adapter.appId).toBe(appId);
+
+      const result = await match!.adapter.parse(await match!.adapter.extract(file));
+      expect(result.success).toBe(true);
+      expect((result.data?.transactions?.length || 0) + (result.data?.activities?.length || 0)).toBeGreaterThan(0);
+    });
+  });
+});
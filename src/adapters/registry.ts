@@ -0,0 +1,130 @@
+// Adapter registry - the single list of supported apps, banks and formats
+
+import {
+  FILE_FORMAT_EXTENSIONS,
+  type AdapterCategory,
+  type AppMetadata,
+  type FileFormat,
+  type UpiAppId,
+} from '../types/app.types';
+import type { AppAdapter } from './base/AppAdapter';
+import { GooglePayAdapter } from './googlepay/GooglePayAdapter';
+import { BhimAdapter } from './bhim/BhimAdapter';
+import { PaytmAdapter } from './paytm/PaytmAdapter';
+import { PhonePeAdapter } from './phonepe/PhonePeAdapter';
+import { AmazonPayAdapter } from './amazonpay/AmazonPayAdapter';
+import { CredAdapter } from './cred/CredAdapter';
+import { MobiKwikAdapter } from './mobikwik/MobiKwikAdapter';
+import { SbiAdapter } from './bank/SbiAdapter';
+import { HdfcAdapter } from './bank/HdfcAdapter';
+import { IciciAdapter } from './bank/IciciAdapter';
+import { AxisAdapter } from './bank/AxisAdapter';
+import { KotakAdapter } from './bank/KotakAdapter';
+import { CreditCardAdapter } from './creditcard/CreditCardAdapter';
+import { OfxAdapter } from './interchange/OfxAdapter';
+import { QifAdapter } from './interchange/QifAdapter';
+import { Camt053Adapter } from './interchange/Camt053Adapter';
+import { GenericSpreadsheetAdapter } from './generic/GenericSpreadsheetAdapter';
+
+/**
+ * Registered adapters, in detection order (earlier adapters win confidence ties).
+ * Adding an app is a single entry here; everything below is derived from it.
+ */
+export const ADAPTERS: readonly AppAdapter[] = [
+  new GooglePayAdapter(),
+  new BhimAdapter(),
+  new PaytmAdapter(),
+  new PhonePeAdapter(),
+  new AmazonPayAdapter(),
+  new CredAdapter(),
+  new MobiKwikAdapter(),
+  new SbiAdapter(),
+  new HdfcAdapter(),
+  new IciciAdapter(),
+  new AxisAdapter(),
+  new KotakAdapter(),
+  new CreditCardAdapter(),
+  new OfxAdapter(),
+  new QifAdapter(),
+  new Camt053Adapter(),
+  new GenericSpreadsheetAdapter(), // Fallback for any other CSV/XLSX
+];
+
+/**
+ * Get a registered adapter by app ID
+ */
+export function getAdapter(appId: UpiAppId): AppAdapter | null {
+  return ADAPTERS.find(adapter => adapter.appId === appId) || null;
+}
+
+/**
+ * App metadata for UI display, derived from each adapter's declaration
+ */
+export const APP_METADATA = Object.fromEntries(
+  ADAPTERS.map(adapter => {
+    const { displayName, icon, color } = adapter.metadata;
+    const metadata: AppMetadata = {
+      id: adapter.appId,
+      name: adapter.appId,
+      displayName,
+      icon,
+      supportedFormats: adapter.supportedFormats,
+      color,
+    };
+    return [adapter.appId, metadata];
+  })
+) as Record<UpiAppId, AppMetadata>;
+
+/**
+ * File extensions of a list of formats, e.g. ['.xlsx', '.xls'] for XLSX
+ */
+export function getFormatExtensions(formats: FileFormat[]): string[] {
+  return formats.flatMap(format => FILE_FORMAT_EXTENSIONS[format]);
+}
+
+/**
+ * Every file extension some registered adapter can read
+ */
+export function getAcceptedExtensions(): string[] {
+  return [...new Set(ADAPTERS.flatMap(adapter => getFormatExtensions(adapter.supportedFormats)))];
+}
+
+/**
+ * Headings of the supported-formats list, in display order
+ */
+export const CATEGORY_LABELS: Record<AdapterCategory, string> = {
+  upi: 'UPI apps',
+  bank: 'Bank statements',
+  card: 'Credit card statements',
+  interchange: 'Finance tools',
+  spreadsheet: 'Any other statement',
+};
+
+/**
+ * A heading of the supported-formats list with the adapters under it
+ */
+export interface AdapterGroup {
+  category: AdapterCategory;
+  label: string;
+  adapters: AppAdapter[];
+}
+
+/**
+ * Registered adapters grouped by category, skipping empty categories
+ */
+export function getAdapterGroups(): AdapterGroup[] {
+  return (Object.keys(CATEGORY_LABELS) as AdapterCategory[])
+    .map(category => ({
+      category,
+      label: CATEGORY_LABELS[category],
+      adapters: ADAPTERS.filter(adapter => adapter.metadata.category === category),
+    }))
+    .filter(group => group.adapters.length > 0);
+}
+
+/**
+ * Short upper-case format list for labels, e.g. "CSV/XLSX/PDF"
+ */
+export function formatList(formats: FileFormat[]): string {
+  return formats.map(format => format.toUpperCase()).join('/');
+}
@@ -1,12 +1,12 @@
 import { useMemo } from 'react';
 import { ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid, BarChart, Bar } from 'recharts';
-import { convertToINR, TransactionCategory } from '../../utils/categoryUtils';
+import { convertToINR } from '../../utils/categoryUtils';
 import { Currency } from '../../types/data.types';
 import { useThemeStore } from '../../stores/themeStore';
 import styles from './SpendingCharts.module.css';
 
 interface CategoryData {
-  category: TransactionCategory;
+  category: string;
   amount: number;
   percentage: number;
   count: number;
@@ -0,0 +1,118 @@
+import { useMemo, useState } from 'react';
+import type { CounterpartyEntity } from '../../types/counterparty.types';
+import { getAliasKey } from '../../engines/counterpartyResolver';
+import styles from './CounterpartyManager.module.css';
+
+// Enough to find anyone by searching, without rendering thousands of rows
+const MAX_LISTED = 100;
+
+interface CounterpartyManagerProps {
+  entities: CounterpartyEntity[];
+  onMerge: (aliasKeys: string[]) => void;
+  onSplit: (aliasKey: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * People and merchants as resolved from every app's spelling of them
+ * Entities can be merged by selecting them, and a spelling can be split off its entity
+ */
+export default function CounterpartyManager({ entities, onMerge, onSplit, onClose }: CounterpartyManagerProps) {
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const matching = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return entities;
+    return entities.filter(entity =>
+      [...entity.spellings, ...entity.vpas, ...entity.phones].some(text => text.toLowerCase().includes(query))
+    );
+  }, [entities, search]);
+
+  const toggle = (id: string) => {
+    setSelected(current => (current.includes(id) ? current.filter(other => other !== id) : [...current, id]));
+  };
+
+  const handleMerge = () => {
+    onMerge(selected);
+    setSelected([]);
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={e => e.stopPropagation()}>
+        <h3 className={styles.title}>People &amp; merchants</h3>
+        <p className={styles.subtitle}>
+          Spellings of the same person or merchant are grouped by UPI ID, mobile number and name.
+          Select entries to merge them, or split off a spelling that doesn't belong.
+        </p>
+
+        <input
+          type="text"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="Search names, UPI IDs or numbers..."
+          className={styles.search}
+        />
+
+        <ul className={styles.entities}>
+          {matching.slice(0, MAX_LISTED).map(entity => (
+            <li key={entity.id} className={styles.entity}>
+              <label className={styles.entityHeader}>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(entity.id)}
+                  onChange={() => toggle(entity.id)}
+                />
+                <span className={styles.name}>{entity.name}</span>
+                <span className={styles.count}>{entity.entryCount} payments</span>
+              </label>
+
+              <div className={styles.spellings}>
+                {entity.spellings.map(spelling => (
+                  <span key={spelling} className={styles.spelling}>
+                    {spelling}
+                    {entity.aliases.length > 1 && (
+                      <button
+                        type="button"
+                        className={styles.splitButton}
+                        onClick={() => onSplit(getAliasKey(spelling))}
+                        title="Split this spelling into its own entry"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+
+              {(entity.vpas.length > 0 || entity.phones.length > 0) && (
+                <p className={styles.identifiers}>{[...entity.vpas, ...entity.phones].join(' · ')}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {matching.length > MAX_LISTED && (
+          <p className={styles.note}>
+            Showing {MAX_LISTED} of {matching.length}. Search to find the rest.
+          </p>
+        )}
+
+        <div className={styles.actions}>
+          <button type="button" onClick={onClose} className={styles.closeButton}>
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={selected.length < 2}
+            className={styles.mergeButton}
+          >
+            Merge {selected.length > 1 ? `${selected.length} selected` : 'selected'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useDataStore } from '../../stores/dataStore';
 import { getUniqueApps } from '../../utils/filterUtils';
-import { APP_METADATA } from '../../types/app.types';
+import { APP_METADATA } from '../../adapters/registry';
 import type { YearFilter, AppFilter } from '../../types/filter.types';
 import type { UpiAppId } from '../../types/app.types';
 import styles from './FilterBar.module.css';
@@ -0,0 +1,61 @@
+import type { RuleSuggestion } from '../../engines/categoryRules';
+import styles from './RuleSuggestionBanner.module.css';
+
+interface RuleSuggestionBannerProps {
+  suggestions: RuleSuggestion[];
+  undoLabel?: string; // The most recent category edit, when there is one to undo
+  onAccept: (suggestion: RuleSuggestion) => void;
+  onDismiss: () => void;
+  onUndo: () => void;
+}
+
+const KIND_LABELS: Record<RuleSuggestion['kind'], string> = {
+  exactMatches: 'Exact match',
+  keywords: 'Keyword',
+};
+
+/**
+ * Rules offered after a payment was recategorised by hand, so the next ones like it follow
+ * Also the way back out of the last category edit
+ */
+export default function RuleSuggestionBanner({
+  suggestions,
+  undoLabel,
+  onAccept,
+  onDismiss,
+  onUndo,
+}: RuleSuggestionBannerProps) {
+  if (suggestions.length === 0 && !undoLabel) return null;
+
+  return (
+    <div className={styles.banner}>
+      {suggestions.length > 0 && (
+        <>
+          <p className={styles.message}>
+            Categorise payments like this as <strong>{suggestions[0].category}</strong> from now on?
+          </p>
+          <div className={styles.suggestions}>
+            {suggestions.map(suggestion => (
+              <button
+                key={suggestion.kind}
+                onClick={() => onAccept(suggestion)}
+                className={styles.acceptButton}
+                title={`Matches ${suggestion.matchCount} payment${suggestion.matchCount !== 1 ? 's' : ''}`}
+              >
+                {KIND_LABELS[suggestion.kind]} "{suggestion.value}" ({suggestion.matchCount})
+              </button>
+            ))}
+            <button onClick={onDismiss} className={styles.secondaryButton}>
+              Dismiss
+            </button>
+          </div>
+        </>
+      )}
+      {undoLabel && (
+        <button onClick={onUndo} className={styles.undoButton}>
+          ↶ Undo {undoLabel}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import type { DataSource } from '../../types/data.types';
+import { APP_METADATA } from '../../adapters/registry';
+import styles from './ImportReportModal.module.css';
+
+interface ImportReportModalProps {
+  sources: DataSource[];
+  onClose: () => void;
+}
+
+/**
+ * What each source's last parse read, imported and skipped
+ * Skipped rows are listed with the reason and the raw text they were read from
+ */
+export default function ImportReportModal({ sources, onClose }: ImportReportModalProps) {
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={e => e.stopPropagation()}>
+        <h3 className={styles.title}>Import report</h3>
+        <p className={styles.subtitle}>
+          Rows each statement contained, how many became records and why the rest were left out.
+        </p>
+
+        <div className={styles.sources}>
+          {sources.map(source => {
+            const meta = APP_METADATA[source.app];
+            const report = source.importReport;
+            return (
+              <section key={source.id} className={styles.source}>
+                <h4 className={styles.fileName} title={source.fileName}>
+                  {meta?.icon || '📄'} {source.fileName}
+                </h4>
+
+                {source.parseError ? (
+                  <p className={styles.error}>❌ Not imported: {source.parseError}</p>
+                ) : report ? (
+                  <>
+                    <p className={styles.counts}>
+                      {report.rowsRead} rows read · {report.rowsParsed} imported ·{' '}
+                      <span className={report.rowsSkipped > 0 ? styles.skippedCount : undefined}>
+                        {report.rowsSkipped} skipped
+                      </span>
+                    </p>
+
+                    {report.skipped.length > 0 && (
+                      <table className={styles.table}>
+                        <thead>
+                          <tr>
+                            <th>Row</th>
+                            <th>Reason</th>
+                            <th>Content</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {report.skipped.map((record, index) => (
+                            <tr key={index}>
+                              <td>{record.row ?? '–'}</td>
+                              <td>{record.reason}</td>
+                              <td className={styles.snippet}>{record.snippet}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {report.skipped.length < report.rowsSkipped && (
+                      <p className={styles.note}>
+                        Showing the first {report.skipped.length} of {report.rowsSkipped} skipped rows.
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className={styles.note}>No row details for this statement.</p>
+                )}
+              </section>
+            );
+          })}
+        </div>
+
+        <div className={styles.actions}>
+          <button type="button" onClick={onClose} className={styles.closeButton}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+// Lists every uploaded statement so each one can be reviewed and removed on its own
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDataStore } from '../../stores/dataStore';
+import { APP_METADATA } from '../../adapters/registry';
+import type { DataSource } from '../../types/data.types';
+import type { CardStatement } from '../../types/card.types';
+import WorkspaceSettings from '../workspace/WorkspaceSettings';
+import ImportReportModal from './ImportReportModal';
+import { getWorkspaceFileName } from '../../utils/workspaceFile';
+import styles from './SourceList.module.css';
+
+export default function SourceList() {
+  const navigate = useNavigate();
+  const { dataSources, parsedData, dedupReport, removeSource, exportWorkspace, isLoading } =
+    useDataStore();
+  const [reportSources, setReportSources] = useState<DataSource[] | null>(null);
+
+  const sources = Array.from(dataSources.values()).sort(
+    (a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime()
+  );
+
+  if (sources.length === 0) return null;
+
+  const handleRemove = async (source: DataSource) => {
+    if (!confirm(`Remove ${source.fileName}? Its records will be removed from all insights.`)) {
+      return;
+    }
+
+    await removeSource(source.id);
+
+    // Nothing left to explore
+    if (useDataStore.getState().dataSources.size === 0) {
+      navigate('/');
+    }
+  };
+
+  const handleExport = () => {
+    if (
+      !confirm(
+        'The exported file is not encrypted and contains your full transaction history. Keep it somewhere safe. Continue?'
+      )
+    ) {
+      return;
+    }
+
+    const blob = new Blob([exportWorkspace()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = getWorkspaceFileName();
+    link.href = url;
+    link.click();
+    // Revoking straight away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className={styles.sourceList}>
+      <div className={styles.header}>
+        <h2 className={styles.title}>
+          Uploaded Statements <span className={styles.count}>{sources.length}</span>
+        </h2>
+        <div className={styles.headerActions}>
+          {dedupReport && (dedupReport.mergedCount > 0 || dedupReport.borderline.length > 0) && (
+            <button onClick={() => navigate('/review-duplicates')} className={styles.linkButton}>
+              🔗 {dedupReport.mergedCount} merged
+              {dedupReport.borderline.length > 0 && `, ${dedupReport.borderline.length} to review`}
+            </button>
+          )}
+          <button onClick={() => setReportSources(sources)} className={styles.linkButton}>
+            📋 Import report
+          </button>
+          <button onClick={handleExport} className={styles.linkButton} disabled={isLoading}>
+            ⬇️ Export workspace
+          </button>
+          <button onClick={() => navigate('/')} className={styles.addButton}>
+            + Add Statement
+          </button>
+        </div>
+      </div>
+
+      <ul className={styles.items}>
+        {sources.map(source => {
+          const appMeta = APP_METADATA[source.app];
+          const cardStatement = parsedData?.cardStatements?.find(s => s.sourceId === source.id);
+          return (
+            <li key={source.id} className={styles.item}>
+              <span className={styles.appIcon} title={appMeta?.displayName}>
+                {appMeta?.icon || '📄'}
+              </span>
+              <div className={styles.details}>
+                <span className={styles.fileName} title={source.fileName}>
+                  {source.fileName}
+                </span>
+                <span className={styles.meta}>
+                  {appMeta?.displayName || source.app}
+                  {' · '}
+                  {formatDateRange(source.dateRange)}
+                  {source.recordCount !== undefined && ` · ${source.recordCount} records`}
+                </span>
+                {cardStatement && (
+                  <span className={styles.meta}>{formatCardStatement(cardStatement)}</span>
+                )}
+                {source.parseError && (
+                  <button onClick={() => setReportSources([source])} className={styles.errorLink}>
+                    ❌ Couldn't be read
+                  </button>
+                )}
+                {!!source.importReport?.rowsSkipped && (
+                  <button onClick={() => setReportSources([source])} className={styles.warningLink}>
+                    ⚠️ {source.importReport.rowsSkipped} row
+                    {source.importReport.rowsSkipped !== 1 && 's'} skipped
+                  </button>
+                )}
+                {source.warnings?.map(warning => (
+                  <span key={warning} className={styles.warning}>
+                    ⚠️ {warning}
+                  </span>
+                ))}
+              </div>
+              <button
+                onClick={() => handleRemove(source)}
+                className={styles.removeButton}
+                disabled={isLoading}
+                aria-label={`Remove ${source.fileName}`}
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className={styles.footer}>
+        <WorkspaceSettings />
+      </div>
+
+      {reportSources && (
+        <ImportReportModal sources={reportSources} onClose={() => setReportSources(null)} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Summarise a card statement's dues and linked bill payments
+ */
+function formatCardStatement(statement: CardStatement): string {
+  const format = (date: Date) =>
+    date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short' });
+  const parts: string[] = [];
+
+  if (statement.totalDue) {
+    parts.push(
+      `₹${statement.totalDue.value.toLocaleString('en-IN')} due` +
+        (statement.dueDate ? ` by ${format(statement.dueDate)}` : '')
+    );
+  }
+  if (statement.fees.value > 0) {
+    parts.push(`₹${statement.fees.value.toLocaleString('en-IN')} fees`);
+  }
+  if (statement.rewardPoints?.earned !== undefined) {
+    parts.push(`${statement.rewardPoints.earned} points earned`);
+  }
+  if (statement.linkedPayments.length > 0) {
+    parts.push(
+      `${statement.linkedPayments.length} bill payment${statement.linkedPayments.length !== 1 ? 's' : ''} linked`
+    );
+  }
+
+  return parts.length > 0 ? `💳 ${parts.join(' · ')}` : '💳 Card statement';
+}
+
+/**
+ * Format a source date range as "Jan 2025 – Jun 2025"
+ */
+function formatDateRange(range?: { start: Date; end: Date }): string {
+  if (!range) return 'No dated records';
+
+  const format = (date: Date) =>
+    date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+  return `${format(range.start)} – ${format(range.end)}`;
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import type { SelfTransferDecision, SelfTransferSuggestion } from '../../types/selfTransfer.types';
+import type { LedgerEntry } from '../../types/data.types';
+import { convertToINR } from '../../utils/categoryUtils';
+import styles from './SelfTransferManager.module.css';
+
+// Enough to work through in one sitting
+const MAX_SUGGESTIONS = 50;
+
+interface SelfTransferManagerProps {
+  ownIdentifiers: string[];
+  suggestions: SelfTransferSuggestion[];
+  onChangeIdentifiers: (identifiers: string[]) => void;
+  onResolve: (pairKey: string, decision: SelfTransferDecision) => void;
+  onClose: () => void;
+}
+
+const describe = (entry: LedgerEntry) =>
+  `${entry.time.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })} · ${entry.counterparty} · ${entry.sourceApp}`;
+
+/**
+ * The user's own accounts and UPI IDs, and likely transfers between them to confirm or dismiss
+ * Money moved between them counts as neither spending nor income
+ */
+export default function SelfTransferManager({
+  ownIdentifiers,
+  suggestions,
+  onChangeIdentifiers,
+  onResolve,
+  onClose,
+}: SelfTransferManagerProps) {
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = () => {
+    if (!draft.trim()) return;
+    onChangeIdentifiers([...ownIdentifiers, draft]);
+    setDraft('');
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={e => e.stopPropagation()}>
+        <h3 className={styles.title}>Your own accounts</h3>
+        <p className={styles.subtitle}>
+          Money moved between your own accounts isn't spending or income. Add your UPI IDs and
+          account numbers, and confirm transfers we spotted between your statements.
+        </p>
+
+        <div className={styles.addRow}>
+          <input
+            type="text"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleAdd()}
+            placeholder="name@okhdfc or 50100012341234"
+            className={styles.input}
+          />
+          <button type="button" onClick={handleAdd} disabled={!draft.trim()} className={styles.addButton}>
+            Add
+          </button>
+        </div>
+
+        {ownIdentifiers.length > 0 && (
+          <div className={styles.identifiers}>
+            {ownIdentifiers.map(identifier => (
+              <span key={identifier} className={styles.identifier}>
+                {identifier}
+                <button
+                  type="button"
+                  className={styles.removeButton}
+                  onClick={() => onChangeIdentifiers(ownIdentifiers.filter(other => other !== identifier))}
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <h4 className={styles.sectionTitle}>Possible transfers ({suggestions.length})</h4>
+        {suggestions.length === 0 ? (
+          <p className={styles.note}>No unanswered transfers between your statements.</p>
+        ) : (
+          <ul className={styles.suggestions}>
+            {suggestions.slice(0, MAX_SUGGESTIONS).map(({ key, debit, credit }) => (
+              <li key={key} className={styles.suggestion}>
+                <div className={styles.amount}>
+                  ₹{convertToINR(debit.amount).toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                </div>
+                <div className={styles.side}>↑ {describe(debit)}</div>
+                <div className={styles.side}>↓ {describe(credit)}</div>
+                <div className={styles.decisions}>
+                  <button type="button" className={styles.confirmButton} onClick={() => onResolve(key, 'transfer')}>
+                    Between my accounts
+                  </button>
+                  <button type="button" className={styles.dismissButton} onClick={() => onResolve(key, 'not_transfer')}>
+                    Not a transfer
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className={styles.actions}>
+          <button type="button" onClick={onClose} className={styles.closeButton}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import type { DetectionReport, UpiAppId } from '../../types/app.types';
+import { APP_METADATA } from '../../adapters/registry';
+import { getFileNamePattern } from '../../utils/fileNamePattern';
+import styles from './AppPickerModal.module.css';
+
+interface AppPickerModalProps {
+  report: DetectionReport;
+  onSubmit: (app: UpiAppId, remember: boolean) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Pick the app for a file detection couldn't place confidently
+ * Shows every adapter's score and the signals it matched, best guess first
+ */
+export default function AppPickerModal({ report, onSubmit, onCancel }: AppPickerModalProps) {
+  const [selected, setSelected] = useState<UpiAppId | null>(
+    () => report.candidates.find(candidate => candidate.confidence > 0)?.app ?? null
+  );
+  const [remember, setRemember] = useState(true);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected) onSubmit(selected, remember);
+  };
+
+  return (
+    <div className={styles.overlay}>
+      <form className={styles.modal} onSubmit={handleSubmit}>
+        <h3 className={styles.title}>Which app is this file from?</h3>
+        <p className={styles.subtitle}>
+          We couldn't tell where <strong>{report.fileName}</strong> came from. Here is how each
+          supported app and bank matched it.
+        </p>
+
+        <ul className={styles.candidates}>
+          {report.candidates.map(candidate => {
+            const meta = APP_METADATA[candidate.app];
+            return (
+              <li key={candidate.app}>
+                <label className={[styles.candidate, selected === candidate.app && styles.selected].filter(Boolean).join(' ')}>
+                  <input
+                    type="radio"
+                    name="app"
+                    checked={selected === candidate.app}
+                    onChange={() => setSelected(candidate.app)}
+                  />
+                  <span className={styles.appIcon}>{meta.icon}</span>
+                  <span className={styles.appDetails}>
+                    <span className={styles.appName}>{meta.displayName}</span>
+                    <span className={styles.signals}>
+                      {candidate.signals.length > 0 ? `Matched: ${candidate.signals.join(', ')}` : 'No match'}
+                    </span>
+                  </span>
+                  <span className={candidate.confidence > 0 ? styles.confidence : styles.noConfidence}>
+                    {Math.round(candidate.confidence * 100)}%
+                  </span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+
+        <label className={styles.remember}>
+          <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} />
+          <span>
+            Remember for files named like <code>{getFileNamePattern(report.fileName)}</code>
+          </span>
+        </label>
+
+        <div className={styles.actions}>
+          <button type="button" onClick={onCancel} className={styles.cancelButton}>
+            Cancel
+          </button>
+          <button type="submit" className={styles.submitButton} disabled={!selected}>
+            Import
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useMemo, useState } from 'react';
+import type { ColumnMapping, DateFormat } from '../../types/mapping.types';
+import {
+  applyMapping,
+  getSheetPreview,
+  suggestMapping,
+  validateMapping,
+} from '../../utils/columnMapping';
+import { UpiApp } from '../../types/app.types';
+import styles from './ColumnMappingWizard.module.css';
+
+const PREVIEW_ROWS = 5;
+
+const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'auto', label: 'Auto (DD/MM/YYYY or ISO)' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'DD-MM-YYYY', label: 'DD-MM-YYYY' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+  { value: 'DD MMM YYYY', label: 'DD MMM YYYY (12 Jan 2025)' },
+];
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  rows: string[][];
+  onSubmit: (mapping: ColumnMapping, headers: string[], profileName: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Map the columns of an unrecognised CSV/XLSX to transaction fields
+ * The mapping is saved as a profile so the same layout imports automatically next time
+ */
+export default function ColumnMappingWizard({
+  fileName,
+  rows,
+  onSubmit,
+  onCancel,
+}: ColumnMappingWizardProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => suggestMapping(getSheetPreview(rows)));
+  const [profileName, setProfileName] = useState(() => fileName.replace(/\.[^.]+$/, ''));
+  const [error, setError] = useState<string | null>(null);
+
+  const sheet = useMemo(() => getSheetPreview(rows, mapping.headerRow), [rows, mapping.headerRow]);
+  const headers = sheet.headers.filter(Boolean);
+
+  // Live preview of what the current mapping produces
+  const preview = useMemo(() => {
+    if (validateMapping(mapping)) return null;
+    const { transactions, activities, report } = applyMapping(rows, mapping, UpiApp.GENERIC);
+    const records = [
+      ...transactions.map(t => ({ time: t.time, description: t.description, amount: -t.amount.value })),
+      ...activities.map(a => ({ time: a.time, description: a.description || '', amount: a.amount?.value || 0 })),
+    ].sort((a, b) => a.time.getTime() - b.time.getTime());
+    return { records, debits: transactions.length, credits: activities.length, skippedRows: report.rowsSkipped };
+  }, [rows, mapping]);
+
+  const update = (changes: Partial<ColumnMapping>) => {
+    setMapping(current => ({ ...current, ...changes }));
+    setError(null);
+  };
+
+  const changeHeaderRow = (headerRow: number) => {
+    // A different header row means different column names; start from fresh guesses
+    setMapping({ ...suggestMapping(getSheetPreview(rows, headerRow)), headerRow });
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const mappingError = validateMapping(mapping);
+    if (mappingError) {
+      setError(mappingError);
+      return;
+    }
+    if (preview && preview.records.length === 0) {
+      setError('No rows could be read with this mapping. Check the date format and amount columns.');
+      return;
+    }
+    onSubmit(mapping, sheet.headers, profileName);
+  };
+
+  const columnSelect = (
+    label: string,
+    value: string | undefined,
+    onChange: (value: string | undefined) => void,
+    optional = false
+  ) => (
+    <label className={styles.field}>
+      <span className={styles.fieldLabel}>{label}</span>
+      <select
+        value={value || ''}
+        onChange={e => onChange(e.target.value || undefined)}
+        className={styles.select}
+      >
+        <option value="">{optional ? '— None —' : '— Choose column —'}</option>
+        {headers.map(header => (
+          <option key={header} value={header}>
+            {header}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className={styles.overlay}>
+      <form className={styles.wizard} onSubmit={handleSubmit}>
+        <h3 className={styles.title}>Map Spreadsheet Columns</h3>
+        <p className={styles.subtitle}>
+          We don&apos;t recognise <strong>{fileName}</strong> yet. Tell us which columns hold each
+          field; the mapping is saved and used automatically for files with the same columns.
+        </p>
+
+        {/* Raw sheet preview */}
+        <div className={styles.tableWrapper}>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                {sheet.headers.map((header, i) => (
+                  <th key={i}>{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sheet.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                <tr key={i}>
+                  {sheet.headers.map((_, j) => (
+                    <td key={j}>{row[j]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className={styles.fields}>
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Header row</span>
+            <select
+              value={mapping.headerRow}
+              onChange={e => changeHeaderRow(Number(e.target.value))}
+              className={styles.select}
+            >
+              {rows.slice(0, 25).map((row, i) => (
+                <option key={i} value={i}>
+                  Row {i + 1}: {row.filter(Boolean).slice(0, 3).join(', ')}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {columnSelect('Date', mapping.date, value => update({ date: value || '' }))}
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Date format</span>
+            <select
+              value={mapping.dateFormat}
+              onChange={e => update({ dateFormat: e.target.value as DateFormat })}
+              className={styles.select}
+            >
+              {DATE_FORMATS.map(format => (
+                <option key={format.value} value={format.value}>
+                  {format.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {columnSelect('Time', mapping.time, value => update({ time: value }), true)}
+          {columnSelect('Description', mapping.description, value =>
+            update({ description: value || '' })
+          )}
+
+          <div className={styles.field}>
+            <span className={styles.fieldLabel}>Amounts</span>
+            <div className={styles.modeToggle}>
+              <label>
+                <input
+                  type="radio"
+                  checked={mapping.amountMode === 'signed'}
+                  onChange={() => update({ amountMode: 'signed' })}
+                />
+                One amount column
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  checked={mapping.amountMode === 'split'}
+                  onChange={() => update({ amountMode: 'split' })}
+                />
+                Separate debit / credit
+              </label>
+            </div>
+          </div>
+
+          {mapping.amountMode === 'signed' ? (
+            <>
+              {columnSelect('Amount', mapping.amount, value => update({ amount: value }))}
+              {columnSelect(
+                'Debit/Credit indicator',
+                mapping.debitCreditColumn,
+                value => update({ debitCreditColumn: value }),
+                true
+              )}
+              <label className={styles.checkbox}>
+                <input
+                  type="checkbox"
+                  checked={Boolean(mapping.positiveIsDebit)}
+                  onChange={e => update({ positiveIsDebit: e.target.checked })}
+                />
+                Positive amounts are spends
+              </label>
+            </>
+          ) : (
+            <>
+              {columnSelect('Debit (money out)', mapping.debit, value => update({ debit: value }))}
+              {columnSelect('Credit (money in)', mapping.credit, value => update({ credit: value }))}
+            </>
+          )}
+
+          {columnSelect('Status', mapping.status, value => update({ status: value }), true)}
+          {columnSelect('Reference / UTR', mapping.reference, value => update({ reference: value }), true)}
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>Save mapping as</span>
+            <input
+              type="text"
+              value={profileName}
+              onChange={e => setProfileName(e.target.value)}
+              className={styles.select}
+            />
+          </label>
+        </div>
+
+        {/* Parsed preview */}
+        {preview && (
+          <div className={styles.result}>
+            <p className={styles.resultSummary}>
+              {preview.debits} spend{preview.debits !== 1 ? 's' : ''} · {preview.credits} credit
+              {preview.credits !== 1 ? 's' : ''}
+              {preview.skippedRows > 0 && ` · ${preview.skippedRows} rows skipped`}
+            </p>
+            <ul className={styles.resultList}>
+              {preview.records.slice(0, PREVIEW_ROWS).map((record, i) => (
+                <li key={i}>
+                  <span>{record.time.toLocaleDateString('en-IN')}</span>
+                  <span className={styles.resultDescription}>{record.description}</span>
+                  <span className={record.amount < 0 ? styles.debit : styles.credit}>
+                    {record.amount < 0 ? '-' : '+'}₹{Math.abs(record.amount).toFixed(2)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {error && <p className={styles.error}>⚠️ {error}</p>}
+
+        <div className={styles.actions}>
+          <button type="button" onClick={onCancel} className={styles.cancelButton}>
+            Cancel
+          </button>
+          <button type="submit" className={styles.submitButton}>
+            Save &amp; Import
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 import { useCallback, useState } from 'react';
+import { WORKSPACE_FILE_EXTENSION } from '../../utils/workspaceFile';
+import { formatList, getAcceptedExtensions, getAdapterGroups } from '../../adapters/registry';
 import styles from './DropZone.module.css';
 
+// Every format a registered adapter reads, plus FinnLens workspace exports
+const VALID_EXTENSIONS = [...getAcceptedExtensions(), WORKSPACE_FILE_EXTENSION];
+const ADAPTER_GROUPS = getAdapterGroups();
+
 interface DropZoneProps {
   onUpload: (files: File[]) => void; // Changed to support multiple files
   disabled?: boolean;
@@ -11,14 +17,12 @@ export default function DropZone({ onUpload, disabled = false }: DropZoneProps)
   const [error, setError] = useState<string | null>(null);
 
   const validateFile = (file: File): boolean => {
-    // Accept ZIP, HTML, PDF, XLSX files
-    const validExtensions = ['.zip', '.html', '.htm', '.pdf', '.xlsx'];
-    const hasValidExtension = validExtensions.some(ext =>
+    const hasValidExtension = VALID_EXTENSIONS.some(ext =>
       file.name.toLowerCase().endsWith(ext)
     );
 
     if (!hasValidExtension) {
-      setError('Please upload a ZIP, HTML, PDF, or XLSX file from your UPI app');
+      setError(`Please upload a ${VALID_EXTENSIONS.join(', ')} file from your UPI app or bank, or a .finnlens export`);
       return false;
     }
 
@@ -88,7 +92,7 @@ export default function DropZone({ onUpload, disabled = false }: DropZoneProps)
         <input
           type="file"
           id="file-upload"
-          accept=".zip,.html,.htm,.pdf,.xlsx"
+          accept={VALID_EXTENSIONS.join(',')}
           multiple
           onChange={handleFileInput}
           disabled={disabled}
@@ -101,9 +105,24 @@ export default function DropZone({ onUpload, disabled = false }: DropZoneProps)
           <p className={styles.description}>
             Drag and drop your export files here
             <br />
-            <small>Google Pay (ZIP), BHIM (HTML), Paytm (XLSX)*, PhonePe (PDF)*</small>
-            <br />
-            <small className={styles.alphaText}>* Alpha: may have accuracy issues</small>
+            {ADAPTER_GROUPS.map(group => (
+              <span key={group.category}>
+                <small>
+                  {group.label}:{' '}
+                  {group.adapters
+                    .map(adapter => `${adapter.metadata.displayName} (${formatList(adapter.supportedFormats)})${adapter.metadata.alpha ? '*' : ''}`)
+                    .join(', ')}
+                </small>
+                <br />
+              </span>
+            ))}
+            {ADAPTER_GROUPS.some(group => group.adapters.some(adapter => adapter.metadata.alpha)) && (
+              <>
+                <small className={styles.alphaText}>* Alpha: may have accuracy issues</small>
+                <br />
+              </>
+            )}
+            <small>or a FinnLens workspace export (.finnlens)</small>
           </p>
           <p className={styles.or}>or</p>
           <button
@@ -1,26 +1,82 @@
 import { useState } from 'react';
+import { useDataStore } from '../../stores/dataStore';
+import type { PasswordHint } from '../../types/app.types';
+import {
+  PASSWORD_FIELD_LABELS,
+  PASSWORD_SCHEMES,
+  buildPasswordCandidates,
+  getPasswordFields,
+  type PasswordDetails,
+  type PasswordField,
+} from '../../utils/passwordHints';
+
+const FIELD_INPUT_TYPES: Record<PasswordField, string> = {
+  name: 'text',
+  phone: 'tel',
+  dob: 'date',
+  customerId: 'text',
+};
 
 interface PasswordModalProps {
-  fileName: string;
-  onSubmit: (password: string) => void;
+  fileName?: string;
+  onSubmit: (password: string, remember: boolean) => void | Promise<void>;
   onCancel: () => void;
   error?: string | null;
+  /** Overrides for reusing the modal outside file decryption (e.g. unlocking the vault) */
+  title?: string;
+  message?: React.ReactNode;
+  placeholder?: string;
+  cancelLabel?: string;
+  note?: string;
+  footer?: React.ReactNode;
+  /** How the file's app usually locks it; with onTryCandidates, adds a form that builds candidate passwords */
+  hint?: PasswordHint;
+  onTryCandidates?: (candidates: string[], remember: boolean) => void | Promise<void>;
+  /** Offers reusing the password for other files from the same issuer, e.g. "other SBI files" */
+  rememberLabel?: string;
 }
 
-export default function PasswordModal({ fileName, onSubmit, onCancel, error }: PasswordModalProps) {
+export default function PasswordModal({
+  fileName,
+  onSubmit,
+  onCancel,
+  error,
+  title = 'Password Required',
+  message,
+  placeholder = 'Enter password',
+  cancelLabel = 'Cancel',
+  note,
+  footer,
+  hint,
+  onTryCandidates,
+  rememberLabel,
+}: PasswordModalProps) {
   const [password, setPassword] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const [details, setDetails] = useState<PasswordDetails>({});
+  const [remember, setRemember] = useState(true);
+  const persistenceEnabled = useDataStore(state => state.persistenceEnabled);
+
+  const candidates = hint ? buildPasswordCandidates(hint.schemes, details) : [];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (password.trim() && !isSubmitting) {
       setIsSubmitting(true);
-      await onSubmit(password);
+      await onSubmit(password, remember);
       setIsSubmitting(false);
       // Don't clear password - let parent decide if modal should close
     }
   };
 
+  const handleTryCandidates = async () => {
+    if (!onTryCandidates || candidates.length === 0 || isSubmitting) return;
+    setIsSubmitting(true);
+    await onTryCandidates(candidates, remember);
+    setIsSubmitting(false);
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-6 z-50">
       <div className="bg-white rounded-2xl p-8 max-w-md w-full shadow-2xl">
@@ -33,15 +89,71 @@ export default function PasswordModal({ fileName, onSubmit, onCancel, error }: P
 
         {/* Title */}
         <h3 className="text-2xl font-bold text-center mb-2 text-primary-900">
-          Password Required
+          {title}
         </h3>
 
         {/* Message */}
         <p className="text-center text-sm text-primary-600 mb-6">
-          The file <strong className="text-primary-900">{fileName}</strong> is password-protected.
-          Please enter the password to continue.
+          {message ?? (
+            <>
+              The file <strong className="text-primary-900">{fileName}</strong> is password-protected.
+              Please enter the password to continue.
+            </>
+          )}
         </p>
 
+        {/* How this app locks its files */}
+        {hint && (
+          <div className="mb-4 p-3 bg-primary-50 rounded-xl text-sm text-primary-900">
+            <p>💡 {hint.text}</p>
+            {onTryCandidates && (
+              <button
+                type="button"
+                onClick={() => setShowDetails(!showDetails)}
+                className="mt-2 text-sm font-semibold text-primary-900 underline"
+              >
+                {showDetails ? 'Hide details form' : 'Build it from my details'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Details the likely passwords are built from, tried locally */}
+        {hint && onTryCandidates && showDetails && (
+          <div className="mb-4 flex flex-col gap-3">
+            {getPasswordFields(hint.schemes).map(field => (
+              <label key={field} className="flex flex-col gap-1 text-xs font-semibold text-primary-600">
+                {PASSWORD_FIELD_LABELS[field]}
+                <input
+                  type={FIELD_INPUT_TYPES[field]}
+                  value={details[field] || ''}
+                  onChange={e => setDetails({ ...details, [field]: e.target.value })}
+                  className="w-full px-4 py-2 border-2 border-primary-200 rounded-xl text-base font-normal
+                           text-primary-900 focus:outline-none focus:border-primary-500 transition-colors"
+                  disabled={isSubmitting}
+                />
+              </label>
+            ))}
+            <p className="text-xs text-primary-500">
+              Tries: {hint.schemes.map(scheme => PASSWORD_SCHEMES[scheme].label).join(' · ')}
+            </p>
+            <button
+              type="button"
+              onClick={handleTryCandidates}
+              disabled={candidates.length === 0 || isSubmitting}
+              className="px-6 py-3 bg-primary-100 text-primary-900 rounded-xl font-semibold text-sm
+                       transition-all duration-200 hover:bg-primary-200 active:scale-95
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting
+                ? 'Trying...'
+                : candidates.length === 0
+                  ? 'Try likely passwords'
+                  : `Try ${candidates.length} likely password${candidates.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl">
@@ -58,7 +170,7 @@ export default function PasswordModal({ fileName, onSubmit, onCancel, error }: P
             type="password"
             value={password}
             onChange={e => setPassword(e.target.value)}
-            placeholder="Enter password"
+            placeholder={placeholder}
             className="w-full px-4 py-3 border-2 border-primary-200 rounded-xl text-base
                      focus:outline-none focus:border-primary-500 transition-colors mb-4
                      disabled:bg-gray-50 disabled:cursor-not-allowed"
@@ -66,6 +178,13 @@ export default function PasswordModal({ fileName, onSubmit, onCancel, error }: P
             disabled={isSubmitting}
           />
 
+          {rememberLabel && (
+            <label className="flex items-center gap-2 mb-4 cursor-pointer text-sm text-primary-900">
+              <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} />
+              <span>Use this password for {rememberLabel} this session</span>
+            </label>
+          )}
+
           {/* Actions */}
           <div className="flex gap-3">
             <button
@@ -77,7 +196,7 @@ export default function PasswordModal({ fileName, onSubmit, onCancel, error }: P
                        disabled:opacity-50 disabled:cursor-not-allowed"
               disabled={isSubmitting}
             >
-              Cancel
+              {cancelLabel}
             </button>
             <button
               type="submit"
@@ -92,9 +211,14 @@ export default function PasswordModal({ fileName, onSubmit, onCancel, error }: P
           </div>
         </form>
 
+        {footer}
+
         {/* Privacy note */}
         <p className="text-xs text-center text-primary-400 mt-4">
-          🔒 Password is used only for decryption and never stored
+          {note ??
+            (persistenceEnabled
+              ? '🔒 Password is kept only in your encrypted data on this device'
+              : '🔒 Password is used only for decryption and never stored')}
         </p>
       </div>
     </div>
@@ -0,0 +1,70 @@
+import { useAppOverrideStore } from '../../stores/appOverrideStore';
+import { useMappingProfileStore } from '../../stores/mappingProfileStore';
+import { APP_METADATA } from '../../adapters/registry';
+import styles from './RememberedImports.module.css';
+
+/**
+ * Apps picked for file names and column mappings saved for spreadsheets, each removable
+ * so a wrong choice stops being applied to later uploads
+ */
+export default function RememberedImports() {
+  const { overrides, deleteOverride } = useAppOverrideStore();
+  const { profiles, deleteProfile } = useMappingProfileStore();
+
+  if (overrides.length === 0 && profiles.length === 0) return null;
+
+  return (
+    <div className={styles.remembered}>
+      {overrides.length > 0 && (
+        <section>
+          <h3 className={styles.title}>Remembered apps</h3>
+          <ul className={styles.items}>
+            {overrides.map(override => {
+              const appMeta = APP_METADATA[override.app];
+              return (
+                <li key={override.id} className={styles.item}>
+                  <span className={styles.pattern} title="# stands for any number">
+                    {override.pattern}
+                  </span>
+                  <span className={styles.target}>
+                    {appMeta?.icon} {appMeta?.displayName || override.app}
+                  </span>
+                  <button
+                    onClick={() => deleteOverride(override.id)}
+                    className={styles.removeButton}
+                    aria-label={`Forget the app picked for ${override.pattern}`}
+                  >
+                    ✕
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      {profiles.length > 0 && (
+        <section>
+          <h3 className={styles.title}>Saved column mappings</h3>
+          <ul className={styles.items}>
+            {profiles.map(profile => (
+              <li key={profile.id} className={styles.item}>
+                <span className={styles.pattern}>{profile.name}</span>
+                <span className={styles.target} title={profile.headers.join(', ')}>
+                  {profile.headers.filter(Boolean).length} columns
+                </span>
+                <button
+                  onClick={() => deleteProfile(profile.id)}
+                  className={styles.removeButton}
+                  aria-label={`Delete the ${profile.name} column mapping`}
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
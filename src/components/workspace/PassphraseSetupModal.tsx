@@ -0,0 +1,130 @@
+import { useState } from 'react';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface PassphraseSetupModalProps {
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Choose the passphrase that encrypts the saved workspace
+ */
+export default function PassphraseSetupModal({ onSubmit, onCancel }: PassphraseSetupModalProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set up encryption');
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = `w-full px-4 py-3 border-2 border-primary-200 rounded-xl text-base
+    focus:outline-none focus:border-primary-500 transition-colors mb-3
+    disabled:bg-gray-50 disabled:cursor-not-allowed`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-6 z-50">
+      <div className="bg-white rounded-2xl p-8 max-w-md w-full shadow-2xl">
+        {/* Icon */}
+        <div className="flex justify-center mb-4">
+          <div className="w-16 h-16 bg-primary-100 rounded-2xl flex items-center justify-center">
+            <span className="text-3xl">🔐</span>
+          </div>
+        </div>
+
+        {/* Title */}
+        <h3 className="text-2xl font-bold text-center mb-2 text-primary-900">
+          Set a Passphrase
+        </h3>
+
+        {/* Message */}
+        <p className="text-center text-sm text-primary-600 mb-6">
+          Your statements and insights will be encrypted with this passphrase before they are
+          saved. You will need it every time you open FinnLens. It cannot be recovered if lost.
+        </p>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-700 flex items-center gap-2">
+              <span>⚠️</span>
+              <span>{error}</span>
+            </p>
+          </div>
+        )}
+
+        {/* Form */}
+        <form onSubmit={handleSubmit}>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className={inputClassName}
+            autoFocus
+            disabled={isSubmitting}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={e => setConfirmation(e.target.value)}
+            placeholder="Confirm passphrase"
+            className={inputClassName}
+            disabled={isSubmitting}
+          />
+
+          {/* Actions */}
+          <div className="flex gap-3 mt-1">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 px-6 py-3 bg-primary-100 text-primary-900 rounded-xl
+                       font-semibold text-sm transition-all duration-200
+                       hover:bg-primary-200 active:scale-95
+                       disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!passphrase || !confirmation || isSubmitting}
+              className="flex-1 px-6 py-3 bg-primary-900 text-white rounded-xl
+                       font-semibold text-sm transition-all duration-200
+                       hover:bg-primary-800 active:scale-95
+                       disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Encrypting...' : 'Encrypt & Save'}
+            </button>
+          </div>
+        </form>
+
+        {/* Privacy note */}
+        <p className="text-xs text-center text-primary-400 mt-4">
+          🔒 AES-GCM encryption in your browser, the passphrase is never stored
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { useDataStore } from '../../stores/dataStore';
+import PasswordModal from '../upload/PasswordModal';
+import styles from './WorkspaceGate.module.css';
+
+interface WorkspaceGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Restores the saved workspace before any page renders, so a reload on
+ * /insights or /explore-data doesn't bounce through NoDataRedirect.
+ * Encrypted data is unlocked here, before the store is hydrated.
+ */
+export default function WorkspaceGate({ children }: WorkspaceGateProps) {
+  const { isRestoring, vaultLocked, restoreWorkspace, unlockWorkspace, skipUnlock, forgetEverything } =
+    useDataStore();
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+
+  useEffect(() => {
+    restoreWorkspace();
+  }, [restoreWorkspace]);
+
+  const handleUnlock = async (passphrase: string) => {
+    setUnlockError(null);
+    const result = await unlockWorkspace(passphrase);
+    if (!result.success) {
+      setUnlockError(result.error || 'Failed to unlock saved data');
+    }
+  };
+
+  const handleForget = async () => {
+    if (!confirm('Delete your saved data from this browser? This cannot be undone.')) {
+      return;
+    }
+    const result = await forgetEverything();
+    if (!result.success) {
+      alert(result.error || 'Failed to delete saved data');
+    }
+  };
+
+  if (isRestoring && vaultLocked) {
+    return (
+      <div className={styles.gate}>
+        <PasswordModal
+          title="Unlock Saved Data"
+          message="Your FinnLens data on this device is encrypted. Enter your passphrase to continue where you left off."
+          placeholder="Enter passphrase"
+          cancelLabel="Start Fresh"
+          note="🔒 Decrypted locally, your passphrase is never stored"
+          onSubmit={handleUnlock}
+          onCancel={skipUnlock}
+          error={unlockError}
+          footer={
+            <button onClick={handleForget} className={styles.forgetLink}>
+              Forgot passphrase? Delete saved data
+            </button>
+          }
+        />
+      </div>
+    );
+  }
+
+  if (isRestoring) {
+    return (
+      <div className={styles.gate}>
+        <div className={styles.spinner}></div>
+        <p className={styles.message}>Restoring your saved workspace...</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDataStore } from '../../stores/dataStore';
+import PassphraseSetupModal from './PassphraseSetupModal';
+import styles from './WorkspaceSettings.module.css';
+
+/**
+ * Opt-in toggle for keeping the workspace encrypted on this device, plus "forget everything"
+ */
+export default function WorkspaceSettings() {
+  const navigate = useNavigate();
+  const {
+    persistenceEnabled,
+    vaultLocked,
+    lastSavedAt,
+    dataSources,
+    enablePersistence,
+    disablePersistence,
+    forgetEverything,
+  } = useDataStore();
+  const [showSetup, setShowSetup] = useState(false);
+
+  const supported = typeof indexedDB !== 'undefined' && typeof crypto?.subtle !== 'undefined';
+
+  const handleToggle = async (enabled: boolean) => {
+    if (enabled) {
+      setShowSetup(true);
+      return;
+    }
+
+    if (!confirm('Stop remembering your data? The encrypted copy on this device will be deleted.')) {
+      return;
+    }
+    await disablePersistence();
+  };
+
+  const handleSetup = async (passphrase: string) => {
+    await enablePersistence(passphrase);
+    setShowSetup(false);
+  };
+
+  const handleForget = async () => {
+    if (
+      !confirm(
+        'Forget everything? All uploaded statements, insights and your review decisions will be removed from this browser.'
+      )
+    ) {
+      return;
+    }
+
+    const result = await forgetEverything();
+    if (!result.success) {
+      alert(result.error || 'Failed to delete saved data');
+    }
+    navigate('/');
+  };
+
+  const getHint = () => {
+    if (!supported) return 'Encrypted storage is not available in this browser.';
+    if (!persistenceEnabled) return 'Off: everything is forgotten when you close or reload the page.';
+    if (vaultLocked) return 'Your saved data is locked. Reload the page to unlock it.';
+    if (lastSavedAt) {
+      return `Encrypted and saved in this browser at ${lastSavedAt.toLocaleTimeString('en-IN', {
+        hour: '2-digit',
+        minute: '2-digit',
+      })}.`;
+    }
+    return 'Your statements will be encrypted and kept in this browser.';
+  };
+
+  return (
+    <div className={styles.settings}>
+      <label className={styles.toggle}>
+        <input
+          type="checkbox"
+          checked={persistenceEnabled}
+          onChange={e => handleToggle(e.target.checked)}
+          disabled={!supported || vaultLocked}
+        />
+        <span className={styles.toggleLabel}>Remember my data on this device</span>
+      </label>
+
+      <p className={styles.hint}>{getHint()}</p>
+
+      {(persistenceEnabled || dataSources.size > 0) && (
+        <button onClick={handleForget} className={styles.forgetButton}>
+          🗑️ Forget everything
+        </button>
+      )}
+
+      {showSetup && (
+        <PassphraseSetupModal onSubmit={handleSetup} onCancel={() => setShowSetup(false)} />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 // Bulk Payment insight calculator - analyzes transaction velocity
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight } from '../../types/insight.types';
+import { getSpending } from '../ledger';
 
 export interface BulkPaymentInsightData {
   maxTransactionsInHour: number;
@@ -11,27 +12,13 @@ export interface BulkPaymentInsightData {
 }
 
 /**
- * Calculate bulk payment insight from activities and transactions
+ * Calculate bulk payment insight from the ledger's payments
  * Shows transaction velocity and burst patterns
  */
 export function calculateBulkPaymentInsight(
-  data: ParsedData
+  ledger: LedgerEntry[]
 ): Insight<BulkPaymentInsightData> | null {
-  const { activities, transactions } = data;
-
-  // Combine activities and transactions
-  const financialActivities = activities.filter(
-    a => a.amount && a.transactionType !== 'other'
-  );
-
-  // Convert transactions to activity-like objects for processing
-  const transactionActivities = transactions.map(t => ({
-    time: t.time,
-    amount: t.amount,
-    transactionType: 'paid' as const,
-  }));
-
-  const allPayments = [...financialActivities, ...transactionActivities];
+  const allPayments = getSpending(ledger);
 
   if (allPayments.length === 0) return null;
 
@@ -1,7 +1,8 @@
 // Domain Collector Insight Calculator
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight, DomainInsightData } from '../../types/insight.types';
+import { getSpending } from '../ledger';
 
 /**
  * Extract domain name from transaction description
@@ -49,14 +50,14 @@ function isDomainTransaction(description: string, product: string): boolean {
 /**
  * Calculate Domain Collector insight
  */
-export function calculateDomainInsight(data: ParsedData): Insight<DomainInsightData> | null {
-  const { transactions } = data;
+export function calculateDomainInsight(ledger: LedgerEntry[]): Insight<DomainInsightData> | null {
+  const payments = getSpending(ledger);
 
-  if (transactions.length === 0) return null;
+  if (payments.length === 0) return null;
 
-  // Filter domain-related transactions
-  const domainTransactions = transactions.filter(t =>
-    isDomainTransaction(t.description, t.product)
+  // Filter domain-related payments
+  const domainTransactions = payments.filter(t =>
+    isDomainTransaction(t.description, t.product || '')
   );
 
   if (domainTransactions.length === 0) return null;
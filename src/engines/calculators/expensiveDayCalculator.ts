@@ -1,78 +1,51 @@
 // Expensive Day Insight Calculator
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight, ExpensiveDayData } from '../../types/insight.types';
 import { formatDate } from '../../utils/dateUtils';
 import { convertToINR } from '../../utils/categoryUtils';
+import { getSpending } from '../ledger';
 
 /**
  * Calculate Expensive Day insight
- * Finds the day with highest total spending from ALL sources (transactions + activities)
+ * Finds the day with highest total spending across every source in the ledger
  */
 export function calculateExpensiveDayInsight(
-  data: ParsedData
+  ledger: LedgerEntry[]
 ): Insight<ExpensiveDayData> | null {
-  const { transactions, activities } = data;
+  const payments = getSpending(ledger);
 
-  if (transactions.length === 0 && activities.length === 0) return null;
+  if (payments.length === 0) return null;
 
   // Create a map to track spending by date (YYYY-MM-DD format)
-  const spendingByDate = new Map<string, {
-    total: number;
-    transactionCount: number;
-    activityCount: number;
-  }>();
+  const spendingByDate = new Map<string, { total: number; count: number }>();
 
-  // Add transaction amounts to the map
-  transactions.forEach(transaction => {
+  payments.forEach(payment => {
     // Use local timezone for date grouping (YYYY-MM-DD format)
-    const year = transaction.time.getFullYear();
-    const month = String(transaction.time.getMonth() + 1).padStart(2, '0');
-    const day = String(transaction.time.getDate()).padStart(2, '0');
+    const year = payment.time.getFullYear();
+    const month = String(payment.time.getMonth() + 1).padStart(2, '0');
+    const day = String(payment.time.getDate()).padStart(2, '0');
     const dateKey = `${year}-${month}-${day}`;
-    const amount = convertToINR(transaction.amount);
 
     if (!spendingByDate.has(dateKey)) {
-      spendingByDate.set(dateKey, { total: 0, transactionCount: 0, activityCount: 0 });
+      spendingByDate.set(dateKey, { total: 0, count: 0 });
     }
 
     const dayData = spendingByDate.get(dateKey)!;
-    dayData.total += amount;
-    dayData.transactionCount++;
-  });
-
-  // Add activity amounts (only spent/paid, not received)
-  activities.forEach(activity => {
-    if (activity.amount && (activity.transactionType === 'sent' || activity.transactionType === 'paid')) {
-      // Use local timezone for date grouping (YYYY-MM-DD format)
-      const year = activity.time.getFullYear();
-      const month = String(activity.time.getMonth() + 1).padStart(2, '0');
-      const day = String(activity.time.getDate()).padStart(2, '0');
-      const dateKey = `${year}-${month}-${day}`;
-      const amount = convertToINR(activity.amount);
-
-      if (!spendingByDate.has(dateKey)) {
-        spendingByDate.set(dateKey, { total: 0, transactionCount: 0, activityCount: 0 });
-      }
-
-      const dayData = spendingByDate.get(dateKey)!;
-      dayData.total += amount;
-      dayData.activityCount++;
-    }
+    dayData.total += convertToINR(payment.amount);
+    dayData.count++;
   });
 
   // Find the day with maximum spending
   let maxDate: string | null = null;
   let maxAmount = 0;
-  let maxTransactionCount = 0;
-  let maxActivityCount = 0;
+  let maxCount = 0;
 
   spendingByDate.forEach((dayData, dateKey) => {
     if (dayData.total > maxAmount) {
       maxAmount = dayData.total;
       maxDate = dateKey;
-      maxTransactionCount = dayData.transactionCount;
-      maxActivityCount = dayData.activityCount;
+      maxCount = dayData.count;
     }
   });
 
@@ -84,10 +57,10 @@ export function calculateExpensiveDayInsight(
   // Generate message
   let message = '';
 
-  if (maxTransactionCount > 0 && maxActivityCount > 0) {
-    message = `On ${formatDate(expensiveDay)}, you went wild! ${maxTransactionCount} transactions + ${maxActivityCount} app payments for ₹${Math.round(totalSpent).toLocaleString()}. `;
-  } else if (maxActivityCount > 0) {
-    message = `On ${formatDate(expensiveDay)}, you made ${maxActivityCount} payments totaling ₹${Math.round(totalSpent).toLocaleString()}. `;
+  if (maxCount >= 5) {
+    message = `On ${formatDate(expensiveDay)}, you went wild! ${maxCount} payments for ₹${Math.round(totalSpent).toLocaleString()}. `;
+  } else if (maxCount > 1) {
+    message = `On ${formatDate(expensiveDay)}, you made ${maxCount} payments totaling ₹${Math.round(totalSpent).toLocaleString()}. `;
   } else {
     message = `On ${formatDate(expensiveDay)}, you spent ₹${Math.round(totalSpent).toLocaleString()}. `;
   }
@@ -1,32 +1,19 @@
 // Midnight Shopper insight calculator - tracks late night spending
 // Funny insight: "Night Owl Spender" or "3 AM Shopping Squad"
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight, MidnightShopperInsightData } from '../../types/insight.types';
 import { convertToINR } from '../../utils/categoryUtils';
+import { getSpending } from '../ledger';
 
 /**
  * Calculate midnight shopper insight
  * Shows late night (12am-5am) spending patterns
  */
 export function calculateMidnightShopperInsight(
-  data: ParsedData
+  ledger: LedgerEntry[]
 ): Insight<MidnightShopperInsightData> | null {
-  const { activities, transactions } = data;
-
-  // Combine activities and transactions
-  const financialActivities = activities.filter(
-    a => a.amount && (a.transactionType === 'sent' || a.transactionType === 'paid')
-  );
-
-  const allPayments = [
-    ...financialActivities,
-    ...transactions.map(t => ({
-      time: t.time,
-      amount: t.amount,
-      title: t.description,
-    })),
-  ];
+  const allPayments = getSpending(ledger);
 
   if (allPayments.length === 0) return null;
 
@@ -46,13 +33,13 @@ export function calculateMidnightShopperInsight(
     const hour = a.time.getHours();
     if (hour > latestHour || (hour === latestHour && a.time.getMinutes() > new Date(latestTransaction || 0).getMinutes())) {
       latestHour = hour;
-      latestTransaction = a.title;
+      latestTransaction = a.description;
     }
   });
 
   // Calculate total late night spending
   const totalSpending = lateNightTransactions.reduce((sum, a) => {
-    return sum + (a.amount ? convertToINR(a.amount) : 0);
+    return sum + convertToINR(a.amount);
   }, 0);
 
   const getMessage = () => {
@@ -1,8 +1,8 @@
 // Money Flow insight calculator - analyzes sent vs received transactions
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight } from '../../types/insight.types';
-import { convertToINR } from '../../utils/categoryUtils';
+import { getSpending, getIncome, sumINR } from '../ledger';
 
 export interface MoneyFlowInsightData {
   totalSent: { value: number; currency: 'INR' };
@@ -14,33 +14,21 @@ export interface MoneyFlowInsightData {
 }
 
 /**
- * Calculate money flow insight from activities
+ * Calculate money flow insight from the ledger
  * Shows total money sent vs received
  */
 export function calculateMoneyFlowInsight(
-  data: ParsedData
+  ledger: LedgerEntry[]
 ): Insight<MoneyFlowInsightData> | null {
-  const { activities } = data;
+  const sentEntries = getSpending(ledger);
+  const receivedEntries = getIncome(ledger);
 
-  const sentActivities = activities.filter(
-    a => a.transactionType === 'sent' && a.amount
-  );
-  const receivedActivities = activities.filter(
-    a => a.transactionType === 'received' && a.amount
-  );
-
-  if (sentActivities.length === 0 && receivedActivities.length === 0) {
+  if (sentEntries.length === 0 && receivedEntries.length === 0) {
     return null;
   }
 
-  const totalSent = sentActivities.reduce(
-    (sum, a) => sum + convertToINR(a.amount!),
-    0
-  );
-  const totalReceived = receivedActivities.reduce(
-    (sum, a) => sum + convertToINR(a.amount!),
-    0
-  );
+  const totalSent = sumINR(sentEntries);
+  const totalReceived = sumINR(receivedEntries);
 
   const netFlow = totalReceived - totalSent;
   const flowDirection: 'giver' | 'receiver' | 'balanced' =
@@ -54,8 +42,8 @@ export function calculateMoneyFlowInsight(
       totalSent: { value: totalSent, currency: 'INR' },
       totalReceived: { value: totalReceived, currency: 'INR' },
       netFlow: { value: netFlow, currency: 'INR' },
-      sentCount: sentActivities.length,
-      receivedCount: receivedActivities.length,
+      sentCount: sentEntries.length,
+      receivedCount: receivedEntries.length,
       flowDirection,
     },
     message:
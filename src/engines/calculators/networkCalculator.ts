@@ -1,16 +1,19 @@
 // Money Network Insight Calculator
 
-import { ParsedData } from '../../types/data.types';
+import { ParsedData, LedgerEntry } from '../../types/data.types';
+import { CounterpartyResolution } from '../../types/counterparty.types';
 import { Insight, MoneyNetworkData } from '../../types/insight.types';
 
 /**
  * Calculate Money Network insight
- * Tracks unique people and groups in expense sharing
+ * Tracks unique people and groups in expense sharing, plus everyone paid or paid by in the ledger
  */
 export function calculateMoneyNetworkInsight(
-  data: ParsedData
+  data: ParsedData,
+  ledger: LedgerEntry[],
+  counterparties: CounterpartyResolution
 ): Insight<MoneyNetworkData> | null {
-  const { groupExpenses, activities } = data;
+  const { groupExpenses } = data;
 
   // Track unique people from group expenses
   const peopleFromGroups = new Set<string>();
@@ -35,11 +38,11 @@ export function calculateMoneyNetworkInsight(
     });
   });
 
-  // NEW: Track unique people from activities
+  // Track unique counterparties from the ledger, one per resolved entity
   const peopleFromActivities = new Set<string>();
-  activities.forEach(activity => {
-    if (activity.recipient) peopleFromActivities.add(activity.recipient);
-    if (activity.sender) peopleFromActivities.add(activity.sender);
+  ledger.forEach(entry => {
+    const entity = counterparties.byEntry.get(entry.id);
+    if (entity && entry.status !== 'failed' && !entry.selfTransfer) peopleFromActivities.add(entity.name);
   });
 
   // Combine both sets for total unique people
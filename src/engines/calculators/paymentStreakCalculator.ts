@@ -1,28 +1,18 @@
 // Payment Streak insight calculator - tracks consecutive payment days
 // Funny insight: "Payment Streak Warrior" or "Spending Spree Champion"
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight, PaymentStreakInsightData } from '../../types/insight.types';
+import { getSpending } from '../ledger';
 
 /**
  * Calculate payment streak insight
  * Shows longest consecutive days with payments
  */
 export function calculatePaymentStreakInsight(
-  data: ParsedData
+  ledger: LedgerEntry[]
 ): Insight<PaymentStreakInsightData> | null {
-  const { activities, transactions } = data;
-
-  // Combine activities and transactions
-  const financialActivities = activities.filter(
-    a => a.amount && (a.transactionType === 'sent' || a.transactionType === 'paid')
-  );
-
-  // Get all payment dates from both sources
-  const allPaymentDates = [
-    ...financialActivities.map(a => a.time),
-    ...transactions.map(t => t.time),
-  ];
+  const allPaymentDates = getSpending(ledger).map(entry => entry.time);
 
   if (allPaymentDates.length === 0) return null;
 
@@ -1,6 +1,6 @@
 // Peak Activity insight calculator - analyzes transaction timing patterns
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight } from '../../types/insight.types';
 
 export interface PeakActivityInsightData {
@@ -12,23 +12,13 @@ export interface PeakActivityInsightData {
 }
 
 /**
- * Calculate peak activity times insight from activities and transactions
- * Shows when user is most active with payments
+ * Calculate peak activity times insight from the ledger
+ * Shows when user is most active with payments, sent or received
  */
 export function calculatePeakActivityInsight(
-  data: ParsedData
+  ledger: LedgerEntry[]
 ): Insight<PeakActivityInsightData> | null {
-  const { activities, transactions } = data;
-
-  // Combine activities and transactions
-  const financialActivities = activities.filter(
-    a => a.amount && a.transactionType !== 'other'
-  );
-
-  const allPayments = [
-    ...financialActivities.map(a => ({ time: a.time })),
-    ...transactions.map(t => ({ time: t.time })),
-  ];
+  const allPayments = ledger.filter(entry => entry.status !== 'failed');
 
   if (allPayments.length === 0) return null;
 
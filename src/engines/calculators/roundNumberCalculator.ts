@@ -1,28 +1,19 @@
 // Round Number Obsession insight calculator
 // Funny insight: "The OCD Payment Award" or "Round Number Fanatic"
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight, RoundNumberObsessionInsightData } from '../../types/insight.types';
 import { convertToINR } from '../../utils/categoryUtils';
+import { getSpending } from '../ledger';
 
 /**
  * Calculate round number obsession insight
  * Detects if user loves paying in round numbers (₹100, ₹500, ₹1000, etc.)
  */
 export function calculateRoundNumberObsessionInsight(
-  data: ParsedData
+  ledger: LedgerEntry[]
 ): Insight<RoundNumberObsessionInsightData> | null {
-  const { activities, transactions } = data;
-
-  // Combine activities and transactions
-  const financialActivities = activities.filter(
-    a => a.amount && (a.transactionType === 'sent' || a.transactionType === 'paid')
-  );
-
-  const allPayments = [
-    ...financialActivities.map(a => ({ amount: a.amount! })),
-    ...transactions.map(t => ({ amount: t.amount })),
-  ];
+  const allPayments = getSpending(ledger);
 
   if (allPayments.length < 10) return null; // Need enough data
 
@@ -91,7 +82,7 @@ export function calculateRoundNumberObsessionInsight(
     tone: 'funny',
     data: {
       roundPayments,
-      totalPayments: financialActivities.length,
+      totalPayments: allPayments.length,
       roundPercentage,
       favoriteRoundNumber,
     },
@@ -1,28 +1,19 @@
 // Smallest Payment insight calculator - finds the tiniest payment
 // Funny insight: "Penny Pincher Alert" or "Why did you even bother?"
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight, SmallestPaymentInsightData } from '../../types/insight.types';
 import { convertToINR } from '../../utils/categoryUtils';
+import { getSpending } from '../ledger';
 
 /**
  * Calculate smallest payment insight
  * Highlights hilariously small transactions
  */
 export function calculateSmallestPaymentInsight(
-  data: ParsedData
+  ledger: LedgerEntry[]
 ): Insight<SmallestPaymentInsightData> | null {
-  const { activities, transactions } = data;
-
-  // Combine activities and transactions
-  const financialActivities = activities.filter(
-    a => a.amount && a.amount.value > 0 && (a.transactionType === 'sent' || a.transactionType === 'paid')
-  );
-
-  const allPayments = [
-    ...financialActivities.map(a => ({ amount: a.amount!, description: a.title, time: a.time })),
-    ...transactions.filter(t => t.amount.value > 0).map(t => ({ amount: t.amount, description: t.description, time: t.time })),
-  ];
+  const allPayments = getSpending(ledger).filter(entry => entry.amount.value > 0);
 
   if (allPayments.length === 0) return null;
 
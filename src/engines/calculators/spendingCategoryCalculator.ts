@@ -1,12 +1,13 @@
 // Spending Category insight calculator - analyzes spending by category
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight } from '../../types/insight.types';
 import {
   getCategoryStats,
   TransactionCategory,
   convertToINR,
 } from '../../utils/categoryUtils';
+import { getSpending } from '../ledger';
 
 export interface SpendingCategoryInsightData {
   topCategory: TransactionCategory;
@@ -26,28 +27,16 @@ export interface SpendingCategoryInsightData {
  * Shows top spending category and breakdown
  */
 export function calculateSpendingCategoryInsight(
-  data: ParsedData
+  ledger: LedgerEntry[]
 ): Insight<SpendingCategoryInsightData> | null {
-  const { transactions, activities } = data;
-
-  // Combine transactions and activities
-  const allItems = [
-    ...transactions.map(t => ({ description: t.description, amount: t.amount })),
-    ...activities
-      .filter(
-        a =>
-          a.amount &&
-          (a.transactionType === 'sent' || a.transactionType === 'paid')
-      )
-      .map(a => ({ description: a.title, amount: a.amount! })),
-  ];
+  const allItems = getSpending(ledger);
 
   if (allItems.length === 0) return null;
 
   const categoryStats = getCategoryStats(allItems);
 
   // Find top category
-  let topCategory: TransactionCategory = 'Others';
+  let topCategory: TransactionCategory = 'Services & Miscellaneous';
   let topAmount = 0;
   let topCount = 0;
 
@@ -83,19 +72,15 @@ export function calculateSpendingCategoryInsight(
     Entertainment: `Living your best life! ₹${Math.round(topAmount).toLocaleString()} on entertainment`,
     'Travel & Transport': `Always on the move! ₹${Math.round(topAmount).toLocaleString()} on travel`,
     'E-commerce': `Shopping spree! ₹${Math.round(topAmount).toLocaleString()} on online shopping`,
-    'Utilities & Bills': `Responsible adult! ₹${Math.round(topAmount).toLocaleString()} on bills`,
     'Bills & Utilities': `Responsible adult! ₹${Math.round(topAmount).toLocaleString()} on bills`,
     Education: `Investing in knowledge! ₹${Math.round(topAmount).toLocaleString()} on education`,
     Healthcare: `Health first! ₹${Math.round(topAmount).toLocaleString()} on healthcare`,
     Groceries: `Home chef! ₹${Math.round(topAmount).toLocaleString()} on groceries`,
     Clothing: `Fashionista! ₹${Math.round(topAmount).toLocaleString()} on clothing`,
-    Investments: `Smart saver! ₹${Math.round(topAmount).toLocaleString()} invested`,
     'Investment & Finance': `Smart saver! ₹${Math.round(topAmount).toLocaleString()} invested`,
-    Transfers: `Social butterfly! ₹${Math.round(topAmount).toLocaleString()} sent to friends & family`,
-    'Bank Transfers': `Moving money! ₹${Math.round(topAmount).toLocaleString()} in bank transfers`,
     'Transfers & Payments': `Moving money! ₹${Math.round(topAmount).toLocaleString()} in transfers`,
     'Services & Miscellaneous': `Diverse spender! ₹${Math.round(topAmount).toLocaleString()} across ${topCount} payments`,
-    Others: `Diverse spender! ₹${Math.round(topAmount).toLocaleString()} across ${topCount} payments`,
+    Uncategorized: `Mystery spender! ₹${Math.round(topAmount).toLocaleString()} across ${topCount} payments`,
   };
 
   return {
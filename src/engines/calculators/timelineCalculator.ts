@@ -1,32 +1,27 @@
 // Spending Timeline Insight Calculator
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
 import { Insight, SpendingTimelineData } from '../../types/insight.types';
-import { getTransactionDateRange, daysBetween, yearsBetween, formatDate } from '../../utils/dateUtils';
+import { daysBetween, yearsBetween, formatDate } from '../../utils/dateUtils';
 
 /**
  * Calculate Spending Timeline insight
  * Shows the journey from first to last transaction
  */
 export function calculateSpendingTimelineInsight(
-  data: ParsedData
+  ledger: LedgerEntry[]
 ): Insight<SpendingTimelineData> | null {
-  const { transactions, activities } = data;
+  const payments = ledger.filter(entry => entry.status !== 'failed');
 
-  if (transactions.length === 0) return null;
+  if (payments.length === 0) return null;
 
-  const { min, max } = getTransactionDateRange(transactions);
-
-  if (!min || !max) return null;
+  // The ledger is sorted oldest first
+  const min = payments[0].time;
+  const max = payments[payments.length - 1].time;
 
   const daysSince = daysBetween(min, max);
   const yearsSince = yearsBetween(min, max);
 
-  // NEW: Count financial activities (sent/received/paid)
-  const activityFrequency = activities.filter(
-    a => a.amount && a.transactionType !== 'other'
-  ).length;
-
   // Generate message
   let message = `From ${formatDate(min)} to ${formatDate(max)}. `;
 
@@ -40,10 +35,7 @@ export function calculateSpendingTimelineInsight(
     message += `That's ${daysSince} day${daysSince === 1 ? '' : 's'} of payments! `;
   }
 
-  // NEW: Add activity context
-  if (activityFrequency > 0) {
-    message += `${transactions.length} transactions + ${activityFrequency} app payments. `;
-  }
+  message += `${payments.length} payment${payments.length === 1 ? '' : 's'} sent and received. `;
 
   message += `Your digital payment journey. 🚀`;
 
@@ -1,6 +1,7 @@
 // Transaction Partner insight calculator - finds most frequent payment partner
 
-import { ParsedData } from '../../types/data.types';
+import { LedgerEntry } from '../../types/data.types';
+import { CounterpartyResolution } from '../../types/counterparty.types';
 import { Insight } from '../../types/insight.types';
 import { convertToINR } from '../../utils/categoryUtils';
 
@@ -12,42 +13,42 @@ export interface TransactionPartnerInsightData {
 }
 
 /**
- * Calculate transaction partner insight from activities
- * Shows most frequent person for money transfers
+ * Calculate transaction partner insight from the ledger
+ * Shows most frequent person for money transfers, however each app spelled them
  */
 export function calculateTransactionPartnerInsight(
-  data: ParsedData
+  ledger: LedgerEntry[],
+  counterparties: CounterpartyResolution
 ): Insight<TransactionPartnerInsightData> | null {
-  const { activities } = data;
-
-  // Count transactions per person
+  // Count transactions per resolved counterparty (keyed by entity id)
   const partnerCounts = new Map<
     string,
     {
+      name: string;
       count: number;
       totalAmount: number;
       types: Set<'sent' | 'received'>;
     }
   >();
 
-  activities.forEach(activity => {
-    if (!activity.amount) return;
+  ledger.forEach(entry => {
+    if (entry.status === 'failed' || entry.selfTransfer) return; // Not a partner when it's the user's own account
 
-    const partner = activity.recipient || activity.sender;
+    const partner = counterparties.byEntry.get(entry.id);
     if (!partner) return;
 
-    const existing = partnerCounts.get(partner) || {
+    const existing = partnerCounts.get(partner.id) || {
+      name: partner.name,
       count: 0,
       totalAmount: 0,
       types: new Set(),
     };
 
     existing.count++;
-    existing.totalAmount += convertToINR(activity.amount);
-    if (activity.transactionType === 'sent') existing.types.add('sent');
-    if (activity.transactionType === 'received') existing.types.add('received');
+    existing.totalAmount += convertToINR(entry.amount);
+    existing.types.add(entry.direction === 'credit' ? 'received' : 'sent');
 
-    partnerCounts.set(partner, existing);
+    partnerCounts.set(partner.id, existing);
   });
 
   if (partnerCounts.size === 0) return null;
@@ -55,12 +56,12 @@ export function calculateTransactionPartnerInsight(
   // Find most frequent
   let mostFrequent = {
     name: '',
-    data: { count: 0, totalAmount: 0, types: new Set<'sent' | 'received'>() },
+    data: { name: '', count: 0, totalAmount: 0, types: new Set<'sent' | 'received'>() },
   };
 
-  partnerCounts.forEach((partnerData, name) => {
+  partnerCounts.forEach(partnerData => {
     if (partnerData.count > mostFrequent.data.count) {
-      mostFrequent = { name, data: partnerData };
+      mostFrequent = { name: partnerData.name, data: partnerData };
     }
   });
 
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { linkCardPayments, markCardPayments } from './cardPaymentLinker';
+import { buildLedger, getSpending } from './ledger';
+import type { Transaction, ActivityRecord } from '../types/data.types';
+import type { CardStatement } from '../types/card.types';
+import { transaction, activity, parsedData } from '../test/parsedData';
+
+const statement = (overrides: Partial<CardStatement>): CardStatement => ({
+  issuer: 'HDFC Bank',
+  statementDate: new Date(2025, 5, 12),
+  dueDate: new Date(2025, 6, 2),
+  totalDue: { value: 12850, currency: 'INR' },
+  minimumDue: { value: 640, currency: 'INR' },
+  fees: { value: 0, currency: 'INR' },
+  paymentsReceived: [],
+  linkedPayments: [],
+  sourceApp: 'creditcard',
+  sourceId: 'card-a',
+  ...overrides,
+});
+
+// A bill payment of the statement's total due, before the due date
+const billPayment = (overrides: Partial<Transaction> = {}) =>
+  transaction({
+    time: new Date(2025, 5, 28, 10, 0),
+    description: 'HDFC Credit Card Bill Payment',
+    amount: { value: 12850, currency: 'INR' },
+    ...overrides,
+  });
+
+const data = (transactions: Transaction[], cardStatements: CardStatement[], activities: ActivityRecord[] = []) =>
+  parsedData({ transactions, cardStatements, activities });
+
+describe('cardPaymentLinker', () => {
+  it('should link a bill payment of the total due before the due date', () => {
+    const result = linkCardPayments(data([billPayment()], [statement({})]));
+
+    expect(result.transactions).toHaveLength(1);
+    expect(result.cardStatements?.[0].linkedPayments).toHaveLength(1);
+    expect(result.cardStatements?.[0].linkedPayments[0].recordKey).toBe('phonepe-a:T1');
+  });
+
+  it('should link a payment the card statement acknowledged', () => {
+    const result = linkCardPayments(
+      data(
+        [billPayment({ amount: { value: 5000, currency: 'INR' }, description: 'BBPS HDFC Card payment' })],
+        [
+          statement({
+            paymentsReceived: [
+              { date: new Date(2025, 5, 29), amount: { value: 5000, currency: 'INR' }, description: 'PAYMENT RECEIVED' },
+            ],
+          }),
+        ]
+      )
+    );
+
+    expect(result.cardStatements?.[0].linkedPayments).toHaveLength(1);
+  });
+
+  it('should not link other bills that match a payment the card received', () => {
+    const result = linkCardPayments(
+      data(
+        [billPayment({ amount: { value: 5000, currency: 'INR' }, category: 'Bills & Utilities', description: 'BESCOM Electricity' })],
+        [
+          statement({
+            paymentsReceived: [
+              { date: new Date(2025, 5, 29), amount: { value: 5000, currency: 'INR' }, description: 'PAYMENT RECEIVED' },
+            ],
+          }),
+        ]
+      )
+    );
+
+    expect(result.cardStatements?.[0].linkedPayments).toHaveLength(0);
+  });
+
+  it('should link Google Pay activities paid to the card', () => {
+    const result = linkCardPayments(
+      data(
+        [],
+        [statement({})],
+        [
+          activity({
+            title: 'Paid ₹12,850.00',
+            time: new Date(2025, 5, 30),
+            amount: { value: 12850, currency: 'INR' },
+            recipient: 'CRED Club',
+          }),
+        ]
+      )
+    );
+
+    expect(result.activities).toHaveLength(1);
+    expect(result.cardStatements?.[0].linkedPayments).toHaveLength(1);
+  });
+
+  it('should link only one of several payments of the dues in one window', () => {
+    const result = linkCardPayments(
+      data(
+        [
+          billPayment({ id: 'MIN', time: new Date(2025, 5, 20), amount: { value: 640, currency: 'INR' } }),
+          billPayment({ id: 'FIRST', time: new Date(2025, 5, 25) }),
+          billPayment({ id: 'AGAIN', time: new Date(2025, 5, 28) }),
+        ],
+        [statement({})]
+      )
+    );
+
+    expect(result.cardStatements?.[0].linkedPayments.map(payment => payment.recordKey)).toEqual(['phonepe-a:FIRST']);
+  });
+
+  it('should not link payments outside the billing window or with other amounts', () => {
+    const result = linkCardPayments(
+      data(
+        [
+          billPayment({ id: 'EARLY', time: new Date(2025, 5, 1) }),
+          billPayment({ id: 'LATE', time: new Date(2025, 7, 1) }),
+          billPayment({ id: 'PARTIAL', amount: { value: 3000, currency: 'INR' } }),
+        ],
+        [statement({})]
+      )
+    );
+
+    expect(result.cardStatements?.[0].linkedPayments).toHaveLength(0);
+  });
+
+  it('should not link ordinary payments that happen to match the dues', () => {
+    const result = linkCardPayments(
+      data([billPayment({ description: 'Paid to Ramesh' })], [statement({})])
+    );
+
+    expect(result.cardStatements?.[0].linkedPayments).toHaveLength(0);
+  });
+
+  it('should never link the card statement\'s own transactions', () => {
+    const result = linkCardPayments(
+      data([billPayment({ sourceApp: 'creditcard', sourceId: 'card-a' })], [statement({})])
+    );
+
+    expect(result.cardStatements?.[0].linkedPayments).toHaveLength(0);
+  });
+
+  describe('markCardPayments', () => {
+    it('should keep linked payments in the ledger but out of spending', () => {
+      const linked = linkCardPayments(
+        data([billPayment(), billPayment({ id: 'T2', description: 'Swiggy', amount: { value: 300, currency: 'INR' } })], [statement({})])
+      );
+      const ledger = buildLedger(linked);
+
+      expect(ledger).toHaveLength(2);
+      expect(ledger.find(entry => entry.id === 'phonepe-a:T1')).toMatchObject({ cardPayment: true, selfTransfer: true });
+      expect(getSpending(ledger).map(entry => entry.id)).toEqual(['phonepe-a:T2']);
+    });
+
+    it('should leave the ledger alone without linked payments', () => {
+      const ledger = buildLedger(data([billPayment()], []));
+
+      expect(markCardPayments(ledger, [statement({})])).toBe(ledger);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+// Card bill payment linking - stops a card bill paid over UPI being counted as a second spend
+
+import type { ParsedData, Transaction, ActivityRecord, LedgerEntry } from '../types/data.types';
+import type { CardStatement, LinkedCardPayment } from '../types/card.types';
+import { UpiApp } from '../types/app.types';
+import { convertToINR } from '../utils/categoryUtils';
+import { getTransactionKey, getActivityKey } from './deduplicationEngine';
+
+/**
+ * Days either side of a "payment received" line on the card statement
+ */
+export const PAYMENT_MATCH_DAYS = 3;
+
+/**
+ * Days after the due date a payment of the statement dues is still accepted
+ */
+export const DUE_DATE_GRACE_DAYS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How card bill payments are described in UPI apps and bank statements
+const CARD_BILL_PATTERN =
+  /(credit ?card|card ?bill|\bcc ?(bill|payment|pmt)\b|card (payment|dues)|\bcred\b|cred\.club|\bbbps\b.*card)/i;
+
+interface Candidate {
+  key: string;
+  record: Transaction | ActivityRecord;
+  time: number;
+  amountPaise: number;
+  description: string;
+  looksLikeCardBill: boolean;
+}
+
+/**
+ * Link UPI/bank bill payments to the card statements they settled
+ *
+ * A payment is linked when it is described as a card bill payment and either:
+ * - the card statement shows a payment received of the same amount within PAYMENT_MATCH_DAYS, or
+ * - it equals the statement's total or minimum due, paid between the statement date and
+ *   DUE_DATE_GRACE_DAYS after the due date (only one such payment per statement)
+ *
+ * Linked records are listed on CardStatement.linkedPayments and stay in the payment lists;
+ * markCardPayments keeps them out of spending in the ledger.
+ */
+export function linkCardPayments(data: ParsedData): ParsedData {
+  const statements = data.cardStatements || [];
+  if (statements.length === 0) return data;
+
+  const candidates: Candidate[] = [
+    ...data.transactions
+      .filter(t => t.sourceApp !== UpiApp.CREDIT_CARD)
+      .map(t => toCandidate(t, getTransactionKey(t), t.description, t.amount)),
+    ...data.activities
+      .filter(
+        a =>
+          a.sourceApp !== UpiApp.CREDIT_CARD &&
+          (a.transactionType === 'paid' || a.transactionType === 'sent')
+      )
+      .map(a =>
+        toCandidate(a, getActivityKey(a), a.recipient || a.description || a.title, a.amount)
+      ),
+  ].filter(c => c.amountPaise > 0);
+
+  const linked = new Set<string>();
+  const updated = statements.map(statement => {
+    const links: LinkedCardPayment[] = [];
+    const take = (candidate: Candidate) => {
+      linked.add(candidate.key);
+      links.push({
+        recordKey: candidate.key,
+        sourceApp: candidate.record.sourceApp,
+        time: new Date(candidate.time),
+        amount: candidate.record.amount || { value: candidate.amountPaise / 100, currency: 'INR' },
+        description: candidate.description,
+      });
+    };
+
+    // Payments the card acknowledged
+    statement.paymentsReceived.forEach(payment => {
+      const paise = Math.round(convertToINR(payment.amount) * 100);
+      const match = findClosest(
+        candidates.filter(
+          c =>
+            !linked.has(c.key) &&
+            c.amountPaise === paise &&
+            Math.abs(c.time - payment.date.getTime()) <= PAYMENT_MATCH_DAYS * DAY_MS &&
+            c.looksLikeCardBill
+        ),
+        payment.date.getTime()
+      );
+      if (match) take(match);
+    });
+
+    // Payments of this cycle's dues (they show up on the next statement)
+    const windowStart = (statement.statementDate || statement.billingPeriod?.end)?.getTime();
+    const windowEnd = statement.dueDate
+      ? statement.dueDate.getTime() + DUE_DATE_GRACE_DAYS * DAY_MS
+      : undefined;
+
+    if (windowStart !== undefined && windowEnd !== undefined) {
+      const dues = [statement.totalDue, statement.minimumDue]
+        .filter((due): due is NonNullable<typeof due> => Boolean(due))
+        .map(due => Math.round(convertToINR(due) * 100));
+
+      const inWindow = candidates.filter(
+        c => !linked.has(c.key) && c.looksLikeCardBill && c.time >= windowStart && c.time <= windowEnd
+      );
+
+      // One payment settles the dues: the earliest of the total due, else of the minimum due.
+      // Another bill payment in the window is a separate payment, so it stays in spending
+      const match = dues
+        .map(paise => findClosest(inWindow.filter(c => c.amountPaise === paise), windowStart))
+        .find(Boolean);
+      if (match) take(match);
+    }
+
+    return { ...statement, linkedPayments: links };
+  });
+
+  return { ...data, cardStatements: updated };
+}
+
+/**
+ * Mark ledger entries for bill payments linked to a card statement
+ * Paying the card moves money between the user's own accounts, so they're marked as
+ * self-transfers too: the card's own transactions already count the spending.
+ */
+export function markCardPayments(ledger: LedgerEntry[], statements: CardStatement[] = []): LedgerEntry[] {
+  const linked = new Set(statements.flatMap(s => s.linkedPayments.map(payment => payment.recordKey)));
+  if (linked.size === 0) return ledger;
+
+  return ledger.map(entry =>
+    linked.has(entry.id) ? { ...entry, selfTransfer: true, cardPayment: true } : entry
+  );
+}
+
+function toCandidate(
+  record: Transaction | ActivityRecord,
+  key: string,
+  description: string,
+  amount?: Transaction['amount']
+): Candidate {
+  return {
+    key,
+    record,
+    time: record.time.getTime(),
+    amountPaise: amount ? Math.round(convertToINR(amount) * 100) : 0,
+    description,
+    looksLikeCardBill: CARD_BILL_PATTERN.test(description),
+  };
+}
+
+function findClosest(candidates: Candidate[], time: number): Candidate | undefined {
+  return candidates.sort((a, b) => Math.abs(a.time - time) - Math.abs(b.time - time))[0];
+}
+
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyClassificationRules,
+  applyCategoryOverrides,
+  previewClassificationRules,
+  pruneClassificationRules,
+  suggestRulesFromOverride,
+  addClassificationRule,
+  EMPTY_CATEGORY_RULES,
+} from './categoryRules';
+import { classifyTransactionMultiLayer } from '../utils/multi-layer-classifier';
+import type { LedgerEntry } from '../types/data.types';
+import type { UserClassificationRules } from '../types/classifier.types';
+import { entry } from '../test/ledgerEntry';
+
+const paidTo = (counterparty: string, category?: LedgerEntry['category']) => entry({ counterparty, category });
+
+const rules = (category: string, overrides: Partial<typeof EMPTY_CATEGORY_RULES>): UserClassificationRules => ({
+  [category]: { ...EMPTY_CATEGORY_RULES, ...overrides },
+});
+
+describe('classifyTransactionMultiLayer with user rules', () => {
+  it('should check the user\'s rules before the shipped ones', () => {
+    expect(classifyTransactionMultiLayer('Swiggy Instamart').category).toBe('Food');
+
+    const result = classifyTransactionMultiLayer('Swiggy Instamart', 300, rules('Groceries', { keywords: ['instamart'] }));
+    expect(result).toMatchObject({ category: 'Groceries', isUserRule: true, matchedRule: { type: 'keyword', matcher: 'instamart' } });
+  });
+
+  it('should match exact names, fuzzy variants and patterns', () => {
+    const userRules = {
+      ...rules('Healthcare', { exactMatches: ['DR RAO CLINIC'] }),
+      ...rules('Education', { fuzzyVariants: ['skool'], patterns: ['^BYJU'] }),
+    };
+
+    expect(classifyTransactionMultiLayer('dr rao clinic', undefined, userRules).category).toBe('Healthcare');
+    expect(classifyTransactionMultiLayer('Little Skool Fees', undefined, userRules).category).toBe('Education');
+    expect(classifyTransactionMultiLayer('BYJUS CLASSES', undefined, userRules).category).toBe('Education');
+  });
+
+  it('should ignore patterns that are not valid regular expressions', () => {
+    expect(classifyTransactionMultiLayer('Tea (stall', undefined, rules('Food', { patterns: ['(stall'] })).isUserRule)
+      .toBeUndefined();
+  });
+});
+
+describe('applyClassificationRules', () => {
+  it('should recategorise only the entries the rules match', () => {
+    const ledger = [paidTo('Chai Point', 'Services & Miscellaneous'), paidTo('Swiggy', 'Food')];
+
+    const categorised = applyClassificationRules(ledger, rules('Food', { keywords: ['chai'] }));
+
+    expect(categorised.map(item => item.category)).toEqual(['Food', 'Food']);
+    expect(categorised[1]).toBe(ledger[1]);
+  });
+
+  it('should explain matched entries with the user\'s rule', () => {
+    const [categorised] = applyClassificationRules([paidTo('Chai Point', 'Services & Miscellaneous')], rules('Food', { keywords: ['chai'] }));
+
+    expect(categorised.classification).toMatchObject({
+      category: 'Food',
+      isUserRule: true,
+      matchedRule: { type: 'keyword', matcher: 'chai' },
+    });
+  });
+});
+
+describe('previewClassificationRules', () => {
+  it('should list entries that would move, and where to', () => {
+    const ledger = [paidTo('Chai Point', 'Services & Miscellaneous'), paidTo('Swiggy', 'Food'), paidTo('Apollo Pharmacy', 'Healthcare')];
+    const current = rules('Food', { keywords: ['chai'] });
+    const draft = rules('Groceries', { keywords: ['swiggy'] });
+
+    const changes = previewClassificationRules(ledger, current, draft);
+
+    expect(changes.map(({ entry: changed, from, to }) => [changed.counterparty, from, to])).toEqual([
+      ['Chai Point', 'Food', 'Services & Miscellaneous'],
+      ['Swiggy', 'Food', 'Groceries'],
+    ]);
+  });
+
+  it('should leave out payments the user recategorised by hand', () => {
+    const ledger = [paidTo('Swiggy', 'Food'), paidTo('Swiggy', 'Food')];
+
+    const changes = previewClassificationRules(ledger, {}, rules('Groceries', { keywords: ['swiggy'] }), {
+      [ledger[0].id]: 'Travel',
+    });
+
+    expect(changes.map(change => change.entry)).toEqual([ledger[1]]);
+  });
+});
+
+describe('applyCategoryOverrides', () => {
+  it('should put the user\'s category on the payments they changed', () => {
+    const ledger = applyClassificationRules([paidTo('Swiggy', 'Food'), paidTo('Swiggy', 'Food')], rules('Groceries', { keywords: ['swiggy'] }));
+
+    const categorised = applyCategoryOverrides(ledger, { [ledger[1].id]: 'Travel' });
+
+    expect(categorised.map(item => item.category)).toEqual(['Groceries', 'Travel']);
+    expect(categorised[1].classification).toBeUndefined();
+  });
+});
+
+describe('suggestRulesFromOverride', () => {
+  it('should suggest the merchant name and its most distinctive word', () => {
+    const ledger = [paidTo('Swiggy Instamart'), paidTo('Swiggy Instamart'), paidTo('Swiggy'), paidTo('Instamart Store')];
+
+    expect(suggestRulesFromOverride(ledger, ledger[0], 'Groceries')).toEqual([
+      { category: 'Groceries', kind: 'exactMatches', value: 'Swiggy Instamart', matchCount: 2 },
+      { category: 'Groceries', kind: 'keywords', value: 'instamart', matchCount: 3 },
+    ]);
+  });
+
+  it('should offer only the exact match for single-word merchants', () => {
+    const ledger = [paidTo('Zepto')];
+
+    expect(suggestRulesFromOverride(ledger, ledger[0], 'Groceries').map(suggestion => suggestion.kind))
+      .toEqual(['exactMatches']);
+  });
+});
+
+describe('addClassificationRule', () => {
+  it('should put the new rule ahead of older ones', () => {
+    const existing = { ...rules('Food', { keywords: ['swiggy'] }), ...rules('Groceries', { keywords: ['dmart'] }) };
+
+    const updated = addClassificationRule(existing, 'Groceries', 'keywords', 'instamart');
+
+    expect(Object.keys(updated)).toEqual(['Groceries', 'Food']);
+    expect(updated.Groceries.keywords).toEqual(['instamart', 'dmart']);
+    expect(classifyTransactionMultiLayer('Swiggy Instamart', undefined, updated).category).toBe('Groceries');
+  });
+});
+
+describe('pruneClassificationRules', () => {
+  it('should drop categories without any rules', () => {
+    expect(pruneClassificationRules({ ...rules('Food', {}), ...rules('Groceries', { keywords: ['dmart'] }) }))
+      .toEqual(rules('Groceries', { keywords: ['dmart'] }));
+  });
+});
@@ -0,0 +1,173 @@
+// User classification rules - recategorise the ledger with the user's rules and per-payment categories,
+// preview rule changes, and suggest rules from payments the user recategorised
+
+import type { LedgerEntry } from '../types/data.types';
+import type { ClassificationResult, UserCategoryRules, UserClassificationRules } from '../types/classifier.types';
+import type { TransactionCategory } from '../utils/categoryUtils';
+import { matchUserRules } from '../utils/multi-layer-classifier';
+import { tokenizeCounterparty } from './deduplicationEngine';
+
+export const EMPTY_CLASSIFICATION_RULES: UserClassificationRules = {};
+
+export const EMPTY_CATEGORY_RULES: UserCategoryRules = {
+  exactMatches: [],
+  keywords: [],
+  patterns: [],
+  fuzzyVariants: [],
+};
+
+/**
+ * A ledger entry a rule change would move to another category
+ */
+export interface CategoryChange {
+  entry: LedgerEntry;
+  from: string;
+  to: string;
+}
+
+/**
+ * A rule offered after the user recategorised one payment by hand
+ */
+export interface RuleSuggestion {
+  category: string;
+  kind: 'exactMatches' | 'keywords';
+  value: string;
+  matchCount: number; // Payments in the ledger the rule would apply to, the corrected one included
+}
+
+// Too generic to recognise a merchant by
+const GENERIC_TOKENS = new Set(['india', 'store', 'stores', 'shop', 'services', 'online', 'retail', 'private', 'pvt']);
+
+/**
+ * The user rule that matches an entry, trying the merchant name first and then the description
+ */
+function matchEntry(entry: LedgerEntry, rules: UserClassificationRules): ClassificationResult | null {
+  return matchUserRules(entry.counterparty, rules) ?? matchUserRules(entry.description, rules);
+}
+
+/**
+ * Category the user's rules give an entry
+ */
+function categoryByRules(entry: LedgerEntry, rules: UserClassificationRules): string | undefined {
+  return matchEntry(entry, rules)?.category;
+}
+
+/**
+ * Recategorise entries the user's rules match; everything else keeps the category it was parsed with
+ * Matched entries carry the user's rule as their classification
+ */
+export function applyClassificationRules(ledger: LedgerEntry[], rules: UserClassificationRules): LedgerEntry[] {
+  if (Object.keys(rules).length === 0) return ledger;
+
+  return ledger.map(entry => {
+    const classification = matchEntry(entry, rules);
+    return classification
+      ? { ...entry, category: classification.category as TransactionCategory, classification }
+      : entry;
+  });
+}
+
+/**
+ * Categories the user set on individual payments, which beat every rule
+ * No rule explains these, so they lose their classification
+ */
+export function applyCategoryOverrides(ledger: LedgerEntry[], overrides: Record<string, string>): LedgerEntry[] {
+  if (Object.keys(overrides).length === 0) return ledger;
+
+  return ledger.map(entry => {
+    const category = overrides[entry.id];
+    return category
+      ? { ...entry, category: category as TransactionCategory, classification: undefined }
+      : entry;
+  });
+}
+
+/**
+ * Entries that would change category if the draft rules replaced the current ones
+ * The ledger must be built without user rules, so each entry still has its parsed category.
+ * Payments the user recategorised by hand keep their category whatever the rules say.
+ */
+export function previewClassificationRules(
+  ledger: LedgerEntry[],
+  current: UserClassificationRules,
+  draft: UserClassificationRules,
+  overrides: Record<string, string> = {}
+): CategoryChange[] {
+  const changes: CategoryChange[] = [];
+
+  ledger.forEach(entry => {
+    if (overrides[entry.id]) return;
+
+    const parsed = entry.category || 'Uncategorized';
+    const from = categoryByRules(entry, current) ?? parsed;
+    const to = categoryByRules(entry, draft) ?? parsed;
+    if (from !== to) changes.push({ entry, from, to });
+  });
+
+  return changes;
+}
+
+/**
+ * Rules that would classify payments like the one the user just recategorised
+ * An exact match on its merchant name, and a keyword on the name's most distinctive word
+ * (the one fewest other merchants share, so "Swiggy Instamart" suggests "instamart")
+ */
+export function suggestRulesFromOverride(
+  ledger: LedgerEntry[],
+  entry: LedgerEntry,
+  category: string
+): RuleSuggestion[] {
+  const name = entry.counterparty.trim();
+  if (!name) return [];
+
+  const countMatches = (kind: RuleSuggestion['kind'], value: string) => {
+    const rules = { [category]: { ...EMPTY_CATEGORY_RULES, [kind]: [value] } };
+    return ledger.filter(other => categoryByRules(other, rules) === category).length;
+  };
+
+  const suggestions: RuleSuggestion[] = [
+    { category, kind: 'exactMatches', value: name, matchCount: countMatches('exactMatches', name) },
+  ];
+
+  const merchants = new Set(ledger.map(other => other.counterparty.toLowerCase()));
+  const spread = (token: string) => [...merchants].filter(merchant => merchant.includes(token)).length;
+  const [keyword] = [...tokenizeCounterparty(name)]
+    .filter(token => token.length >= 4 && !/^\d+$/.test(token) && !GENERIC_TOKENS.has(token))
+    .sort((a, b) => spread(a) - spread(b) || b.length - a.length);
+
+  if (keyword && keyword !== name.toLowerCase()) {
+    suggestions.push({ category, kind: 'keywords', value: keyword, matchCount: countMatches('keywords', keyword) });
+  }
+
+  return suggestions;
+}
+
+/**
+ * Rules with one more value added for a category
+ * The new rule goes first, category and all, so it wins over older rules of the same kind
+ */
+export function addClassificationRule(
+  rules: UserClassificationRules,
+  category: string,
+  kind: keyof UserCategoryRules,
+  value: string
+): UserClassificationRules {
+  const categoryRules = rules[category] || EMPTY_CATEGORY_RULES;
+  const others = Object.fromEntries(Object.entries(rules).filter(([name]) => name !== category));
+
+  return {
+    [category]: { ...categoryRules, [kind]: [value, ...categoryRules[kind].filter(other => other !== value)] },
+    ...others,
+  };
+}
+
+/**
+ * Rules without empty categories, so saved rules stay tidy
+ */
+export function pruneClassificationRules(rules: UserClassificationRules): UserClassificationRules {
+  return Object.fromEntries(
+    Object.entries(rules).filter(([, categoryRules]) =>
+      Object.values(categoryRules).some(list => list.length > 0)
+    )
+  );
+}
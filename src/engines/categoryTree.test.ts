@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  migrateCategoryName,
+  getCategoryPath,
+  resolveCategoryPath,
+  getCategoryStyle,
+  assignCategoryPaths,
+  rollUpCategories,
+  findRollup,
+} from './categoryTree';
+import type { LedgerEntry } from '../types/data.types';
+import { entry } from '../test/ledgerEntry';
+
+const spent = (counterparty: string, category: string, value = 100) =>
+  entry({ counterparty, category: category as LedgerEntry['category'], amount: { value, currency: 'INR' } });
+
+describe('migrateCategoryName', () => {
+  it('should fold duplicate legacy names into the current ones', () => {
+    expect(migrateCategoryName('Utilities & Bills')).toBe('Bills & Utilities');
+    expect(migrateCategoryName('Investments')).toBe('Investment & Finance');
+    expect(migrateCategoryName('Bank Transfers')).toBe('Transfers & Payments');
+    expect(migrateCategoryName('Transfers')).toBe('Transfers & Payments');
+    expect(migrateCategoryName('Food')).toBe('Food');
+  });
+});
+
+describe('resolveCategoryPath', () => {
+  it('should place flat categories in the tree', () => {
+    expect(getCategoryPath('Groceries')).toBe('Food > Groceries');
+    expect(getCategoryPath('Others')).toBe('Services & Miscellaneous');
+    expect(getCategoryPath('Pets')).toBe('Pets');
+  });
+
+  it('should drill into the sub-category the payment\'s text matches', () => {
+    expect(resolveCategoryPath('Food', 'Paid to Swiggy')).toBe('Food > Delivery');
+    expect(resolveCategoryPath('Food', 'Paid to Swiggy Instamart')).toBe('Food > Groceries');
+    expect(resolveCategoryPath('Food', 'Paid to Adyar Ananda Bhavan')).toBe('Food > Restaurants');
+    expect(resolveCategoryPath('Food', 'Paid to Ramesh')).toBe('Food');
+    expect(resolveCategoryPath(undefined, 'Paid to Ramesh')).toBe('Uncategorized');
+  });
+
+  it('should let sub-categories inherit the parent\'s colour', () => {
+    expect(getCategoryStyle('Food > Delivery').color).toBe(getCategoryStyle('Food').color);
+    expect(getCategoryStyle('Food > Delivery').icon).not.toBe(getCategoryStyle('Food').icon);
+  });
+});
+
+describe('assignCategoryPaths', () => {
+  it('should migrate legacy categories and set each entry\'s path', () => {
+    const [bill, cab] = assignCategoryPaths([spent('Airtel', 'Utilities & Bills'), spent('Uber', 'Travel & Transport')]);
+
+    expect(bill).toMatchObject({ category: 'Bills & Utilities', categoryPath: 'Bills & Utilities > Mobile & Internet' });
+    expect(cab.categoryPath).toBe('Travel & Transport > Cabs');
+  });
+});
+
+describe('rollUpCategories', () => {
+  it('should add sub-categories up into their parents, largest first', () => {
+    const ledger = assignCategoryPaths([
+      spent('Swiggy', 'Food', 300),
+      spent('Zomato', 'Food', 200),
+      spent('BigBasket', 'Groceries', 1000),
+      spent('Uber', 'Travel & Transport', 500),
+    ]);
+
+    const rollups = rollUpCategories(ledger, { 'Food > Delivery': 400 });
+
+    expect(rollups.map(({ path, amount }) => [path, amount])).toEqual([
+      ['Food', 1500],
+      ['Travel & Transport', 500],
+    ]);
+    expect(rollups[0].percentage).toBe(75);
+    expect(rollups[0].children.map(({ name, amount, count }) => [name, amount, count])).toEqual([
+      ['Groceries', 1000, 1],
+      ['Delivery', 500, 2],
+    ]);
+    expect(findRollup(rollups, 'Food > Delivery')).toMatchObject({ budget: 400, percentage: (500 / 1500) * 100 });
+  });
+});
@@ -0,0 +1,180 @@
+// Category tree - place categories in the configured tree, fold legacy names into current ones,
+// and roll spending up from sub-categories to their parents
+
+import categoryTreeConfig from '../config/category-tree.json' assert { type: 'json' };
+import type { LedgerEntry } from '../types/data.types';
+import type { CategoryBudgets, CategoryNode, CategoryRollup, CategoryTreeConfig } from '../types/category.types';
+import type { TransactionCategory } from '../utils/categoryUtils';
+import { convertToINR, categorizeTransaction } from '../utils/categoryUtils';
+
+const config = categoryTreeConfig as CategoryTreeConfig;
+
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+const DEFAULT_ICON = '📊';
+const DEFAULT_COLOR = '#94A3B8';
+
+interface PlacedNode {
+  node: CategoryNode;
+  path: string;
+  icon: string;
+  color: string;
+}
+
+// Every node by path, and by name for looking up where a flat category sits
+// Top-level names are indexed first, so a top-level category wins over a sub-category of the same name
+const byPath = new Map<string, PlacedNode>();
+const byName = new Map<string, PlacedNode>();
+
+function indexNodes(nodes: CategoryNode[], parent?: PlacedNode) {
+  const placed = nodes.map(node => ({
+    node,
+    path: parent ? `${parent.path}${CATEGORY_PATH_SEPARATOR}${node.name}` : node.name,
+    icon: node.icon ?? parent?.icon ?? DEFAULT_ICON,
+    color: node.color ?? parent?.color ?? DEFAULT_COLOR,
+  }));
+
+  placed.forEach(item => {
+    byPath.set(item.path, item);
+    if (!byName.has(item.node.name)) byName.set(item.node.name, item);
+  });
+  placed.forEach(item => indexNodes(item.node.children ?? [], item));
+}
+
+indexNodes(config.categories);
+
+/**
+ * Top-level categories of the configured tree, in config order
+ */
+export function getCategoryTree(): CategoryNode[] {
+  return config.categories;
+}
+
+/**
+ * The current name for a category, folding old and duplicate names ("Utilities & Bills", "Others")
+ * into the ones that replaced them
+ */
+export function migrateCategoryName(name: string): string {
+  return config.legacyNames[name] ?? name;
+}
+
+/**
+ * Where a flat category sits in the tree, e.g. "Groceries" → "Food > Groceries"
+ * Categories the tree doesn't know become top-level categories of their own.
+ */
+export function getCategoryPath(category: string): string {
+  const name = migrateCategoryName(category);
+  return byName.get(name)?.path ?? name;
+}
+
+// The first sub-category, at each level down, whose keywords appear in the text
+function descend(placed: PlacedNode, lowerText: string): string {
+  const child = (placed.node.children ?? []).find(candidate =>
+    (candidate.keywords ?? []).some(keyword => lowerText.includes(keyword.toLowerCase()))
+  );
+  const next = child && byPath.get(`${placed.path}${CATEGORY_PATH_SEPARATOR}${child.name}`);
+  return next ? descend(next, lowerText) : placed.path;
+}
+
+/**
+ * The most specific category for a payment: its category's place in the tree, then down into
+ * the first sub-category whose keywords appear in the payment's text
+ */
+export function resolveCategoryPath(category: string | undefined, text: string): string {
+  const path = getCategoryPath(category || 'Uncategorized');
+  const placed = byPath.get(path);
+  return placed ? descend(placed, text.toLowerCase()) : path;
+}
+
+/**
+ * Icon and colour for a category path, inherited from the nearest configured ancestor
+ */
+export function getCategoryStyle(path: string): { icon: string; color: string } {
+  const placed = byPath.get(path) ?? byPath.get(getCategoryPath(path));
+  return placed ? { icon: placed.icon, color: placed.color } : { icon: DEFAULT_ICON, color: DEFAULT_COLOR };
+}
+
+/**
+ * Entries with legacy category names migrated and their place in the category tree set
+ * Entries parsed without a category are placed by their description; sub-categories are
+ * matched on the counterparty and the description.
+ */
+export function assignCategoryPaths(ledger: LedgerEntry[]): LedgerEntry[] {
+  return ledger.map(entry => {
+    const category = entry.category && (migrateCategoryName(entry.category) as TransactionCategory);
+    return {
+      ...entry,
+      category,
+      categoryPath: resolveCategoryPath(
+        category ?? categorizeTransaction(entry.description),
+        `${entry.counterparty} ${entry.description}`
+      ),
+    };
+  });
+}
+
+/**
+ * Spending totals for every category in the tree that has any, sub-categories adding up into
+ * their parents. Each level is sorted largest first.
+ */
+export function rollUpCategories(
+  entries: Pick<LedgerEntry, 'amount' | 'categoryPath'>[],
+  budgets: CategoryBudgets = {}
+): CategoryRollup[] {
+  const roots: CategoryRollup[] = [];
+  const rollups = new Map<string, CategoryRollup>();
+
+  const rollupFor = (path: string, parent?: CategoryRollup): CategoryRollup => {
+    let rollup = rollups.get(path);
+    if (!rollup) {
+      const names = path.split(CATEGORY_PATH_SEPARATOR);
+      rollup = {
+        path,
+        name: names[names.length - 1],
+        ...getCategoryStyle(path),
+        amount: 0,
+        count: 0,
+        percentage: 0,
+        budget: budgets[path],
+        children: [],
+      };
+      rollups.set(path, rollup);
+      (parent ? parent.children : roots).push(rollup);
+    }
+    return rollup;
+  };
+
+  entries.forEach(entry => {
+    const amount = convertToINR(entry.amount);
+    const names = (entry.categoryPath || 'Uncategorized').split(CATEGORY_PATH_SEPARATOR);
+
+    let parent: CategoryRollup | undefined;
+    names.forEach((_, depth) => {
+      parent = rollupFor(names.slice(0, depth + 1).join(CATEGORY_PATH_SEPARATOR), parent);
+      parent.amount += amount;
+      parent.count++;
+    });
+  });
+
+  const finish = (level: CategoryRollup[], total: number) => {
+    level.sort((a, b) => b.amount - a.amount);
+    level.forEach(rollup => {
+      rollup.percentage = total > 0 ? (rollup.amount / total) * 100 : 0;
+      finish(rollup.children, rollup.amount);
+    });
+  };
+  finish(roots, roots.reduce((sum, rollup) => sum + rollup.amount, 0));
+
+  return roots;
+}
+
+/**
+ * The rollup at a path, searching down from the top level
+ */
+export function findRollup(rollups: CategoryRollup[], path: string): CategoryRollup | undefined {
+  for (const rollup of rollups) {
+    if (rollup.path === path) return rollup;
+    if (path.startsWith(`${rollup.path}${CATEGORY_PATH_SEPARATOR}`)) return findRollup(rollup.children, path);
+  }
+  return undefined;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractIdentifiers,
+  resolveCounterparties,
+  mergeCounterpartyAliases,
+  splitCounterpartyAlias,
+  EMPTY_COUNTERPARTY_OVERRIDES,
+} from './counterpartyResolver';
+import type { LedgerEntry } from '../types/data.types';
+import { entry } from '../test/ledgerEntry';
+
+const entityNames = (ledger: LedgerEntry[], overrides = EMPTY_COUNTERPARTY_OVERRIDES) =>
+  resolveCounterparties(ledger, overrides).entities.map(entity => entity.spellings.slice().sort());
+
+describe('extractIdentifiers', () => {
+  it('should find UPI IDs, mobile numbers and the name', () => {
+    expect(extractIdentifiers('Paid to Ramesh Kumar ramesh.k@okaxis')).toEqual({
+      vpas: ['ramesh.k@okaxis'],
+      phones: [],
+      name: 'Ramesh Kumar',
+    });
+    expect(extractIdentifiers('Sent to +91 9876543210')).toMatchObject({
+      phones: ['9876543210'],
+    });
+    expect(extractIdentifiers('9876543210@ybl')).toMatchObject({
+      vpas: ['9876543210@ybl'],
+      phones: ['9876543210'],
+      name: '',
+    });
+  });
+
+  it('should read the name out of bank narrations', () => {
+    expect(extractIdentifiers('UPI/DR/412345678901/RAMESH K/YESB/ramesh.k@okaxis/Payment')).toEqual({
+      vpas: ['ramesh.k@okaxis'],
+      phones: [],
+      name: 'RAMESH K',
+    });
+  });
+});
+
+describe('resolveCounterparties', () => {
+  it('should merge spellings of the same person across apps', () => {
+    const ledger = [
+      entry({ counterparty: 'RAMESH K' }),
+      entry({ counterparty: 'ramesh.k@okaxis' }),
+      entry({ counterparty: 'Ramesh Kumar' }),
+      entry({ counterparty: 'Swiggy' }),
+    ];
+    const { entities, byEntry } = resolveCounterparties(ledger);
+
+    expect(entities).toHaveLength(2);
+    expect(entities[0]).toMatchObject({ name: 'Ramesh Kumar', entryCount: 3, vpas: ['ramesh.k@okaxis'] });
+    expect(byEntry.get(ledger[2].id)).toBe(entities[0]);
+    expect(byEntry.get(ledger[3].id)?.name).toBe('Swiggy');
+  });
+
+  it('should join aliases that share a UPI ID or mobile number', () => {
+    const ledger = [
+      entry({ counterparty: 'Mom', description: 'Sent to Mom 9876543210@ybl' }),
+      entry({ counterparty: 'SUNITA DEVI', description: 'UPI/DR/1234/SUNITA DEVI/9876543210@ybl' }),
+    ];
+
+    expect(entityNames(ledger)).toEqual([['Mom', 'SUNITA DEVI']]);
+  });
+
+  it('should leave a short name alone when it matches two different people', () => {
+    const ledger = [
+      entry({ counterparty: 'Ramesh Kumar' }),
+      entry({ counterparty: 'Ramesh Sharma' }),
+      entry({ counterparty: 'Ramesh' }),
+    ];
+
+    expect(entityNames(ledger)).toHaveLength(3);
+  });
+
+  it('should apply manual merges and splits', () => {
+    const ledger = [
+      entry({ counterparty: 'Ramesh Kumar' }),
+      entry({ counterparty: 'RAMESH K' }),
+      entry({ counterparty: 'Swiggy' }),
+    ];
+
+    const merged = mergeCounterpartyAliases(EMPTY_COUNTERPARTY_OVERRIDES, ['swiggy', 'ramesh kumar']);
+    expect(entityNames(ledger, merged)).toEqual([['RAMESH K', 'Ramesh Kumar', 'Swiggy']]);
+
+    const split = splitCounterpartyAlias(EMPTY_COUNTERPARTY_OVERRIDES, 'ramesh k');
+    expect(entityNames(ledger, split)).toHaveLength(3);
+  });
+
+  it('should keep other merged aliases together when the one they were merged into is split off', () => {
+    const overrides = mergeCounterpartyAliases(EMPTY_COUNTERPARTY_OVERRIDES, ['a', 'b', 'c']);
+
+    expect(splitCounterpartyAlias(overrides, 'a')).toEqual({ merges: { c: 'b' }, splits: ['a'] });
+  });
+});
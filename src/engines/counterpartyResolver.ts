@@ -0,0 +1,301 @@
+// Counterparty resolution - merges "Paid to RAMESH K", "ramesh.k@okaxis" and "Ramesh Kumar" into one entity
+
+import type { LedgerEntry } from '../types/data.types';
+import type {
+  CounterpartyIdentifiers,
+  CounterpartyEntity,
+  CounterpartyOverrides,
+  CounterpartyResolution,
+} from '../types/counterparty.types';
+import { tokenizeCounterparty, counterpartySimilarity } from './deduplicationEngine';
+import { extractCounterparty } from './ledger';
+
+/**
+ * Names at or above this similarity are the same counterparty, unless the match is ambiguous
+ */
+export const NAME_MATCH_SCORE = 0.75;
+
+export const EMPTY_COUNTERPARTY_OVERRIDES: CounterpartyOverrides = { merges: {}, splits: [] };
+
+const VPA_PATTERN = /[a-z0-9][a-z0-9._-]*@[a-z][a-z0-9.]*/gi;
+const PHONE_PATTERN = /(?<!\d)(?:\+?91[\s-]?)?([6-9]\d{9})(?!\d)/g;
+
+// Segments of bank narrations ("UPI/DR/412345678901/RAMESH K/YESB/...") that aren't names
+const NARRATION_CODES = /^(upi|imps|neft|rtgs|dr|cr|p2a|p2m|mb|ib|ach|pos|atm|payment|collect|pay)$/i;
+
+/**
+ * Key an alias is grouped and remembered under: case and spacing don't matter
+ */
+export function getAliasKey(counterparty: string): string {
+  return counterparty.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * UPI IDs, mobile numbers and a name from a counterparty or payment description
+ */
+export function extractIdentifiers(text: string): CounterpartyIdentifiers {
+  const vpas = [...new Set((text.match(VPA_PATTERN) || []).map(vpa => vpa.toLowerCase()))];
+
+  const phones = new Set<string>();
+  for (const match of text.matchAll(PHONE_PATTERN)) {
+    phones.add(match[1]);
+  }
+  // Mobile-number UPI IDs (9876543210@ybl)
+  vpas.forEach(vpa => {
+    const local = vpa.split('@')[0];
+    if (/^[6-9]\d{9}$/.test(local)) phones.add(local);
+  });
+
+  let rest = text.replace(VPA_PATTERN, ' ').replace(PHONE_PATTERN, ' ');
+  if (rest.includes('/')) {
+    rest = rest
+      .split('/')
+      .map(segment => segment.trim())
+      .find(segment => /[a-z]{3}/i.test(segment) && !NARRATION_CODES.test(segment)) || '';
+  }
+  const name = extractCounterparty(rest.replace(/\s+/g, ' ').trim()).replace(/^[\s\-:,]+|[\s\-:,]+$/g, '');
+
+  return { vpas, phones: [...phones], name };
+}
+
+interface Alias {
+  key: string;
+  spellings: Map<string, number>; // Text as it appeared → entry count
+  vpas: Set<string>;
+  phones: Set<string>;
+  tokens: Set<string>;
+  entryIds: string[];
+}
+
+/**
+ * Union-find over alias keys
+ */
+class AliasGroups {
+  private parent = new Map<string, string>();
+
+  find(key: string): string {
+    let root = key;
+    while (this.parent.has(root) && this.parent.get(root) !== root) {
+      root = this.parent.get(root)!;
+    }
+    this.parent.set(key, root);
+    return root;
+  }
+
+  union(a: string, b: string) {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parent.set(rootB, rootA);
+  }
+}
+
+function collectAliases(ledger: LedgerEntry[]): Map<string, Alias> {
+  const aliases = new Map<string, Alias>();
+
+  ledger.forEach(entry => {
+    const spelling = entry.counterparty.trim();
+    if (!spelling) return;
+
+    const key = getAliasKey(spelling);
+    let alias = aliases.get(key);
+    if (!alias) {
+      alias = { key, spellings: new Map(), vpas: new Set(), phones: new Set(), tokens: new Set(), entryIds: [] };
+      aliases.set(key, alias);
+    }
+
+    alias.spellings.set(spelling, (alias.spellings.get(spelling) || 0) + 1);
+    alias.entryIds.push(entry.id);
+
+    const fromCounterparty = extractIdentifiers(spelling);
+    const fromDescription = extractIdentifiers(entry.description);
+    [...fromCounterparty.vpas, ...fromDescription.vpas].forEach(vpa => alias!.vpas.add(vpa));
+    [...fromCounterparty.phones, ...fromDescription.phones].forEach(phone => alias!.phones.add(phone));
+
+    // ramesh.k@okaxis still says "ramesh"
+    const nameText = fromCounterparty.name || fromCounterparty.vpas.map(vpa => vpa.split('@')[0]).join(' ');
+    tokenizeCounterparty(nameText)
+      .forEach(token => {
+        if (!/^\d+$/.test(token)) alias!.tokens.add(token);
+      });
+  });
+
+  return aliases;
+}
+
+/**
+ * Join aliases sharing a UPI ID or mobile number
+ */
+function linkByIdentifiers(aliases: Alias[], groups: AliasGroups) {
+  const owners = new Map<string, string>();
+  aliases.forEach(alias => {
+    [...alias.vpas, ...alias.phones].forEach(identifier => {
+      const owner = owners.get(identifier);
+      if (owner) {
+        groups.union(owner, alias.key);
+      } else {
+        owners.set(identifier, alias.key);
+      }
+    });
+  });
+}
+
+/**
+ * Join aliases with similar names
+ * A short name matching two different fuller names ("Ramesh" vs "Ramesh Kumar" and
+ * "Ramesh Sharma") is ambiguous and left on its own
+ */
+function linkByName(aliases: Alias[], groups: AliasGroups) {
+  const byToken = new Map<string, Alias[]>();
+  aliases.forEach(alias => {
+    alias.tokens.forEach(token => {
+      const sharing = byToken.get(token);
+      if (sharing) {
+        sharing.push(alias);
+      } else {
+        byToken.set(token, [alias]);
+      }
+    });
+  });
+
+  const matchesOf = new Map<Alias, Alias[]>();
+  aliases.forEach(alias => {
+    const candidates = new Set<Alias>();
+    alias.tokens.forEach(token => byToken.get(token)!.forEach(other => candidates.add(other)));
+    candidates.delete(alias);
+
+    matchesOf.set(alias, [...candidates].filter(
+      other => counterpartySimilarity(alias.tokens, other.tokens) >= NAME_MATCH_SCORE
+    ));
+  });
+
+  const ambiguous = new Set<Alias>();
+  matchesOf.forEach((matches, alias) => {
+    const conflicting = matches.some((a, i) =>
+      matches.slice(i + 1).some(b => counterpartySimilarity(a.tokens, b.tokens) < NAME_MATCH_SCORE)
+    );
+    if (conflicting) ambiguous.add(alias);
+  });
+
+  matchesOf.forEach((matches, alias) => {
+    if (ambiguous.has(alias)) return;
+    matches.forEach(other => {
+      if (!ambiguous.has(other)) groups.union(alias.key, other.key);
+    });
+  });
+}
+
+function toEntity(members: Alias[]): CounterpartyEntity {
+  const spellings = new Map<string, number>();
+  members.forEach(alias => alias.spellings.forEach((count, spelling) => {
+    spellings.set(spelling, (spellings.get(spelling) || 0) + count);
+  }));
+
+  // Prefer readable names over UPI IDs and numbers, then the most used, then the fullest
+  const readable = (spelling: string) => !spelling.includes('@') && /[a-z]{2}/i.test(spelling);
+  const ranked = [...spellings.entries()].sort(([a, countA], [b, countB]) => {
+    const readableA = readable(a);
+    const readableB = readable(b);
+    if (readableA !== readableB) return readableA ? -1 : 1;
+    if (countA !== countB) return countB - countA;
+    return b.length - a.length;
+  });
+
+  const keys = members.map(alias => alias.key).sort();
+
+  return {
+    id: keys[0],
+    name: ranked[0][0],
+    aliases: keys,
+    spellings: ranked.map(([spelling]) => spelling),
+    vpas: [...new Set(members.flatMap(alias => [...alias.vpas]))],
+    phones: [...new Set(members.flatMap(alias => [...alias.phones]))],
+    entryCount: members.reduce((sum, alias) => sum + alias.entryIds.length, 0),
+  };
+}
+
+/**
+ * Resolve the ledger's counterparties into entities
+ * Aliases sharing a UPI ID or mobile number are always joined, similar names are joined
+ * when unambiguous, and the user's manual merges and splits are applied on top
+ */
+export function resolveCounterparties(
+  ledger: LedgerEntry[],
+  overrides: CounterpartyOverrides = EMPTY_COUNTERPARTY_OVERRIDES
+): CounterpartyResolution {
+  const aliases = collectAliases(ledger);
+  const groups = new AliasGroups();
+
+  // Split aliases only join other aliases by hand
+  const split = new Set(overrides.splits);
+  const automatic = [...aliases.values()].filter(alias => !split.has(alias.key));
+
+  linkByIdentifiers(automatic, groups);
+  linkByName(automatic, groups);
+
+  Object.entries(overrides.merges).forEach(([a, b]) => {
+    if (aliases.has(a) && aliases.has(b)) groups.union(b, a);
+  });
+
+  const members = new Map<string, Alias[]>();
+  aliases.forEach(alias => {
+    const root = groups.find(alias.key);
+    const group = members.get(root);
+    if (group) {
+      group.push(alias);
+    } else {
+      members.set(root, [alias]);
+    }
+  });
+
+  const entities: CounterpartyEntity[] = [];
+  const byEntry = new Map<string, CounterpartyEntity>();
+  members.forEach(group => {
+    const entity = toEntity(group);
+    entities.push(entity);
+    group.forEach(alias => alias.entryIds.forEach(id => byEntry.set(id, entity)));
+  });
+
+  entities.sort((a, b) => b.entryCount - a.entryCount || a.name.localeCompare(b.name));
+
+  return { entities, byEntry };
+}
+
+/**
+ * Overrides after the user merges entities: each alias is tied to the first one
+ */
+export function mergeCounterpartyAliases(
+  overrides: CounterpartyOverrides,
+  aliasKeys: string[]
+): CounterpartyOverrides {
+  const [target, ...others] = aliasKeys;
+  if (!target || others.length === 0) return overrides;
+
+  const merges = { ...overrides.merges };
+  others.forEach(key => {
+    merges[key] = target;
+  });
+
+  return { merges, splits: overrides.splits };
+}
+
+/**
+ * Overrides after the user takes an alias out of its entity
+ * Aliases merged through it are re-pointed so they stay together
+ */
+export function splitCounterpartyAlias(overrides: CounterpartyOverrides, aliasKey: string): CounterpartyOverrides {
+  const merges = { ...overrides.merges };
+  delete merges[aliasKey];
+
+  const through = Object.keys(merges).filter(key => merges[key] === aliasKey);
+  const target = overrides.merges[aliasKey] ?? through[0];
+  through.forEach(key => {
+    if (key === target) {
+      delete merges[key];
+    } else {
+      merges[key] = target;
+    }
+  });
+
+  const splits = overrides.splits.includes(aliasKey) ? overrides.splits : [...overrides.splits, aliasKey];
+  return { merges, splits };
+}
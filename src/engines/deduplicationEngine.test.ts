@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deduplicateParsedData,
+  tokenizeCounterparty,
+  counterpartySimilarity,
+} from './deduplicationEngine';
+import { transaction, activity, parsedData } from '../test/parsedData';
+
+describe('deduplicationEngine', () => {
+  describe('tokenizeCounterparty', () => {
+    it('should drop prefixes, VPA handles and stopwords', () => {
+      expect(Array.from(tokenizeCounterparty('Paid to RAMESH K'))).toEqual(['ramesh']);
+      expect(Array.from(tokenizeCounterparty('ramesh.k@okaxis'))).toEqual(['ramesh']);
+      expect(Array.from(tokenizeCounterparty('Swiggy Private Limited'))).toEqual(['swiggy']);
+    });
+  });
+
+  describe('counterpartySimilarity', () => {
+    it('should score partial name matches highly', () => {
+      const score = counterpartySimilarity(
+        tokenizeCounterparty('Ramesh'),
+        tokenizeCounterparty('Ramesh Kumar')
+      );
+      expect(score).toBeGreaterThan(0.8);
+    });
+
+    it('should score unrelated names as zero', () => {
+      expect(
+        counterpartySimilarity(tokenizeCounterparty('Swiggy'), tokenizeCounterparty('Zomato'))
+      ).toBe(0);
+    });
+  });
+
+  describe('deduplicateParsedData', () => {
+    it('should merge transactions with the same UPI reference across sources', () => {
+      const data = parsedData();
+      data.transactions = [
+        transaction({ id: 'A1', referenceId: '512345678901' }),
+        transaction({ id: 'B1', referenceId: '512345678901', sourceId: 'source-b', sourceApp: 'paytm' }),
+      ];
+
+      const { data: result, report } = deduplicateParsedData(data);
+
+      expect(result.transactions).toHaveLength(1);
+      expect(report.mergedCount).toBe(1);
+      expect(report.merged[0].reason).toBe('reference');
+    });
+
+    it('should not merge on a shared reference when the amounts differ', () => {
+      const data = parsedData();
+      data.transactions = [
+        transaction({ id: 'A1', referenceId: '512345678901' }),
+        transaction({
+          id: 'B1',
+          referenceId: '512345678901',
+          sourceId: 'source-b',
+          sourceApp: 'paytm',
+          amount: { value: 99, currency: 'INR' },
+        }),
+      ];
+
+      const { data: result, report } = deduplicateParsedData(data);
+
+      expect(result.transactions).toHaveLength(2);
+      expect(report.mergedCount).toBe(0);
+    });
+
+    it('should keep a reversal that reuses the payment\'s reference', () => {
+      const data = parsedData();
+      data.transactions = [
+        transaction({ id: 'A1', referenceId: '512345678901' }),
+        transaction({
+          id: 'B1',
+          description: 'Reversal of payment to Swiggy',
+          referenceId: '512345678901',
+          direction: 'credit',
+          sourceId: 'source-b',
+          sourceApp: 'paytm',
+        }),
+      ];
+
+      const { data: result, report } = deduplicateParsedData(data);
+
+      expect(result.transactions.map(t => t.id)).toEqual(['A1', 'B1']);
+      expect(report.mergedCount).toBe(0);
+    });
+
+    it('should merge an activity with the transaction for the same payment from another source', () => {
+      const data = parsedData();
+      data.transactions = [transaction({ id: 'A1', description: 'Paid to Swiggy', referenceId: '512345678901' })];
+      data.activities = [activity({ time: new Date(2025, 5, 1, 10, 2) })];
+
+      const { data: result, report } = deduplicateParsedData(data);
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.activities).toHaveLength(0);
+      expect(report.merged[0]).toMatchObject({ reason: 'fuzzy', primary: { id: 'A1' } });
+    });
+
+    it('should not merge an activity with a transaction going the other way', () => {
+      const data = parsedData();
+      data.transactions = [transaction({ id: 'A1', description: 'Swiggy', direction: 'credit' })];
+      data.activities = [activity({})];
+
+      const { report } = deduplicateParsedData(data);
+
+      expect(report.mergedCount).toBe(0);
+      expect(report.borderline).toHaveLength(0);
+    });
+
+    it('should merge the same transaction ID from overlapping statements of one app', () => {
+      const data = parsedData();
+      data.transactions = [
+        transaction({ id: 'T100' }),
+        transaction({ id: 'T100', sourceId: 'source-b' }),
+        transaction({ id: 'T100', sourceId: 'source-c' }),
+      ];
+
+      const { data: result, report } = deduplicateParsedData(data);
+
+      expect(result.transactions).toHaveLength(1);
+      expect(report.mergedCount).toBe(2);
+    });
+
+    it('should never merge records from the same source', () => {
+      const data = parsedData();
+      data.activities = [activity({}), activity({})];
+
+      const { data: result, report } = deduplicateParsedData(data);
+
+      expect(result.activities).toHaveLength(2);
+      expect(report.mergedCount).toBe(0);
+    });
+
+    it('should auto-merge fuzzy matches with the same amount, time and counterparty', () => {
+      const data = parsedData();
+      data.activities = [
+        activity({}),
+        activity({ sourceId: 'takeout-b', time: new Date(2025, 5, 1, 10, 1) }),
+      ];
+
+      const { data: result, report } = deduplicateParsedData(data);
+
+      expect(result.activities).toHaveLength(1);
+      expect(report.merged[0].reason).toBe('fuzzy');
+    });
+
+    it('should flag borderline matches for review without merging them', () => {
+      const data = parsedData();
+      data.transactions = [
+        transaction({ id: 'A1', description: 'Paid to Ramesh' }),
+        transaction({
+          id: 'B1',
+          description: 'Ramesh Stores Chennai',
+          sourceId: 'source-b',
+          sourceApp: 'bhim',
+          time: new Date(2025, 5, 1, 10, 6),
+        }),
+      ];
+
+      const { data: result, report } = deduplicateParsedData(data);
+
+      expect(result.transactions).toHaveLength(2);
+      expect(report.borderline).toHaveLength(1);
+    });
+
+    it('should not match records with different UPI references', () => {
+      const data = parsedData();
+      data.transactions = [
+        transaction({ id: 'A1', referenceId: '111' }),
+        transaction({ id: 'B1', referenceId: '222', sourceId: 'source-b', sourceApp: 'paytm' }),
+      ];
+
+      const { report } = deduplicateParsedData(data);
+
+      expect(report.mergedCount).toBe(0);
+      expect(report.borderline).toHaveLength(0);
+    });
+
+    it('should not match records outside the time window or with different amounts', () => {
+      const data = parsedData();
+      data.transactions = [
+        transaction({ id: 'A1' }),
+        transaction({ id: 'B1', sourceId: 'source-b', time: new Date(2025, 5, 1, 11, 0) }),
+        transaction({ id: 'C1', sourceId: 'source-c', amount: { value: 251, currency: 'INR' } }),
+      ];
+
+      const { report } = deduplicateParsedData(data);
+
+      expect(report.mergedCount).toBe(0);
+    });
+
+    it('should apply user decisions for reviewed pairs', () => {
+      const data = parsedData();
+      data.transactions = [
+        transaction({ id: 'A1', description: 'Paid to Ramesh' }),
+        transaction({
+          id: 'B1',
+          description: 'Ramesh Stores Chennai',
+          sourceId: 'source-b',
+          sourceApp: 'bhim',
+          time: new Date(2025, 5, 1, 10, 6),
+        }),
+      ];
+
+      const pairKey = deduplicateParsedData(data).report.borderline[0].key;
+
+      const merged = deduplicateParsedData(data, { [pairKey]: 'merge' });
+      expect(merged.data.transactions).toHaveLength(1);
+      expect(merged.report.borderline).toHaveLength(0);
+
+      const kept = deduplicateParsedData(data, { [pairKey]: 'keep' });
+      expect(kept.data.transactions).toHaveLength(2);
+      expect(kept.report.borderline).toHaveLength(0);
+    });
+  });
+});
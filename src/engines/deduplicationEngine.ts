@@ -0,0 +1,328 @@
+// Cross-source deduplication - merges the same payment seen in overlapping uploads
+
+import type { ParsedData, Transaction, ActivityRecord } from '../types/data.types';
+import type {
+  DedupReport,
+  DuplicateDecision,
+  DuplicatePair,
+  DuplicateMatchReason,
+  DuplicateRecord,
+} from '../types/dedup.types';
+import { convertToINR } from '../utils/categoryUtils';
+
+/**
+ * Maximum time difference for two records without a shared reference to be compared
+ */
+export const DEDUP_TIME_WINDOW_MINUTES = 10;
+
+/**
+ * Fuzzy matches at or above this score are merged automatically
+ */
+export const AUTO_MERGE_SCORE = 0.85;
+
+/**
+ * Fuzzy matches at or above this score (but below AUTO_MERGE_SCORE) need review
+ */
+export const REVIEW_SCORE = 0.55;
+
+// Words that say nothing about who the counterparty is
+const COUNTERPARTY_STOPWORDS = new Set([
+  'paid', 'sent', 'received', 'to', 'from', 'pay', 'collect', 'using', 'via', 'upi',
+  'payment', 'transfer', 'pvt', 'ltd', 'limited', 'private', 'the', 'and', 'bank', 'account',
+]);
+
+/**
+ * Normalised view of a record used for comparison
+ * Transactions and activities share one shape, so the same payment is found whichever
+ * list each source put it in.
+ */
+interface Comparable {
+  record: DuplicateRecord;
+  origin: 'transaction' | 'activity';
+  key: string;
+  sourceId: string;
+  time: number;
+  amountPaise: number;
+  direction: 'debit' | 'credit' | 'other';
+  counterparty: Set<string>;
+  references: string[];
+}
+
+/**
+ * Stable key for a transaction, used in pair keys and user decisions
+ */
+export function getTransactionKey(t: Transaction): string {
+  return `${t.sourceId ?? t.sourceApp}:${t.id}`;
+}
+
+/**
+ * Stable key for an activity (activities have no ID, so use their content)
+ */
+export function getActivityKey(a: ActivityRecord): string {
+  const amount = a.amount ? `${a.amount.currency}${a.amount.value}` : '';
+  return `${a.sourceId ?? a.sourceApp}:${a.time.getTime()}:${amount}:${a.title}`;
+}
+
+/**
+ * Break a counterparty description into comparable name tokens
+ * "Paid to RAMESH K" / "ramesh.k@okaxis" / "Ramesh Kumar" all yield a "ramesh" token
+ */
+export function tokenizeCounterparty(text: string): Set<string> {
+  const withoutHandles = text.toLowerCase().replace(/@[a-z0-9.-]+/g, ' ');
+
+  const tokens = withoutHandles
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 2 && !COUNTERPARTY_STOPWORDS.has(token) && !/^x+$/.test(token));
+
+  return new Set(tokens);
+}
+
+/**
+ * Similarity between two token sets (0-1)
+ * Averages the Dice coefficient with the overlap coefficient so that
+ * "Ramesh" vs "Ramesh Kumar" still scores well
+ */
+export function counterpartySimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+
+  const dice = (2 * shared) / (a.size + b.size);
+  const overlap = shared / Math.min(a.size, b.size);
+
+  return (dice + overlap) / 2;
+}
+
+function toTransactionComparable(t: Transaction): Comparable {
+  const references = [`id:${t.sourceApp}:${t.id}`];
+  if (t.referenceId) {
+    references.push(`ref:${t.referenceId.trim().toUpperCase()}`);
+  }
+
+  return {
+    record: t,
+    origin: 'transaction',
+    key: getTransactionKey(t),
+    sourceId: t.sourceId ?? t.sourceApp,
+    time: t.time.getTime(),
+    amountPaise: Math.round(convertToINR(t.amount) * 100),
+    direction: t.direction ?? 'debit',
+    counterparty: tokenizeCounterparty(t.description),
+    references,
+  };
+}
+
+// Same reading of activity types as the ledger: sent and paid move money out, received brings it in
+function activityDirection(a: ActivityRecord): Comparable['direction'] {
+  if (a.transactionType === 'sent' || a.transactionType === 'paid') return 'debit';
+  if (a.transactionType === 'received') return 'credit';
+  return 'other';
+}
+
+function toActivityComparable(a: ActivityRecord): Comparable {
+  return {
+    record: a,
+    origin: 'activity',
+    key: getActivityKey(a),
+    sourceId: a.sourceId ?? a.sourceApp,
+    time: a.time.getTime(),
+    amountPaise: a.amount ? Math.round(convertToINR(a.amount) * 100) : 0,
+    direction: activityDirection(a),
+    counterparty: tokenizeCounterparty(a.recipient || a.sender || a.description || a.title),
+    references: [],
+  };
+}
+
+/**
+ * Stable key for a pair, independent of which record is listed first
+ */
+function pairKey(a: string, b: string): string {
+  return [a, b].sort().join('|');
+}
+
+interface ScoredMatch {
+  primary: Comparable;
+  duplicate: Comparable;
+  reason: DuplicateMatchReason;
+  score: number;
+  minutesApart: number;
+  counterpartySimilarity: number;
+}
+
+/**
+ * Which of two matching records to keep: the one carrying a UPI reference, then a
+ * transaction over an activity (transactions carry IDs, status and method)
+ */
+function orderPair(a: Comparable, b: Comparable): [Comparable, Comparable] {
+  const refA = a.references.some(r => r.startsWith('ref:'));
+  const refB = b.references.some(r => r.startsWith('ref:'));
+  if (refA !== refB) return refA ? [a, b] : [b, a];
+  if (a.origin !== b.origin) return a.origin === 'transaction' ? [a, b] : [b, a];
+  return [a, b];
+}
+
+/**
+ * Find duplicate records across sources and drop the merged ones
+ * Records from the same source are never merged - two identical coffees
+ * on one statement are two coffees.
+ */
+function deduplicateRecords(
+  items: Comparable[],
+  decisions: Record<string, DuplicateDecision>
+): { kept: Comparable[]; merged: ScoredMatch[]; borderline: ScoredMatch[] } {
+  const matches: ScoredMatch[] = [];
+
+  const describe = (primary: Comparable, duplicate: Comparable, reason: DuplicateMatchReason, score: number) => ({
+    primary,
+    duplicate,
+    reason,
+    score,
+    minutesApart: Math.abs(primary.time - duplicate.time) / 60000,
+    counterpartySimilarity: counterpartySimilarity(primary.counterparty, duplicate.counterparty),
+  });
+
+  // Pass 1: shared UPI reference / UTR or same app transaction ID, for the same amount and direction
+  // (a reference reused for a different amount is a placeholder or a partial refund, and one reused
+  // for money coming back is a reversal or refund of the payment, not a duplicate)
+  const byReference = new Map<string, Comparable>();
+  const referenceMatched = new Set<Comparable>();
+
+  items.forEach(item => {
+    for (const reference of item.references) {
+      const existing = byReference.get(reference);
+      if (
+        existing &&
+        existing.sourceId !== item.sourceId &&
+        existing.amountPaise === item.amountPaise &&
+        existing.direction === item.direction
+      ) {
+        matches.push(describe(existing, item, 'reference', 1));
+        referenceMatched.add(item);
+        referenceMatched.add(existing);
+        return;
+      }
+    }
+    item.references.forEach(reference => {
+      if (!byReference.has(reference)) byReference.set(reference, item);
+    });
+  });
+
+  // Pass 2: same amount, close in time, similar counterparty
+  const windowMs = DEDUP_TIME_WINDOW_MINUTES * 60000;
+  const sorted = items.filter(item => !referenceMatched.has(item)).sort((a, b) => a.time - b.time);
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i];
+    for (let j = i + 1; j < sorted.length && sorted[j].time - a.time <= windowMs; j++) {
+      const b = sorted[j];
+
+      if (a.sourceId === b.sourceId) continue;
+      if (a.amountPaise === 0 || a.amountPaise !== b.amountPaise) continue;
+      if (a.direction !== b.direction) continue;
+
+      // Different UPI references mean different payments
+      const refA = a.references.find(r => r.startsWith('ref:'));
+      const refB = b.references.find(r => r.startsWith('ref:'));
+      if (refA && refB && refA !== refB) continue;
+
+      const timeScore = 1 - (b.time - a.time) / windowMs;
+      const similarity =
+        a.counterparty.size === 0 || b.counterparty.size === 0
+          ? 0.5 // Unknown counterparty on one side - neither evidence for nor against
+          : counterpartySimilarity(a.counterparty, b.counterparty);
+      const score = 0.35 * timeScore + 0.65 * similarity;
+
+      if (score >= REVIEW_SCORE) {
+        const [primary, duplicate] = orderPair(a, b);
+        matches.push(describe(primary, duplicate, 'fuzzy', score));
+      }
+    }
+  }
+
+  // Resolve greedily, strongest match first. A kept record may absorb one
+  // duplicate per other source (three overlapping statements collapse to one),
+  // but a dropped record can never absorb anything itself.
+  matches.sort((a, b) => b.score - a.score);
+
+  const absorbed = new Map<Comparable, Set<string>>();
+  const dropped = new Set<Comparable>();
+  const pending = new Set<Comparable>();
+  const merged: ScoredMatch[] = [];
+  const borderline: ScoredMatch[] = [];
+
+  matches.forEach(match => {
+    const { primary, duplicate } = match;
+    if (dropped.has(primary) || dropped.has(duplicate) || absorbed.has(duplicate)) return;
+    if (pending.has(primary) || pending.has(duplicate)) return;
+    if (absorbed.get(primary)?.has(duplicate.sourceId)) return;
+
+    const decision = decisions[pairKey(primary.key, duplicate.key)];
+    const autoMerge = match.reason === 'reference' || match.score >= AUTO_MERGE_SCORE;
+
+    if (decision === 'keep') return;
+
+    if (decision === 'merge' || autoMerge) {
+      merged.push(match);
+      dropped.add(duplicate);
+      const sources = absorbed.get(primary) || new Set<string>();
+      sources.add(duplicate.sourceId);
+      absorbed.set(primary, sources);
+    } else {
+      // Waiting for review - keep both and don't pair them with anything else
+      borderline.push(match);
+      pending.add(primary);
+      pending.add(duplicate);
+    }
+  });
+
+  return {
+    kept: items.filter(item => !dropped.has(item)),
+    merged,
+    borderline,
+  };
+}
+
+function toPair(match: ScoredMatch): DuplicatePair {
+  return {
+    key: pairKey(match.primary.key, match.duplicate.key),
+    primary: match.primary.record,
+    duplicate: match.duplicate.record,
+    reason: match.reason,
+    score: match.score,
+    minutesApart: match.minutesApart,
+    counterpartySimilarity: match.counterpartySimilarity,
+  };
+}
+
+/**
+ * Remove records that appear in more than one uploaded source
+ * Transactions and activities are compared with each other, so a Google Pay activity and the
+ * bank statement debit for the same payment are counted once.
+ * @param data - Combined data from all sources
+ * @param decisions - User decisions for reviewed pairs, keyed by pair key
+ */
+export function deduplicateParsedData(
+  data: ParsedData,
+  decisions: Record<string, DuplicateDecision> = {}
+): { data: ParsedData; report: DedupReport } {
+  const { kept, merged, borderline } = deduplicateRecords(
+    [...data.transactions.map(toTransactionComparable), ...data.activities.map(toActivityComparable)],
+    decisions
+  );
+
+  return {
+    data: {
+      ...data,
+      transactions: kept.filter(item => item.origin === 'transaction').map(item => item.record as Transaction),
+      activities: kept.filter(item => item.origin === 'activity').map(item => item.record as ActivityRecord),
+    },
+    report: {
+      mergedCount: merged.length,
+      merged: merged.map(toPair),
+      borderline: borderline.map(toPair),
+    },
+  };
+}
@@ -1,15 +1,9 @@
 // Main insight calculation orchestrator
 
-import { ParsedData } from '../types/data.types';
+import { ParsedData, LedgerEntry } from '../types/data.types';
+import { CounterpartyOverrides } from '../types/counterparty.types';
 import { Insight } from '../types/insight.types';
-import { YearFilter } from '../utils/dateUtils';
-import {
-  filterTransactionsByYear,
-  filterGroupExpensesByYear,
-  filterCashbackRewardsByYear,
-  filterVouchersByYear,
-  filterActivitiesByYear
-} from '../utils/dateUtils';
+import { resolveCounterparties, EMPTY_COUNTERPARTY_OVERRIDES } from './counterpartyResolver';
 
 // Import calculators
 import { calculateDomainInsight } from './calculators/domainCalculator';
@@ -22,7 +16,7 @@ import { calculateExpensiveDayInsight } from './calculators/expensiveDayCalculat
 import { calculateResponsibleOneInsight } from './calculators/responsibleCalculator';
 import { calculateMoneyNetworkInsight } from './calculators/networkCalculator';
 
-// NEW: Activity-based calculators
+// Ledger-based calculators
 import { calculateMoneyFlowInsight } from './calculators/moneyFlowCalculator';
 import { calculateTransactionPartnerInsight } from './calculators/transactionPartnerCalculator';
 import { calculatePeakActivityInsight } from './calculators/peakActivityCalculator';
@@ -36,26 +30,22 @@ import { calculateSmallestPaymentInsight } from './calculators/smallestPaymentCa
 import { calculateRoundNumberObsessionInsight } from './calculators/roundNumberCalculator';
 
 /**
- * Calculate all insights for the given data and year filter
+ * Calculate all insights for the selected period
+ * The data and the ledger must already be filtered to the period; the ledger is built once from
+ * every year (see the data store) so refunds and transfers across a year boundary stay linked.
+ * Partner insights count people and merchants as resolved entities, with the user's merges and splits
  */
 export function calculateAllInsights(
-  data: ParsedData,
-  year: YearFilter = 'all'
+  filteredData: ParsedData,
+  ledger: LedgerEntry[],
+  counterpartyOverrides: CounterpartyOverrides = EMPTY_COUNTERPARTY_OVERRIDES
 ): Insight[] {
-  // Filter data by year
-  const filteredData: ParsedData = {
-    transactions: filterTransactionsByYear(data.transactions, year),
-    groupExpenses: filterGroupExpensesByYear(data.groupExpenses, year),
-    cashbackRewards: filterCashbackRewardsByYear(data.cashbackRewards, year),
-    voucherRewards: filterVouchersByYear(data.voucherRewards, year),
-    activities: filterActivitiesByYear(data.activities, year),
-    sources: data.sources, // Preserve source apps
-  };
+  const counterparties = resolveCounterparties(ledger, counterpartyOverrides);
 
   const insights: Insight[] = [];
 
   // Calculate each insight (only add if not null)
-  const domainInsight = calculateDomainInsight(filteredData);
+  const domainInsight = calculateDomainInsight(ledger);
   if (domainInsight) insights.push(domainInsight);
 
   const groupInsight = calculateGroupChampionInsight(filteredData);
@@ -64,7 +54,7 @@ export function calculateAllInsights(
   const voucherInsight = calculateVoucherHoarderInsight(filteredData);
   if (voucherInsight) insights.push(voucherInsight);
 
-  const timelineInsight = calculateSpendingTimelineInsight(filteredData);
+  const timelineInsight = calculateSpendingTimelineInsight(ledger);
   if (timelineInsight) insights.push(timelineInsight);
 
   const partnerInsight = calculateSplitPartnerInsight(filteredData);
@@ -73,42 +63,42 @@ export function calculateAllInsights(
   const rewardInsight = calculateRewardHunterInsight(filteredData);
   if (rewardInsight) insights.push(rewardInsight);
 
-  const expensiveInsight = calculateExpensiveDayInsight(filteredData);
+  const expensiveInsight = calculateExpensiveDayInsight(ledger);
   if (expensiveInsight) insights.push(expensiveInsight);
 
   const responsibleInsight = calculateResponsibleOneInsight(filteredData);
   if (responsibleInsight) insights.push(responsibleInsight);
 
-  const networkInsight = calculateMoneyNetworkInsight(filteredData);
+  const networkInsight = calculateMoneyNetworkInsight(filteredData, ledger, counterparties);
   if (networkInsight) insights.push(networkInsight);
 
-  // NEW: Activity-based calculators
-  const moneyFlowInsight = calculateMoneyFlowInsight(filteredData);
+  // Ledger-based calculators
+  const moneyFlowInsight = calculateMoneyFlowInsight(ledger);
   if (moneyFlowInsight) insights.push(moneyFlowInsight);
 
-  const transactionPartnerInsight = calculateTransactionPartnerInsight(filteredData);
+  const transactionPartnerInsight = calculateTransactionPartnerInsight(ledger, counterparties);
   if (transactionPartnerInsight) insights.push(transactionPartnerInsight);
 
-  const peakActivityInsight = calculatePeakActivityInsight(filteredData);
+  const peakActivityInsight = calculatePeakActivityInsight(ledger);
   if (peakActivityInsight) insights.push(peakActivityInsight);
 
-  const bulkPaymentInsight = calculateBulkPaymentInsight(filteredData);
+  const bulkPaymentInsight = calculateBulkPaymentInsight(ledger);
   if (bulkPaymentInsight) insights.push(bulkPaymentInsight);
 
-  const categoryInsight = calculateSpendingCategoryInsight(filteredData);
+  const categoryInsight = calculateSpendingCategoryInsight(ledger);
   if (categoryInsight) insights.push(categoryInsight);
 
   // FUNNY: Humorous insights
-  const paymentStreakInsight = calculatePaymentStreakInsight(filteredData);
+  const paymentStreakInsight = calculatePaymentStreakInsight(ledger);
   if (paymentStreakInsight) insights.push(paymentStreakInsight);
 
-  const midnightShopperInsight = calculateMidnightShopperInsight(filteredData);
+  const midnightShopperInsight = calculateMidnightShopperInsight(ledger);
   if (midnightShopperInsight) insights.push(midnightShopperInsight);
 
-  const smallestPaymentInsight = calculateSmallestPaymentInsight(filteredData);
+  const smallestPaymentInsight = calculateSmallestPaymentInsight(ledger);
   if (smallestPaymentInsight) insights.push(smallestPaymentInsight);
 
-  const roundNumberInsight = calculateRoundNumberObsessionInsight(filteredData);
+  const roundNumberInsight = calculateRoundNumberObsessionInsight(ledger);
   if (roundNumberInsight) insights.push(roundNumberInsight);
 
   // Return max 12 insights (increased to accommodate funny ones)
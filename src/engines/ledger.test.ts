@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { buildLedger, extractCounterparty, getSpending, getIncome, sumINR } from './ledger';
+import { filterLedgerByYear } from '../utils/dateUtils';
+import { transaction, activity } from '../test/parsedData';
+
+describe('extractCounterparty', () => {
+  it('should strip the payment prefixes each app uses', () => {
+    expect(extractCounterparty('Paid to Swiggy')).toBe('Swiggy');
+    expect(extractCounterparty('PAY - To RAMESH K')).toBe('RAMESH K');
+    expect(extractCounterparty('COLLECT - From Zomato')).toBe('Zomato');
+    expect(extractCounterparty('Received from Priya')).toBe('Priya');
+    expect(extractCounterparty('To Ola')).toBe('Ola');
+    expect(extractCounterparty('NETFLIX.COM')).toBe('NETFLIX.COM');
+  });
+});
+
+describe('buildLedger', () => {
+  it('should normalise transactions and activities into one list, oldest first', () => {
+    const ledger = buildLedger({
+      transactions: [transaction({ time: new Date(2025, 5, 12) })],
+      activities: [activity({ recipient: 'Ramesh Kumar' })],
+    });
+
+    expect(ledger.map(entry => entry.origin)).toEqual(['activity', 'transaction']);
+    expect(ledger[0]).toMatchObject({
+      direction: 'debit',
+      counterparty: 'Ramesh Kumar',
+      status: 'completed',
+      sourceApp: 'googlepay',
+      id: expect.stringContaining('gpay-a:'),
+    });
+    expect(ledger[1]).toMatchObject({
+      direction: 'debit',
+      counterparty: 'Swiggy',
+      id: 'phonepe-a:T1',
+    });
+  });
+
+  it('should read credits from both lists', () => {
+    const ledger = buildLedger({
+      transactions: [transaction({ description: 'Received from Priya', direction: 'credit' })],
+      activities: [
+        activity({ time: new Date(2025, 5, 2), transactionType: 'received', recipient: undefined, sender: 'Anil' }),
+      ],
+    });
+
+    expect(ledger.map(entry => [entry.direction, entry.counterparty])).toEqual([
+      ['credit', 'Priya'],
+      ['credit', 'Anil'],
+    ]);
+  });
+
+  it('should leave out requests and activities without an amount', () => {
+    const ledger = buildLedger({
+      transactions: [],
+      activities: [
+        activity({ transactionType: 'request' }),
+        activity({ transactionType: 'other' }),
+        activity({ amount: undefined }),
+      ],
+    });
+
+    expect(ledger).toHaveLength(0);
+  });
+
+  it('should normalise statuses', () => {
+    const ledger = buildLedger({
+      transactions: [
+        transaction({ id: 'A', status: 'FAILED' }),
+        transaction({ id: 'B', status: 'Pending' }),
+        transaction({ id: 'C', status: 'Transaction success' }),
+      ],
+      activities: [activity({ time: new Date(2025, 5, 2), title: 'Payment to Ramesh failed' })],
+    });
+
+    expect(ledger.map(entry => entry.status)).toEqual(['failed', 'pending', 'completed', 'failed']);
+  });
+
+  it('should keep amounts positive', () => {
+    const [entry] = buildLedger({
+      transactions: [transaction({ amount: { value: -99, currency: 'INR' } })],
+      activities: [],
+    });
+
+    expect(entry.amount.value).toBe(99);
+  });
+
+  it('should keep refunds linked to payments from the year before once filtered by year', () => {
+    const ledger = buildLedger({
+      transactions: [
+        transaction({ id: 'P', time: new Date(2024, 11, 28), description: 'Paid to Amazon' }),
+        transaction({ id: 'R', time: new Date(2025, 0, 3), description: 'Refund from Amazon', direction: 'credit' }),
+      ],
+      activities: [],
+    });
+
+    const [refund] = filterLedgerByYear(ledger, '2025');
+
+    expect(refund).toMatchObject({ id: 'phonepe-a:R', refundKind: 'refund', refundOf: 'phonepe-a:P' });
+    expect(getIncome([refund])).toEqual([]);
+  });
+});
+
+describe('ledger totals', () => {
+  it('should sum spending and income without failed payments', () => {
+    const ledger = buildLedger({
+      transactions: [
+        transaction({ id: 'A' }),
+        transaction({ id: 'B', status: 'Failed', amount: { value: 1000, currency: 'INR' } }),
+        transaction({ id: 'C', direction: 'credit', amount: { value: 5000, currency: 'INR' } }),
+      ],
+      activities: [activity()],
+    });
+
+    expect(sumINR(getSpending(ledger))).toBe(500);
+    expect(sumINR(getIncome(ledger))).toBe(5000);
+  });
+});
@@ -0,0 +1,185 @@
+// Unified ledger - one normalised entry per money movement, from transactions and activities alike
+
+import type {
+  ParsedData,
+  Transaction,
+  ActivityRecord,
+  LedgerEntry,
+  LedgerDirection,
+  LedgerStatus,
+} from '../types/data.types';
+import { convertToINR } from '../utils/categoryUtils';
+import { isFailedTransaction, isFailedActivity } from '../utils/dateUtils';
+import { getTransactionKey, getActivityKey } from './deduplicationEngine';
+import { linkRefunds } from './refundLinker';
+import { markSelfTransfers, EMPTY_SELF_TRANSFER_SETTINGS } from './selfTransferDetector';
+import { applyClassificationRules, applyCategoryOverrides, EMPTY_CLASSIFICATION_RULES } from './categoryRules';
+import { assignCategoryPaths } from './categoryTree';
+import { markCardPayments } from './cardPaymentLinker';
+import type { SelfTransferSettings } from '../types/selfTransfer.types';
+import type { UserClassificationRules } from '../types/classifier.types';
+
+const PENDING_PATTERN = /\b(pending|processing|initiated|in progress)\b/i;
+const REVERSED_PATTERN = /(refund|revers)/i;
+
+// "PAY - To X" / "COLLECT - From X" (BHIM), "Paid to X" (PhonePe), "To X" / "From X" (Google Pay)
+const COUNTERPARTY_PREFIX = /^((PAY|COLLECT)\s*-\s*)?((Paid|Sent|Received|Money sent|Money received)\s+)?(to|from)\s+/i;
+
+/**
+ * Who a payment description names, without the "Paid to" / "PAY - To" style prefix
+ */
+export function extractCounterparty(text: string): string {
+  return text.replace(COUNTERPARTY_PREFIX, '').trim();
+}
+
+function transactionStatus(status: string, direction: LedgerDirection): LedgerStatus {
+  // A refunded payment got its money back; a credit saying "Refund" is the money coming back
+  if (REVERSED_PATTERN.test(status)) return direction === 'debit' ? 'reversed' : 'completed';
+  if (isFailedTransaction(status)) return 'failed';
+  if (PENDING_PATTERN.test(status)) return 'pending';
+  return 'completed';
+}
+
+function activityStatus(activity: ActivityRecord): LedgerStatus {
+  if (isFailedActivity(activity)) return 'failed';
+  if (PENDING_PATTERN.test(`${activity.title} ${activity.description || ''}`)) return 'pending';
+  return 'completed';
+}
+
+function activityDirection(activity: ActivityRecord): LedgerDirection | null {
+  switch (activity.transactionType) {
+    case 'sent':
+    case 'paid':
+      return 'debit';
+    case 'received':
+      return 'credit';
+    default:
+      return null; // Requests and other activity don't move money
+  }
+}
+
+function fromTransaction(t: Transaction): LedgerEntry {
+  const direction = t.direction ?? 'debit';
+
+  return {
+    id: getTransactionKey(t),
+    time: t.time,
+    direction,
+    counterparty: extractCounterparty(t.description) || t.description,
+    description: t.description,
+    amount: { value: Math.abs(t.amount.value), currency: t.amount.currency },
+    status: transactionStatus(t.status, direction),
+    category: t.category,
+    classification: t.classification,
+    product: t.product,
+    method: t.method,
+    referenceId: t.referenceId,
+    origin: 'transaction',
+    sourceApp: t.sourceApp,
+    sourceId: t.sourceId,
+  };
+}
+
+function fromActivity(a: ActivityRecord): LedgerEntry | null {
+  const direction = activityDirection(a);
+  if (!direction || !a.amount) return null;
+
+  const named = direction === 'debit' ? a.recipient : a.sender;
+
+  return {
+    id: getActivityKey(a),
+    time: a.time,
+    direction,
+    counterparty: named || extractCounterparty(a.title) || a.title,
+    description: a.title,
+    amount: { value: Math.abs(a.amount.value), currency: a.amount.currency },
+    status: activityStatus(a),
+    category: a.category,
+    classification: a.classification,
+    origin: 'activity',
+    sourceApp: a.sourceApp,
+    sourceId: a.sourceId,
+  };
+}
+
+/**
+ * The user's settings that change how the ledger is read
+ */
+export interface LedgerOptions {
+  selfTransfers?: SelfTransferSettings; // Own accounts and confirmed transfers between them
+  classificationRules?: UserClassificationRules; // Category rules layered over the shipped ones
+  categoryOverrides?: Record<string, string>; // Categories set on individual payments, by entry id
+}
+
+/**
+ * Normalise transactions and money-carrying activities into one ledger, oldest first
+ * Activities without an amount, and requests, aren't money movements and are left out.
+ * Refunds and reversals are linked to the payments they returned money for, transfers
+ * between the user's own accounts (card bill payments included) are marked, and the user's
+ * category rules and per-payment categories are applied before each entry is placed in the
+ * category tree.
+ */
+export function buildLedger(
+  data: Pick<ParsedData, 'transactions' | 'activities' | 'cardStatements'>,
+  options: LedgerOptions = {}
+): LedgerEntry[] {
+  const entries: LedgerEntry[] = data.transactions.map(fromTransaction);
+
+  data.activities.forEach(activity => {
+    const entry = fromActivity(activity);
+    if (entry) entries.push(entry);
+  });
+
+  const linked = linkRefunds(entries.sort((a, b) => a.time.getTime() - b.time.getTime()));
+  const categorised = assignCategoryPaths(
+    applyCategoryOverrides(
+      applyClassificationRules(linked, options.classificationRules ?? EMPTY_CLASSIFICATION_RULES),
+      options.categoryOverrides ?? {}
+    )
+  );
+  return markCardPayments(
+    markSelfTransfers(categorised, options.selfTransfers ?? EMPTY_SELF_TRANSFER_SETTINGS),
+    data.cardStatements
+  );
+}
+
+/**
+ * Money that left the user's accounts and stayed gone
+ * Failed and reversed payments and transfers to the user's own accounts are excluded,
+ * and refunded payments count only what wasn't refunded
+ */
+export function getSpending(ledger: LedgerEntry[]): LedgerEntry[] {
+  const spending: LedgerEntry[] = [];
+
+  ledger.forEach(entry => {
+    if (entry.direction !== 'debit' || entry.status === 'failed' || entry.status === 'reversed') return;
+    if (entry.selfTransfer) return;
+    if (!entry.refundedAmount) {
+      spending.push(entry);
+      return;
+    }
+
+    const net = convertToINR(entry.amount) - convertToINR(entry.refundedAmount);
+    if (net > 0) spending.push({ ...entry, amount: { value: net, currency: 'INR' } });
+  });
+
+  return spending;
+}
+
+/**
+ * Money that came in, failed payments excluded
+ * Refunds and reversals aren't income - they return money already spent - and neither is
+ * money moved in from the user's own accounts
+ */
+export function getIncome(ledger: LedgerEntry[]): LedgerEntry[] {
+  return ledger.filter(
+    entry => entry.direction === 'credit' && entry.status !== 'failed' && !entry.refundKind && !entry.selfTransfer
+  );
+}
+
+/**
+ * Sum of the entries in INR
+ */
+export function sumINR(entries: LedgerEntry[]): number {
+  return entries.reduce((sum, entry) => sum + convertToINR(entry.amount), 0);
+}
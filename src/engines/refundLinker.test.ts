@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { linkRefunds, getRefundKind } from './refundLinker';
+import { buildLedger, getSpending, getIncome, sumINR } from './ledger';
+import type { LedgerEntry, Transaction } from '../types/data.types';
+import { entry } from '../test/ledgerEntry';
+
+const debit = (overrides: Partial<LedgerEntry> = {}) =>
+  entry({ counterparty: 'Amazon', amount: { value: 500, currency: 'INR' }, ...overrides });
+
+const credit = (description: string, overrides: Partial<LedgerEntry> = {}) =>
+  debit({ direction: 'credit', description, counterparty: description, time: new Date(2025, 3, 5), ...overrides });
+
+describe('getRefundKind', () => {
+  it('should tell refunds from reversals and ordinary credits', () => {
+    expect(getRefundKind(credit('Refund from Amazon'))).toBe('refund');
+    expect(getRefundKind(credit('REV-UPI/412345678901/AMAZON'))).toBe('reversal');
+    expect(getRefundKind(credit('Received from Priya'))).toBeNull();
+    expect(getRefundKind(debit({ description: 'Refund processing fee' }))).toBeNull();
+  });
+});
+
+describe('linkRefunds', () => {
+  it('should link a refund to the payment with the same reference number', () => {
+    const other = debit({ referenceId: '400000000001' });
+    const payment = debit({ referenceId: '412345678901' });
+    const refund = credit('Refund for UPI 412345678901', { counterparty: 'Refund' });
+
+    const [linkedOther, linkedPayment, linkedRefund] = linkRefunds([other, payment, refund]);
+
+    expect(linkedRefund).toMatchObject({ refundKind: 'refund', refundOf: payment.id });
+    expect(linkedPayment).toMatchObject({ refundedBy: [refund.id], refundedAmount: { value: 500 } });
+    expect(linkedOther.refundedBy).toBeUndefined();
+  });
+
+  it('should fall back to the latest earlier payment to the same counterparty that the amount fits', () => {
+    const older = debit({ time: new Date(2025, 2, 1) });
+    const exact = debit({ time: new Date(2025, 2, 20), amount: { value: 200, currency: 'INR' } });
+    const later = debit({ time: new Date(2025, 3, 2) });
+    const elsewhere = debit({ counterparty: 'Swiggy', time: new Date(2025, 3, 3), amount: { value: 200, currency: 'INR' } });
+    const refund = credit('Refund from Amazon', { amount: { value: 200, currency: 'INR' } });
+
+    const linked = linkRefunds([older, exact, later, elsewhere, refund]);
+
+    expect(linked[4].refundOf).toBe(exact.id);
+  });
+
+  it('should mark a payment reversed in full and leave partly refunded ones completed', () => {
+    const reversed = debit({ counterparty: 'Swiggy' });
+    const partial = debit();
+    const ledger = linkRefunds([
+      reversed,
+      partial,
+      credit('Reversal of payment to Swiggy', { counterparty: 'Swiggy' }),
+      credit('Refund from Amazon', { amount: { value: 150, currency: 'INR' } }),
+    ]);
+
+    expect(ledger[0].status).toBe('reversed');
+    expect(ledger[1]).toMatchObject({ status: 'completed', refundedAmount: { value: 150 } });
+  });
+
+  it('should keep a refund with no matching payment, unlinked', () => {
+    const [refund] = linkRefunds([credit('Refund from Flipkart')]);
+
+    expect(refund.refundKind).toBe('refund');
+    expect(refund.refundOf).toBeUndefined();
+  });
+});
+
+describe('refunds in the ledger totals', () => {
+  const transaction = (overrides: Partial<Transaction>): Transaction => ({
+    time: new Date(2025, 3, 1),
+    id: 'T1',
+    description: 'Paid to Amazon',
+    product: 'PhonePe UPI',
+    method: 'PhonePe',
+    status: 'Success',
+    amount: { value: 1000, currency: 'INR' },
+    sourceApp: 'phonepe',
+    ...overrides,
+  });
+
+  it('should net refunds out of spending instead of counting them as income', () => {
+    const ledger = buildLedger({
+      transactions: [
+        transaction({}),
+        transaction({ id: 'T2', time: new Date(2025, 3, 4), description: 'Refund from Amazon', direction: 'credit', amount: { value: 400, currency: 'INR' } }),
+        transaction({ id: 'T3', description: 'Paid to Swiggy', status: 'Reversed', amount: { value: 300, currency: 'INR' } }),
+        transaction({ id: 'T4', description: 'Received from Priya', direction: 'credit', amount: { value: 250, currency: 'INR' } }),
+      ],
+      activities: [],
+    });
+
+    expect(sumINR(getSpending(ledger))).toBe(600);
+    expect(sumINR(getIncome(ledger))).toBe(250);
+  });
+});
@@ -0,0 +1,143 @@
+// Refund linking - ties refunds and reversals to the payment they returned money for
+
+import type { LedgerEntry, LedgerRefundKind } from '../types/data.types';
+import { convertToINR } from '../utils/categoryUtils';
+import { tokenizeCounterparty, counterpartySimilarity } from './deduplicationEngine';
+
+/**
+ * Days after a payment a refund of it is still looked for
+ */
+export const REFUND_MATCH_DAYS = 90;
+
+/**
+ * Counterparty similarity at which a refund and a payment are to the same party
+ */
+export const REFUND_NAME_SCORE = 0.75;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bank reversals of failed payments ("REV-UPI/...", "Reversal of ...", "Auto reversed")
+const REVERSAL_PATTERN = /(\brevers(al|ed)\b|(^|[^a-z])rev[-/:]|\bauto ?rev)/i;
+const REFUND_PATTERN = /\b(refund(ed)?|chargeback)\b/i;
+
+// Words that say how the money came back rather than who sent it
+const REFUND_WORDS = /\b(refund(ed)?|revers(al|ed)|rev|chargeback|auto|of|for)\b/gi;
+
+// Reference numbers quoted in refund narrations: UPI RRNs and merchant order ids
+const REFERENCE_PATTERN = /\b[a-z0-9]*\d[a-z0-9]{7,}\b/gi;
+
+/**
+ * Whether a credit returns money for an earlier payment, and how
+ */
+export function getRefundKind(entry: LedgerEntry): LedgerRefundKind | null {
+  if (entry.direction !== 'credit') return null;
+  const text = `${entry.description} ${entry.counterparty}`;
+  if (REVERSAL_PATTERN.test(text)) return 'reversal';
+  if (REFUND_PATTERN.test(text)) return 'refund';
+  return null;
+}
+
+const paise = (entry: LedgerEntry) => Math.round(convertToINR(entry.amount) * 100);
+
+const partyTokens = (entry: LedgerEntry) => tokenizeCounterparty(entry.counterparty.replace(REFUND_WORDS, ' '));
+
+interface Payment {
+  entry: LedgerEntry;
+  tokens: Set<string>;
+  remainingPaise: number;
+  refundIds: string[];
+}
+
+/**
+ * The payment a refund names by reference number, either its own reference or one quoted in the narration
+ */
+function findByReference(refund: LedgerEntry, byReference: Map<string, Payment>): Payment | undefined {
+  const references = [refund.referenceId, ...(refund.description.match(REFERENCE_PATTERN) || [])];
+  for (const reference of references) {
+    const payment = reference ? byReference.get(reference.trim().toUpperCase()) : undefined;
+    if (payment && payment.entry.time <= refund.time) return payment;
+  }
+  return undefined;
+}
+
+/**
+ * The most recent earlier payment to the same party that the refund fits into, an exact amount first
+ */
+function findByCounterparty(refund: LedgerEntry, payments: Payment[]): Payment | undefined {
+  const tokens = partyTokens(refund);
+  const amountPaise = paise(refund);
+  const earliest = refund.time.getTime() - REFUND_MATCH_DAYS * DAY_MS;
+
+  const candidates = payments.filter(payment => {
+    const time = payment.entry.time.getTime();
+    return (
+      time <= refund.time.getTime() &&
+      time >= earliest &&
+      payment.remainingPaise >= amountPaise &&
+      counterpartySimilarity(tokens, payment.tokens) >= REFUND_NAME_SCORE
+    );
+  });
+
+  const latest = (list: Payment[]) =>
+    list.reduce<Payment | undefined>((best, payment) => (!best || payment.entry.time > best.entry.time ? payment : best), undefined);
+
+  return latest(candidates.filter(payment => payment.remainingPaise === paise(payment.entry) && paise(payment.entry) === amountPaise))
+    ?? latest(candidates);
+}
+
+/**
+ * Link refunds and reversals to the debits they returned money for
+ *
+ * A refund is matched to its payment by reference number first, then to the latest payment
+ * to the same counterparty in the REFUND_MATCH_DAYS before it that still has that much left
+ * to refund. Linked debits carry the refunded amount so spending can be netted, and a debit
+ * reversed in full is marked 'reversed' - the payment never went through.
+ */
+export function linkRefunds(ledger: LedgerEntry[]): LedgerEntry[] {
+  const payments: Payment[] = ledger
+    .filter(entry => entry.direction === 'debit')
+    .map(entry => ({ entry, tokens: partyTokens(entry), remainingPaise: paise(entry), refundIds: [] }));
+
+  const byReference = new Map<string, Payment>();
+  payments.forEach(payment => {
+    const reference = payment.entry.referenceId?.trim().toUpperCase();
+    if (reference && !byReference.has(reference)) byReference.set(reference, payment);
+  });
+
+  const refunds = new Map<string, { kind: LedgerRefundKind; payment?: Payment }>();
+  ledger.forEach(entry => {
+    const kind = getRefundKind(entry);
+    if (!kind || entry.status === 'failed') return;
+
+    const payment = findByReference(entry, byReference) ?? findByCounterparty(entry, payments);
+    if (payment) {
+      payment.remainingPaise = Math.max(0, payment.remainingPaise - paise(entry));
+      payment.refundIds.push(entry.id);
+    }
+    refunds.set(entry.id, { kind, payment });
+  });
+
+  const byDebit = new Map(payments.map(payment => [payment.entry.id, payment]));
+
+  return ledger.map(entry => {
+    const refund = refunds.get(entry.id);
+    if (refund) {
+      return { ...entry, refundKind: refund.kind, refundOf: refund.payment?.entry.id };
+    }
+
+    const payment = byDebit.get(entry.id);
+    if (!payment || payment.refundIds.length === 0) return entry;
+
+    const reversed =
+      payment.remainingPaise === 0 &&
+      entry.status === 'completed' &&
+      payment.refundIds.every(id => refunds.get(id)?.kind === 'reversal');
+
+    return {
+      ...entry,
+      status: reversed ? 'reversed' : entry.status,
+      refundedBy: payment.refundIds,
+      refundedAmount: { value: (paise(entry) - payment.remainingPaise) / 100, currency: 'INR' },
+    };
+  });
+}
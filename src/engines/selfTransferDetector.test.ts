@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  markSelfTransfers,
+  suggestSelfTransfers,
+  mentionsOwnAccount,
+  getSelfTransferPairKey,
+  EMPTY_SELF_TRANSFER_SETTINGS,
+} from './selfTransferDetector';
+import { getSpending, getIncome, sumINR } from './ledger';
+import { entry } from '../test/ledgerEntry';
+
+describe('mentionsOwnAccount', () => {
+  it('should match UPI IDs and masked account numbers', () => {
+    expect(mentionsOwnAccount('Paid to SURESH me@okhdfc', ['Me@OKHDFC'])).toBe(true);
+    expect(mentionsOwnAccount('Transfer to XXXXXX1234', ['5010 0012 3498 76'])).toBe(false);
+    expect(mentionsOwnAccount('Transfer to XXXXXX1234', ['50100012341234'])).toBe(true);
+    expect(mentionsOwnAccount('Paid to Swiggy', ['me@okhdfc', '12'])).toBe(false);
+  });
+
+  it('should match full account numbers only as a whole number', () => {
+    expect(mentionsOwnAccount('NEFT to 5010 0012 3412 34', ['50100012341234'])).toBe(true);
+    expect(mentionsOwnAccount('Paid 5,000 to 50100012341234', ['50100012341234'])).toBe(true);
+    expect(mentionsOwnAccount('UPI/950100012341234/Ref', ['50100012341234'])).toBe(false);
+  });
+
+  it('should match short or masked numbers only in the masked form', () => {
+    expect(mentionsOwnAccount('Received from A/c XX1234', ['1234'])).toBe(true);
+    expect(mentionsOwnAccount('Received from A/c XX1234', ['XX1234'])).toBe(true);
+    expect(mentionsOwnAccount('UPI/412345678901/Swiggy', ['1234'])).toBe(false);
+    expect(mentionsOwnAccount('Paid ₹1234 to Swiggy', ['1234'])).toBe(false);
+    expect(mentionsOwnAccount('Transfer to XXXXXX12345', ['1234'])).toBe(false);
+  });
+
+  it('should match UPI IDs only where they start and end', () => {
+    expect(mentionsOwnAccount('Paid to home@okhdfc', ['me@okhdfc'])).toBe(false);
+    expect(mentionsOwnAccount('Paid to me@okhdfcbank', ['me@okhdfc'])).toBe(false);
+    expect(mentionsOwnAccount('Received from me@okhdfc.', ['me@okhdfc'])).toBe(true);
+  });
+});
+
+describe('markSelfTransfers', () => {
+  it('should mark payments to the user\'s own accounts and keep them out of spending and income', () => {
+    const ledger = markSelfTransfers(
+      [
+        entry({ counterparty: 'me@okkotak', description: 'Paid to me@okkotak' }),
+        entry({ direction: 'credit', counterparty: 'HDFC XX1234', description: 'Received from A/c XX1234' }),
+        entry({ amount: { value: 300, currency: 'INR' } }),
+      ],
+      { ownIdentifiers: ['me@okkotak', '50100012341234'], decisions: {} }
+    );
+
+    expect(ledger.map(item => !!item.selfTransfer)).toEqual([true, true, false]);
+    expect(sumINR(getSpending(ledger))).toBe(300);
+    expect(getIncome(ledger)).toHaveLength(0);
+  });
+
+  it('should mark both sides of a confirmed pair', () => {
+    const debit = entry({ id: 'hdfc:1' });
+    const credit = entry({ id: 'gpay:1700000000000:INR5000:Received | Kotak', direction: 'credit' });
+    const settings = {
+      ownIdentifiers: [],
+      decisions: { [getSelfTransferPairKey(debit.id, credit.id)]: 'transfer' as const },
+    };
+
+    expect(markSelfTransfers([debit, credit], settings).every(item => item.selfTransfer)).toBe(true);
+  });
+});
+
+describe('suggestSelfTransfers', () => {
+  it('should pair a debit with the closest same-amount credit from another source', () => {
+    const debit = entry();
+    const sameSource = entry({ direction: 'credit', time: new Date(2025, 3, 1, 10, 5) });
+    const far = entry({ direction: 'credit', sourceId: 'kotak', time: new Date(2025, 3, 1, 20, 0) });
+    const close = entry({ direction: 'credit', sourceId: 'kotak', time: new Date(2025, 3, 1, 10, 2) });
+    const tooLate = entry({ direction: 'credit', sourceId: 'kotak', time: new Date(2025, 3, 3, 10, 0) });
+
+    const suggestions = suggestSelfTransfers([debit, sameSource, far, close, tooLate], EMPTY_SELF_TRANSFER_SETTINGS);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ debit, credit: close });
+  });
+
+  it('should leave out pairs the user dismissed', () => {
+    const debit = entry();
+    const credit = entry({ direction: 'credit', sourceId: 'kotak' });
+    const settings = {
+      ownIdentifiers: [],
+      decisions: { [getSelfTransferPairKey(debit.id, credit.id)]: 'not_transfer' as const },
+    };
+
+    expect(suggestSelfTransfers([debit, credit], settings)).toHaveLength(0);
+  });
+});
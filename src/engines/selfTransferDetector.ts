@@ -0,0 +1,164 @@
+// Self-transfer detection - money moved between the user's own accounts is neither spent nor earned
+
+import type { LedgerEntry } from '../types/data.types';
+import type { SelfTransferSettings, SelfTransferSuggestion } from '../types/selfTransfer.types';
+import { convertToINR } from '../utils/categoryUtils';
+
+/**
+ * Hours between a debit and a credit of the same amount for them to be one transfer
+ */
+export const SELF_TRANSFER_MATCH_HOURS = 24;
+
+export const EMPTY_SELF_TRANSFER_SETTINGS: SelfTransferSettings = { ownIdentifiers: [], decisions: {} };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Stable key for a debit/credit pair, used to remember the user's decision
+ */
+export function getSelfTransferPairKey(debitId: string, creditId: string): string {
+  return `${debitId}|${creditId}`;
+}
+
+/**
+ * Fewest digits an account number can have; shorter numbers are only the tail of one
+ */
+const MIN_ACCOUNT_NUMBER_LENGTH = 9;
+
+/**
+ * Whether the text has the number as a whole number, not part of a longer one
+ * Numbers written in groups ("5010 0012 3412 34") count, as any run of neighbouring groups
+ */
+function containsNumber(text: string, digits: string): boolean {
+  return (text.match(/\d+(?:[\s-]\d+)*/g) || []).some(run => {
+    const groups = run.split(/[\s-]/);
+    return groups.some((_, start) => {
+      let joined = '';
+      for (let end = start; end < groups.length && joined.length < digits.length; end++) {
+        joined += groups[end];
+      }
+      return joined === digits;
+    });
+  });
+}
+
+/**
+ * Test for one of the user's identifiers in a payment description
+ * UPI IDs and names match whole, not inside a longer ID or word. Full account numbers match
+ * whole or bank-masked (XXXXXX1234); short or masked ones the user typed only match masked.
+ */
+function toMatcher(identifier: string): ((text: string) => boolean) | null {
+  const normalised = identifier.trim().toLowerCase();
+  if (normalised.length < 4) return null;
+
+  const compact = normalised.replace(/[\s-]/g, '');
+  if (/^[x*]*\d{4,}$/.test(compact)) {
+    const digits = compact.replace(/^[x*]+/, '');
+    const masked = new RegExp(`[x*]{2,}\\s?${digits.slice(-4)}(?!\\d)`, 'i');
+    if (digits !== compact || digits.length < MIN_ACCOUNT_NUMBER_LENGTH) {
+      return text => masked.test(text);
+    }
+    return text => masked.test(text) || containsNumber(text, digits);
+  }
+
+  const escaped = normalised.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const whole = new RegExp(`(?<![\\w.@-])${escaped}(?![\\w@-]|\\.\\w)`, 'i');
+  return text => whole.test(text);
+}
+
+/**
+ * Whether a payment description names one of the user's own accounts or UPI IDs
+ */
+export function mentionsOwnAccount(text: string, ownIdentifiers: string[]): boolean {
+  return ownIdentifiers.some(identifier => toMatcher(identifier)?.(text) ?? false);
+}
+
+/**
+ * Ids of both sides of every pair the user confirmed as a transfer
+ * Activity ids can contain the separator, so each split point is tried against the ledger
+ */
+function confirmedIds(ledger: LedgerEntry[], settings: SelfTransferSettings): Set<string> {
+  const ids = new Set(ledger.map(entry => entry.id));
+  const confirmed = new Set<string>();
+
+  Object.entries(settings.decisions).forEach(([key, decision]) => {
+    if (decision !== 'transfer') return;
+    for (let i = key.indexOf('|'); i !== -1; i = key.indexOf('|', i + 1)) {
+      const debitId = key.slice(0, i);
+      const creditId = key.slice(i + 1);
+      if (ids.has(debitId) && ids.has(creditId)) {
+        confirmed.add(debitId);
+        confirmed.add(creditId);
+        return;
+      }
+    }
+  });
+
+  return confirmed;
+}
+
+/**
+ * Mark payments to or from the user's own accounts, and pairs they confirmed as transfers
+ */
+export function markSelfTransfers(ledger: LedgerEntry[], settings: SelfTransferSettings): LedgerEntry[] {
+  const matchers = settings.ownIdentifiers
+    .map(toMatcher)
+    .filter((matcher): matcher is (text: string) => boolean => matcher !== null);
+  const confirmed = confirmedIds(ledger, settings);
+  if (matchers.length === 0 && confirmed.size === 0) return ledger;
+
+  return ledger.map(entry => {
+    const text = `${entry.counterparty} ${entry.description}`;
+    const own = confirmed.has(entry.id) || (!entry.refundKind && matchers.some(matches => matches(text)));
+    return own ? { ...entry, selfTransfer: true } : entry;
+  });
+}
+
+const sourceOf = (entry: LedgerEntry) => entry.sourceId ?? entry.sourceApp;
+
+const paise = (entry: LedgerEntry) => Math.round(convertToINR(entry.amount) * 100);
+
+/**
+ * Likely self-transfers the user hasn't answered yet
+ *
+ * A completed debit in one source is paired with the closest credit of exactly the same
+ * amount in another source within SELF_TRANSFER_MATCH_HOURS. Refunds, payments already
+ * marked as transfers and pairs the user dismissed are left out.
+ */
+export function suggestSelfTransfers(
+  ledger: LedgerEntry[],
+  settings: SelfTransferSettings
+): SelfTransferSuggestion[] {
+  const open = ledger.filter(
+    entry => entry.status === 'completed' && !entry.selfTransfer && !entry.refundKind && !entry.refundedBy
+  );
+  const credits = open.filter(entry => entry.direction === 'credit');
+  const paired = new Set<string>();
+  const suggestions: SelfTransferSuggestion[] = [];
+
+  open
+    .filter(entry => entry.direction === 'debit')
+    .forEach(debit => {
+      const amountPaise = paise(debit);
+      let best: LedgerEntry | undefined;
+      let bestGap = Infinity;
+
+      credits.forEach(credit => {
+        if (paired.has(credit.id) || sourceOf(credit) === sourceOf(debit) || paise(credit) !== amountPaise) return;
+        if (settings.decisions[getSelfTransferPairKey(debit.id, credit.id)]) return;
+
+        const gap = Math.abs(credit.time.getTime() - debit.time.getTime());
+        if (gap <= SELF_TRANSFER_MATCH_HOURS * HOUR_MS && gap < bestGap) {
+          best = credit;
+          bestGap = gap;
+        }
+      });
+
+      if (best) {
+        paired.add(best.id);
+        suggestions.push({ key: getSelfTransferPairKey(debit.id, best.id), debit, credit: best });
+      }
+    });
+
+  return suggestions;
+}
@@ -1,9 +1,9 @@
-import { useMemo, useEffect, useRef } from 'react';
+import { useMemo, useEffect, useRef, useState } from 'react';
 import { useDataStore } from '../stores/dataStore';
 import { useNavigate } from 'react-router-dom';
-import { convertToINR, TransactionCategory, categorizeTransaction } from '../utils/categoryUtils';
-import { filterTransactionsByYear, filterActivitiesByYear } from '../utils/dateUtils';
-import { Currency } from '../types/data.types';
+import { filterLedgerByYear } from '../utils/dateUtils';
+import { getSpending } from '../engines/ledger';
+import { rollUpCategories, findRollup, CATEGORY_PATH_SEPARATOR } from '../engines/categoryTree';
 import NoDataRedirect from '../components/NoDataRedirect';
 import Footer from '../components/Footer';
 import ThemeSwitcher from '../components/ThemeSwitcher';
@@ -12,118 +12,46 @@ import SpendingCharts from '../components/charts/SpendingCharts';
 import { animate as anime } from 'animejs';
 import styles from './Categories.module.css';
 
-interface TransactionItem {
-  description: string;
-  amount: Currency;
-  date: Date;
-  source: 'transaction' | 'activity';
-}
-
-const CATEGORY_COLORS: Record<TransactionCategory, string> = {
-  Food: '#FF6B6B',
-  Groceries: '#4ECDC4',
-  Clothing: '#A855F7',
-  Entertainment: '#F97316',
-  'E-commerce': '#3B82F6',
-  'Travel & Transport': '#10B981',
-  'Utilities & Bills': '#6366F1',
-  'Bills & Utilities': '#6366F1',
-  Healthcare: '#EC4899',
-  Education: '#14B8A6',
-  Investments: '#22C55E',
-  'Investment & Finance': '#22C55E',
-  Transfers: '#8B5CF6',
-  'Bank Transfers': '#0EA5E9',
-  'Transfers & Payments': '#0EA5E9',
-  'Services & Miscellaneous': '#94A3B8',
-  Others: '#94A3B8',
-};
-
-const CATEGORY_ICONS: Record<TransactionCategory, string> = {
-  Food: '🍕',
-  Groceries: '🛒',
-  Clothing: '👕',
-  Entertainment: '🎬',
-  'E-commerce': '🛍️',
-  'Travel & Transport': '🚗',
-  'Utilities & Bills': '💡',
-  'Bills & Utilities': '💡',
-  Healthcare: '🏥',
-  Education: '📚',
-  Investments: '📈',
-  'Investment & Finance': '📈',
-  Transfers: '💸',
-  'Bank Transfers': '🏦',
-  'Transfers & Payments': '🏦',
-  'Services & Miscellaneous': '📦',
-  Others: '📦',
-};
+// Spending of a category whose path is the given one or below it
+const isUnder = (categoryPath: string | undefined, path: string) =>
+  categoryPath === path || !!categoryPath?.startsWith(`${path}${CATEGORY_PATH_SEPARATOR}`);
 
 export default function Categories() {
   const navigate = useNavigate();
-  const { parsedData, filterContext } = useDataStore();
-
-  // Filtered transactions for charts
-  const filteredTransactions = useMemo(() => {
-    if (!parsedData) return [];
-    return filterTransactionsByYear(parsedData.transactions, filterContext.year);
-  }, [parsedData, filterContext.year]);
-
-  // Get all items with their category
-  const allItemsWithCategory = useMemo(() => {
-    if (!parsedData) return [];
-
-    const filteredActivities = filterActivitiesByYear(parsedData.activities, filterContext.year);
+  const {
+    parsedData,
+    filterContext,
+    ledger,
+    categoryBudgets,
+    setCategoryBudget,
+  } = useDataStore();
+  const [drillPath, setDrillPath] = useState<string | null>(null); // The category being drilled into
 
-    const items: (TransactionItem & { category: TransactionCategory })[] = [
-      ...filteredTransactions.map(t => ({
-        description: t.description,
-        amount: t.amount,
-        date: t.time,
-        source: 'transaction' as const,
-        category: t.category || categorizeTransaction(t.description),
-      })),
-      ...filteredActivities
-        .filter(a => a.amount && (a.transactionType === 'sent' || a.transactionType === 'paid'))
-        .map(a => ({
-          description: a.title,
-          amount: a.amount!,
-          date: a.time,
-          source: 'activity' as const,
-          category: a.category || categorizeTransaction(a.title),
-        })),
-    ];
-
-    return items;
-  }, [parsedData, filterContext.year, filteredTransactions]);
-
-  const categoryData = useMemo(() => {
-    if (allItemsWithCategory.length === 0) return [];
-
-    // Group by category
-    const categoryMap = new Map<TransactionCategory, { total: number; count: number }>();
+  // Get all payments with their place in the category tree
+  const spending = useMemo(
+    () => getSpending(filterLedgerByYear(ledger, filterContext.year)),
+    [ledger, filterContext.year]
+  );
 
-    allItemsWithCategory.forEach(item => {
-      const existing = categoryMap.get(item.category) || { total: 0, count: 0 };
-      existing.total += convertToINR(item.amount);
-      existing.count++;
-      categoryMap.set(item.category, existing);
-    });
+  // Totals for every category, sub-categories rolled up into their parents
+  const rollups = useMemo(() => rollUpCategories(spending, categoryBudgets), [spending, categoryBudgets]);
+  const drilled = drillPath ? findRollup(rollups, drillPath) : undefined;
+  const categoryData = drilled ? drilled.children : rollups;
 
-    const grandTotal = allItemsWithCategory.reduce(
-      (sum, item) => sum + convertToINR(item.amount),
-      0
-    );
+  // Payments behind the charts: everything, or only the category being drilled into
+  const chartItems = useMemo(
+    () =>
+      spending
+        .filter(entry => !drilled || isUnder(entry.categoryPath, drilled.path))
+        .map(entry => ({ description: entry.description, amount: entry.amount, date: entry.time })),
+    [spending, drilled]
+  );
 
-    return Array.from(categoryMap.entries())
-      .map(([category, stats]) => ({
-        category,
-        amount: stats.total,
-        count: stats.count,
-        percentage: grandTotal > 0 ? (stats.total / grandTotal) * 100 : 0,
-      }))
-      .sort((a, b) => b.amount - a.amount);
-  }, [allItemsWithCategory]);
+  // Budgets are monthly, so compare them with the average month of the period shown
+  const monthCount = useMemo(
+    () => Math.max(1, new Set(spending.map(entry => `${entry.time.getFullYear()}-${entry.time.getMonth()}`)).size),
+    [spending]
+  );
 
   // Total spent is already calculated in categoryData percentages
   // const totalSpent = useMemo(() => {
@@ -170,7 +98,13 @@ export default function Categories() {
         });
       });
     }
-  }, []);
+  }, [drillPath]);
+
+  const handleBudgetChange = (path: string, value: string) => {
+    const amount = Math.round(Number(value));
+    if (!Number.isFinite(amount)) return;
+    setCategoryBudget(path, amount > 0 ? amount : null);
+  };
 
   return (
     <div className={styles.categories} ref={containerRef}>
@@ -211,15 +145,15 @@ export default function Categories() {
 
         {/* Spending Charts */}
         <SpendingCharts
-          categoryData={categoryData}
-          transactions={allItemsWithCategory}
+          categoryData={categoryData.map(item => ({ ...item, category: item.name }))}
+          transactions={chartItems}
         />
 
         {/* Top 10 Categories */}
         <div className={styles.categoriesSection} ref={categoriesRef}>
           <h2 className={styles.sectionTitle}>
-            <span className={styles.titleIcon}>📊</span>
-            Top 10 Categories
+            <span className={styles.titleIcon}>{drilled ? drilled.icon : '📊'}</span>
+            {drilled ? drilled.name : 'Top 10 Categories'}
             {categoryData.length > 10 && (
               <span className={styles.categoryCount}>
                 {categoryData.length} total
@@ -227,22 +161,43 @@ export default function Categories() {
             )}
           </h2>
 
+          {drilled && (
+            <div className={styles.breadcrumbs}>
+              <button onClick={() => setDrillPath(null)} className={styles.breadcrumb}>
+                All categories
+              </button>
+              {drilled.path.split(CATEGORY_PATH_SEPARATOR).map((name, index, names) => {
+                const path = names.slice(0, index + 1).join(CATEGORY_PATH_SEPARATOR);
+                return (
+                  <button
+                    key={path}
+                    onClick={() => setDrillPath(path)}
+                    disabled={path === drilled.path}
+                    className={styles.breadcrumb}
+                  >
+                    › {name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {top10Categories.length > 0 ? (
             <div className={styles.categoryList}>
               {top10Categories.map((item, index) => (
                 <div
-                  key={item.category}
+                  key={item.path}
                   className={styles.categoryCard}
                   style={{
-                    '--category-color': CATEGORY_COLORS[item.category],
+                    '--category-color': item.color,
                   } as React.CSSProperties}
                 >
                   <div className={styles.categoryRank}>#{index + 1}</div>
                   <div className={styles.categoryHeader}>
                     <span className={styles.categoryIcon}>
-                      {CATEGORY_ICONS[item.category]}
+                      {item.icon}
                     </span>
-                    <span className={styles.categoryName}>{item.category}</span>
+                    <span className={styles.categoryName}>{item.name}</span>
                     <span className={styles.categoryPercentage}>
                       {item.percentage.toFixed(1)}%
                     </span>
@@ -256,6 +211,39 @@ export default function Categories() {
                       {item.count} transaction{item.count !== 1 ? 's' : ''}
                     </div>
                   </div>
+
+                  <div className={styles.categoryBudget}>
+                    {item.budget && (
+                      <div
+                        className={`${styles.budgetBar} ${item.amount / monthCount > item.budget ? styles.overBudget : ''}`}
+                        title={`₹${formatAmount(item.amount / monthCount)} a month of ₹${formatAmount(item.budget)}`}
+                      >
+                        <div
+                          className={styles.budgetFill}
+                          style={{ width: `${Math.min(100, (item.amount / monthCount / item.budget) * 100)}%` }}
+                        />
+                      </div>
+                    )}
+                    <label className={styles.budgetLabel}>
+                      Monthly budget ₹
+                      <input
+                        key={`${item.path}:${item.budget ?? ''}`}
+                        type="number"
+                        min="0"
+                        defaultValue={item.budget ?? ''}
+                        placeholder="None"
+                        onBlur={e => handleBudgetChange(item.path, e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                        className={styles.budgetInput}
+                      />
+                    </label>
+                  </div>
+
+                  {item.children.length > 0 && (
+                    <button onClick={() => setDrillPath(item.path)} className={styles.drillButton}>
+                      {item.children.length} sub-categor{item.children.length === 1 ? 'y' : 'ies'} →
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -282,6 +270,9 @@ export default function Categories() {
                 <span>Explore All Data</span>
                 <span className={styles.exploreArrow}>→</span>
               </button>
+              <button onClick={() => navigate('/rules')} className={styles.rulesLink}>
+                ✏️ Edit category rules
+              </button>
             </div>
           )}
 
@@ -13,24 +13,42 @@ import {
   type SortingState,
 } from '@tanstack/react-table';
 import { convertToINR } from '../utils/categoryUtils';
-import { filterTransactionsByYear, filterActivitiesByYear } from '../utils/dateUtils';
+import { resolveCounterparties } from '../engines/counterpartyResolver';
+import { suggestSelfTransfers } from '../engines/selfTransferDetector';
+import { suggestRulesFromOverride } from '../engines/categoryRules';
+import { getClassifierCategories, isLowConfidence } from '../utils/multi-layer-classifier';
+import type { LedgerEntry, LedgerStatus } from '../types/data.types';
+import type { ClassificationResult, RuleType } from '../types/classifier.types';
 import Tooltip from '../components/Tooltip';
 import NoDataRedirect from '../components/NoDataRedirect';
 import Footer from '../components/Footer';
 import MultiSelect from '../components/MultiSelect';
 import ThemeSwitcher from '../components/ThemeSwitcher';
+import SourceList from '../components/sources/SourceList';
+import CounterpartyManager from '../components/counterparties/CounterpartyManager';
+import SelfTransferManager from '../components/transfers/SelfTransferManager';
+import RuleSuggestionBanner from '../components/rules/RuleSuggestionBanner';
 import styles from './DataTable.module.css';
 
 interface TableRow {
+  entryId?: string; // Payments: the ledger entry, so its category can be changed
   date: Date;
-  type: 'activity' | 'transaction' | 'group_expense';
+  type: 'payment' | 'group_expense';
   description: string;
   amount: number;
   currency: string;
   category?: string;
+  classification?: ClassificationResult; // Payments: the rule that chose the category
+  categorySetByUser?: boolean; // Payments: recategorised by hand in this table
   status?: string;
-  recipient?: string;
-  direction?: 'sent' | 'received' | 'paid' | 'request' | 'other';
+  refunded?: number; // Payments: INR that came back through linked refunds and reversals
+  isRefund?: boolean; // Received money that returned an earlier payment, not income
+  selfTransfer?: boolean; // Between the user's own accounts, neither sent nor received
+  tags?: string[]; // Payments: the user's tags
+  note?: string; // Payments: the user's note
+  linkedChain?: string; // The refund or payment this row is linked to
+  counterparty?: string;
+  direction?: 'sent' | 'received' | 'paid';
   settlementStatus?: 'PAID_RECEIVED' | 'UNPAID';
   groupName?: string;
   expenseTitle?: string;
@@ -38,31 +56,103 @@ interface TableRow {
   creator?: string;
 }
 
-type ViewType = 'activity' | 'transaction' | 'group_expense';
+type ViewType = 'payment' | 'group_expense';
 
-export default function DataTable() {
-  const navigate = useNavigate();
-  const { parsedData } = useDataStore();
+const STATUS_LABELS: Record<LedgerStatus, string> = {
+  completed: 'Completed',
+  pending: 'Pending',
+  failed: 'Failed',
+  reversed: 'Reversed',
+};
 
-  // Determine default view based on available data
-  const getDefaultView = (): ViewType => {
-    if (!parsedData) return 'activity';
+const formatLinkDate = (date: Date) =>
+  date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
 
-    // Check if there's any activity data
-    const hasActivityData = parsedData.activities.length > 0;
+// "↩ Refunded ₹200 on 12 Mar 2025" on a payment, "↩ Refund of ₹500 to Amazon on 10 Mar 2025" on the refund
+function describeRefundLink(entry: LedgerEntry, byId: Map<string, LedgerEntry>): string | undefined {
+  const rupees = (value: number) => `₹${value.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
 
-    // If no activity data, default to transaction view
-    // (BHIM, Paytm, PhonePe only have transaction data)
-    if (!hasActivityData) {
-      return 'transaction';
-    }
+  if (entry.refundKind) {
+    const label = entry.refundKind === 'reversal' ? 'Reversal' : 'Refund';
+    const payment = entry.refundOf ? byId.get(entry.refundOf) : undefined;
+    if (!payment) return `↩ ${label}, original payment not found`;
+    return `↩ ${label} of ${rupees(convertToINR(payment.amount))} to ${payment.counterparty} on ${formatLinkDate(payment.time)}`;
+  }
 
-    return 'activity';
-  };
+  if (entry.refundedBy && entry.refundedAmount) {
+    const dates = entry.refundedBy
+      .map(id => byId.get(id))
+      .filter((refund): refund is LedgerEntry => !!refund)
+      .map(refund => formatLinkDate(refund.time));
+    const verb = entry.status === 'reversed' ? 'Reversed' : 'Refunded';
+    return `↩ ${verb} ${rupees(convertToINR(entry.refundedAmount))} on ${dates.join(', ')}`;
+  }
+
+  return undefined;
+}
+
+const RULE_TYPE_LABELS: Record<RuleType, string> = {
+  exclusion: 'Exclusion',
+  exact: 'Exact match',
+  fuzzy: 'Fuzzy match',
+  keyword: 'Keyword',
+  pattern: 'Pattern',
+  heuristic: 'Heuristic',
+};
+
+// "Keyword "amazon pay" · 90% confidence", or who else set the category
+function describeClassification(row: TableRow): string {
+  if (row.categorySetByUser) return 'Set by you';
+
+  const { classification } = row;
+  if (!classification) return 'Category from the imported file';
+
+  const confidence = `${Math.round(classification.confidence * 100)}% confidence`;
+  const { type, matcher } = classification.matchedRule;
+  if (matcher === 'none') return `No rule matched · ${confidence}`;
+
+  const rule = `${RULE_TYPE_LABELS[type]} "${matcher}" · ${confidence}`;
+  return classification.isUserRule ? `Your rule: ${rule}` : rule;
+}
+
+const isLowConfidenceRow = (row: TableRow) => !!row.classification && isLowConfidence(row.classification);
+
+// "#trip, Goa , trip" → ["trip", "Goa"]
+const parseTags = (text: string) =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(Boolean)));
+
+// Merchant name from a description: "PAY - To X" / "COLLECT - From X" (BHIM), "To X" / "From X"
+const merchantFromDescription = (description: string) =>
+  description
+    .replace(/^(PAY|COLLECT)\s*-\s*(To|From)\s+/i, '')
+    .replace(/^(To|From)\s+/i, '')
+    .trim();
+
+export default function DataTable() {
+  const navigate = useNavigate();
+  const {
+    parsedData,
+    counterpartyOverrides,
+    mergeCounterparties,
+    splitCounterparty,
+    ledger,
+    selfTransfers,
+    categoryOverrides,
+    categoryHistory,
+    setOwnIdentifiers,
+    resolveSelfTransfer,
+    setCategoryOverride,
+    addClassificationRule,
+    undoCategoryEdit,
+    tags,
+    notes,
+    setTags,
+    setNote,
+  } = useDataStore();
 
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const [activeView, setActiveView] = useState<ViewType>(getDefaultView());
+  const [activeView, setActiveView] = useState<ViewType>('payment');
   const [categoryFilter, setCategoryFilter] = useState<string[]>([]);
   const [yearFilter, setYearFilter] = useState<string>('2025');
   const [monthFilter, setMonthFilter] = useState<string>('all');
@@ -71,50 +161,65 @@ export default function DataTable() {
   const [payerFilter, setPayerFilter] = useState<string[]>([]);
   const [directionFilter, setDirectionFilter] = useState<string[]>([]);
   const [statusFilter, setStatusFilter] = useState<string[]>([]);
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [showCounterparties, setShowCounterparties] = useState(false);
+  const [showSelfTransfers, setShowSelfTransfers] = useState(false);
+  const [recategorised, setRecategorised] = useState<{ entryId: string; category: string } | null>(null);
+  const classifierCategories = useMemo(() => getClassifierCategories(), []);
+
+  // The person or merchant behind every payment, however the apps spelled them
+  const counterparties = useMemo(
+    () => resolveCounterparties(ledger, counterpartyOverrides),
+    [ledger, counterpartyOverrides]
+  );
+  const transferSuggestions = useMemo(() => suggestSelfTransfers(ledger, selfTransfers), [ledger, selfTransfers]);
+
+  // Rules that would categorise payments like the one just recategorised by hand
+  const ruleSuggestions = useMemo(() => {
+    const entry = recategorised && ledger.find(item => item.id === recategorised.entryId);
+    return entry ? suggestRulesFromOverride(ledger, entry, recategorised.category) : [];
+  }, [ledger, recategorised]);
+
+  const handleRecategorise = (entryId: string, category: string) => {
+    setCategoryOverride(entryId, category);
+    setRecategorised({ entryId, category });
+  };
 
   // Combine all data into a single table
   const tableData = useMemo((): TableRow[] => {
     if (!parsedData) return [];
 
     const rows: TableRow[] = [];
+    const byId = new Map(ledger.map(entry => [entry.id, entry]));
 
-    // Filter out failed transactions and activities
-    const successfulActivities = filterActivitiesByYear(parsedData.activities, 'all');
-    const successfulTransactions = filterTransactionsByYear(parsedData.transactions, 'all');
-
-    // Add activities (both sent and received)
-    successfulActivities.forEach(activity => {
-      if (activity.amount && activity.transactionType) {
-        const isReceived = activity.transactionType === 'received';
-        const displayAmount = convertToINR(activity.amount);
-
-        rows.push({
-          date: activity.time,
-          type: 'activity',
-          description: isReceived
-            ? (activity.sender ? `From ${activity.sender}` : activity.title)
-            : (activity.recipient ? `To ${activity.recipient}` : activity.title),
-          amount: displayAmount,
-          currency: activity.amount.currency,
-          category: activity.category,
-          status: 'Completed',
-          recipient: activity.recipient,
-          direction: activity.transactionType,
-        });
-      }
-    });
+    // Add every payment in the ledger, sent and received, from all apps
+    ledger.forEach(entry => {
+      const isReceived = entry.direction === 'credit';
 
-    // Add transactions
-    successfulTransactions.forEach(transaction => {
       rows.push({
-        date: transaction.time,
-        type: 'transaction',
-        description: transaction.description,
-        amount: convertToINR(transaction.amount),
-        currency: transaction.amount.currency,
-        category: transaction.category,
-        status: transaction.status,
-        recipient: transaction.description,
+        entryId: entry.id,
+        date: entry.time,
+        type: 'payment',
+        description: `${isReceived ? 'From' : 'To'} ${entry.counterparty}`,
+        amount: convertToINR(entry.amount),
+        currency: entry.amount.currency,
+        category: entry.category,
+        classification: entry.classification,
+        categorySetByUser: !!categoryOverrides[entry.id],
+        status: STATUS_LABELS[entry.status],
+        refunded: entry.refundedAmount ? convertToINR(entry.refundedAmount) : undefined,
+        isRefund: !!entry.refundKind,
+        selfTransfer: entry.selfTransfer,
+        tags: tags[entry.id],
+        note: notes[entry.id],
+        linkedChain: entry.cardPayment
+          ? '💳 Paid your credit card bill'
+          : entry.selfTransfer
+            ? '⇄ Between your own accounts'
+            : describeRefundLink(entry, byId),
+        counterparty: counterparties.byEntry.get(entry.id)?.name ?? entry.counterparty,
+        direction: isReceived ? 'received' : 'sent',
       });
     });
 
@@ -153,7 +258,7 @@ export default function DataTable() {
     });
 
     return rows.sort((a, b) => b.date.getTime() - a.date.getTime());
-  }, [parsedData]);
+  }, [parsedData, ledger, counterparties, categoryOverrides, tags, notes]);
 
   // Get unique categories for filter
   const categories = useMemo(() => {
@@ -165,6 +270,12 @@ export default function DataTable() {
     return Array.from(cats).sort();
   }, [tableData]);
 
+  // Every tag the user has used, for the tag filter
+  const allTags = useMemo(
+    () => Array.from(new Set(tableData.flatMap(row => row.tags ?? []))).sort(),
+    [tableData]
+  );
+
   // Get unique years from data
   const years = useMemo(() => {
     const yearsSet = new Set(tableData.map(row => row.date.getFullYear()));
@@ -214,25 +325,31 @@ export default function DataTable() {
       filtered = filtered.filter(row => row.category && categoryFilter.includes(row.category));
     }
 
-    // Direction filter (for activity view, multi-select)
-    if (directionFilter.length > 0 && activeView === 'activity') {
+    // Direction filter (for payments view, multi-select)
+    if (directionFilter.length > 0 && activeView === 'payment') {
       filtered = filtered.filter(row => row.direction && directionFilter.includes(row.direction));
     }
 
-    // Status filter (for transaction view, multi-select)
-    if (statusFilter.length > 0 && activeView === 'transaction') {
+    // Status filter (for payments view, multi-select)
+    if (statusFilter.length > 0 && activeView === 'payment') {
       filtered = filtered.filter(row => row.status && statusFilter.includes(row.status));
     }
 
+    // Categories the classifier guessed (for payments view)
+    if (lowConfidenceOnly && activeView === 'payment') {
+      filtered = filtered.filter(isLowConfidenceRow);
+    }
+
+    // Tag filter (for payments view, multi-select)
+    if (tagFilter.length > 0 && activeView === 'payment') {
+      filtered = filtered.filter(row => row.tags?.some(tag => tagFilter.includes(tag)));
+    }
+
     // Merchant filter (multi-select)
     if (merchantFilter.length > 0) {
       filtered = filtered.filter(row => {
-        // Extract merchant name from the description
         // Same extraction logic as merchantsData
-        const merchantName = row.description
-          .replace(/^(PAY|COLLECT)\s*-\s*(To|From)\s+/i, '') // Remove "PAY - To " or "COLLECT - From "
-          .replace(/^(To|From)\s+/i, '') // Remove "To " or "From "
-          .trim();
+        const merchantName = row.counterparty ?? merchantFromDescription(row.description);
         return merchantFilter.includes(merchantName);
       });
     }
@@ -248,7 +365,7 @@ export default function DataTable() {
     }
 
     return filtered;
-  }, [tableData, activeView, categoryFilter, yearFilter, monthFilter, merchantFilter, settlementFilter, payerFilter, directionFilter, statusFilter]);
+  }, [tableData, activeView, categoryFilter, yearFilter, monthFilter, merchantFilter, settlementFilter, payerFilter, directionFilter, statusFilter, lowConfidenceOnly, tagFilter]);
 
   // Get unique merchants for filter (based on currently filtered data, excluding merchant filter itself)
   const merchantsData = useMemo(() => {
@@ -280,15 +397,8 @@ export default function DataTable() {
     // Count transactions per merchant
     const merchantCounts = new Map<string, number>();
     dataForMerchants.forEach(row => {
-      // Extract merchant name from the description
-      // Handle formats:
-      // - "To X" or "From X" (Google Pay activities)
-      // - "PAY - To X" or "COLLECT - From X" (BHIM transactions)
-      // - "X" (PhonePe, Paytm transactions)
-      let merchantName = row.description
-        .replace(/^(PAY|COLLECT)\s*-\s*(To|From)\s+/i, '') // Remove "PAY - To " or "COLLECT - From "
-        .replace(/^(To|From)\s+/i, '') // Remove "To " or "From "
-        .trim();
+      // Payments carry their resolved counterparty; group expenses fall back to the description
+      const merchantName = row.counterparty ?? merchantFromDescription(row.description);
 
       // Filter out invalid merchant names that are just generic transaction descriptions
       // These patterns indicate no actual merchant name:
@@ -338,14 +448,20 @@ export default function DataTable() {
     return Array.from(payerSet).sort();
   }, [tableData]);
 
-  // Calculate totals with direction awareness
+  // Calculate totals with direction awareness (failed and reversed payments moved no money,
+  // refunds are netted out of what was sent rather than counted as received, and money moved
+  // between the user's own accounts is neither)
   const totals = useMemo(() => {
-    const sent = filteredData
+    const settled = filteredData.filter(
+      row => row.status !== STATUS_LABELS.failed && row.status !== STATUS_LABELS.reversed && !row.selfTransfer
+    );
+
+    const sent = settled
       .filter(row => row.direction === 'sent' || row.direction === 'paid' || !row.direction)
-      .reduce((sum, row) => sum + row.amount, 0);
+      .reduce((sum, row) => sum + row.amount - (row.refunded || 0), 0);
 
-    const received = filteredData
-      .filter(row => row.direction === 'received')
+    const received = settled
+      .filter(row => row.direction === 'received' && !row.isRefund)
       .reduce((sum, row) => sum + row.amount, 0);
 
     const netFlow = received - sent;
@@ -366,19 +482,14 @@ export default function DataTable() {
       description: true,
       amount: true,
       category: true,
+      note: activeView === 'payment',
     };
 
     // Set visibility for other columns based on active view
-    if (activeView === 'activity') {
+    if (activeView === 'payment') {
       visibility.direction = true;
       visibility.settlementStatus = false;
       visibility.payer = false;
-      visibility.status = false;
-      visibility.type = false;
-    } else if (activeView === 'transaction') {
-      visibility.direction = false;
-      visibility.settlementStatus = false;
-      visibility.payer = false;
       visibility.status = true;
       visibility.type = false;
     } else if (activeView === 'group_expense') {
@@ -427,15 +538,20 @@ export default function DataTable() {
       }),
       columnHelper.accessor('description', {
         header: 'Description',
-        cell: info => (
-          <Tooltip content={info.getValue()}>
-            <div className={styles.descriptionCell}>
-              <span className={styles.descriptionText}>
-                {info.getValue()}
-              </span>
-            </div>
-          </Tooltip>
-        ),
+        cell: info => {
+          const chain = info.row.original.linkedChain;
+
+          return (
+            <Tooltip content={chain ? `${info.getValue()} · ${chain}` : info.getValue()}>
+              <div className={styles.descriptionCell}>
+                <span className={styles.descriptionText}>
+                  {info.getValue()}
+                </span>
+                {chain && <span className={styles.linkedChain}>{chain}</span>}
+              </div>
+            </Tooltip>
+          );
+        },
       }),
       columnHelper.accessor('direction', {
         header: 'Direction',
@@ -447,11 +563,9 @@ export default function DataTable() {
             sent: { label: '↑ Sent', className: styles.directionSent },
             paid: { label: '↑ Paid', className: styles.directionPaid },
             received: { label: '↓ Received', className: styles.directionReceived },
-            request: { label: '↓ Request', className: styles.directionReceived },
-            other: { label: '-', className: styles.directionOther },
           };
 
-          const config = directionStyles[direction] || directionStyles.other;
+          const config = directionStyles[direction];
           return (
             <span className={`${styles.directionBadge} ${config.className}`}>
               {config.label}
@@ -525,11 +639,61 @@ export default function DataTable() {
       }),
       columnHelper.accessor('category', {
         header: 'Category',
-        cell: info => (
-          <span className={styles.categoryBadge}>
-            {info.getValue() || 'Uncategorized'}
-          </span>
-        ),
+        cell: info => {
+          const row = info.row.original;
+          const { entryId } = row;
+          const category = info.getValue();
+
+          return entryId ? (
+            <Tooltip content={describeClassification(row)}>
+              <select
+                value={category || ''}
+                onChange={e => handleRecategorise(entryId, e.target.value)}
+                className={`${styles.categoryBadge} ${isLowConfidenceRow(row) ? styles.lowConfidence : ''}`}
+              >
+                {!category && <option value="" disabled>Uncategorized</option>}
+                {category && !classifierCategories.includes(category) && <option value={category}>{category}</option>}
+                {classifierCategories.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </Tooltip>
+          ) : (
+            <span className={styles.categoryBadge}>
+              {category || 'Uncategorized'}
+            </span>
+          );
+        },
+      }),
+      columnHelper.accessor('note', {
+        header: 'Tags & Note',
+        enableSorting: false,
+        cell: info => {
+          const { entryId, tags: rowTags, note } = info.row.original;
+          if (!entryId) return null;
+
+          // Keyed on the saved value so an undo or import refreshes what the inputs show
+          return (
+            <div className={styles.notesCell}>
+              <input
+                key={`tags:${rowTags?.join(',') ?? ''}`}
+                defaultValue={rowTags?.join(', ') ?? ''}
+                onBlur={e => setTags(entryId, parseTags(e.target.value))}
+                placeholder="Add tags"
+                aria-label="Tags, separated by commas"
+                className={styles.tagsInput}
+              />
+              <input
+                key={`note:${note ?? ''}`}
+                defaultValue={note ?? ''}
+                onBlur={e => setNote(entryId, e.target.value)}
+                placeholder="Add a note"
+                aria-label="Note"
+                className={styles.noteInput}
+              />
+            </div>
+          );
+        },
       }),
       columnHelper.accessor('type', {
         header: 'Type',
@@ -599,10 +763,8 @@ export default function DataTable() {
   // Get view title
   const getViewTitle = () => {
     switch (activeView) {
-      case 'activity':
-        return 'Activity';
-      case 'transaction':
-        return 'Transactions';
+      case 'payment':
+        return 'Payments';
       case 'group_expense':
         return 'Group Expenses';
       default:
@@ -616,6 +778,8 @@ export default function DataTable() {
     // Reset view-specific filters
     setDirectionFilter([]);
     setStatusFilter([]);
+    setLowConfidenceOnly(false);
+    setTagFilter([]);
     setSettlementFilter([]);
     setPayerFilter([]);
     setMerchantFilter([]);
@@ -665,18 +829,11 @@ export default function DataTable() {
           {/* View Tabs */}
           <div className={styles.compactTabs}>
             <button
-              className={`${styles.compactTab} ${activeView === 'activity' ? styles.compactTabActive : ''}`}
-              onClick={() => handleViewChange('activity')}
-            >
-              <span className={styles.compactTabIcon}>📱</span>
-              <span className={styles.compactTabLabel}>Activity</span>
-            </button>
-            <button
-              className={`${styles.compactTab} ${activeView === 'transaction' ? styles.compactTabActive : ''}`}
-              onClick={() => handleViewChange('transaction')}
+              className={`${styles.compactTab} ${activeView === 'payment' ? styles.compactTabActive : ''}`}
+              onClick={() => handleViewChange('payment')}
             >
               <span className={styles.compactTabIcon}>💳</span>
-              <span className={styles.compactTabLabel}>Transactions</span>
+              <span className={styles.compactTabLabel}>Payments</span>
             </button>
             <button
               className={`${styles.compactTab} ${activeView === 'group_expense' ? styles.compactTabActive : ''}`}
@@ -688,6 +845,9 @@ export default function DataTable() {
           </div>
         </div>
 
+      {/* Uploaded statements */}
+      <SourceList />
+
       {/* Summary Cards */}
       <div className={styles.summaryCards}>
         <div className={styles.summaryCard}>
@@ -776,41 +936,35 @@ export default function DataTable() {
           placeholder="All Categories"
         />
 
-        {/* Activity view specific filters */}
-        {activeView === 'activity' && (
+        {/* Payments view specific filters */}
+        {activeView === 'payment' && (
           <>
             <MultiSelect
               label="Direction"
-              options={['sent', 'received', 'paid', 'request']}
+              options={['sent', 'received']}
               selectedValues={directionFilter}
               onChange={setDirectionFilter}
               placeholder="All Directions"
             />
 
-            <div className="merchantFilter">
-              <MultiSelect
-                label={`Merchant (${merchantsData.merchants.length})`}
-                options={merchantsData.merchants}
-                selectedValues={merchantFilter}
-                onChange={setMerchantFilter}
-                placeholder="All Merchants"
-                optionCounts={merchantsData.counts}
-              />
-            </div>
-          </>
-        )}
-
-        {/* Transaction view specific filters */}
-        {activeView === 'transaction' && (
-          <>
             <MultiSelect
               label="Status"
-              options={['Completed', 'Pending', 'Failed']}
+              options={Object.values(STATUS_LABELS)}
               selectedValues={statusFilter}
               onChange={setStatusFilter}
               placeholder="All Status"
             />
 
+            {allTags.length > 0 && (
+              <MultiSelect
+                label="Tags"
+                options={allTags}
+                selectedValues={tagFilter}
+                onChange={setTagFilter}
+                placeholder="All Tags"
+              />
+            )}
+
             <div className="merchantFilter">
               <MultiSelect
                 label={`Merchant (${merchantsData.merchants.length})`}
@@ -821,6 +975,40 @@ export default function DataTable() {
                 optionCounts={merchantsData.counts}
               />
             </div>
+
+            <div className={styles.filterGroup}>
+              <span className={styles.filterLabel}>Confidence:</span>
+              <button
+                type="button"
+                onClick={() => setLowConfidenceOnly(!lowConfidenceOnly)}
+                className={`${styles.filterButton} ${lowConfidenceOnly ? styles.active : ''}`}
+                title="Payments whose category is a guess rather than a rule match"
+              >
+                🎯 Low confidence only
+              </button>
+            </div>
+
+            <div className={styles.filterGroup}>
+              <span className={styles.filterLabel}>Names:</span>
+              <button
+                type="button"
+                onClick={() => setShowCounterparties(true)}
+                className={styles.filterButton}
+              >
+                👥 Merge or split
+              </button>
+            </div>
+
+            <div className={styles.filterGroup}>
+              <span className={styles.filterLabel}>Transfers:</span>
+              <button
+                type="button"
+                onClick={() => setShowSelfTransfers(true)}
+                className={styles.filterButton}
+              >
+                🔁 Own accounts{transferSuggestions.length > 0 ? ` (${transferSuggestions.length} to review)` : ''}
+              </button>
+            </div>
           </>
         )}
 
@@ -956,6 +1144,39 @@ export default function DataTable() {
       {/* Footer */}
       <Footer />
       </div>
+
+      {showCounterparties && (
+        <CounterpartyManager
+          entities={counterparties.entities}
+          onMerge={mergeCounterparties}
+          onSplit={splitCounterparty}
+          onClose={() => setShowCounterparties(false)}
+        />
+      )}
+
+      {showSelfTransfers && (
+        <SelfTransferManager
+          ownIdentifiers={selfTransfers.ownIdentifiers}
+          suggestions={transferSuggestions}
+          onChangeIdentifiers={setOwnIdentifiers}
+          onResolve={resolveSelfTransfer}
+          onClose={() => setShowSelfTransfers(false)}
+        />
+      )}
+
+      <RuleSuggestionBanner
+        suggestions={ruleSuggestions}
+        undoLabel={categoryHistory[categoryHistory.length - 1]?.label}
+        onAccept={suggestion => {
+          addClassificationRule(suggestion.category, suggestion.kind, suggestion.value);
+          setRecategorised(null);
+        }}
+        onDismiss={() => setRecategorised(null)}
+        onUndo={() => {
+          undoCategoryEdit();
+          setRecategorised(null);
+        }}
+      />
     </div>
   );
 }
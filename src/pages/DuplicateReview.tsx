@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDataStore } from '../stores/dataStore';
+import { APP_METADATA } from '../adapters/registry';
+import type { DuplicatePair, DuplicateDecision } from '../types/dedup.types';
+import type { Transaction, ActivityRecord } from '../types/data.types';
+import { convertToINR } from '../utils/categoryUtils';
+import NoDataRedirect from '../components/NoDataRedirect';
+import styles from './DuplicateReview.module.css';
+
+export default function DuplicateReview() {
+  const navigate = useNavigate();
+  const { parsedData, dedupReport, dataSources, resolveDuplicate, isLoading } = useDataStore();
+  const [showMerged, setShowMerged] = useState(false);
+
+  if (!parsedData) {
+    return <NoDataRedirect />;
+  }
+
+  const borderline = dedupReport?.borderline || [];
+  const merged = dedupReport?.merged || [];
+
+  const handleDecision = async (pair: DuplicatePair, decision: DuplicateDecision) => {
+    await resolveDuplicate(pair.key, decision);
+  };
+
+  const getSourceLabel = (record: Transaction | ActivityRecord) => {
+    const source = record.sourceId ? dataSources.get(record.sourceId) : undefined;
+    const appMeta = APP_METADATA[record.sourceApp];
+    return `${appMeta?.icon || '📄'} ${source?.fileName || appMeta?.displayName || record.sourceApp}`;
+  };
+
+  const renderRecord = (record: Transaction | ActivityRecord, label: string) => {
+    const description = 'id' in record ? record.description : record.title;
+    const amount = record.amount ? convertToINR(record.amount) : 0;
+
+    return (
+      <div className={styles.record}>
+        <span className={styles.recordLabel}>{label}</span>
+        <span className={styles.recordSource}>{getSourceLabel(record)}</span>
+        <span className={styles.recordDescription}>{description}</span>
+        <span className={styles.recordMeta}>
+          {record.time.toLocaleString('en-IN', {
+            day: '2-digit',
+            month: 'short',
+            year: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+          {' · '}₹{amount.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
+        </span>
+      </div>
+    );
+  };
+
+  const renderSignals = (pair: DuplicatePair) => (
+    <p className={styles.signals}>
+      {pair.reason === 'reference'
+        ? 'Same UPI reference'
+        : `${Math.round(pair.minutesApart)} min apart · name match ${Math.round(
+            pair.counterpartySimilarity * 100
+          )}% · score ${Math.round(pair.score * 100)}%`}
+    </p>
+  );
+
+  return (
+    <div className={styles.review}>
+      <div className={styles.container}>
+        <h1 className={styles.title}>Review Possible Duplicates</h1>
+        <p className={styles.subtitle}>
+          {merged.length} duplicate record{merged.length !== 1 ? 's' : ''} merged automatically.
+          {borderline.length > 0
+            ? ` ${borderline.length} pair${borderline.length !== 1 ? 's' : ''} need${
+                borderline.length === 1 ? 's' : ''
+              } your call.`
+            : ' Nothing left to review.'}
+        </p>
+
+        <div className={styles.pairs}>
+          {borderline.map(pair => (
+            <div key={pair.key} className={styles.pair}>
+              <div className={styles.records}>
+                {renderRecord(pair.primary, 'Kept')}
+                {renderRecord(pair.duplicate, 'Possible duplicate')}
+              </div>
+              {renderSignals(pair)}
+              <div className={styles.actions}>
+                <button
+                  onClick={() => handleDecision(pair, 'keep')}
+                  className={styles.secondaryButton}
+                  disabled={isLoading}
+                >
+                  Different payments
+                </button>
+                <button
+                  onClick={() => handleDecision(pair, 'merge')}
+                  className={styles.primaryButton}
+                  disabled={isLoading}
+                >
+                  Same payment, merge
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {merged.length > 0 && (
+          <div className={styles.mergedSection}>
+            <button onClick={() => setShowMerged(!showMerged)} className={styles.toggleButton}>
+              {showMerged ? 'Hide' : 'Show'} merged records ({merged.length})
+            </button>
+
+            {showMerged && (
+              <div className={styles.pairs}>
+                {merged.map(pair => (
+                  <div key={pair.key} className={styles.pair}>
+                    <div className={styles.records}>
+                      {renderRecord(pair.primary, 'Kept')}
+                      {renderRecord(pair.duplicate, 'Merged away')}
+                    </div>
+                    {renderSignals(pair)}
+                    <div className={styles.actions}>
+                      <button
+                        onClick={() => handleDecision(pair, 'keep')}
+                        className={styles.secondaryButton}
+                        disabled={isLoading}
+                      >
+                        Not a duplicate, keep both
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <button onClick={() => navigate('/insights')} className={styles.continueButton}>
+          Continue to Insights →
+        </button>
+      </div>
+    </div>
+  );
+}
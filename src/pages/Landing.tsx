@@ -2,12 +2,21 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import DropZone from '../components/upload/DropZone';
 import ThemeSwitcher from '../components/ThemeSwitcher';
+import WorkspaceSettings from '../components/workspace/WorkspaceSettings';
+import RememberedImports from '../components/upload/RememberedImports';
+import { useDataStore } from '../stores/dataStore';
+import { ADAPTERS, getFormatExtensions } from '../adapters/registry';
 import styles from './Landing.module.css';
 
+// Adapters that explain how to get their export file, in registration order
+const GUIDED_ADAPTERS = ADAPTERS.filter(adapter => adapter.metadata.exportGuide);
+const ALPHA_NAMES = GUIDED_ADAPTERS.filter(adapter => adapter.metadata.alpha).map(adapter => adapter.metadata.displayName);
+
 export default function Landing() {
   const [uploading, setUploading] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
   const navigate = useNavigate();
+  const { dataSources, parsedData } = useDataStore();
 
   const handleFileUpload = async (files: File[]) => {
     setUploading(true);
@@ -61,6 +70,17 @@ export default function Landing() {
       </header>
 
       <main className={styles.main}>
+        {parsedData && dataSources.size > 0 && (
+          <div className={styles.resumeCard}>
+            <span className={styles.resumeText}>
+              📂 {dataSources.size} statement{dataSources.size !== 1 ? 's' : ''} already loaded
+            </span>
+            <button className={styles.resumeButton} onClick={() => navigate('/insights')}>
+              Continue to Insights →
+            </button>
+          </div>
+        )}
+
         <DropZone onUpload={handleFileUpload} disabled={uploading} />
 
         <button
@@ -69,6 +89,12 @@ export default function Landing() {
         >
           📥 How to export your data
         </button>
+
+        <div className={styles.workspaceSettings}>
+          <WorkspaceSettings />
+        </div>
+
+        <RememberedImports />
       </main>
 
       <footer className={styles.footer}>
@@ -124,67 +150,44 @@ export default function Landing() {
             </div>
 
             <div className={styles.modalBody}>
-              <details className={styles.appAccordion} open>
-                <summary className={styles.appSummary}>
-                  <span className={styles.appIcon}>💳</span>
-                  <span className={styles.appLabel}>Google Pay</span>
-                  <span className={styles.fileFormat}>.ZIP</span>
-                </summary>
-                <ol className={styles.howToSteps}>
-                  <li className={styles.howToStep}>Visit <a href="https://takeout.google.com/" target="_blank" rel="noopener noreferrer" className={styles.howToLink}>Google Takeout</a></li>
-                  <li className={styles.howToStep}>Select only "Google Pay" from the list</li>
-                  <li className={styles.howToStep}>Download your data as a ZIP file</li>
-                </ol>
-              </details>
-
-              <details className={styles.appAccordion}>
-                <summary className={styles.appSummary}>
-                  <span className={styles.appIcon}>🏦</span>
-                  <span className={styles.appLabel}>BHIM App</span>
-                  <span className={styles.fileFormat}>.HTML</span>
-                </summary>
-                <ol className={styles.howToSteps}>
-                  <li className={styles.howToStep}>Open BHIM app and go to Transaction History</li>
-                  <li className={styles.howToStep}>Export as HTML file</li>
-                </ol>
-              </details>
-
-              <details className={styles.appAccordion}>
-                <summary className={styles.appSummary}>
-                  <span className={styles.appIcon}>💰</span>
-                  <span className={styles.appLabel}>Paytm</span>
-                  <span className={styles.alphaBadge}>Alpha</span>
-                  <span className={styles.fileFormat}>.XLSX</span>
-                </summary>
-                <ol className={styles.howToSteps}>
-                  <li className={styles.howToStep}>Open Paytm app → Passbook</li>
-                  <li className={styles.howToStep}>Tap on "Download Statement"</li>
-                  <li className={styles.howToStep}>Select date range and export as XLSX file</li>
-                </ol>
-              </details>
-
-              <details className={styles.appAccordion}>
-                <summary className={styles.appSummary}>
-                  <span className={styles.appIcon}>📱</span>
-                  <span className={styles.appLabel}>PhonePe</span>
-                  <span className={styles.alphaBadge}>Alpha</span>
-                  <span className={styles.fileFormat}>.PDF</span>
-                </summary>
-                <ol className={styles.howToSteps}>
-                  <li className={styles.howToStep}>Open PhonePe app → History</li>
-                  <li className={styles.howToStep}>Tap on "Download Statement"</li>
-                  <li className={styles.howToStep}>Select date range and download as PDF</li>
-                </ol>
-              </details>
+              {GUIDED_ADAPTERS.map((adapter, index) => (
+                <details key={adapter.appId} className={styles.appAccordion} open={index === 0}>
+                  <summary className={styles.appSummary}>
+                    <span className={styles.appIcon}>{adapter.metadata.icon}</span>
+                    <span className={styles.appLabel}>{adapter.metadata.displayName}</span>
+                    {adapter.metadata.alpha && <span className={styles.alphaBadge}>Alpha</span>}
+                    <span className={styles.fileFormat}>
+                      {getFormatExtensions(adapter.supportedFormats).join(' ').toUpperCase()}
+                    </span>
+                  </summary>
+                  <ol className={styles.howToSteps}>
+                    {adapter.metadata.exportGuide!.map(step => (
+                      <li key={step.text} className={styles.howToStep}>
+                        {step.text}
+                        {step.link && (
+                          <>
+                            {' '}
+                            <a href={step.link.href} target="_blank" rel="noopener noreferrer" className={styles.howToLink}>
+                              {step.link.label}
+                            </a>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </details>
+              ))}
 
               <div className={styles.modalFooter}>
                 <p className={styles.multiFileNote}>
                   💡 You can upload files from multiple apps at once!
                 </p>
 
-                <p className={styles.alphaNotice}>
-                  ⚠️ Paytm and PhonePe are in alpha - accuracy may vary
-                </p>
+                {ALPHA_NAMES.length > 0 && (
+                  <p className={styles.alphaNotice}>
+                    ⚠️ {ALPHA_NAMES.join(' and ')} {ALPHA_NAMES.length > 1 ? 'are' : 'is'} in alpha - accuracy may vary
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -1,27 +1,95 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useDataStore } from '../stores/dataStore';
-import { MultiAppManager } from '../services/MultiAppManager';
+import { processingPipeline, isPipelineCancelled } from '../services/ProcessingPipeline';
 import PasswordModal from '../components/upload/PasswordModal';
+import ColumnMappingWizard from '../components/upload/ColumnMappingWizard';
+import AppPickerModal from '../components/upload/AppPickerModal';
+import ImportReportModal from '../components/sources/ImportReportModal';
+import { useMappingProfileStore } from '../stores/mappingProfileStore';
+import { useAppOverrideStore } from '../stores/appOverrideStore';
+import { usePasswordSessionStore } from '../stores/passwordSessionStore';
+import { getSheetPreview } from '../utils/columnMapping';
+import { getPasswordIssuer } from '../utils/passwordHints';
+import { getAdapter } from '../adapters/registry';
+import { UpiApp, type DetectionReport, type UpiAppId } from '../types/app.types';
+import type { DedupReport } from '../types/dedup.types';
+import type { DataSource } from '../types/data.types';
+import type { PipelineProgress, PipelineStage } from '../types/pipeline.types';
+import type { ColumnMapping } from '../types/mapping.types';
 import styles from './Processing.module.css';
 
 type ProcessingStage = 'detecting' | 'extracting' | 'parsing' | 'calculating' | 'complete' | 'error';
 
+const FILE_STAGE_LABELS: Record<PipelineStage, { icon: string; label: string }> = {
+  queued: { icon: '⏳', label: 'Waiting' },
+  detecting: { icon: '🔍', label: 'Detecting app' },
+  extracting: { icon: '📦', label: 'Extracting' },
+  parsing: { icon: '📊', label: 'Parsing' },
+  done: { icon: '✓', label: 'Done' },
+  error: { icon: '⚠️', label: 'Failed' },
+};
+
 export default function Processing() {
   const navigate = useNavigate();
   const location = useLocation();
   const [stage, setStage] = useState<ProcessingStage>('detecting');
   const [error, setError] = useState<string | null>(null);
-  const [pendingPasswordFile, setPendingPasswordFile] = useState<File | null>(null);
+  const [pendingPassword, setPendingPassword] = useState<{ file: File; app?: UpiAppId } | null>(null);
   const [passwordError, setPasswordError] = useState<string | null>(null);
-  const [processedFiles, setProcessedFiles] = useState<Set<string>>(new Set());
+  const [dedupReport, setDedupReport] = useState<DedupReport | null>(null);
+  const [fileProgress, setFileProgress] = useState<PipelineProgress[]>([]);
+  const [pendingMapping, setPendingMapping] = useState<{
+    file: File;
+    source: DataSource;
+    rows: string[][];
+  } | null>(null);
+  const [pendingDetection, setPendingDetection] = useState<{
+    file: File;
+    report: DetectionReport;
+  } | null>(null);
+  const [importIssues, setImportIssues] = useState<DataSource[]>([]); // Sources with skipped rows or parse errors
+  const [showImportReport, setShowImportReport] = useState(false);
+
+  // Refs so the password flow can resume the loop without stale state
+  const startedRef = useRef(false);
+  const cancelledRef = useRef(false);
+  const processedFilesRef = useRef<Set<string>>(new Set());
+  const extractedSourcesRef = useRef<DataSource[]>([]);
+  const addedSourceIdsRef = useRef<string[]>([]);
+  const appOverridesRef = useRef<Map<string, UpiAppId>>(new Map()); // File name → app picked by hand
+  const rememberedOverridesRef = useRef<Set<string>>(new Set()); // Files whose app came from a remembered pick
+  const detectOnlyRef = useRef<Set<string>>(new Set()); // Files the remembered app couldn't read
+
+  const { addSources, removeSources, importWorkspace } = useDataStore();
+  const { findProfile, saveProfile } = useMappingProfileStore();
+  const { findOverride, saveOverride } = useAppOverrideStore();
+  const rememberPassword = usePasswordSessionStore(state => state.rememberPassword);
 
-  const { addAppData } = useDataStore();
+  useEffect(() => {
+    // Per-file progress streamed from the worker
+    const unsubscribe = processingPipeline.onProgress(progress => {
+      setFileProgress(prev => {
+        const index = prev.findIndex(p => p.fileName === progress.fileName);
+        if (index === -1) return [...prev, progress];
+        const next = [...prev];
+        next[index] = progress;
+        return next;
+      });
+
+      if (progress.stage === 'extracting' || progress.stage === 'parsing') {
+        const fileStage = progress.stage;
+        setStage(current => (current === 'complete' || current === 'error' ? current : fileStage));
+      }
+    });
 
-  const multiAppManager = new MultiAppManager();
+    // StrictMode runs effects twice in development; only start once
+    if (!startedRef.current) {
+      startedRef.current = true;
+      processFiles();
+    }
 
-  useEffect(() => {
-    processFiles();
+    return unsubscribe;
   }, []);
 
   const processFiles = async () => {
@@ -35,27 +103,62 @@ export default function Processing() {
         return;
       }
 
-      // Stage 1: Detect and extract each file
+      // Stage 1: Detect and extract each file (in the worker)
       setStage('detecting');
-      await sleep(300);
 
       for (const file of files) {
         // Skip already processed files
-        if (processedFiles.has(file.name)) {
+        if (processedFilesRef.current.has(file.name)) {
           continue;
         }
 
-        // Skip file that's currently pending password (prevent double prompt)
-        if (pendingPasswordFile && pendingPasswordFile.name === file.name) {
-          continue;
+        // An app picked earlier for files named like this one skips detection
+        const remembered = findOverride(file.name);
+        if (remembered && !appOverridesRef.current.has(file.name) && !detectOnlyRef.current.has(file.name)) {
+          appOverridesRef.current.set(file.name, remembered.app);
+          rememberedOverridesRef.current.add(file.name);
         }
 
-        const result = await multiAppManager.processFile(file);
+        let result = await processingPipeline.processFile(
+          file,
+          undefined,
+          appOverridesRef.current.get(file.name)
+        );
+        if (cancelledRef.current) return;
+
+        // The remembered app can't read this file after all: detect it instead
+        if (!result.success && !isPasswordError(result.error) && rememberedOverridesRef.current.has(file.name)) {
+          appOverridesRef.current.delete(file.name);
+          rememberedOverridesRef.current.delete(file.name);
+          detectOnlyRef.current.add(file.name);
+          result = await processingPipeline.processFile(file);
+          if (cancelledRef.current) return;
+        }
+
+        // Try a password kept this session for the same issuer before asking
+        if (!result.success && result.appId && isPasswordError(result.error)) {
+          const { key } = getPasswordIssuer(result.appId, file.name);
+          const savedPassword = usePasswordSessionStore.getState().passwords[key];
+          if (savedPassword) {
+            result = await processingPipeline.processFile(
+              file,
+              savedPassword,
+              appOverridesRef.current.get(file.name)
+            );
+            if (cancelledRef.current) return;
+          }
+        }
 
         if (!result.success) {
+          // No confident match: let the user pick the app
+          if (result.detectionReport) {
+            setPendingDetection({ file, report: result.detectionReport });
+            return;
+          }
+
           // Check if password required
-          if (result.error?.includes('password')) {
-            setPendingPasswordFile(file);
+          if (isPasswordError(result.error)) {
+            setPendingPassword({ file, app: result.appId });
             setPasswordError(null); // Clear any previous password errors
             return; // Wait for password input
           }
@@ -65,87 +168,217 @@ export default function Processing() {
           return;
         }
 
-        // Stage 2: Extract (happens inside processFile)
-        setStage('extracting');
-        await sleep(200);
-
-        if (result.appId && result.rawData) {
-          // Add app data to store (this also triggers parsing)
-          await addAppData(result.appId, result.rawData);
-        }
-
-        // Mark file as processed
-        setProcessedFiles(prev => new Set(prev).add(file.name));
+        const ready = await handleProcessedFile(file, result);
+        if (cancelledRef.current || !ready) return;
       }
 
-      // Stage 3: Parsing (auto-triggered by addAppData)
-      setStage('parsing');
-      await sleep(500);
+      // Stage 2: Parse all new sources at once (auto-triggered by addSources)
+      if (extractedSourcesRef.current.length > 0) {
+        setStage('parsing');
+        const existing = useDataStore.getState().dataSources;
+        addedSourceIdsRef.current = extractedSourcesRef.current
+          .map(source => source.id)
+          .filter(id => !existing.has(id));
+        await addSources(extractedSourcesRef.current);
+        if (cancelledRef.current) return;
+      }
 
-      // Stage 4: Calculate insights (auto-triggered by store)
+      // Stage 3: Calculate insights (auto-triggered by store)
       setStage('calculating');
-      await sleep(500);
+      await sleep(300);
 
-      // Stage 5: Complete
+      // Stage 4: Complete
+      const { dedupReport: report, dataSources } = useDataStore.getState();
+      const issues = extractedSourcesRef.current
+        .map(source => dataSources.get(source.id))
+        .filter((source): source is DataSource =>
+          Boolean(source && (source.parseError || source.importReport?.rowsSkipped))
+        );
+      setDedupReport(report);
+      setImportIssues(issues);
       setStage('complete');
-      await sleep(500);
+
+      // Borderline duplicates and skipped rows wait for the user to review or continue
+      if ((report && report.borderline.length > 0) || issues.length > 0) {
+        return;
+      }
+
+      await sleep(report && report.mergedCount > 0 ? 1500 : 500);
+      if (cancelledRef.current) return;
 
       // Navigate to insights page
       navigate('/insights');
     } catch (err) {
+      if (isPipelineCancelled(err)) return;
       setError(err instanceof Error ? err.message : 'Unknown error occurred');
       setStage('error');
     }
   };
 
-  const handlePasswordSubmit = async (password: string) => {
-    if (!pendingPasswordFile) return;
+  /**
+   * Keep an extracted source for the batch parse, or restore an imported workspace
+   * @returns false when the loop must wait for the column-mapping wizard
+   */
+  const handleProcessedFile = async (
+    file: File,
+    result: Awaited<ReturnType<typeof processingPipeline.processFile>>
+  ): Promise<boolean> => {
+    if (result.workspace) {
+      // Exported workspace: restore its sources, data and edits
+      await importWorkspace(result.workspace);
+    } else if (result.source) {
+      let source = result.source;
+
+      // Unrecognised spreadsheet: use a saved mapping for these headers, or ask for one
+      if (source.app === UpiApp.GENERIC && !source.rawData.mapping) {
+        const rows = JSON.parse(source.rawData.genericRows || '[]') as string[][];
+        const { headerRow, headers } = getSheetPreview(rows);
+        const profile = findProfile(headers);
+
+        if (!profile) {
+          setPendingMapping({ file, source, rows });
+          return false;
+        }
+        // Preambles vary in length between downloads; use this file's header row
+        source = withMapping(source, { ...profile.mapping, headerRow });
+      }
+
+      extractedSourcesRef.current.push(source);
+    }
+
+    // Mark file as processed
+    processedFilesRef.current.add(file.name);
+    return true;
+  };
+
+  const handleMappingSubmit = (mapping: ColumnMapping, headers: string[], profileName: string) => {
+    if (!pendingMapping) return;
+
+    saveProfile(profileName, headers, mapping);
+    extractedSourcesRef.current.push(withMapping(pendingMapping.source, mapping));
+    processedFilesRef.current.add(pendingMapping.file.name);
+    setPendingMapping(null);
+
+    // Continue processing remaining files
+    processFiles();
+  };
+
+  const handleAppPick = (app: UpiAppId, remember: boolean) => {
+    if (!pendingDetection) return;
+
+    if (remember) {
+      saveOverride(pendingDetection.file.name, app);
+    }
+    appOverridesRef.current.set(pendingDetection.file.name, app);
+    setPendingDetection(null);
+
+    // Process the file again as the picked app, then the remaining files
+    processFiles();
+  };
+
+  /**
+   * Unlock the pending file with the first password that works
+   * @param passwords - The typed password, or candidates built from the user's details
+   * @param remember - Reuse the working password for this issuer's other files this session
+   */
+  const tryPasswords = async (passwords: string[], remember: boolean) => {
+    if (!pendingPassword) return;
+    const { file } = pendingPassword;
 
     setPasswordError(null); // Clear any previous errors
 
     try {
-      const result = await multiAppManager.processFile(pendingPasswordFile, password);
+      let result: Awaited<ReturnType<typeof processingPipeline.processFile>> | undefined;
+      let workingPassword: string | undefined;
+      for (const password of passwords) {
+        result = await processingPipeline.processFile(file, password, appOverridesRef.current.get(file.name));
+        if (cancelledRef.current) return;
+        if (result.success) workingPassword = password;
+        if (!isPasswordError(result.error)) break;
+      }
+      if (!result) return;
 
       if (!result.success) {
         // Check if it's a password error
-        if (result.error?.toLowerCase().includes('password')) {
-          setPasswordError(result.error);
+        if (isPasswordError(result.error)) {
+          setPasswordError(
+            passwords.length > 1
+              ? `None of the ${passwords.length} likely passwords worked. Check your details or type the password.`
+              : result.error!
+          );
           return; // Keep modal open for retry
         }
 
         setError(result.error || 'Failed to process file');
         setStage('error');
-        setPendingPasswordFile(null);
+        setPendingPassword(null);
         return;
       }
 
-      if (result.appId && result.rawData) {
-        await addAppData(result.appId, result.rawData);
+      if (remember && workingPassword && result.appId) {
+        rememberPassword(getPasswordIssuer(result.appId, file.name).key, workingPassword);
       }
 
-      // Mark file as processed
-      setProcessedFiles(prev => new Set(prev).add(pendingPasswordFile.name));
-      setPendingPasswordFile(null);
+      const ready = await handleProcessedFile(file, result);
+      setPendingPassword(null);
       setPasswordError(null);
 
       // Continue processing remaining files
-      processFiles();
+      if (ready) processFiles();
     } catch (error) {
+      if (isPipelineCancelled(error)) return;
       setPasswordError(error instanceof Error ? error.message : 'Failed to unlock file');
     }
   };
 
+  const handleCancel = async () => {
+    cancelledRef.current = true;
+    processingPipeline.cancel();
+
+    navigate('/');
+
+    // Drop statements from this run that were added before parsing was cancelled
+    if (addedSourceIdsRef.current.length > 0) {
+      await removeSources(addedSourceIdsRef.current);
+    }
+  };
+
   const handleRetry = () => {
     navigate('/');
   };
 
-  if (pendingPasswordFile) {
+  if (pendingPassword) {
+    const { file, app } = pendingPassword;
     return (
       <PasswordModal
-        fileName={pendingPasswordFile.name}
-        onSubmit={handlePasswordSubmit}
+        fileName={file.name}
+        onSubmit={(password, remember) => tryPasswords([password], remember)}
+        onTryCandidates={tryPasswords}
         onCancel={() => navigate('/')}
         error={passwordError}
+        hint={app && getAdapter(app)?.metadata.passwordHint}
+        rememberLabel={app && `other ${getPasswordIssuer(app, file.name).name} files`}
+      />
+    );
+  }
+
+  if (pendingDetection) {
+    return (
+      <AppPickerModal
+        report={pendingDetection.report}
+        onSubmit={handleAppPick}
+        onCancel={() => navigate('/')}
+      />
+    );
+  }
+
+  if (pendingMapping) {
+    return (
+      <ColumnMappingWizard
+        fileName={pendingMapping.file.name}
+        rows={pendingMapping.rows}
+        onSubmit={handleMappingSubmit}
+        onCancel={() => navigate('/')}
       />
     );
   }
@@ -198,18 +431,101 @@ export default function Processing() {
           />
         </div>
 
-        <div className={styles.loader}>
-          <div className={styles.spinner}></div>
-        </div>
+        {fileProgress.length > 0 && (
+          <ul className={styles.fileList}>
+            {fileProgress.map(progress => (
+              <li
+                key={progress.fileName}
+                className={[
+                  styles.fileItem,
+                  progress.stage === 'done' && styles.fileDone,
+                  progress.stage === 'error' && styles.fileError,
+                ]
+                  .filter(Boolean)
+                  .join(' ')}
+                title={progress.error}
+              >
+                <span className={styles.fileIcon}>{FILE_STAGE_LABELS[progress.stage].icon}</span>
+                <span className={styles.fileName}>{progress.fileName}</span>
+                <span className={styles.fileStage}>{FILE_STAGE_LABELS[progress.stage].label}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {stage === 'complete' && dedupReport && dedupReport.mergedCount > 0 && (
+          <p className={styles.dedupNote}>
+            🔗 Merged {dedupReport.mergedCount} duplicate record
+            {dedupReport.mergedCount !== 1 ? 's' : ''} found in overlapping uploads
+          </p>
+        )}
+
+        {stage === 'complete' && importIssues.length > 0 && (
+          <p className={styles.dedupNote}>
+            ⚠️ {formatImportIssues(importIssues)}{' '}
+            <button onClick={() => setShowImportReport(true)} className={styles.linkButton}>
+              View import report
+            </button>
+          </p>
+        )}
+
+        {stage === 'complete' && dedupReport && dedupReport.borderline.length > 0 ? (
+          <div className={styles.dedupActions}>
+            <p className={styles.dedupNote}>
+              {dedupReport.borderline.length} possible duplicate
+              {dedupReport.borderline.length !== 1 ? 's' : ''} need a quick look
+            </p>
+            <button onClick={() => navigate('/review-duplicates')} className={styles.retryButton}>
+              Review Duplicates
+            </button>
+            <button onClick={() => navigate('/insights')} className={styles.skipButton}>
+              Skip for now
+            </button>
+          </div>
+        ) : stage === 'complete' && importIssues.length > 0 ? (
+          <div className={styles.dedupActions}>
+            <button onClick={() => navigate('/insights')} className={styles.retryButton}>
+              Continue
+            </button>
+          </div>
+        ) : (
+          <div className={styles.loader}>
+            <div className={styles.spinner}></div>
+          </div>
+        )}
+
+        {stage !== 'complete' && (
+          <button onClick={handleCancel} className={styles.cancelButton}>
+            Cancel
+          </button>
+        )}
 
         <p className={styles.privacyNote}>
           🔒 All processing happens in your browser. Your data never leaves your device.
         </p>
       </div>
+
+      {showImportReport && (
+        <ImportReportModal sources={importIssues} onClose={() => setShowImportReport(false)} />
+      )}
     </div>
   );
 }
 
+/**
+ * Summarise what the import left out, e.g. "12 rows skipped, 1 file couldn't be read"
+ */
+function formatImportIssues(sources: DataSource[]): string {
+  const skipped = sources.reduce((sum, source) => sum + (source.importReport?.rowsSkipped || 0), 0);
+  const failed = sources.filter(source => source.parseError).length;
+  const parts: string[] = [];
+
+  if (skipped > 0) parts.push(`${skipped} row${skipped !== 1 ? 's' : ''} skipped`);
+  if (failed > 0) parts.push(`${failed} file${failed !== 1 ? 's' : ''} couldn't be read`);
+
+  return parts.join(', ');
+}
+
 interface ProcessingStageProps {
   icon: string;
   label: string;
@@ -234,7 +550,19 @@ function ProcessingStage({ icon, label, active, complete }: ProcessingStageProps
   );
 }
 
+// Attach a column mapping to a generic spreadsheet source
+function withMapping(source: DataSource, mapping: ColumnMapping): DataSource {
+  return { ...source, rawData: { ...source.rawData, mapping: JSON.stringify(mapping) } };
+}
+
 // Helper function for delays
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
+
+/**
+ * Whether a failure is a missing or wrong password, so the password prompt should show
+ */
+function isPasswordError(error?: string): boolean {
+  return Boolean(error?.toLowerCase().includes('password'));
+}
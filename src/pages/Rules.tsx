@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useDataStore } from '../stores/dataStore';
+import type { UserCategoryRules, UserClassificationRules } from '../types/classifier.types';
+import { getClassifierCategories, isValidPattern } from '../utils/multi-layer-classifier';
+import { convertToINR } from '../utils/categoryUtils';
+import { buildLedger } from '../engines/ledger';
+import { EMPTY_CATEGORY_RULES, previewClassificationRules } from '../engines/categoryRules';
+import NoDataRedirect from '../components/NoDataRedirect';
+import styles from './Rules.module.css';
+
+// Enough to judge a change without rendering every payment
+const MAX_PREVIEW = 50;
+
+const RULE_KINDS: { key: keyof UserCategoryRules; label: string; hint: string; placeholder: string }[] = [
+  { key: 'exactMatches', label: 'Exact matches', hint: 'The whole merchant name', placeholder: 'ADYAR ANANDA BHAVAN' },
+  { key: 'keywords', label: 'Keywords', hint: 'Anywhere in the description', placeholder: 'chai' },
+  { key: 'patterns', label: 'Patterns', hint: 'Regular expressions', placeholder: '^AMZN\\s?MKTP' },
+  { key: 'fuzzyVariants', label: 'Fuzzy variants', hint: 'Misspellings and short forms', placeholder: 'biriyani' },
+];
+
+export default function Rules() {
+  const navigate = useNavigate();
+  const { parsedData, selfTransfers, classificationRules, categoryOverrides, setClassificationRules } = useDataStore();
+  const categories = useMemo(() => getClassifierCategories(), []);
+
+  const [draft, setDraft] = useState<UserClassificationRules>(classificationRules);
+  const [category, setCategory] = useState(categories[0]);
+  const [inputs, setInputs] = useState<Partial<Record<keyof UserCategoryRules, string>>>({});
+
+  // Categories as parsed, before any of the user's rules
+  const parsedLedger = useMemo(
+    () => (parsedData ? buildLedger(parsedData, { selfTransfers }) : []),
+    [parsedData, selfTransfers]
+  );
+  const changes = useMemo(
+    () => previewClassificationRules(parsedLedger, classificationRules, draft, categoryOverrides),
+    [parsedLedger, classificationRules, draft, categoryOverrides]
+  );
+
+  if (!parsedData) {
+    return <NoDataRedirect />;
+  }
+
+  const rules = draft[category] || EMPTY_CATEGORY_RULES;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(classificationRules);
+
+  const updateRules = (kind: keyof UserCategoryRules, values: string[]) => {
+    setDraft({ ...draft, [category]: { ...rules, [kind]: values } });
+  };
+
+  const handleAdd = (kind: keyof UserCategoryRules) => {
+    const value = (inputs[kind] || '').trim();
+    if (!value || rules[kind].includes(value)) return;
+    if (kind === 'patterns' && !isValidPattern(value)) return;
+
+    updateRules(kind, [...rules[kind], value]);
+    setInputs({ ...inputs, [kind]: '' });
+  };
+
+  const ruleCount = (name: string) =>
+    draft[name] ? Object.values(draft[name]).reduce((sum, list) => sum + list.length, 0) : 0;
+
+  return (
+    <div className={styles.rules}>
+      <div className={styles.container}>
+        <h1 className={styles.title}>Category Rules</h1>
+        <p className={styles.subtitle}>
+          Your rules are checked before the built-in ones. Changes are previewed below and only
+          applied when you save.
+        </p>
+
+        <div className={styles.categories}>
+          {categories.map(name => (
+            <button
+              key={name}
+              onClick={() => setCategory(name)}
+              className={`${styles.categoryButton} ${name === category ? styles.active : ''}`}
+            >
+              {name}
+              {ruleCount(name) > 0 && <span className={styles.ruleCount}>{ruleCount(name)}</span>}
+            </button>
+          ))}
+        </div>
+
+        <div className={styles.kinds}>
+          {RULE_KINDS.map(kind => {
+            const value = inputs[kind.key] || '';
+            const invalid = kind.key === 'patterns' && value.trim() !== '' && !isValidPattern(value.trim());
+
+            return (
+              <div key={kind.key} className={styles.kind}>
+                <h3 className={styles.kindTitle}>{kind.label}</h3>
+                <p className={styles.kindHint}>{kind.hint}</p>
+
+                <div className={styles.values}>
+                  {rules[kind.key].map(rule => (
+                    <span key={rule} className={styles.value}>
+                      {rule}
+                      <button
+                        type="button"
+                        className={styles.removeButton}
+                        onClick={() => updateRules(kind.key, rules[kind.key].filter(other => other !== rule))}
+                        title="Remove"
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  ))}
+                </div>
+
+                <div className={styles.addRow}>
+                  <input
+                    type="text"
+                    value={value}
+                    onChange={e => setInputs({ ...inputs, [kind.key]: e.target.value })}
+                    onKeyDown={e => e.key === 'Enter' && handleAdd(kind.key)}
+                    placeholder={kind.placeholder}
+                    className={`${styles.input} ${invalid ? styles.invalid : ''}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleAdd(kind.key)}
+                    disabled={!value.trim() || invalid}
+                    className={styles.addButton}
+                  >
+                    Add
+                  </button>
+                </div>
+                {invalid && <p className={styles.error}>Not a valid regular expression</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className={styles.preview}>
+          <h2 className={styles.previewTitle}>
+            {changes.length === 0
+              ? 'No payments change category'
+              : `${changes.length} payment${changes.length !== 1 ? 's' : ''} would move`}
+          </h2>
+          {changes.length > 0 && (
+            <ul className={styles.changes}>
+              {changes.slice(0, MAX_PREVIEW).map(({ entry, from, to }) => (
+                <li key={entry.id} className={styles.change}>
+                  <span className={styles.changeDescription}>{entry.description}</span>
+                  <span className={styles.changeAmount}>
+                    ₹{convertToINR(entry.amount).toLocaleString('en-IN', { maximumFractionDigits: 2 })}
+                  </span>
+                  <span className={styles.changeCategories}>
+                    {from} → <strong>{to}</strong>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {changes.length > MAX_PREVIEW && (
+            <p className={styles.kindHint}>and {changes.length - MAX_PREVIEW} more</p>
+          )}
+        </div>
+
+        <div className={styles.actions}>
+          <button onClick={() => navigate('/categories')} className={styles.secondaryButton}>
+            ← Back
+          </button>
+          <button
+            onClick={() => setDraft(classificationRules)}
+            disabled={!isDirty}
+            className={styles.secondaryButton}
+          >
+            Discard changes
+          </button>
+          <button
+            onClick={() => setClassificationRules(draft)}
+            disabled={!isDirty}
+            className={styles.primaryButton}
+          >
+            Save rules
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
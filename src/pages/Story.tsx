@@ -1,14 +1,14 @@
 import { useMemo, useEffect, useRef, useCallback } from 'react';
 import { useDataStore } from '../stores/dataStore';
 import { useNavigate } from 'react-router-dom';
-import { convertToINR, TransactionCategory, categorizeTransaction } from '../utils/categoryUtils';
 import {
-  filterTransactionsByYear,
-  filterActivitiesByYear,
+  filterLedgerByYear,
   filterGroupExpensesByYear,
   filterCashbackRewardsByYear,
   filterVouchersByYear,
 } from '../utils/dateUtils';
+import { getSpending, getIncome, sumINR } from '../engines/ledger';
+import { rollUpCategories } from '../engines/categoryTree';
 import NoDataRedirect from '../components/NoDataRedirect';
 import Footer from '../components/Footer';
 import ThemeSwitcher from '../components/ThemeSwitcher';
@@ -17,7 +17,7 @@ import styles from './Story.module.css';
 
 export default function Story() {
   const navigate = useNavigate();
-  const { parsedData, insights, filterContext } = useDataStore();
+  const { parsedData, insights, filterContext, ledger: fullLedger } = useDataStore();
   const containerRef = useRef<HTMLDivElement>(null);
   const heroRef = useRef<HTMLDivElement>(null);
   const statsRef = useRef<HTMLDivElement>(null);
@@ -28,39 +28,20 @@ export default function Story() {
   const filteredData = useMemo(() => {
     if (!parsedData) return null;
     return {
-      transactions: filterTransactionsByYear(parsedData.transactions, filterContext.year),
-      activities: filterActivitiesByYear(parsedData.activities, filterContext.year),
       groupExpenses: filterGroupExpensesByYear(parsedData.groupExpenses, filterContext.year),
       cashbackRewards: filterCashbackRewardsByYear(parsedData.cashbackRewards, filterContext.year),
       voucherRewards: filterVouchersByYear(parsedData.voucherRewards, filterContext.year),
     };
   }, [parsedData, filterContext.year]);
 
-  // Calculate total spent
-  const totalSpent = useMemo(() => {
-    if (!filteredData) return 0;
-
-    // Sum from transactions
-    const transactionTotal = filteredData.transactions.reduce(
-      (sum, t) => sum + convertToINR(t.amount),
-      0
-    );
-
-    // Sum from activities (sent and paid only)
-    const activityTotal = filteredData.activities
-      .filter(a => a.amount && (a.transactionType === 'sent' || a.transactionType === 'paid'))
-      .reduce((sum, a) => sum + convertToINR(a.amount!), 0);
+  // Every payment in the period, whichever app it came from
+  const ledger = useMemo(() => filterLedgerByYear(fullLedger, filterContext.year), [fullLedger, filterContext.year]);
 
-    return transactionTotal + activityTotal;
-  }, [filteredData]);
+  // Calculate total spent
+  const totalSpent = useMemo(() => sumINR(getSpending(ledger)), [ledger]);
 
   // Calculate total received
-  const totalReceived = useMemo(() => {
-    if (!filteredData) return 0;
-    return filteredData.activities
-      .filter(a => a.amount && a.transactionType === 'received')
-      .reduce((sum, a) => sum + convertToINR(a.amount!), 0);
-  }, [filteredData]);
+  const totalReceived = useMemo(() => sumINR(getIncome(ledger)), [ledger]);
 
   // Format amount helper
   const formatAmount = useCallback((amount: number) => {
@@ -72,64 +53,11 @@ export default function Story() {
     return Math.round(amount).toLocaleString();
   }, []);
 
-  // Category icons and colors
-  const CATEGORY_ICONS: Record<TransactionCategory, string> = {
-    Food: '🍕',
-    Groceries: '🛒',
-    Clothing: '👕',
-    Entertainment: '🎬',
-    'E-commerce': '🛍️',
-    'Travel & Transport': '🚗',
-    'Utilities & Bills': '💡',
-    'Bills & Utilities': '💡',
-    Healthcare: '🏥',
-    Education: '📚',
-    Investments: '📈',
-    'Investment & Finance': '📈',
-    Transfers: '💸',
-    'Bank Transfers': '🏦',
-    'Transfers & Payments': '🏦',
-    'Services & Miscellaneous': '📦',
-    Others: '📦',
-  };
-
   // Calculate category data
-  const categoryData = useMemo(() => {
-    if (!filteredData) return [];
-
-    const allItemsWithCategory: { category: TransactionCategory; amount: number }[] = [
-      ...filteredData.transactions.map(t => ({
-        category: categorizeTransaction(t.description),
-        amount: convertToINR(t.amount),
-      })),
-      ...filteredData.activities
-        .filter(a => a.amount && (a.transactionType === 'sent' || a.transactionType === 'paid'))
-        .map(a => ({
-          category: categorizeTransaction(a.title),
-          amount: convertToINR(a.amount!),
-        })),
-    ];
-
-    const categoryMap = new Map<TransactionCategory, { total: number; count: number }>();
-    allItemsWithCategory.forEach(item => {
-      const existing = categoryMap.get(item.category) || { total: 0, count: 0 };
-      existing.total += item.amount;
-      existing.count++;
-      categoryMap.set(item.category, existing);
-    });
-
-    const grandTotal = allItemsWithCategory.reduce((sum, item) => sum + item.amount, 0);
-
-    return Array.from(categoryMap.entries())
-      .map(([category, stats]) => ({
-        category,
-        amount: stats.total,
-        count: stats.count,
-        percentage: grandTotal > 0 ? (stats.total / grandTotal) * 100 : 0,
-      }))
-      .sort((a, b) => b.amount - a.amount)
-      .slice(0, 6); // Top 6 categories for cleaner layout
-  }, [filteredData]);
+  const categoryData = useMemo(
+    () => rollUpCategories(getSpending(ledger)).slice(0, 6), // Top 6 categories for cleaner layout
+    [ledger]
+  );
 
   // Animate on mount
   useEffect(() => {
@@ -229,7 +157,7 @@ export default function Story() {
     return <NoDataRedirect />;
   }
 
-  const totalPayments = (filteredData?.activities.length ?? 0) + (filteredData?.transactions.length ?? 0);
+  const totalPayments = ledger.length;
   const netFlow = totalReceived - totalSpent;
 
   return (
@@ -391,12 +319,12 @@ export default function Story() {
             </h2>
             <div className={styles.categoryGrid}>
               {categoryData.map((item) => (
-                <div key={item.category} className={styles.categoryCard}>
+                <div key={item.path} className={styles.categoryCard}>
                   <div className={styles.categoryCardHeader}>
                     <span className={styles.categoryCardIcon}>
-                      {CATEGORY_ICONS[item.category]}
+                      {item.icon}
                     </span>
-                    <span className={styles.categoryCardName}>{item.category}</span>
+                    <span className={styles.categoryCardName}>{item.name}</span>
                   </div>
                   <div className={styles.categoryCardAmount}>
                     ₹{formatAmount(item.amount)}
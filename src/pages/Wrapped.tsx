@@ -1,8 +1,9 @@
 import { useState, useRef, useCallback, useMemo, useEffect } from 'react';
 import { useDataStore } from '../stores/dataStore';
 import { useNavigate } from 'react-router-dom';
-import { convertToINR } from '../utils/categoryUtils';
-import { filterTransactionsByYear, filterActivitiesByYear } from '../utils/dateUtils';
+import { filterLedgerByYear } from '../utils/dateUtils';
+import { getSpending, sumINR } from '../engines/ledger';
+import { getCategoryPath, getCategoryStyle } from '../engines/categoryTree';
 import NoDataRedirect from '../components/NoDataRedirect';
 import { animate as anime } from 'animejs';
 import { bgMusic } from '../utils/backgroundMusic';
@@ -20,24 +21,7 @@ interface SlideData {
 }
 
 
-const getCategoryIcon = (category: string): string => {
-  const icons: Record<string, string> = {
-    Food: '🍕',
-    Groceries: '🛒',
-    Clothing: '👕',
-    Entertainment: '🎬',
-    'E-commerce': '🛍️',
-    'Travel & Transport': '🚗',
-    'Utilities & Bills': '💡',
-    Healthcare: '🏥',
-    Education: '📚',
-    Investments: '📈',
-    Transfers: '💸',
-    'Bank Transfers': '🏦',
-    Others: '📦',
-  };
-  return icons[category] || '📊';
-};
+const getCategoryIcon = (category: string): string => getCategoryStyle(getCategoryPath(category)).icon;
 
 // Background gradient images
 const BG_IMAGES = {
@@ -65,7 +49,7 @@ const assignBackgroundImage = (_slideId: string, slideIndex: number, totalSlides
 
 export default function Wrapped() {
   const navigate = useNavigate();
-  const { parsedData, insights, filterContext } = useDataStore();
+  const { parsedData, insights, filterContext, ledger: fullLedger } = useDataStore();
   const [currentSlide, setCurrentSlide] = useState(0);
   const [isSharing, setIsSharing] = useState(false);
   const slideRef = useRef<HTMLDivElement>(null);
@@ -74,14 +58,11 @@ export default function Wrapped() {
   const slides: SlideData[] = useMemo(() => {
     if (!parsedData) return [];
 
-    const filteredTransactions = filterTransactionsByYear(parsedData.transactions, filterContext.year);
-    const filteredActivities = filterActivitiesByYear(parsedData.activities, filterContext.year);
+    const ledger = filterLedgerByYear(fullLedger, filterContext.year);
 
     // Calculate total spent
-    const totalSpent = filteredTransactions.reduce((sum, t) => sum + convertToINR(t.amount), 0) +
-      filteredActivities
-        .filter(a => a.amount && (a.transactionType === 'sent' || a.transactionType === 'paid'))
-        .reduce((sum, a) => sum + convertToINR(a.amount!), 0);
+    const payments = getSpending(ledger);
+    const totalSpent = sumINR(payments);
 
     const formatAmount = (amount: number) => {
       if (amount >= 100000) return `${(amount / 100000).toFixed(1)}L`;
@@ -104,7 +85,7 @@ export default function Wrapped() {
         id: 'total',
         title: 'You spent a total of',
         value: `₹${formatAmount(totalSpent)}`,
-        subtitle: `across ${filteredActivities.length + filteredTransactions.length} transactions`,
+        subtitle: `across ${payments.length} payments`,
         icon: '💸',
         bgColor: '#d6249f'
       },
@@ -371,7 +352,7 @@ export default function Wrapped() {
     }));
 
     return slidesWithBg;
-  }, [parsedData, insights, filterContext.year]);
+  }, [parsedData, insights, filterContext.year, fullLedger]);
 
   const nextSlide = useCallback(() => {
     setCurrentSlide(prev => {
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { BlobWriter, TextReader, ZipWriter } from '@zip.js/zip.js';
+import { AppDetector } from './AppDetector';
+import { ADAPTERS } from '../adapters/registry';
+import { UpiApp } from '../types/app.types';
+
+describe('AppDetector', () => {
+  const detector = new AppDetector();
+
+  describe('detectWithReport', () => {
+    it('should report every adapter with the signals that matched', async () => {
+      const csv = [
+        'Txn Date,Value Date,Description,Ref No./Cheque No.,Debit,Credit,Balance',
+        '1 Jun 2025,1 Jun 2025,UPI/DR/ZOMATO,,320.00,,1000.00',
+      ].join('\n');
+      const file = new File([csv], 'sbi_statement.csv');
+      const { match, report } = await detector.detectWithReport(file);
+
+      expect(match?.adapter.appId).toBe(UpiApp.SBI);
+      expect(report.candidates).toHaveLength(ADAPTERS.length);
+      expect(report.candidates[0]).toMatchObject({
+        app: UpiApp.SBI,
+        confidence: 0.95,
+        signals: ['column headers', 'file name'],
+      });
+      expect(report.candidates.find(c => c.app === UpiApp.GOOGLE_PAY)).toMatchObject({ confidence: 0, signals: [] });
+    });
+
+    it('should not use a low-confidence guess', async () => {
+      const file = new File(['%PDF-1.4 not really a statement'], 'document.pdf');
+      const { match, report } = await detector.detectWithReport(file);
+
+      expect(match).toBeNull();
+      expect(report.candidates[0]).toMatchObject({ app: UpiApp.PHONEPE, confidence: 0.3, signals: ['PDF file'] });
+    });
+
+    it('should leave unknown spreadsheets to the column-mapping fallback', async () => {
+      const file = new File(['Item,Cost\nTea,20'], 'expenses.csv');
+
+      expect((await detector.detectApp(file))?.adapter.appId).toBe(UpiApp.GENERIC);
+    });
+
+    it('should ask for a password for an encrypted Takeout ZIP, then extract it', async () => {
+      const writer = new ZipWriter(new BlobWriter('application/zip'), { password: 'secret', useWebWorkers: false });
+      await writer.add(
+        'Takeout/Google Pay/Google transactions/transactions_123.csv',
+        new TextReader('Time,Transaction ID,Description,Product,Payment method,Status,Amount')
+      );
+      const file = new File([await writer.close()], 'takeout.zip');
+      const match = await detector.detectApp(file);
+
+      expect(match).toMatchObject({ confidence: 0.95, requiresPassword: true });
+      expect(match?.adapter.appId).toBe(UpiApp.GOOGLE_PAY);
+      await expect(match!.adapter.extract(file, 'wrong')).rejects.toThrow(/password/);
+      expect((await match!.adapter.extract(file, 'secret')).transactions).toContain('Transaction ID');
+    });
+  });
+});
@@ -1,11 +1,9 @@
 // Service to auto-detect which UPI app a file belongs to
 
-import type { UpiAppId } from '../types/app.types';
-import type { AppAdapter } from '../adapters/base/AppAdapter';
-import { GooglePayAdapter } from '../adapters/googlepay/GooglePayAdapter';
-import { BhimAdapter } from '../adapters/bhim/BhimAdapter';
-import { PaytmAdapter } from '../adapters/paytm/PaytmAdapter';
-import { PhonePeAdapter } from '../adapters/phonepe/PhonePeAdapter';
+import type { DetectionReport, UpiAppId } from '../types/app.types';
+import { MIN_DETECTION_CONFIDENCE, type AppAdapter, type DetectionResult } from '../adapters/base/AppAdapter';
+import { ADAPTERS, getAdapter } from '../adapters/registry';
+import { isWorkspaceFile } from '../utils/workspaceFile';
 
 /**
  * Detection result with confidence scoring
@@ -20,59 +18,80 @@ export interface DetectionMatch {
  * Service to auto-detect which UPI app a file belongs to
  */
 export class AppDetector {
-  private adapters: AppAdapter[] = [];
-
-  constructor() {
-    // Register all adapters
-    this.adapters.push(new GooglePayAdapter());
-    this.adapters.push(new BhimAdapter());
-    this.adapters.push(new PaytmAdapter());
-    this.adapters.push(new PhonePeAdapter());
-  }
+  private adapters: readonly AppAdapter[] = ADAPTERS;
 
   /**
    * Detect which app a file belongs to
    * @param file - File to analyze
-   * @returns Best matching adapter or null
+   * @returns Best matching adapter, or null when no adapter is confident enough
    */
   async detectApp(file: File): Promise<DetectionMatch | null> {
-    const results: DetectionMatch[] = [];
+    return (await this.detectWithReport(file)).match;
+  }
 
-    // Peek at file content for better detection (first 10KB to handle HTML files with large CSS blocks)
-    let contentPreview: string | undefined;
-    try {
-      const blob = file.slice(0, 10240);
-      contentPreview = await blob.text();
-    } catch (error) {
-      // If reading fails, adapters will only use filename
-    }
+  /**
+   * Detect which app a file belongs to, with every adapter's score and matched signals
+   * Matches below MIN_DETECTION_CONFIDENCE stay in the report as guesses but aren't used
+   */
+  async detectWithReport(file: File): Promise<{ match: DetectionMatch | null; report: DetectionReport }> {
+    const contentPreview = await this.readPreview(file);
+
+    // Run all adapters in parallel, keeping registration order for ties
+    const detections = await Promise.all(
+      this.adapters.map(async adapter => ({ adapter, result: await adapter.detect(file, contentPreview) }))
+    );
+
+    // Sort is stable: earlier adapters win ties
+    detections.sort((a, b) => score(b.result) - score(a.result));
+
+    const report: DetectionReport = {
+      fileName: file.name,
+      candidates: detections.map(({ adapter, result }) => ({
+        app: adapter.appId,
+        confidence: score(result),
+        signals: result.canHandle ? result.signals || [] : [],
+        requiresPassword: result.requiresPassword,
+      })),
+    };
 
-    // Run all adapters in parallel
-    const detectionPromises = this.adapters.map(async adapter => {
-      const result = await adapter.detect(file, contentPreview);
-      if (result.canHandle) {
-        results.push({
-          adapter,
-          confidence: result.confidence,
-          requiresPassword: result.requiresPassword,
-        });
-      }
-    });
+    const best = detections[0];
+    const match: DetectionMatch | null =
+      best && best.result.canHandle && best.result.confidence >= MIN_DETECTION_CONFIDENCE
+        ? {
+            adapter: best.adapter,
+            confidence: best.result.confidence,
+            requiresPassword: best.result.requiresPassword,
+          }
+        : null;
 
-    await Promise.all(detectionPromises);
+    return { match, report };
+  }
 
-    // Return adapter with highest confidence
-    if (results.length === 0) return null;
+  /**
+   * Detect a FinnLens workspace export (.finnlens)
+   * These restore a whole workspace rather than adding a single app's data
+   */
+  async detectWorkspaceFile(file: File): Promise<boolean> {
+    return isWorkspaceFile(file.name, await this.readPreview(file));
+  }
 
-    results.sort((a, b) => b.confidence - a.confidence);
-    return results[0];
+  /**
+   * Peek at file content for better detection (first 10KB to handle HTML files with large CSS blocks)
+   */
+  private async readPreview(file: File): Promise<string | undefined> {
+    try {
+      return await file.slice(0, 10240).text();
+    } catch (error) {
+      // If reading fails, adapters will only use filename
+      return undefined;
+    }
   }
 
   /**
    * Get adapter by app ID
    */
   getAdapter(appId: UpiAppId): AppAdapter | null {
-    return this.adapters.find(a => a.appId === appId) || null;
+    return getAdapter(appId);
   }
 
   /**
@@ -82,3 +101,8 @@ export class AppDetector {
     return [...this.adapters];
   }
 }
+
+// Confidence of a detection, 0 when the adapter can't handle the file
+function score(result: DetectionResult): number {
+  return result.canHandle ? result.confidence : 0;
+}
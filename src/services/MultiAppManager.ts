@@ -1,8 +1,66 @@
 // Manages multiple app data sources and combines them
 
-import type { UpiAppId } from '../types/app.types';
-import type { ParsedData, AppRawData } from '../types/data.types';
-import { AppDetector } from './AppDetector';
+import type { DetectionReport, UpiAppId } from '../types/app.types';
+import type { ParsedData, DataSource, ImportReport } from '../types/data.types';
+import type { DedupReport, DuplicateDecision } from '../types/dedup.types';
+import type { PipelineProgress } from '../types/pipeline.types';
+import type { WorkspaceSnapshot } from '../types/workspace.types';
+import { AppDetector, type DetectionMatch } from './AppDetector';
+import { hashFile } from '../utils/hashUtils';
+import { linkCardPayments } from '../engines/cardPaymentLinker';
+import { deduplicateParsedData } from '../engines/deduplicationEngine';
+import { parseWorkspaceFile } from '../utils/workspaceFile';
+
+/**
+ * Per-source statistics collected while parsing
+ */
+export interface SourceParseStats {
+  dateRange?: { start: Date; end: Date };
+  recordCount: number;
+  warnings?: string[];
+  importReport?: ImportReport;
+}
+
+/**
+ * Result of parsing one uploaded source
+ */
+export interface SourceParseResult {
+  sourceId: string;
+  app?: UpiAppId;
+  success: boolean;
+  data?: Omit<ParsedData, 'sources'>;
+  stats?: SourceParseStats;
+  error?: string;
+}
+
+/**
+ * Result of parsing and combining every uploaded source
+ */
+export interface CombinedParseResult {
+  success: boolean;
+  data?: ParsedData;
+  sourceStats?: Record<string, SourceParseStats>;
+  sourceErrors?: Record<string, string>; // Sources that failed to parse, by source id
+  dedupReport?: DedupReport;
+  error?: string;
+}
+
+/**
+ * Stages reported while a single file is processed
+ */
+export type FileProcessingStage = 'detecting' | 'extracting';
+
+/**
+ * Result of detecting and extracting one uploaded file
+ */
+export interface ProcessFileResult {
+  success: boolean;
+  appId?: UpiAppId;
+  source?: DataSource;
+  workspace?: WorkspaceSnapshot;
+  detectionReport?: DetectionReport; // Set when detection wasn't confident, so the user can pick the app
+  error?: string;
+}
 
 /**
  * Manages multiple app data sources and combines them
@@ -16,121 +74,232 @@ export class MultiAppManager {
 
   /**
    * Process a file and determine which app it belongs to
+   * A .finnlens export returns the workspace it contains instead of a source
+   * @param appOverride - App picked by the user; skips detection
    */
   async processFile(
     file: File,
-    password?: string
-  ): Promise<{
-    success: boolean;
-    appId?: UpiAppId;
-    rawData?: AppRawData;
-    error?: string;
-  }> {
-    // Detect app
-    const detection = await this.detector.detectApp(file);
-
-    if (!detection) {
-      return {
-        success: false,
-        error: 'Could not detect UPI app from file. Please ensure it is a valid export.',
-      };
+    password?: string,
+    onStage?: (stage: FileProcessingStage) => void,
+    appOverride?: UpiAppId
+  ): Promise<ProcessFileResult> {
+    onStage?.('detecting');
+
+    if (await this.detector.detectWorkspaceFile(file)) {
+      try {
+        return { success: true, workspace: parseWorkspaceFile(await file.text()) };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to read workspace file',
+        };
+      }
+    }
+
+    let detection: DetectionMatch | null;
+    if (appOverride) {
+      const adapter = this.detector.getAdapter(appOverride);
+      if (!adapter) {
+        return { success: false, error: `No adapter found for ${appOverride}` };
+      }
+      // Adapters ask for a password while extracting when the file turns out to be encrypted
+      detection = { adapter, confidence: 1 };
+    } else {
+      // Detect app
+      const { match, report } = await this.detector.detectWithReport(file);
+
+      if (!match) {
+        return {
+          success: false,
+          error: 'Could not detect which app or bank this file is from.',
+          detectionReport: report,
+        };
+      }
+      detection = match;
     }
 
     // Check if password is required but not provided
     if (detection.requiresPassword && !password) {
       return {
         success: false,
+        appId: detection.adapter.appId, // So the password prompt can show the app's hints
         error: 'This file requires a password.',
       };
     }
 
     try {
       // Extract raw data using detected adapter
+      onStage?.('extracting');
       const rawDataMap = await detection.adapter.extract(file, password);
+      const fileHash = await hashFile(file);
 
-      const appRawData: AppRawData = {
+      const source: DataSource = {
+        id: `${detection.adapter.appId}-${fileHash.slice(0, 16)}`,
         app: detection.adapter.appId,
         rawData: rawDataMap,
         uploadedAt: new Date(),
+        fileName: file.name,
+        fileHash,
+        fileSize: file.size,
       };
 
       return {
         success: true,
         appId: detection.adapter.appId,
-        rawData: appRawData,
+        source,
       };
     } catch (error) {
       return {
         success: false,
+        appId: detection.adapter.appId,
         error: error instanceof Error ? error.message : 'Failed to process file',
       };
     }
   }
 
   /**
-   * Parse raw data from all apps into unified ParsedData
-   * Merges data from multiple sources
+   * Parse raw data from all uploaded sources into unified ParsedData
+   * Merges data from multiple sources, including several files from the same app,
+   * then removes records that appear in more than one source
+   * @param sources - Uploaded sources to parse
+   * @param dedupDecisions - User decisions for reviewed duplicate pairs
+   * @param onProgress - Called as each source is queued, parsed or fails
    */
   async parseAllAppData(
-    rawDataByApp: Map<UpiAppId, AppRawData>
-  ): Promise<{ success: boolean; data?: ParsedData; error?: string }> {
+    sources: DataSource[],
+    dedupDecisions: Record<string, DuplicateDecision> = {},
+    onProgress?: (progress: PipelineProgress) => void
+  ): Promise<CombinedParseResult> {
+    sources.forEach(source => onProgress?.({ fileName: source.fileName, stage: 'queued' }));
+
+    const results: SourceParseResult[] = [];
+    for (const source of sources) {
+      onProgress?.({ fileName: source.fileName, stage: 'parsing' });
+      const result = await this.parseSource(source);
+      onProgress?.({
+        fileName: source.fileName,
+        stage: result.success ? 'done' : 'error',
+        error: result.error,
+      });
+      results.push(result);
+    }
+    return this.combineParsedSources(results, dedupDecisions);
+  }
+
+  /**
+   * Parse a single uploaded source, tagging every record with the source id
+   */
+  async parseSource(source: DataSource): Promise<SourceParseResult> {
+    const adapter = this.detector.getAdapter(source.app);
+    if (!adapter) {
+      return { sourceId: source.id, success: false, error: `No adapter found for ${source.app}` };
+    }
+
+    try {
+      const parseResult = await adapter.parse(source.rawData);
+
+      if (!parseResult.success || !parseResult.data) {
+        return {
+          sourceId: source.id,
+          success: false,
+          error: parseResult.error || `Failed to parse ${source.fileName}`,
+        };
+      }
+
+      // Tag every record with the source it came from
+      const parsed = parseResult.data;
+      const tag = <T extends object>(items: T[] | undefined): T[] =>
+        (items || []).map(item => ({ ...item, sourceId: source.id }));
+
+      const transactions = tag(parsed.transactions);
+      const activities = tag(parsed.activities);
+
+      return {
+        sourceId: source.id,
+        app: source.app,
+        success: true,
+        data: {
+          transactions,
+          groupExpenses: tag(parsed.groupExpenses),
+          cashbackRewards: tag(parsed.cashbackRewards),
+          voucherRewards: tag(parsed.voucherRewards),
+          activities,
+          cardStatements: tag(parsed.cardStatements),
+        },
+        stats: {
+          dateRange: getDateRange([
+            ...transactions.map(t => t.time),
+            ...activities.map(a => a.time),
+          ]),
+          recordCount: transactions.length + activities.length,
+          warnings: parseResult.warnings,
+          importReport: parseResult.report,
+        },
+      };
+    } catch (error) {
+      return {
+        sourceId: source.id,
+        success: false,
+        error: `Error parsing ${source.fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Merge per-source results into unified ParsedData and drop cross-source duplicates
+   */
+  combineParsedSources(
+    results: SourceParseResult[],
+    dedupDecisions: Record<string, DuplicateDecision> = {}
+  ): CombinedParseResult {
     const combinedData: ParsedData = {
       transactions: [],
       groupExpenses: [],
       cashbackRewards: [],
       voucherRewards: [],
       activities: [],
+      cardStatements: [],
       sources: [],
     };
 
-    const errors: string[] = [];
+    const sourceErrors: Record<string, string> = {};
+    const sourceStats: Record<string, SourceParseStats> = {};
 
-    // Parse each app's data
-    for (const [appId, appRawData] of rawDataByApp.entries()) {
-      const adapter = this.detector.getAdapter(appId);
-      if (!adapter) {
-        errors.push(`No adapter found for ${appId}`);
+    for (const result of results) {
+      if (!result.success || !result.data || !result.app) {
+        sourceErrors[result.sourceId] = result.error || `Failed to parse ${result.sourceId}`;
         continue;
       }
 
-      try {
-        const parseResult = await adapter.parse(appRawData.rawData);
-
-        if (!parseResult.success || !parseResult.data) {
-          errors.push(parseResult.error || `Failed to parse ${appId}`);
-          continue;
-        }
-
-        // Merge parsed data
-        const parsed = parseResult.data;
-
-        if (parsed.transactions) {
-          combinedData.transactions.push(...parsed.transactions);
-        }
-        if (parsed.groupExpenses) {
-          combinedData.groupExpenses.push(...parsed.groupExpenses);
-        }
-        if (parsed.cashbackRewards) {
-          combinedData.cashbackRewards.push(...parsed.cashbackRewards);
-        }
-        if (parsed.voucherRewards) {
-          combinedData.voucherRewards.push(...parsed.voucherRewards);
-        }
-        if (parsed.activities) {
-          combinedData.activities.push(...parsed.activities);
-        }
-
-        // Track source
-        if (!combinedData.sources.includes(appId)) {
-          combinedData.sources.push(appId);
-        }
-      } catch (error) {
-        errors.push(
-          `Error parsing ${appId}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
+      const parsed = result.data;
+      combinedData.transactions.push(...(parsed.transactions || []));
+      combinedData.groupExpenses.push(...(parsed.groupExpenses || []));
+      combinedData.cashbackRewards.push(...(parsed.cashbackRewards || []));
+      combinedData.voucherRewards.push(...(parsed.voucherRewards || []));
+      combinedData.activities.push(...(parsed.activities || []));
+      combinedData.cardStatements!.push(...(parsed.cardStatements || []));
+
+      if (result.stats) {
+        sourceStats[result.sourceId] = result.stats;
+      }
+
+      // Track source
+      if (!combinedData.sources.includes(result.app)) {
+        combinedData.sources.push(result.app);
       }
     }
 
+    // Drop records that overlapping uploads contributed more than once
+    const { data: dedupedData, report: dedupReport } = deduplicateParsedData(
+      combinedData,
+      dedupDecisions
+    );
+    combinedData.transactions = dedupedData.transactions;
+    combinedData.activities = dedupedData.activities;
+
+    // Card bills paid over UPI are already counted by the card's own transactions
+    combinedData.cardStatements = linkCardPayments(combinedData).cardStatements;
+
     // Sort by time (newest first)
     combinedData.transactions.sort((a, b) => b.time.getTime() - a.time.getTime());
     combinedData.activities.sort((a, b) => b.time.getTime() - a.time.getTime());
@@ -138,10 +307,25 @@ export class MultiAppManager {
       (a, b) => b.creationTime.getTime() - a.creationTime.getTime()
     );
 
-    if (errors.length > 0) {
-      console.warn('Parsing errors:', errors);
-    }
-
-    return { success: true, data: combinedData };
+    return { success: true, data: combinedData, sourceStats, sourceErrors, dedupReport };
   }
 }
+
+/**
+ * Earliest and latest valid date in a list, if any
+ */
+function getDateRange(dates: Date[]): { start: Date; end: Date } | undefined {
+  let start = Infinity;
+  let end = -Infinity;
+
+  dates.forEach(d => {
+    const time = d.getTime();
+    if (isNaN(time)) return;
+    if (time < start) start = time;
+    if (time > end) end = time;
+  });
+
+  if (start === Infinity) return undefined;
+
+  return { start: new Date(start), end: new Date(end) };
+}
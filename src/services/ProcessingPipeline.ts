@@ -0,0 +1,208 @@
+// Runs file detection, extraction, parsing and combining in a Web Worker with progress and cancellation
+
+import type { UpiAppId } from '../types/app.types';
+import type { DataSource } from '../types/data.types';
+import type { DuplicateDecision } from '../types/dedup.types';
+import type {
+  PipelineProgress,
+  PipelineRequest,
+  PipelineResponse,
+} from '../types/pipeline.types';
+import {
+  MultiAppManager,
+  type ProcessFileResult,
+  type CombinedParseResult,
+} from './MultiAppManager';
+
+export const PIPELINE_CANCELLED = 'Processing cancelled';
+
+/**
+ * Whether an error came from cancel() rather than a real failure
+ */
+export function isPipelineCancelled(error: unknown): boolean {
+  return error instanceof Error && error.message === PIPELINE_CANCELLED;
+}
+
+type ProgressListener = (progress: PipelineProgress) => void;
+
+interface PendingJob {
+  fileName?: string; // Set for single-file jobs, so a failure shows against that file
+  resolve: (response: PipelineResponse) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs file detection, extraction, parsing and combining in a Web Worker
+ * Falls back to the main thread where workers aren't available
+ */
+export class ProcessingPipeline {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingJob>();
+  private listeners = new Set<ProgressListener>();
+  private nextJobId = 1;
+  private generation = 0; // Bumped on cancel so main-thread work can bail out
+  private mainThread = new MultiAppManager();
+
+  /**
+   * Subscribe to per-file progress updates
+   * @returns Unsubscribe function
+   */
+  onProgress(listener: ProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Detect the app and extract raw data from a file
+   * @param appOverride - App picked by the user; skips detection
+   * @throws Error with PIPELINE_CANCELLED if cancel() is called meanwhile
+   */
+  async processFile(file: File, password?: string, appOverride?: UpiAppId): Promise<ProcessFileResult> {
+    const generation = this.generation;
+    let result: ProcessFileResult;
+
+    if (this.canUseWorker()) {
+      const response = await this.send(file.name, jobId => ({
+        type: 'process',
+        jobId,
+        file,
+        password,
+        appOverride,
+      }));
+      result = (response as Extract<PipelineResponse, { type: 'processed' }>).result;
+    } else {
+      result = await this.mainThread.processFile(
+        file,
+        password,
+        stage => this.emit({ fileName: file.name, stage }),
+        appOverride
+      );
+      this.throwIfCancelled(generation);
+    }
+
+    if (!result.success) {
+      this.emit({ fileName: file.name, stage: 'error', error: result.error });
+    }
+    return result;
+  }
+
+  /**
+   * Parse every source and combine them into unified ParsedData
+   * Sources are parsed one at a time so progress streams per file
+   * @throws Error with PIPELINE_CANCELLED if cancel() is called meanwhile
+   */
+  async parseAllAppData(
+    sources: DataSource[],
+    dedupDecisions: Record<string, DuplicateDecision> = {}
+  ): Promise<CombinedParseResult> {
+    const generation = this.generation;
+
+    if (this.canUseWorker()) {
+      const response = await this.send(undefined, jobId => ({
+        type: 'parse',
+        jobId,
+        sources,
+        dedupDecisions,
+      }));
+      return (response as Extract<PipelineResponse, { type: 'parsed' }>).result;
+    }
+
+    const result = await this.mainThread.parseAllAppData(sources, dedupDecisions, progress =>
+      this.emit(progress)
+    );
+    this.throwIfCancelled(generation);
+    return result;
+  }
+
+  /**
+   * Stop all in-flight work
+   * The worker is terminated and a fresh one is started on the next request
+   */
+  cancel(): void {
+    this.generation++;
+
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+
+    const cancelled = new Error(PIPELINE_CANCELLED);
+    this.pending.forEach(job => job.reject(cancelled));
+    this.pending.clear();
+  }
+
+  private canUseWorker(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/pipeline.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      this.worker.addEventListener('message', (event: MessageEvent<PipelineResponse>) =>
+        this.handleMessage(event.data)
+      );
+      this.worker.addEventListener('error', event => {
+        // A crashed worker fails everything it was doing
+        const error = new Error(event.message || 'Processing worker crashed');
+        this.pending.forEach(job => job.reject(error));
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+
+  private send(
+    fileName: string | undefined,
+    build: (jobId: number) => PipelineRequest
+  ): Promise<PipelineResponse> {
+    const jobId = this.nextJobId++;
+    const worker = this.getWorker();
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(jobId, { fileName, resolve, reject });
+      worker.postMessage(build(jobId));
+    });
+  }
+
+  private handleMessage(response: PipelineResponse) {
+    const job = this.pending.get(response.jobId);
+    if (!job) return; // Cancelled
+
+    if (response.type === 'progress') {
+      this.emit(response.progress);
+      return;
+    }
+
+    this.pending.delete(response.jobId);
+    if (response.type === 'failed') {
+      if (job.fileName) {
+        this.emit({ fileName: job.fileName, stage: 'error', error: response.error });
+      }
+      job.reject(new Error(response.error));
+    } else {
+      job.resolve(response);
+    }
+  }
+
+  private throwIfCancelled(generation: number) {
+    if (generation !== this.generation) {
+      throw new Error(PIPELINE_CANCELLED);
+    }
+  }
+
+  private emit(progress: PipelineProgress) {
+    this.listeners.forEach(listener => listener(progress));
+  }
+}
+
+/**
+ * Shared pipeline, so the store's parsing and the Processing page's cancel button
+ * talk to the same worker
+ */
+export const processingPipeline = new ProcessingPipeline();
@@ -0,0 +1,89 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WorkspaceStorage, withoutSecrets } from './WorkspaceStorage';
+import type { WorkspaceSnapshot } from '../types/workspace.types';
+
+const snapshot = (): WorkspaceSnapshot => ({
+  savedAt: new Date('2025-06-01T10:00:00Z'),
+  sources: [
+    {
+      id: 'phonepe-abc',
+      app: 'phonepe',
+      rawData: { phonepePdf: 'JVBERi0=', password: '9876543210' },
+      uploadedAt: new Date('2025-06-01T09:00:00Z'),
+      fileName: 'PhonePe_Statement.pdf',
+      fileHash: 'abc',
+      fileSize: 5,
+    },
+  ],
+  parsedData: null,
+  dedupReport: null,
+  dedupDecisions: {},
+  counterpartyOverrides: { merges: {}, splits: [] },
+  selfTransfers: { ownIdentifiers: [], decisions: {} },
+  classificationRules: {},
+  categoryBudgets: {},
+  categoryOverrides: {},
+  tags: {},
+  notes: {},
+  filterContext: { year: 'all', apps: [] },
+});
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open('finnlens');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+describe('WorkspaceStorage', () => {
+  let storage: WorkspaceStorage;
+
+  beforeEach(async () => {
+    storage = new WorkspaceStorage();
+    await storage.clear();
+  });
+
+  it('should save an encrypted snapshot that only the passphrase unlocks', async () => {
+    await storage.createVault('correct horse');
+    await storage.save(snapshot());
+    storage.lock();
+
+    expect(await storage.getStatus()).toBe('encrypted');
+    await expect(storage.unlock('wrong horse')).rejects.toThrow();
+
+    const restored = await storage.unlock('correct horse');
+    expect(restored.sources[0].fileName).toBe('PhonePe_Statement.pdf');
+    expect(restored.savedAt).toEqual(new Date('2025-06-01T10:00:00Z'));
+  });
+
+  it('should never write file passwords', async () => {
+    await storage.createVault('correct horse');
+    await storage.save(snapshot());
+
+    const restored = await storage.unlock('correct horse');
+    expect(restored.sources[0].rawData).toEqual({ phonepePdf: 'JVBERi0=' });
+  });
+
+  it('should refuse to save while locked', async () => {
+    await expect(storage.save(snapshot())).rejects.toThrow('Vault is locked');
+  });
+
+  it('should report when another tab blocks deleting the database', async () => {
+    await storage.getStatus();
+    const otherTab = await openDatabase();
+
+    await expect(storage.clear()).rejects.toThrow(/other tabs/);
+
+    otherTab.close();
+  });
+});
+
+describe('withoutSecrets', () => {
+  it('should leave sources without passwords untouched', () => {
+    const workspace = snapshot();
+    workspace.sources[0].rawData = { bhimHtml: '<html></html>' };
+
+    expect(withoutSecrets(workspace).sources[0]).toBe(workspace.sources[0]);
+  });
+});
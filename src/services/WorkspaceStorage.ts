@@ -0,0 +1,256 @@
+// Opt-in local persistence of the parsed workspace in IndexedDB, encrypted with a passphrase
+
+import type { WorkspaceSnapshot } from '../types/workspace.types';
+import {
+  deriveKey,
+  generateSalt,
+  encryptText,
+  decryptText,
+  PBKDF2_ITERATIONS,
+} from '../utils/cryptoUtils';
+import { serialize, deserialize } from '../utils/serialization';
+
+const DB_NAME = 'finnlens';
+const DB_VERSION = 1;
+const STORE_NAME = 'workspace';
+const WORKSPACE_KEY = 'current';
+
+// The opt-in flag lives in localStorage so it can be read synchronously at startup
+const ENABLED_KEY = 'finnlens-persist-workspace';
+
+const VAULT_VERSION = 1;
+
+// rawData keys that hold secrets needed only while a file is being read
+const SECRET_RAW_DATA_KEYS = ['password'];
+
+/**
+ * The snapshot with file passwords removed from every source's raw data
+ * Adapters decrypt during extraction, so only sources saved by earlier versions carry one.
+ */
+export function withoutSecrets(snapshot: WorkspaceSnapshot): WorkspaceSnapshot {
+  return {
+    ...snapshot,
+    sources: snapshot.sources.map(source => {
+      if (!SECRET_RAW_DATA_KEYS.some(key => key in source.rawData)) return source;
+      const rawData = { ...source.rawData };
+      SECRET_RAW_DATA_KEYS.forEach(key => delete rawData[key]);
+      return { ...source, rawData };
+    }),
+  };
+}
+
+/**
+ * What is actually written to IndexedDB: only the KDF parameters are in the clear
+ */
+interface VaultRecord {
+  version: number;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer;
+}
+
+/**
+ * State of the saved workspace on disk
+ * - 'legacy' is an unencrypted snapshot written before the vault existed
+ */
+export type SavedWorkspaceStatus = 'empty' | 'encrypted' | 'legacy';
+
+/**
+ * Reads and writes the encrypted workspace snapshot to IndexedDB
+ */
+export class WorkspaceStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // Held in memory only while the vault is unlocked
+  private key: CryptoKey | null = null;
+  private salt: Uint8Array<ArrayBuffer> | null = null;
+  private iterations = PBKDF2_ITERATIONS;
+
+  /**
+   * Whether IndexedDB is available in this browser
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Whether the user has opted in to keeping data on this device
+   */
+  isEnabled(): boolean {
+    if (!this.isSupported()) return false;
+
+    try {
+      return localStorage.getItem(ENABLED_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  setEnabled(enabled: boolean): void {
+    try {
+      if (enabled) {
+        localStorage.setItem(ENABLED_KEY, 'true');
+      } else {
+        localStorage.removeItem(ENABLED_KEY);
+      }
+    } catch (error) {
+      console.warn('Could not update workspace persistence setting:', error);
+    }
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Check what is saved without decrypting anything
+   */
+  async getStatus(): Promise<SavedWorkspaceStatus> {
+    const record = await this.read();
+    if (!record) return 'empty';
+    return 'ciphertext' in record ? 'encrypted' : 'legacy';
+  }
+
+  /**
+   * Start a new vault protected by the given passphrase
+   * Nothing is written until the next save()
+   */
+  async createVault(passphrase: string): Promise<void> {
+    this.salt = generateSalt();
+    this.iterations = PBKDF2_ITERATIONS;
+    this.key = await deriveKey(passphrase, this.salt, this.iterations);
+  }
+
+  /**
+   * Derive the key from the passphrase and decrypt the saved workspace
+   * @throws Error if the passphrase is wrong
+   */
+  async unlock(passphrase: string): Promise<WorkspaceSnapshot> {
+    const record = await this.read();
+    if (!record || !('ciphertext' in record)) {
+      throw new Error('No encrypted data found on this device');
+    }
+
+    const key = await deriveKey(passphrase, record.salt, record.iterations);
+    const json = await decryptText(key, { iv: record.iv, ciphertext: record.ciphertext });
+
+    this.key = key;
+    this.salt = record.salt;
+    this.iterations = record.iterations;
+
+    return deserialize<WorkspaceSnapshot>(json);
+  }
+
+  /**
+   * Read an unencrypted snapshot saved before the vault existed
+   */
+  async loadLegacy(): Promise<WorkspaceSnapshot | null> {
+    const record = await this.read();
+    if (!record || 'ciphertext' in record) return null;
+    return record;
+  }
+
+  /**
+   * Forget the key; saved data stays on disk until unlocked again
+   */
+  lock(): void {
+    this.key = null;
+    this.salt = null;
+  }
+
+  /**
+   * Encrypt and save the workspace, replacing any previous snapshot
+   * File passwords are never written, even into the encrypted vault
+   */
+  async save(snapshot: WorkspaceSnapshot): Promise<void> {
+    if (!this.key || !this.salt) {
+      throw new Error('Vault is locked');
+    }
+
+    const { iv, ciphertext } = await encryptText(this.key, serialize(withoutSecrets(snapshot)));
+    const record: VaultRecord = {
+      version: VAULT_VERSION,
+      salt: this.salt,
+      iterations: this.iterations,
+      iv,
+      ciphertext,
+    };
+
+    const db = await this.open();
+    await this.request(
+      db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(record, WORKSPACE_KEY)
+    );
+  }
+
+  /**
+   * Delete the saved workspace and the database itself
+   * @throws Error if FinnLens is open in another tab that holds on to the database; the
+   * deletion then finishes once that tab is closed
+   */
+  async clear(): Promise<void> {
+    this.lock();
+    if (!this.isSupported()) return;
+
+    if (this.dbPromise) {
+      const db = await this.dbPromise;
+      db.close();
+      this.dbPromise = null;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error || new Error('Failed to delete local storage'));
+      // Otherwise deletion would wait, without telling anyone, until the other tab closes
+      request.onblocked = () =>
+        reject(new Error('Close FinnLens in your other tabs to finish deleting your saved data.'));
+    });
+  }
+
+  private async read(): Promise<VaultRecord | WorkspaceSnapshot | null> {
+    const db = await this.open();
+    const record = await this.request<VaultRecord | WorkspaceSnapshot | undefined>(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(WORKSPACE_KEY)
+    );
+    return record || null;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME);
+          }
+        };
+
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let another tab delete or upgrade the database instead of blocking it
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error || new Error('Failed to open local storage'));
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private request<T = unknown>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error || new Error('Local storage request failed'));
+    });
+  }
+}
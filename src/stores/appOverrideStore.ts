@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AppOverride, UpiAppId } from '../types/app.types';
+import { getFileNamePattern, matchesFileNamePattern } from '../utils/fileNamePattern';
+
+interface AppOverrideStore {
+  overrides: AppOverride[];
+  saveOverride: (fileName: string, app: UpiAppId) => AppOverride;
+  deleteOverride: (id: string) => void;
+  findOverride: (fileName: string) => AppOverride | null;
+}
+
+/**
+ * Apps picked by hand for files detection couldn't place, remembered by file name pattern
+ * Only the pattern and the app are stored, never file contents
+ */
+export const useAppOverrideStore = create<AppOverrideStore>()(
+  persist(
+    (set, get) => ({
+      overrides: [],
+
+      saveOverride: (fileName: string, app: UpiAppId) => {
+        const pattern = getFileNamePattern(fileName);
+        const override: AppOverride = {
+          id: `override-${Date.now().toString(36)}`,
+          pattern,
+          app,
+          createdAt: new Date().toISOString(),
+        };
+
+        // Picking again for the same pattern replaces the old choice
+        set(state => ({
+          overrides: [...state.overrides.filter(o => o.pattern !== pattern), override],
+        }));
+        return override;
+      },
+
+      deleteOverride: (id: string) => {
+        set(state => ({ overrides: state.overrides.filter(o => o.id !== id) }));
+      },
+
+      findOverride: (fileName: string) =>
+        get().overrides.find(o => matchesFileNamePattern(fileName, o.pattern)) || null,
+    }),
+    {
+      name: 'finnlens-app-overrides',
+      partialize: state => ({ overrides: state.overrides }),
+    }
+  )
+);
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { DataStore, RawExtractedData, YearFilter } from '../types/storage.types';
+import { DataStore, RawExtractedData, YearFilter, CategoryEdit } from '../types/storage.types';
 import {
   ParsedData,
   Transaction,
@@ -7,67 +7,239 @@ import {
   CashbackReward,
   Voucher,
   ActivityRecord,
-  AppRawData,
+  DataSource,
 } from '../types/data.types';
 import { Insight } from '../types/insight.types';
 import { UpiApp, UpiAppId } from '../types/app.types';
 import { FilterContext } from '../types/filter.types';
+import { DuplicateDecision } from '../types/dedup.types';
+import { SelfTransferDecision } from '../types/selfTransfer.types';
 import { parseTransactionsCSV, parseCashbackRewardsCSV } from '../utils/csvParser';
 import { parseGroupExpensesJSON, parseVoucherRewardsJSON } from '../utils/jsonParser';
 import { parseCurrency } from '../utils/currencyUtils';
 import { calculateAllInsights } from '../engines/insightEngine';
 import { parseMyActivityHTML } from '../utils/htmlParser';
-import { MultiAppManager } from '../services/MultiAppManager';
-import { applyFilters } from '../utils/filterUtils';
+import { processingPipeline, isPipelineCancelled } from '../services/ProcessingPipeline';
+import { WorkspaceStorage, withoutSecrets } from '../services/WorkspaceStorage';
+import { WorkspaceSnapshot } from '../types/workspace.types';
+import { createWorkspaceFile } from '../utils/workspaceFile';
+import { applyFilters, applyLedgerFilters } from '../utils/filterUtils';
+import { buildLedger } from '../engines/ledger';
+import {
+  EMPTY_COUNTERPARTY_OVERRIDES,
+  mergeCounterpartyAliases,
+  splitCounterpartyAlias,
+} from '../engines/counterpartyResolver';
+import { EMPTY_SELF_TRANSFER_SETTINGS } from '../engines/selfTransferDetector';
+import {
+  EMPTY_CLASSIFICATION_RULES,
+  pruneClassificationRules,
+  addClassificationRule,
+} from '../engines/categoryRules';
+import { UserCategoryRules, UserClassificationRules } from '../types/classifier.types';
+
+const workspaceStorage = new WorkspaceStorage();
+
+const LEGACY_SOURCE_ID = 'legacy-googlepay';
+
+// Category edits that can be undone
+const MAX_CATEGORY_HISTORY = 20;
+
+/**
+ * Unique list of apps across all uploaded sources, in upload order
+ */
+function getUploadedApps(sources: Map<string, DataSource>): UpiAppId[] {
+  const apps: UpiAppId[] = [];
+  sources.forEach(source => {
+    if (!apps.includes(source.app)) {
+      apps.push(source.app);
+    }
+  });
+  return apps;
+}
 
-const multiAppManager = new MultiAppManager();
+/**
+ * History with the categorisation state before an edit added, oldest dropped past the limit
+ */
+function withCategoryEdit(
+  history: CategoryEdit[],
+  label: string,
+  state: Pick<CategoryEdit, 'categoryOverrides' | 'classificationRules'>
+): CategoryEdit[] {
+  return [...history, { label, ...state }].slice(-MAX_CATEGORY_HISTORY);
+}
 
 /**
  * Multi-app data store using Zustand
  */
 export const useDataStore = create<DataStore>((set, get) => ({
   // State - Multi-app support
-  rawDataByApp: new Map(),
+  dataSources: new Map(),
   parsedData: null,
+  ledger: [],
   insights: [],
+  dedupReport: null,
+  dedupDecisions: {},
+  counterpartyOverrides: EMPTY_COUNTERPARTY_OVERRIDES,
+  selfTransfers: EMPTY_SELF_TRANSFER_SETTINGS,
+  classificationRules: EMPTY_CLASSIFICATION_RULES,
+  categoryHistory: [],
+  categoryBudgets: {},
+  categoryOverrides: {},
+  tags: {},
+  notes: {},
   filterContext: {
     year: '2025',
     apps: ['all'],
   },
+  persistenceEnabled: workspaceStorage.isEnabled(),
+  isRestoring: workspaceStorage.isEnabled(),
+  vaultLocked: false,
+  lastSavedAt: null,
   isLoading: false,
   error: null,
   uploadedApps: [],
 
   // Actions
-  addAppData: async (app: UpiAppId, rawData: AppRawData) => {
-    const currentMap = get().rawDataByApp;
-    const newMap = new Map(currentMap);
-    newMap.set(app, rawData);
+  addSource: async (source: DataSource) => {
+    await get().addSources([source]);
+  },
 
-    set({ rawDataByApp: newMap });
+  addSources: async (sources: DataSource[]) => {
+    const newMap = new Map(get().dataSources);
+    sources.forEach(source => newMap.set(source.id, source));
 
-    // Add to uploaded apps list
-    const uploadedApps = get().uploadedApps;
-    if (!uploadedApps.includes(app)) {
-      set({ uploadedApps: [...uploadedApps, app] });
-    }
+    set({ dataSources: newMap, uploadedApps: getUploadedApps(newMap) });
 
-    // Auto-parse all data
+    // Auto-parse all data once for the whole batch
     await get().parseAllData();
   },
 
-  removeAppData: (app: UpiAppId) => {
-    const currentMap = get().rawDataByApp;
-    const newMap = new Map(currentMap);
-    newMap.delete(app);
+  removeSource: async (sourceId: string) => {
+    await get().removeSources([sourceId]);
+  },
 
+  removeSources: async (sourceIds: string[]) => {
+    const newMap = new Map(get().dataSources);
+    sourceIds.forEach(id => newMap.delete(id));
+
+    set({ dataSources: newMap, uploadedApps: getUploadedApps(newMap) });
+
+    // Re-parse remaining data
+    await get().parseAllData();
+  },
+
+  resolveDuplicate: async (pairKey: string, decision: DuplicateDecision) => {
+    set({ dedupDecisions: { ...get().dedupDecisions, [pairKey]: decision } });
+
+    // Re-parse so the decision is applied everywhere
+    await get().parseAllData();
+  },
+
+  mergeCounterparties: (aliasKeys: string[]) => {
+    set({ counterpartyOverrides: mergeCounterpartyAliases(get().counterpartyOverrides, aliasKeys) });
+    get().recalculateInsights(get().filterContext);
+  },
+
+  splitCounterparty: (aliasKey: string) => {
+    set({ counterpartyOverrides: splitCounterpartyAlias(get().counterpartyOverrides, aliasKey) });
+    get().recalculateInsights(get().filterContext);
+  },
+
+  setOwnIdentifiers: (identifiers: string[]) => {
+    const ownIdentifiers = [...new Set(identifiers.map(identifier => identifier.trim()).filter(Boolean))];
+    set({ selfTransfers: { ...get().selfTransfers, ownIdentifiers } });
+    get().rebuildLedger();
+  },
+
+  resolveSelfTransfer: (pairKey: string, decision: SelfTransferDecision) => {
+    const { selfTransfers } = get();
+    set({ selfTransfers: { ...selfTransfers, decisions: { ...selfTransfers.decisions, [pairKey]: decision } } });
+    get().rebuildLedger();
+  },
+
+  setClassificationRules: (rules: UserClassificationRules) => {
+    const { categoryHistory, categoryOverrides, classificationRules } = get();
     set({
-      rawDataByApp: newMap,
-      uploadedApps: get().uploadedApps.filter(a => a !== app),
+      classificationRules: pruneClassificationRules(rules),
+      categoryHistory: withCategoryEdit(categoryHistory, 'Edit category rules', { categoryOverrides, classificationRules }),
     });
+    get().rebuildLedger();
+  },
 
-    // Re-parse remaining data
-    get().parseAllData();
+  addClassificationRule: (category: string, kind: keyof UserCategoryRules, value: string) => {
+    const { categoryHistory, categoryOverrides, classificationRules } = get();
+    set({
+      classificationRules: addClassificationRule(classificationRules, category, kind, value),
+      categoryHistory: withCategoryEdit(categoryHistory, `Rule "${value}" → ${category}`, {
+        categoryOverrides,
+        classificationRules,
+      }),
+    });
+    get().rebuildLedger();
+  },
+
+  undoCategoryEdit: () => {
+    const history = get().categoryHistory;
+    const last = history[history.length - 1];
+    if (!last) return;
+
+    set({
+      categoryOverrides: last.categoryOverrides,
+      classificationRules: last.classificationRules,
+      categoryHistory: history.slice(0, -1),
+    });
+    get().rebuildLedger();
+  },
+
+  setCategoryOverride: (recordKey: string, category: string | null) => {
+    const { categoryHistory, classificationRules } = get();
+    const previous = get().categoryOverrides;
+    const categoryOverrides = { ...previous };
+    if (category) {
+      categoryOverrides[recordKey] = category;
+    } else {
+      delete categoryOverrides[recordKey];
+    }
+    set({
+      categoryOverrides,
+      categoryHistory: withCategoryEdit(
+        categoryHistory,
+        category ? `Payment moved to ${category}` : 'Payment category reset',
+        { categoryOverrides: previous, classificationRules }
+      ),
+    });
+    get().rebuildLedger();
+  },
+
+  setCategoryBudget: (path: string, amount: number | null) => {
+    const categoryBudgets = { ...get().categoryBudgets };
+    if (amount && amount > 0) {
+      categoryBudgets[path] = amount;
+    } else {
+      delete categoryBudgets[path];
+    }
+    set({ categoryBudgets });
+  },
+
+  setTags: (recordKey: string, tags: string[]) => {
+    const allTags = { ...get().tags };
+    if (tags.length > 0) {
+      allTags[recordKey] = tags;
+    } else {
+      delete allTags[recordKey];
+    }
+    set({ tags: allTags });
+  },
+
+  setNote: (recordKey: string, note: string) => {
+    const notes = { ...get().notes };
+    if (note.trim()) {
+      notes[recordKey] = note;
+    } else {
+      delete notes[recordKey];
+    }
+    set({ notes });
   },
 
   setParsedData: (data: ParsedData) => {
@@ -96,17 +268,20 @@ export const useDataStore = create<DataStore>((set, get) => ({
    * Parse all uploaded app data
    */
   parseAllData: async () => {
-    const { rawDataByApp } = get();
+    const { dataSources, dedupDecisions } = get();
 
-    if (rawDataByApp.size === 0) {
-      set({ parsedData: null, insights: [] });
+    if (dataSources.size === 0) {
+      set({ parsedData: null, ledger: [], insights: [], dedupReport: null });
       return;
     }
 
     try {
       set({ isLoading: true, error: null });
 
-      const result = await multiAppManager.parseAllAppData(rawDataByApp);
+      const result = await processingPipeline.parseAllAppData(
+        Array.from(dataSources.values()),
+        dedupDecisions
+      );
 
       if (!result.success || !result.data) {
         set({
@@ -116,11 +291,36 @@ export const useDataStore = create<DataStore>((set, get) => ({
         return;
       }
 
-      set({ parsedData: result.data, isLoading: false });
+      // Record what each source contributed (date range, record count, import report)
+      // and why the sources that failed couldn't be read
+      const sourceStats = result.sourceStats || {};
+      const sourceErrors = result.sourceErrors || {};
+      const updatedSources = new Map(get().dataSources);
+      updatedSources.forEach((source, id) => {
+        const stats = sourceStats[id];
+        if (stats) {
+          updatedSources.set(id, { ...source, ...stats, parseError: undefined });
+        } else if (sourceErrors[id]) {
+          updatedSources.set(id, { ...source, importReport: undefined, parseError: sourceErrors[id] });
+        }
+      });
 
-      // Auto-calculate insights
-      get().recalculateInsights(get().filterContext);
+      set({
+        parsedData: result.data,
+        dataSources: updatedSources,
+        dedupReport: result.dedupReport || null,
+        isLoading: false,
+      });
+
+      // Auto-calculate the ledger and insights
+      get().rebuildLedger();
     } catch (error) {
+      // Cancelled from the Processing page: keep the previous results
+      if (isPipelineCancelled(error)) {
+        set({ isLoading: false });
+        return;
+      }
+
       set({
         error: error instanceof Error ? error.message : 'Failed to parse data',
         isLoading: false,
@@ -128,11 +328,25 @@ export const useDataStore = create<DataStore>((set, get) => ({
     }
   },
 
+  /**
+   * Build the ledger once from every year's data, so refunds and transfers that cross
+   * a year boundary are linked, then recalculate insights for the selected period
+   */
+  rebuildLedger: () => {
+    const { parsedData, selfTransfers, classificationRules, categoryOverrides } = get();
+    const ledger = parsedData
+      ? buildLedger(parsedData, { selfTransfers, classificationRules, categoryOverrides })
+      : [];
+
+    set({ ledger });
+    get().recalculateInsights(get().filterContext);
+  },
+
   /**
    * Recalculate insights with filtering
    */
   recalculateInsights: (context: FilterContext) => {
-    const { parsedData } = get();
+    const { parsedData, ledger, counterpartyOverrides } = get();
 
     if (!parsedData) {
       set({ insights: [] });
@@ -142,9 +356,10 @@ export const useDataStore = create<DataStore>((set, get) => ({
     try {
       // Apply filters
       const filteredData = applyFilters(parsedData, context);
+      const filteredLedger = applyLedgerFilters(ledger, context);
 
       // Calculate insights on filtered data
-      const insights = calculateAllInsights(filteredData, context.year);
+      const insights = calculateAllInsights(filteredData, filteredLedger, counterpartyOverrides);
 
       set({ insights, error: null });
     } catch (error) {
@@ -161,27 +376,198 @@ export const useDataStore = create<DataStore>((set, get) => ({
    */
   clearAllData: () => {
     set({
-      rawDataByApp: new Map(),
+      dataSources: new Map(),
       parsedData: null,
+      ledger: [],
       insights: [],
+      dedupReport: null,
+      dedupDecisions: {},
+      counterpartyOverrides: EMPTY_COUNTERPARTY_OVERRIDES,
+      selfTransfers: EMPTY_SELF_TRANSFER_SETTINGS,
+      classificationRules: EMPTY_CLASSIFICATION_RULES,
+      categoryHistory: [],
+      categoryBudgets: {},
+      categoryOverrides: {},
+      tags: {},
+      notes: {},
       uploadedApps: [],
       error: null,
     });
   },
 
+  /**
+   * Serialize the whole workspace to .finnlens file contents
+   */
+  exportWorkspace: () => {
+    return createWorkspaceFile(withoutSecrets(getWorkspaceSnapshot()));
+  },
+
+  /**
+   * Load an imported workspace
+   * Into an empty workspace it is restored as-is, otherwise its sources and
+   * edits are merged with the current ones and everything is re-parsed
+   */
+  importWorkspace: async (workspace: WorkspaceSnapshot) => {
+    const current = get();
+
+    if (current.dataSources.size === 0) {
+      hydrateFromSnapshot(workspace);
+      return;
+    }
+
+    const dataSources = new Map(current.dataSources);
+    workspace.sources.forEach(source => dataSources.set(source.id, source));
+
+    set({
+      dataSources,
+      uploadedApps: getUploadedApps(dataSources),
+      dedupDecisions: { ...current.dedupDecisions, ...workspace.dedupDecisions },
+      counterpartyOverrides: {
+        merges: { ...current.counterpartyOverrides.merges, ...workspace.counterpartyOverrides.merges },
+        splits: [...new Set([...current.counterpartyOverrides.splits, ...workspace.counterpartyOverrides.splits])],
+      },
+      selfTransfers: {
+        ownIdentifiers: [...new Set([...current.selfTransfers.ownIdentifiers, ...workspace.selfTransfers.ownIdentifiers])],
+        decisions: { ...current.selfTransfers.decisions, ...workspace.selfTransfers.decisions },
+      },
+      classificationRules: { ...current.classificationRules, ...workspace.classificationRules },
+      categoryBudgets: { ...current.categoryBudgets, ...workspace.categoryBudgets },
+      categoryOverrides: { ...current.categoryOverrides, ...workspace.categoryOverrides },
+      tags: { ...current.tags, ...workspace.tags },
+      notes: { ...current.notes, ...workspace.notes },
+    });
+
+    await get().parseAllData();
+  },
+
+  /**
+   * Check for a saved workspace at startup
+   * Encrypted data leaves the store locked until the user unlocks it
+   */
+  restoreWorkspace: async () => {
+    if (!get().persistenceEnabled) {
+      set({ isRestoring: false });
+      return;
+    }
+
+    try {
+      const status = await workspaceStorage.getStatus();
+
+      if (status === 'encrypted') {
+        set({ vaultLocked: true });
+        return; // WorkspaceGate asks for the passphrase
+      }
+
+      if (status === 'legacy') {
+        // Unencrypted data from before the vault existed: load it once, then wipe it
+        const snapshot = await workspaceStorage.loadLegacy();
+        if (snapshot) {
+          hydrateFromSnapshot(snapshot);
+        }
+      }
+
+      // Nothing can be saved without a passphrase, so ask again via the opt-in toggle
+      await workspaceStorage.clear();
+      workspaceStorage.setEnabled(false);
+      set({ persistenceEnabled: false, lastSavedAt: null, isRestoring: false });
+    } catch (error) {
+      console.error('Failed to restore saved workspace:', error);
+      set({ isRestoring: false });
+    }
+  },
+
+  /**
+   * Decrypt the saved workspace and hydrate the store
+   */
+  unlockWorkspace: async (passphrase: string) => {
+    try {
+      const snapshot = await workspaceStorage.unlock(passphrase);
+      hydrateFromSnapshot(snapshot);
+      set({ vaultLocked: false, isRestoring: false, lastSavedAt: snapshot.savedAt });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to unlock saved data',
+      };
+    }
+  },
+
+  /**
+   * Continue without the saved workspace
+   * It stays encrypted on disk, and is offered again on the next visit, until the user turns
+   * remembering back on for this session with a new passphrase (which replaces it).
+   */
+  skipUnlock: () => {
+    set({ isRestoring: false, vaultLocked: false, persistenceEnabled: false });
+  },
+
+  /**
+   * Encrypt and save the current workspace (no-op unless opted in and unlocked)
+   */
+  saveWorkspace: async () => {
+    const { persistenceEnabled, isRestoring } = get();
+    if (!persistenceEnabled || isRestoring || !workspaceStorage.isUnlocked()) return;
+
+    try {
+      const snapshot = getWorkspaceSnapshot();
+      await workspaceStorage.save(snapshot);
+      set({ lastSavedAt: snapshot.savedAt });
+    } catch (error) {
+      console.error('Failed to save workspace:', error);
+    }
+  },
+
+  enablePersistence: async (passphrase: string) => {
+    await workspaceStorage.createVault(passphrase);
+    workspaceStorage.setEnabled(true);
+    set({ persistenceEnabled: true, vaultLocked: false });
+    await get().saveWorkspace();
+  },
+
+  disablePersistence: async () => {
+    workspaceStorage.setEnabled(false);
+    set({ persistenceEnabled: false, vaultLocked: false, lastSavedAt: null });
+    await workspaceStorage.clear();
+  },
+
+  /**
+   * Clear the in-memory data and delete everything kept on this device
+   */
+  forgetEverything: async () => {
+    workspaceStorage.setEnabled(false);
+    set({ persistenceEnabled: false, vaultLocked: false, lastSavedAt: null, isRestoring: false });
+    get().clearAllData();
+
+    try {
+      await workspaceStorage.clear();
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to delete saved workspace:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete saved data',
+      };
+    }
+  },
+
   // Legacy actions (for backward compatibility during migration)
   setRawData: (data: RawExtractedData) => {
     // Convert to new format with Google Pay as default app
-    const appRawData: AppRawData = {
+    const source: DataSource = {
+      id: LEGACY_SOURCE_ID,
       app: UpiApp.GOOGLE_PAY,
       rawData: data as Record<string, string>,
       uploadedAt: new Date(),
+      fileName: 'Google Takeout',
+      fileHash: '',
+      fileSize: 0,
     };
 
-    const newMap = new Map();
-    newMap.set(UpiApp.GOOGLE_PAY, appRawData);
+    const newMap = new Map<string, DataSource>();
+    newMap.set(source.id, source);
 
-    set({ rawDataByApp: newMap, uploadedApps: [UpiApp.GOOGLE_PAY] });
+    set({ dataSources: newMap, uploadedApps: [UpiApp.GOOGLE_PAY] });
   },
 
   setSelectedYear: (year: YearFilter) => {
@@ -196,17 +582,19 @@ export const useDataStore = create<DataStore>((set, get) => ({
   },
 
   parseRawData: () => {
-    const { rawDataByApp } = get();
-    if (rawDataByApp.size === 0) {
+    const { dataSources } = get();
+    if (dataSources.size === 0) {
       console.warn('No raw data available for parsing');
       return;
     }
 
     try {
       // Get Google Pay data (legacy support)
-      const googlePayData = rawDataByApp.get(UpiApp.GOOGLE_PAY);
+      const googlePayData = Array.from(dataSources.values()).find(
+        source => source.app === UpiApp.GOOGLE_PAY
+      );
       if (!googlePayData) {
-        console.warn('No Google Pay data in rawDataByApp');
+        console.warn('No Google Pay data in dataSources');
         return;
       }
 
@@ -296,7 +684,7 @@ export const useDataStore = create<DataStore>((set, get) => ({
       set({ parsedData, error: null });
 
       // Automatically calculate insights after parsing
-      get().recalculateInsights(get().filterContext);
+      get().rebuildLedger();
     } catch (error) {
       set({
         error: error instanceof Error ? error.message : 'Failed to parse data',
@@ -304,3 +692,70 @@ export const useDataStore = create<DataStore>((set, get) => ({
     }
   },
 }));
+
+/**
+ * Capture the current workspace for saving or exporting
+ */
+function getWorkspaceSnapshot(): WorkspaceSnapshot {
+  const state = useDataStore.getState();
+  return {
+    savedAt: new Date(),
+    sources: Array.from(state.dataSources.values()),
+    parsedData: state.parsedData,
+    dedupReport: state.dedupReport,
+    dedupDecisions: state.dedupDecisions,
+    counterpartyOverrides: state.counterpartyOverrides,
+    selfTransfers: state.selfTransfers,
+    classificationRules: state.classificationRules,
+    categoryBudgets: state.categoryBudgets,
+    categoryOverrides: state.categoryOverrides,
+    tags: state.tags,
+    notes: state.notes,
+    filterContext: state.filterContext,
+  };
+}
+
+/**
+ * Load a decrypted or imported snapshot into the store
+ */
+function hydrateFromSnapshot(snapshot: WorkspaceSnapshot) {
+  const dataSources = new Map(snapshot.sources.map(source => [source.id, source]));
+  useDataStore.setState({
+    dataSources,
+    uploadedApps: getUploadedApps(dataSources),
+    parsedData: snapshot.parsedData,
+    dedupReport: snapshot.dedupReport,
+    dedupDecisions: snapshot.dedupDecisions || {},
+    // Snapshots saved before these edits existed don't have them
+    counterpartyOverrides: snapshot.counterpartyOverrides || EMPTY_COUNTERPARTY_OVERRIDES,
+    selfTransfers: snapshot.selfTransfers || EMPTY_SELF_TRANSFER_SETTINGS,
+    classificationRules: snapshot.classificationRules || EMPTY_CLASSIFICATION_RULES,
+    categoryHistory: [],
+    categoryBudgets: snapshot.categoryBudgets || {},
+    categoryOverrides: snapshot.categoryOverrides || {},
+    tags: snapshot.tags || {},
+    notes: snapshot.notes || {},
+    filterContext: snapshot.filterContext,
+  });
+
+  useDataStore.getState().rebuildLedger();
+}
+
+// Save the workspace whenever the data or the user's edits change
+useDataStore.subscribe((state, prevState) => {
+  if (
+    state.dataSources !== prevState.dataSources ||
+    state.parsedData !== prevState.parsedData ||
+    state.dedupDecisions !== prevState.dedupDecisions ||
+    state.counterpartyOverrides !== prevState.counterpartyOverrides ||
+    state.selfTransfers !== prevState.selfTransfers ||
+    state.classificationRules !== prevState.classificationRules ||
+    state.categoryBudgets !== prevState.categoryBudgets ||
+    state.categoryOverrides !== prevState.categoryOverrides ||
+    state.tags !== prevState.tags ||
+    state.notes !== prevState.notes ||
+    state.filterContext !== prevState.filterContext
+  ) {
+    state.saveWorkspace();
+  }
+});
@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ColumnMapping, MappingProfile } from '../types/mapping.types';
+import { findMatchingProfile, getHeaderSignature } from '../utils/columnMapping';
+
+interface MappingProfileStore {
+  profiles: MappingProfile[];
+  saveProfile: (name: string, headers: string[], mapping: ColumnMapping) => MappingProfile;
+  deleteProfile: (id: string) => void;
+  findProfile: (headers: string[]) => MappingProfile | null;
+}
+
+/**
+ * Saved column mappings for generic CSV/XLSX imports
+ * Only header names and column choices are stored, never statement data
+ */
+export const useMappingProfileStore = create<MappingProfileStore>()(
+  persist(
+    (set, get) => ({
+      profiles: [],
+
+      saveProfile: (name: string, headers: string[], mapping: ColumnMapping) => {
+        const signature = getHeaderSignature(headers);
+        const profile: MappingProfile = {
+          id: `profile-${Date.now().toString(36)}`,
+          name: name.trim() || 'Spreadsheet',
+          headers,
+          signature,
+          mapping,
+          createdAt: new Date().toISOString(),
+        };
+
+        // Re-mapping the same layout replaces the old profile
+        set(state => ({
+          profiles: [...state.profiles.filter(p => p.signature !== signature), profile],
+        }));
+        return profile;
+      },
+
+      deleteProfile: (id: string) => {
+        set(state => ({ profiles: state.profiles.filter(p => p.id !== id) }));
+      },
+
+      findProfile: (headers: string[]) => findMatchingProfile(get().profiles, headers),
+    }),
+    {
+      name: 'finnlens-mapping-profiles',
+      partialize: state => ({ profiles: state.profiles }),
+    }
+  )
+);
@@ -0,0 +1,18 @@
+import { create } from 'zustand';
+
+interface PasswordSessionStore {
+  passwords: Record<string, string>; // Issuer key (see getPasswordIssuer) → password
+  rememberPassword: (issuer: string, password: string) => void;
+}
+
+/**
+ * Passwords the user chose to reuse for more files from the same issuer
+ * Kept in memory only: never persisted, gone when the tab closes
+ */
+export const usePasswordSessionStore = create<PasswordSessionStore>()(set => ({
+  passwords: {},
+
+  rememberPassword: (issuer: string, password: string) => {
+    set(state => ({ passwords: { ...state.passwords, [issuer]: password } }));
+  },
+}));
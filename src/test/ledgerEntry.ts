@@ -0,0 +1,26 @@
+// Ledger entries for tests of the engines that read the ledger
+
+import type { LedgerEntry } from '../types/data.types';
+
+let nextId = 0;
+
+/**
+ * A completed ₹100 PhonePe payment to Swiggy, with a fresh id, changed by the given fields
+ * The description follows the counterparty unless one is given.
+ */
+export const entry = (overrides: Partial<LedgerEntry> = {}): LedgerEntry => {
+  const counterparty = overrides.counterparty ?? 'Swiggy';
+  return {
+    id: `src:${nextId++}`,
+    time: new Date(2025, 3, 1, 10, 0),
+    direction: 'debit',
+    counterparty,
+    description: `Paid to ${counterparty}`,
+    amount: { value: 100, currency: 'INR' },
+    status: 'completed',
+    origin: 'transaction',
+    sourceApp: 'phonepe',
+    sourceId: 'phonepe-a',
+    ...overrides,
+  };
+};
@@ -0,0 +1,46 @@
+// Parsed records for tests of the engines that read them
+
+import type { ParsedData, Transaction, ActivityRecord } from '../types/data.types';
+
+/**
+ * A successful ₹250 PhonePe payment to Swiggy, changed by the given fields
+ */
+export const transaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  time: new Date(2025, 5, 1, 10, 0),
+  id: 'T1',
+  description: 'Paid to Swiggy',
+  product: 'UPI',
+  method: 'UPI',
+  status: 'Success',
+  amount: { value: 250, currency: 'INR' },
+  sourceApp: 'phonepe',
+  sourceId: 'phonepe-a',
+  ...overrides,
+});
+
+/**
+ * A ₹250 Google Pay activity paying Swiggy, changed by the given fields
+ */
+export const activity = (overrides: Partial<ActivityRecord> = {}): ActivityRecord => ({
+  title: 'Paid ₹250.00',
+  time: new Date(2025, 5, 1, 10, 0),
+  transactionType: 'paid',
+  amount: { value: 250, currency: 'INR' },
+  recipient: 'Swiggy',
+  sourceApp: 'googlepay',
+  sourceId: 'gpay-a',
+  ...overrides,
+});
+
+/**
+ * Parsed data with nothing in it but the given lists
+ */
+export const parsedData = (overrides: Partial<ParsedData> = {}): ParsedData => ({
+  transactions: [],
+  groupExpenses: [],
+  cashbackRewards: [],
+  voucherRewards: [],
+  activities: [],
+  sources: [],
+  ...overrides,
+});
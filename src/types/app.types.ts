@@ -8,6 +8,19 @@ export enum UpiApp {
   BHIM = 'bhim',
   PHONEPE = 'phonepe',
   PAYTM = 'paytm',
+  AMAZON_PAY = 'amazonpay',
+  CRED = 'cred',
+  MOBIKWIK = 'mobikwik',
+  GENERIC = 'generic', // Any CSV/XLSX imported through a column mapping
+  SBI = 'sbi',
+  HDFC = 'hdfc',
+  ICICI = 'icici',
+  AXIS = 'axis',
+  KOTAK = 'kotak',
+  CREDIT_CARD = 'creditcard',
+  OFX = 'ofx', // OFX/QFX downloads
+  QIF = 'qif',
+  CAMT053 = 'camt053', // ISO 20022 bank-to-customer statements
 }
 
 export type UpiAppId = `${UpiApp}`;
@@ -34,6 +47,66 @@ export enum FileFormat {
   CSV = 'csv',
   JSON = 'json',
   XLSX = 'xlsx',
+  OFX = 'ofx',
+  QIF = 'qif',
+  XML = 'xml',
+}
+
+/**
+ * File extensions of each format
+ */
+export const FILE_FORMAT_EXTENSIONS: Record<FileFormat, string[]> = {
+  [FileFormat.ZIP]: ['.zip'],
+  [FileFormat.HTML]: ['.html', '.htm'],
+  [FileFormat.PDF]: ['.pdf'],
+  [FileFormat.CSV]: ['.csv'],
+  [FileFormat.JSON]: ['.json'],
+  [FileFormat.XLSX]: ['.xlsx', '.xls'],
+  [FileFormat.OFX]: ['.ofx', '.qfx'],
+  [FileFormat.QIF]: ['.qif'],
+  [FileFormat.XML]: ['.xml', '.053'],
+};
+
+/**
+ * Groups the supported-formats list is organised by
+ */
+export type AdapterCategory = 'upi' | 'bank' | 'card' | 'interchange' | 'spreadsheet';
+
+/**
+ * One step of an app's "how to export" guide, optionally ending in a link
+ */
+export interface ExportStep {
+  text: string;
+  link?: { label: string; href: string };
+}
+
+/**
+ * Known password schemes of statement files, built from details the user enters
+ */
+export type PasswordSchemeId = 'phone' | 'dob' | 'name_ddmm' | 'phone5_ddmmyy' | 'customer_id';
+
+/**
+ * How an app's password-protected exports are usually locked, shown in the password prompt
+ */
+export interface PasswordHint {
+  text: string;
+  schemes: PasswordSchemeId[]; // Tried in this order
+}
+
+/**
+ * What an adapter declares about itself; the registry derives APP_METADATA,
+ * the upload hints and the export guide from it
+ */
+export interface AdapterMetadata {
+  displayName: string;
+  icon: string; // emoji or icon name
+  color: string; // for UI theming
+  category: AdapterCategory;
+  fileNamePattern?: RegExp; // Names the app gives its exports (matched against the lowercased name)
+  alpha?: boolean; // Parsing may have accuracy issues
+  exportGuide?: ExportStep[];
+  fixtures?: string[]; // Sample files in src/adapters/__fixtures__ the registry tests run through detection
+  passwordHint?: PasswordHint;
 }
 
 /**
@@ -46,6 +119,34 @@ export interface FileDetectionResult {
   requiresPassword?: boolean;
 }
 
+/**
+ * How one adapter scored a file
+ */
+export interface DetectionCandidate {
+  app: UpiAppId;
+  confidence: number; // 0 when the adapter can't handle the file
+  signals: string[]; // Evidence that matched, e.g. "file name", "column headers"
+  requiresPassword?: boolean;
+}
+
+/**
+ * Every adapter's verdict on a file, best match first
+ */
+export interface DetectionReport {
+  fileName: string;
+  candidates: DetectionCandidate[];
+}
+
+/**
+ * App chosen by hand for files whose names match a pattern
+ */
+export interface AppOverride {
+  id: string;
+  pattern: string; // See getFileNamePattern()
+  app: UpiAppId;
+  createdAt: string; // ISO date, overrides are persisted as JSON
+}
+
 /**
  * Upload context for files that need additional input
  */
@@ -54,41 +155,3 @@ export interface UploadContext {
   password?: string;
   detectedApp?: UpiAppId;
 }
-
-/**
- * App metadata registry
- */
-export const APP_METADATA: Record<UpiAppId, AppMetadata> = {
-  [UpiApp.GOOGLE_PAY]: {
-    id: UpiApp.GOOGLE_PAY,
-    name: 'googlepay',
-    displayName: 'Google Pay',
-    icon: '🔵',
-    supportedFormats: [FileFormat.ZIP],
-    color: '#4285F4',
-  },
-  [UpiApp.BHIM]: {
-    id: UpiApp.BHIM,
-    name: 'bhim',
-    displayName: 'BHIM',
-    icon: '🟠',
-    supportedFormats: [FileFormat.HTML],
-    color: '#FF6B35',
-  },
-  [UpiApp.PHONEPE]: {
-    id: UpiApp.PHONEPE,
-    name: 'phonepe',
-    displayName: 'PhonePe',
-    icon: '🟣',
-    supportedFormats: [FileFormat.PDF],
-    color: '#5F259F',
-  },
-  [UpiApp.PAYTM]: {
-    id: UpiApp.PAYTM,
-    name: 'paytm',
-    displayName: 'PayTM',
-    icon: '🔷',
-    supportedFormats: [FileFormat.ZIP, FileFormat.PDF, FileFormat.XLSX],
-    color: '#00BAF2',
-  },
-};
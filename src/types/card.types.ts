@@ -0,0 +1,48 @@
+// Types for credit card statements
+
+import type { UpiAppId } from './app.types';
+import type { Currency } from './data.types';
+
+/**
+ * A payment the card received during the cycle (shown as a credit on the statement)
+ */
+export interface CardPaymentLine {
+  date: Date;
+  amount: Currency;
+  description: string;
+}
+
+/**
+ * A bill payment from a UPI app or bank statement that settled this card
+ * These are left out of spending, since the card's own transactions already count
+ */
+export interface LinkedCardPayment {
+  recordKey: string; // Transaction or activity key of the linked record
+  sourceApp: UpiAppId;
+  time: Date;
+  amount: Currency;
+  description: string;
+}
+
+/**
+ * Summary of one credit card statement (one billing cycle)
+ */
+export interface CardStatement {
+  issuer: string; // e.g. 'HDFC Bank', or 'Credit Card' when unknown
+  cardLast4?: string;
+  statementDate?: Date;
+  billingPeriod?: { start: Date; end: Date };
+  dueDate?: Date;
+  totalDue?: Currency;
+  minimumDue?: Currency;
+  rewardPoints?: {
+    earned?: number;
+    redeemed?: number;
+    balance?: number;
+  };
+  fees: Currency; // Fees, interest and taxes charged this cycle
+  paymentsReceived: CardPaymentLine[];
+  linkedPayments: LinkedCardPayment[];
+  sourceApp: UpiAppId;
+  sourceId?: string; // Track which uploaded file this statement came from
+}
@@ -0,0 +1,36 @@
+// Types for the category tree - categories with sub-categories, and spending rolled up through them
+
+/**
+ * One category in the tree, as configured in category-tree.json
+ * Sub-categories inherit their parent's icon and colour unless they set their own.
+ */
+export interface CategoryNode {
+  name: string;
+  icon?: string;
+  color?: string;
+  keywords?: string[]; // Sub-categories: words in a payment that place it here rather than in the parent
+  children?: CategoryNode[];
+}
+
+export interface CategoryTreeConfig {
+  version: string;
+  categories: CategoryNode[];
+  legacyNames: Record<string, string>; // Old or duplicate category names → the name that replaced them
+}
+
+export type CategoryBudgets = Record<string, number>; // Category path → monthly limit in INR
+
+/**
+ * Spending in one category, its sub-categories included
+ */
+export interface CategoryRollup {
+  path: string; // e.g. "Food > Delivery" (see CATEGORY_PATH_SEPARATOR)
+  name: string;
+  icon: string;
+  color: string;
+  amount: number; // INR
+  count: number;
+  percentage: number; // Share of the parent's spending, or of all spending at the top level
+  budget?: number; // Monthly limit the user set for this category
+  children: CategoryRollup[]; // Largest first
+}
@@ -75,6 +75,18 @@ export interface ClassifierConfig {
   categories: Record<string, CategoryConfig>;
 }
 
+/**
+ * Rules the user added for one category, layered on top of the shipped config
+ */
+export interface UserCategoryRules {
+  exactMatches: string[]; // Whole merchant names (case-insensitive)
+  keywords: string[];
+  patterns: string[]; // Regex patterns
+  fuzzyVariants: string[]; // Misspellings and abbreviations of the category's merchants
+}
+
+export type UserClassificationRules = Record<string, UserCategoryRules>; // Category → the user's rules
+
 export interface ClassificationResult {
   category: string;
   confidence: number; // 0-1
@@ -84,6 +96,7 @@ export interface ClassificationResult {
     matcher: string;
   };
   isExcluded?: boolean;
+  isUserRule?: boolean; // Matched one of the user's own rules
 }
 
 export interface Transaction {
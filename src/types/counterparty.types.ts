@@ -0,0 +1,39 @@
+// Types for counterparty resolution - one entity per person or merchant, however each app spells them
+
+/**
+ * Identifiers found in a payment description
+ */
+export interface CounterpartyIdentifiers {
+  vpas: string[]; // UPI IDs, lowercased (ramesh.k@okaxis)
+  phones: string[]; // 10-digit mobile numbers
+  name: string; // What is left once prefixes, UPI IDs and numbers are removed
+}
+
+/**
+ * A person or merchant, with every spelling it appeared under
+ */
+export interface CounterpartyEntity {
+  id: string; // Alias key of its first alias, stable across re-parses
+  name: string; // Display name, the most used readable spelling
+  aliases: string[]; // Alias keys (normalised counterparty text) resolved to this entity
+  spellings: string[]; // Counterparty text as it appeared in the data
+  vpas: string[];
+  phones: string[];
+  entryCount: number;
+}
+
+/**
+ * Manual corrections to automatic resolution, keyed by alias key
+ */
+export interface CounterpartyOverrides {
+  merges: Record<string, string>; // Alias → alias the user merged it with
+  splits: string[]; // Aliases the user took out of their entity; never merged automatically
+}
+
+/**
+ * Entities for a ledger, and which entity each ledger entry belongs to
+ */
+export interface CounterpartyResolution {
+  entities: CounterpartyEntity[]; // Most entries first
+  byEntry: Map<string, CounterpartyEntity>; // Ledger entry id → entity
+}
@@ -2,6 +2,8 @@
 
 import type { TransactionCategory } from '../utils/categoryUtils';
 import type { UpiAppId } from './app.types';
+import type { CardStatement } from './card.types';
+import type { ClassificationResult } from './classifier.types';
 
 export interface Currency {
   value: number;
@@ -17,7 +19,11 @@ export interface Transaction {
   status: string;
   amount: Currency;
   category?: TransactionCategory;
+  classification?: ClassificationResult; // The rule that chose the category, when the classifier chose it
+  referenceId?: string; // UPI reference number / UTR, when the source provides one
+  direction?: LedgerDirection; // 'credit' when money came in; debit when missing
   sourceApp: UpiAppId; // Track which app this transaction came from
+  sourceId?: string; // Track which uploaded file this record came from
 }
 
 export interface GroupExpenseItem {
@@ -35,6 +41,7 @@ export interface GroupExpense {
   title: string;
   items: GroupExpenseItem[];
   sourceApp: UpiAppId; // Track which app this group expense came from
+  sourceId?: string; // Track which uploaded file this record came from
 }
 
 export interface CashbackReward {
@@ -43,6 +50,7 @@ export interface CashbackReward {
   amount: number;
   description: string;
   sourceApp: UpiAppId; // Track which app this cashback came from
+  sourceId?: string; // Track which uploaded file this record came from
 }
 
 export interface Voucher {
@@ -51,6 +59,7 @@ export interface Voucher {
   summary: string;
   expiryDate: Date;
   sourceApp: UpiAppId; // Track which app this voucher came from
+  sourceId?: string; // Track which uploaded file this record came from
 }
 
 export interface ActivityRecord {
@@ -65,7 +74,46 @@ export interface ActivityRecord {
   recipient?: string;
   sender?: string;
   category?: TransactionCategory;
+  classification?: ClassificationResult; // The rule that chose the category, when the classifier chose it
   sourceApp: UpiAppId; // Track which app this activity came from
+  sourceId?: string; // Track which uploaded file this record came from
+}
+
+export type LedgerDirection = 'debit' | 'credit';
+
+export type LedgerStatus = 'completed' | 'pending' | 'failed' | 'reversed';
+
+export type LedgerRefundKind = 'refund' | 'reversal';
+
+/**
+ * One money movement, whichever app or file it came from
+ * Transactions and money-carrying activities are both normalised into these (see buildLedger),
+ * so insights agree regardless of which list a source fills
+ */
+export interface LedgerEntry {
+  id: string; // Stable key of the underlying record (getTransactionKey / getActivityKey)
+  time: Date;
+  direction: LedgerDirection;
+  counterparty: string; // Who the money went to or came from, falling back to the description
+  description: string;
+  amount: Currency; // Always positive; direction says which way it moved
+  status: LedgerStatus;
+  category?: TransactionCategory;
+  classification?: ClassificationResult; // Why the entry has its category; absent when the user set it by hand
+  categoryPath?: string; // Where the category sits in the category tree, e.g. "Food > Delivery"
+  product?: string;
+  method?: string;
+  referenceId?: string;
+  origin: 'transaction' | 'activity'; // Which list of ParsedData the entry was built from
+  sourceApp: UpiAppId;
+  sourceId?: string;
+  // Refund links (see linkRefunds)
+  refundKind?: LedgerRefundKind; // Credits that return money for an earlier payment
+  refundOf?: string; // Credits: id of the debit they returned money for
+  refundedBy?: string[]; // Debits: ids of the refunds and reversals linked to them
+  refundedAmount?: Currency; // Debits: how much of the payment came back
+  selfTransfer?: boolean; // Between the user's own accounts (see markSelfTransfers)
+  cardPayment?: boolean; // Settled a credit card bill; also a self-transfer (see markCardPayments)
 }
 
 export interface ParsedData {
@@ -74,6 +122,7 @@ export interface ParsedData {
   cashbackRewards: CashbackReward[];
   voucherRewards: Voucher[];
   activities: ActivityRecord[];
+  cardStatements?: CardStatement[]; // Billing-cycle summaries from credit card statements
   sources: UpiAppId[]; // Track which apps contributed data
 }
 
@@ -94,3 +143,39 @@ export interface AppRawData {
   rawData: Record<string, string>; // Flexible key-value pairs for different file formats
   uploadedAt: Date;
 }
+
+/**
+ * A row (or line, or entry) of an uploaded file that couldn't be imported
+ */
+export interface SkippedRecord {
+  reason: string;
+  snippet: string; // The raw row, shortened
+  row?: number; // 1-based position in the file or section, where known
+}
+
+/**
+ * What happened to the rows of one uploaded file
+ */
+export interface ImportReport {
+  rowsRead: number;
+  rowsParsed: number;
+  rowsSkipped: number;
+  skipped: SkippedRecord[]; // Details of the first skipped rows, see MAX_SKIPPED_DETAILS
+}
+
+/**
+ * A single uploaded statement or export file
+ * Several sources can exist for the same app (e.g. Jan–Jun and Jul–Dec PhonePe PDFs)
+ */
+export interface DataSource extends AppRawData {
+  id: string; // Stable key derived from the file hash
+  fileName: string;
+  fileHash: string; // SHA-256 of the uploaded file contents
+  fileSize: number;
+  dateRange?: { start: Date; end: Date }; // Filled in once the source has been parsed
+  recordCount?: number;
+  warnings?: string[]; // Parser notes, e.g. fields in the file that weren't imported
+  importReport?: ImportReport; // Rows read, parsed and skipped in the last parse
+  parseError?: string; // Why the last parse failed, if it did
+}
+
@@ -0,0 +1,42 @@
+// Types for cross-source duplicate detection
+
+import type { Transaction, ActivityRecord } from './data.types';
+
+/**
+ * Why two records were considered the same payment
+ */
+export type DuplicateMatchReason = 'reference' | 'fuzzy';
+
+/**
+ * User decision for a borderline duplicate pair
+ */
+export type DuplicateDecision = 'merge' | 'keep';
+
+/**
+ * A record that can be merged with another: a transaction or a money-carrying activity
+ */
+export type DuplicateRecord = Transaction | ActivityRecord;
+
+/**
+ * A pair of records from different sources that look like the same payment
+ * The two may be of different kinds - a Google Pay activity and a bank statement debit
+ * can describe one payment.
+ */
+export interface DuplicatePair {
+  key: string; // Stable pair key, used to remember decisions across re-parses
+  primary: DuplicateRecord; // Record that is kept
+  duplicate: DuplicateRecord; // Record that is dropped when merged
+  reason: DuplicateMatchReason;
+  score: number; // 0-1
+  minutesApart: number;
+  counterpartySimilarity: number; // 0-1
+}
+
+/**
+ * Result of the deduplication stage
+ */
+export interface DedupReport {
+  mergedCount: number; // Records removed because they duplicated another source
+  merged: DuplicatePair[];
+  borderline: DuplicatePair[]; // Possible duplicates waiting for user review
+}
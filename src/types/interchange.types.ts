@@ -0,0 +1,27 @@
+// Types shared by the standard interchange formats (OFX/QFX, QIF, CAMT.053)
+
+import type { SkippedRecord } from './data.types';
+
+/**
+ * One booked entry read from an interchange file
+ */
+export interface InterchangeEntry {
+  date: Date;
+  amount: number; // Signed: negative for money going out
+  description: string;
+  id?: string; // Transaction id assigned by the bank (FITID, AcctSvcrRef)
+  reference?: string; // UTR / cheque / end-to-end reference
+  type?: string; // Format-specific transaction type (OFX TRNTYPE, CAMT bank transaction code)
+  status?: string;
+  currency?: string; // ISO 4217 code; INR when the file doesn't say
+}
+
+/**
+ * Everything read from one interchange file
+ */
+export interface InterchangeStatement {
+  entries: InterchangeEntry[];
+  institution?: string; // Bank or finance tool named in the file
+  unsupportedFields: string[]; // Fields present in the file that don't map onto a Transaction
+  skippedEntries: SkippedRecord[]; // Entries without a usable date or amount
+}
@@ -0,0 +1,60 @@
+// Types for mapping arbitrary spreadsheet columns onto transactions
+
+/**
+ * Date formats the mapping wizard offers
+ * 'auto' accepts ISO dates and falls back to DD/MM/YYYY
+ */
+export type DateFormat =
+  | 'auto'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY'
+  | 'YYYY-MM-DD'
+  | 'DD-MM-YYYY'
+  | 'DD MMM YYYY';
+
+/**
+ * How amounts are laid out in the sheet
+ * - signed: one amount column, sign (or a DR/CR column) gives the direction
+ * - split: separate debit and credit columns
+ */
+export type AmountMode = 'signed' | 'split';
+
+/**
+ * Which column holds each Transaction field (by header name)
+ */
+export interface ColumnMapping {
+  headerRow: number; // Index of the header row; bank downloads often have a preamble
+  date: string;
+  dateFormat: DateFormat;
+  time?: string;
+  description: string;
+  amountMode: AmountMode;
+  amount?: string; // Used when amountMode is 'signed'
+  debitCreditColumn?: string; // Optional DR/CR indicator for a signed amount column
+  positiveIsDebit?: boolean; // Some exports list spends as positive numbers
+  debit?: string; // Used when amountMode is 'split'
+  credit?: string;
+  status?: string;
+  reference?: string;
+}
+
+/**
+ * Saved mapping, matched to later uploads by their header row
+ */
+export interface MappingProfile {
+  id: string;
+  name: string;
+  headers: string[];
+  signature: string; // Normalized header row, see getHeaderSignature()
+  mapping: ColumnMapping;
+  createdAt: string; // ISO date, profiles are persisted as JSON
+}
+
+/**
+ * Rows read from a spreadsheet, before any mapping is applied
+ */
+export interface SheetPreview {
+  headerRow: number;
+  headers: string[];
+  rows: string[][]; // Data rows after the header
+}
@@ -0,0 +1,41 @@
+// Message types for the file processing Web Worker
+
+import type { UpiAppId } from './app.types';
+import type { DataSource } from './data.types';
+import type { DuplicateDecision } from './dedup.types';
+import type { CombinedParseResult, ProcessFileResult } from '../services/MultiAppManager';
+
+/**
+ * Where a single file is in the pipeline
+ */
+export type PipelineStage = 'queued' | 'detecting' | 'extracting' | 'parsing' | 'done' | 'error';
+
+/**
+ * Progress update for one file
+ */
+export interface PipelineProgress {
+  fileName: string;
+  stage: PipelineStage;
+  error?: string;
+}
+
+/**
+ * Requests sent to the worker
+ */
+export type PipelineRequest =
+  | { type: 'process'; jobId: number; file: File; password?: string; appOverride?: UpiAppId }
+  | {
+      type: 'parse';
+      jobId: number;
+      sources: DataSource[];
+      dedupDecisions: Record<string, DuplicateDecision>;
+    };
+
+/**
+ * Messages sent back from the worker
+ */
+export type PipelineResponse =
+  | { type: 'progress'; jobId: number; progress: PipelineProgress }
+  | { type: 'processed'; jobId: number; result: ProcessFileResult }
+  | { type: 'parsed'; jobId: number; result: CombinedParseResult }
+  | { type: 'failed'; jobId: number; error: string };
@@ -0,0 +1,25 @@
+// Types for self-transfers - money moved between the user's own accounts is neither spent nor earned
+
+import type { LedgerEntry } from './data.types';
+
+/**
+ * User's answer to a suggested self-transfer
+ */
+export type SelfTransferDecision = 'transfer' | 'not_transfer';
+
+/**
+ * The user's own accounts, and their answers to suggested transfers
+ */
+export interface SelfTransferSettings {
+  ownIdentifiers: string[]; // UPI IDs and account numbers the user owns, as entered
+  decisions: Record<string, SelfTransferDecision>; // Keyed by pair key (see getSelfTransferPairKey)
+}
+
+/**
+ * A debit in one source matched by a credit of the same amount in another
+ */
+export interface SelfTransferSuggestion {
+  key: string;
+  debit: LedgerEntry;
+  credit: LedgerEntry;
+}
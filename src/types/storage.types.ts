@@ -1,34 +1,92 @@
 // Zustand store types for multi-app support
 
-import { ParsedData, RawExtractedData, AppRawData } from './data.types';
+import { ParsedData, RawExtractedData, DataSource, LedgerEntry } from './data.types';
 import { Insight } from './insight.types';
 import { FilterContext } from './filter.types';
 import { UpiAppId } from './app.types';
+import { DedupReport, DuplicateDecision } from './dedup.types';
+import { WorkspaceSnapshot } from './workspace.types';
+import { CounterpartyOverrides } from './counterparty.types';
+import { SelfTransferDecision, SelfTransferSettings } from './selfTransfer.types';
+import { UserCategoryRules, UserClassificationRules } from './classifier.types';
+import { CategoryBudgets } from './category.types';
 
 // Re-export types for backward compatibility
 export type { RawExtractedData } from './data.types';
 export type { YearFilter } from './filter.types';
 
+/**
+ * Categorisation before an edit, kept so the edit can be undone
+ */
+export interface CategoryEdit {
+  label: string; // What the edit did
+  categoryOverrides: Record<string, string>;
+  classificationRules: UserClassificationRules;
+}
+
 /**
  * Multi-app data store interface
  */
 export interface DataStore {
   // State - Multi-app support
-  rawDataByApp: Map<UpiAppId, AppRawData>; // Raw data per app
+  dataSources: Map<string, DataSource>; // Uploaded files keyed by source id
   parsedData: ParsedData | null; // Unified parsed data
+  ledger: LedgerEntry[]; // Every year's payments, refunds and transfers linked across years; filter by year to read
   insights: Insight[];
 
+  // Deduplication across overlapping uploads
+  dedupReport: DedupReport | null; // Merged and borderline pairs from the last parse
+  dedupDecisions: Record<string, DuplicateDecision>; // User decisions keyed by pair key
+
+  // People and merchants the user merged or split by hand
+  counterpartyOverrides: CounterpartyOverrides;
+
+  // The user's own accounts, so moving money between them isn't spending or income
+  selfTransfers: SelfTransferSettings;
+
+  // Category rules the user added on top of the shipped classification config
+  classificationRules: UserClassificationRules;
+  categoryHistory: CategoryEdit[]; // Undoable category edits this session, most recent last
+
+  // Monthly spending limits the user set on categories of the category tree
+  categoryBudgets: CategoryBudgets;
+
+  // User edits keyed by record key, carried in saved and exported workspaces
+  categoryOverrides: Record<string, string>;
+  tags: Record<string, string[]>;
+  notes: Record<string, string>;
+
   // Filtering
   filterContext: FilterContext; // Combined year + app filter
 
+  // Local persistence (opt-in)
+  persistenceEnabled: boolean; // Keep the workspace encrypted in IndexedDB across reloads
+  isRestoring: boolean; // True until a saved workspace has been loaded or skipped
+  vaultLocked: boolean; // Encrypted data is on disk but the passphrase hasn't been entered
+  lastSavedAt: Date | null;
+
   // UI state
   isLoading: boolean;
   error: string | null;
   uploadedApps: UpiAppId[]; // Which apps have been uploaded
 
   // Actions
-  addAppData: (app: UpiAppId, rawData: AppRawData) => Promise<void>;
-  removeAppData: (app: UpiAppId) => void;
+  addSource: (source: DataSource) => Promise<void>;
+  addSources: (sources: DataSource[]) => Promise<void>; // Parses once for the whole batch
+  removeSource: (sourceId: string) => Promise<void>;
+  removeSources: (sourceIds: string[]) => Promise<void>;
+  resolveDuplicate: (pairKey: string, decision: DuplicateDecision) => Promise<void>;
+  mergeCounterparties: (aliasKeys: string[]) => void; // Aliases of the entities to merge, target first
+  splitCounterparty: (aliasKey: string) => void;
+  setOwnIdentifiers: (identifiers: string[]) => void; // UPI IDs and account numbers the user owns
+  resolveSelfTransfer: (pairKey: string, decision: SelfTransferDecision) => void;
+  setClassificationRules: (rules: UserClassificationRules) => void;
+  addClassificationRule: (category: string, kind: keyof UserCategoryRules, value: string) => void; // Checked first
+  undoCategoryEdit: () => void;
+  setCategoryOverride: (recordKey: string, category: string | null) => void;
+  setCategoryBudget: (path: string, amount: number | null) => void; // null removes the budget
+  setTags: (recordKey: string, tags: string[]) => void;
+  setNote: (recordKey: string, note: string) => void;
   setParsedData: (data: ParsedData) => void;
   setInsights: (insights: Insight[]) => void;
   setFilterContext: (context: FilterContext) => void;
@@ -36,9 +94,21 @@ export interface DataStore {
   setError: (error: string | null) => void;
 
   // Complex actions
-  parseAllData: () => Promise<void>; // Parse all uploaded apps
+  parseAllData: () => Promise<void>; // Parse all uploaded sources
+  rebuildLedger: () => void; // After the data or the settings the ledger reads change; recalculates insights
   recalculateInsights: (context: FilterContext) => void;
   clearAllData: () => void;
+  exportWorkspace: () => string; // .finnlens file contents
+  importWorkspace: (workspace: WorkspaceSnapshot) => Promise<void>;
+
+  // Persistence actions
+  restoreWorkspace: () => Promise<void>;
+  unlockWorkspace: (passphrase: string) => Promise<{ success: boolean; error?: string }>;
+  skipUnlock: () => void;
+  saveWorkspace: () => Promise<void>;
+  enablePersistence: (passphrase: string) => Promise<void>; // Create the encrypted vault
+  disablePersistence: () => Promise<void>;
+  forgetEverything: () => Promise<{ success: boolean; error?: string }>; // Clear the store and delete everything saved locally
 
   // Legacy actions (for backward compatibility during migration)
   setRawData: (data: RawExtractedData) => void;
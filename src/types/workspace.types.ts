@@ -0,0 +1,45 @@
+// Types for the saved and exported workspace
+
+import type { ParsedData, DataSource } from './data.types';
+import type { DedupReport, DuplicateDecision } from './dedup.types';
+import type { FilterContext } from './filter.types';
+import type { CounterpartyOverrides } from './counterparty.types';
+import type { SelfTransferSettings } from './selfTransfer.types';
+import type { UserClassificationRules } from './classifier.types';
+import type { CategoryBudgets } from './category.types';
+
+/**
+ * User edits attached to individual records, keyed by record key
+ * (see getTransactionKey / getActivityKey)
+ */
+export interface RecordEdits {
+  categoryOverrides: Record<string, string>; // Category chosen by the user
+  tags: Record<string, string[]>;
+  notes: Record<string, string>;
+}
+
+/**
+ * Everything needed to restore the workspace without re-uploading
+ */
+export interface WorkspaceSnapshot extends RecordEdits {
+  savedAt: Date;
+  sources: DataSource[];
+  parsedData: ParsedData | null;
+  dedupReport: DedupReport | null;
+  dedupDecisions: Record<string, DuplicateDecision>;
+  counterpartyOverrides: CounterpartyOverrides; // Manual merges and splits of people and merchants
+  selfTransfers: SelfTransferSettings; // The user's own accounts and answers to suggested transfers
+  classificationRules: UserClassificationRules; // The user's category rules, by category
+  categoryBudgets: CategoryBudgets; // Monthly limits, by category path
+  filterContext: FilterContext;
+}
+
+/**
+ * Portable .finnlens export file
+ */
+export interface WorkspaceFile {
+  format: 'finnlens';
+  schemaVersion: number;
+  exportedAt: Date;
+  workspace: WorkspaceSnapshot;
+}
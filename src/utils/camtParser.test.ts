@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { parseCamt053 } from './camtParser';
+
+const camtFile = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>STMT-1</MsgId><CreDtTm>2025-06-30T18:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT-1-1</Id>
+      <Acct>
+        <Id><Othr><Id>50100012345678</Id></Othr></Id>
+        <Ccy>INR</Ccy>
+        <Svcr><FinInstnId><Nm>Axis Bank</Nm></FinInstnId></Svcr>
+      </Acct>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="INR">1000.00</Amt></Bal>
+      <Ntry>
+        <Amt Ccy="INR">1250.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-06-12</Dt></BookgDt>
+        <AcctSvcrRef>AXIS-0001</AcctSvcrRef>
+        <BkTxCd><Prtry><Cd>UPI</Cd></Prtry></BkTxCd>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>NOTPROVIDED</EndToEndId><TxId>516312345678</TxId></Refs>
+          <RltdPties><Cdtr><Nm>Swiggy</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Food order</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="INR">900.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><DtTm>2025-06-14T09:30:00+05:30</DtTm></BookgDt>
+        <Chrgs><Amt Ccy="INR">5.00</Amt></Chrgs>
+        <NtryDtls>
+          <TxDtls>
+            <Refs><AcctSvcrRef>AXIS-0002-A</AcctSvcrRef></Refs>
+            <Amt Ccy="INR">600.00</Amt>
+            <CdtDbtInd>DBIT</CdtDbtInd>
+            <RltdPties><Cdtr><Pty><Nm>Electricity Board</Nm></Pty></Cdtr></RltdPties>
+          </TxDtls>
+          <TxDtls>
+            <Refs><AcctSvcrRef>AXIS-0002-B</AcctSvcrRef></Refs>
+            <Amt Ccy="INR">300.00</Amt>
+            <CdtDbtInd>DBIT</CdtDbtInd>
+            <RltdPties><Cdtr><Nm>Water Board</Nm></Cdtr></RltdPties>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">50000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>PDNG</Cd></Sts>
+        <ValDt><Dt>2025-06-15</Dt></ValDt>
+        <AddtlNtryInf>SALARY JUNE</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('camtParser', () => {
+  it('should read entries with counterparty, remittance and references', () => {
+    const statement = parseCamt053(camtFile);
+
+    expect(statement.institution).toBe('Axis Bank');
+    expect(statement.entries[0]).toEqual({
+      date: new Date(2025, 5, 12),
+      amount: -1250,
+      description: 'Swiggy - Food order',
+      id: 'AXIS-0001',
+      reference: '516312345678',
+      status: 'Completed',
+      currency: 'INR',
+    });
+  });
+
+  it('should split batch entries into one entry per transaction', () => {
+    const entries = parseCamt053(camtFile).entries.slice(1, 3);
+
+    expect(entries.map(e => [e.id, e.amount, e.description])).toEqual([
+      ['AXIS-0002-A', -600, 'Electricity Board'],
+      ['AXIS-0002-B', -300, 'Water Board'],
+    ]);
+    expect(entries[0].date).toEqual(new Date(2025, 5, 14, 9, 30, 0));
+  });
+
+  it('should fall back to the value date and entry information', () => {
+    const entry = parseCamt053(camtFile).entries[3];
+
+    expect(entry.date).toEqual(new Date(2025, 5, 15));
+    expect(entry.amount).toBe(50000);
+    expect(entry.description).toBe('SALARY JUNE');
+    expect(entry.status).toBe('Pending');
+    expect(entry.currency).toBe('EUR');
+  });
+
+  it('should report entry fields that were not imported', () => {
+    expect(parseCamt053(camtFile).unsupportedFields).toEqual(['Ntry/BkTxCd', 'Ntry/Chrgs']);
+  });
+
+  it('should reject malformed XML', () => {
+    expect(() => parseCamt053('<Document><BkToCstmrStmt>')).toThrow('not valid XML');
+  });
+});
@@ -0,0 +1,174 @@
+// Parse ISO 20022 CAMT.053 bank-to-customer statements into interchange entries
+
+import type { SkippedRecord } from '../types/data.types';
+import type { InterchangeEntry, InterchangeStatement } from '../types/interchange.types';
+import { parseDateValue } from './columnMapping';
+import { joinDescription } from './interchangeUtils';
+import { toSnippet } from './importReport';
+import {
+  byName,
+  childElements,
+  findElements,
+  parseMarkup,
+  textContent,
+  type MarkupElement,
+} from './markupParser';
+
+// <Ntry> children that map onto a Transaction
+const SUPPORTED_ENTRY_FIELDS = new Set([
+  'Amt',
+  'CdtDbtInd',
+  'RvslInd',
+  'Sts',
+  'BookgDt',
+  'ValDt',
+  'NtryRef',
+  'AcctSvcrRef',
+  'NtryDtls',
+  'AddtlNtryInf',
+]);
+
+// <TxDtls> children that map onto a Transaction
+const SUPPORTED_DETAIL_FIELDS = new Set([
+  'Refs',
+  'Amt',
+  'AmtDtls',
+  'CdtDbtInd',
+  'RltdPties',
+  'RmtInf',
+  'AddtlTxInf',
+]);
+
+const STATUS_NAMES: Record<string, string> = {
+  BOOK: 'Completed',
+  PDNG: 'Pending',
+  INFO: 'Information',
+};
+
+// Placeholder references banks fill in when the payer gave none
+const EMPTY_REFERENCE = /^(NOTPROVIDED|NONREF|NONE|N\/A)$/i;
+
+/**
+ * First element along a path of local names ("Amt", "RltdPties/Cdtr")
+ */
+function find(element: MarkupElement | undefined, path: string): MarkupElement | undefined {
+  return path
+    .split('/')
+    .reduce<MarkupElement | undefined>((current, name) => current && childElements(current, name)[0], element);
+}
+
+function text(element: MarkupElement | undefined, path?: string): string | undefined {
+  const target = path ? find(element, path) : element;
+  return textContent(target).trim() || undefined;
+}
+
+/**
+ * Name of a related party: <Nm> directly (camt.053.001.02) or under <Pty> (later versions)
+ */
+function partyName(details: MarkupElement | undefined, role: 'Cdtr' | 'Dbtr'): string | undefined {
+  const party = find(details, `RltdPties/${role}`);
+  return text(party, 'Nm') || text(party, 'Pty/Nm');
+}
+
+function readDate(entry: MarkupElement, name: 'BookgDt' | 'ValDt'): Date | null {
+  const value = text(entry, `${name}/DtTm`) || text(entry, `${name}/Dt`);
+  return value ? parseDateValue(value, 'YYYY-MM-DD') : null;
+}
+
+/**
+ * Read booked entries from a CAMT.053 XML document
+ * Batch entries with several <TxDtls> become one entry per transaction
+ */
+export function parseCamt053(xml: string): InterchangeStatement {
+  let doc: MarkupElement;
+  try {
+    doc = parseMarkup(xml, 'xml');
+  } catch {
+    throw new Error('The CAMT.053 file is not valid XML');
+  }
+
+  const entries: InterchangeEntry[] = [];
+  const unsupported = new Set<string>();
+  const skippedEntries: SkippedRecord[] = [];
+
+  const statements = findElements(doc, byName('Stmt'));
+  const institution = statements
+    .map(statement => text(statement, 'Acct/Svcr/FinInstnId/Nm'))
+    .find(Boolean);
+
+  statements.forEach(statement => {
+    childElements(statement, 'Ntry').forEach(entry => {
+      childElements(entry)
+        .filter(child => !SUPPORTED_ENTRY_FIELDS.has(child.localName))
+        .forEach(child => unsupported.add(`Ntry/${child.localName}`));
+
+      const date = readDate(entry, 'BookgDt') || readDate(entry, 'ValDt');
+      const isReversal = text(entry, 'RvslInd') === 'true';
+      const statusCode = text(entry, 'Sts/Cd') || text(entry, 'Sts') || 'BOOK';
+      const status = isReversal ? 'Reversed' : STATUS_NAMES[statusCode] || statusCode;
+
+      const entryDetails = find(entry, 'NtryDtls');
+      const details = childElements(entryDetails, 'TxDtls');
+      const transactions = details.length > 0 ? details : [undefined];
+
+      transactions.forEach(detail => {
+        if (detail) {
+          childElements(detail)
+            .filter(child => !SUPPORTED_DETAIL_FIELDS.has(child.localName))
+            .forEach(child => unsupported.add(`TxDtls/${child.localName}`));
+        }
+
+        // A single transaction can leave its amount on the entry
+        const amountElement =
+          (detail && (find(detail, 'Amt') || find(detail, 'AmtDtls/TxAmt/Amt'))) ||
+          (transactions.length === 1 ? find(entry, 'Amt') : undefined);
+        const value = parseFloat(text(amountElement) || '');
+        const direction = text(detail, 'CdtDbtInd') || text(entry, 'CdtDbtInd');
+
+        if (!date || isNaN(value) || value === 0 || !direction) {
+          skippedEntries.push({
+            reason: !date ? 'No booking date' : !direction ? 'No credit/debit indicator' : 'No amount',
+            snippet: toSnippet(textContent(detail || entry)),
+          });
+          return;
+        }
+
+        const isDebit = direction === 'DBIT';
+        const counterparty = partyName(detail, isDebit ? 'Cdtr' : 'Dbtr');
+        const remittanceInfo = find(detail, 'RmtInf');
+        const remittance = childElements(remittanceInfo, 'Ustrd')
+          .map(line => textContent(line).trim())
+          .filter(Boolean)
+          .join(' ');
+        const description =
+          joinDescription(counterparty, remittance) ||
+          text(detail, 'AddtlTxInf') ||
+          text(entry, 'AddtlNtryInf') ||
+          'CAMT.053 entry';
+
+        const reference = [text(detail, 'Refs/TxId'), text(detail, 'Refs/EndToEndId')].find(
+          ref => ref && !EMPTY_REFERENCE.test(ref)
+        );
+
+        entries.push({
+          date,
+          amount: isDebit ? -value : value,
+          description,
+          id:
+            text(detail, 'Refs/AcctSvcrRef') ||
+            (transactions.length === 1 ? text(entry, 'AcctSvcrRef') || text(entry, 'NtryRef') : undefined),
+          reference,
+          status,
+          currency: amountElement?.attributes.Ccy || undefined,
+        });
+      });
+    });
+  });
+
+  return {
+    entries,
+    institution,
+    unsupportedFields: Array.from(unsupported).sort(),
+    skippedEntries,
+  };
+}
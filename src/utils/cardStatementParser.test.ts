@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCardStatementData,
+  parseCardStatementLines,
+  parseCardStatementRows,
+  parseCardSummary,
+} from './cardStatementParser';
+
+const statementText = [
+  'HDFC Bank Credit Card Statement',
+  'Card No: 4321 XXXX XXXX 9876',
+  'Statement Date: 12/06/2025',
+  'Billing Period: 13/05/2025 to 12/06/2025',
+  'Payment Due Date Total Dues Minimum Amount Due',
+  '02/07/2025 12,850.00 640.00',
+  'Reward Points Earned 245 Points Redeemed 0 Closing Reward Points 3,120',
+  'Date Transaction Description Reward Points Amount (in Rs.)',
+  '15/05/2025 SWIGGY BANGALORE 12 1,250.00',
+  '18/05/2025 PAYMENT RECEIVED - THANK YOU 9,400.00 Cr',
+  '20/05/2025 AMAZON REFUND 499.00 Cr',
+  '01/06/2025 LATE PAYMENT FEE 600.00',
+  '01/06/2025 IGST @18% 108.00',
+];
+
+describe('cardStatementParser', () => {
+  describe('parseCardSummary', () => {
+    it('should read the billing cycle, dues and card number', () => {
+      const summary = parseCardSummary(statementText);
+
+      expect(summary.issuer).toBe('HDFC Bank');
+      expect(summary.cardLast4).toBe('9876');
+      expect(summary.statementDate).toEqual(new Date(2025, 5, 12));
+      expect(summary.billingPeriod).toEqual({
+        start: new Date(2025, 4, 13),
+        end: new Date(2025, 5, 12),
+      });
+      expect(summary.dueDate).toEqual(new Date(2025, 6, 2));
+      expect(summary.totalDue).toEqual({ value: 12850, currency: 'INR' });
+      expect(summary.minimumDue).toEqual({ value: 640, currency: 'INR' });
+    });
+
+    it('should read reward points', () => {
+      expect(parseCardSummary(statementText).rewardPoints).toEqual({
+        earned: 245,
+        redeemed: 0,
+        balance: 3120,
+      });
+    });
+
+    it('should read values printed after their labels', () => {
+      const summary = parseCardSummary([
+        'Payment Due Date: 02 Jul 2025 Total Amount Due: Rs. 5,000.00',
+      ]);
+
+      expect(summary.dueDate).toEqual(new Date(2025, 6, 2));
+      expect(summary.totalDue?.value).toBe(5000);
+    });
+  });
+
+  describe('parseCardStatementLines', () => {
+    it('should pick transaction lines and strip the reward points column', () => {
+      const lines = parseCardStatementLines(statementText);
+
+      expect(lines).toHaveLength(5);
+      expect(lines[0]).toEqual({
+        date: new Date(2025, 4, 15),
+        description: 'SWIGGY BANGALORE',
+        amount: 1250,
+        isCredit: false,
+      });
+      expect(lines[1].isCredit).toBe(true);
+    });
+
+    it('should skip summary rows that look like dated amounts', () => {
+      expect(parseCardStatementLines(['02/07/2025 Total Amount Due 12,850.00'])).toHaveLength(0);
+    });
+  });
+
+  describe('parseCardStatementRows', () => {
+    it('should treat positive amounts as spends and Cr amounts as credits', () => {
+      const lines = parseCardStatementRows([
+        ['Transaction Date', 'Details', 'Amount'],
+        ['15/05/2025', 'UBER INDIA', '320.00'],
+        ['18/05/2025', 'PAYMENT RECEIVED', '5,000.00 Cr'],
+      ]);
+
+      expect(lines.map(line => line.isCredit)).toEqual([false, true]);
+      expect(lines[1].amount).toBe(5000);
+    });
+  });
+
+  describe('buildCardStatementData', () => {
+    it('should separate purchases, fees, payments and refunds', () => {
+      const { transactions, activities, statement } = buildCardStatementData(
+        parseCardSummary(statementText),
+        parseCardStatementLines(statementText),
+        'creditcard'
+      );
+
+      expect(transactions.map(t => t.product)).toEqual([
+        'Credit Card',
+        'Credit Card Fee',
+        'Credit Card Fee',
+      ]);
+      expect(transactions[0].method).toBe('HDFC Bank ••9876');
+      expect(statement.fees).toEqual({ value: 708, currency: 'INR' });
+      expect(statement.paymentsReceived).toHaveLength(1);
+      expect(activities).toHaveLength(1);
+      expect(activities[0].description).toBe('AMAZON REFUND');
+    });
+  });
+});
@@ -0,0 +1,328 @@
+// Parse credit card statements (PDF text lines or CSV rows) into transactions and a cycle summary
+
+import type { UpiAppId } from '../types/app.types';
+import type { Transaction, ActivityRecord, ImportReport } from '../types/data.types';
+import type { CardStatement } from '../types/card.types';
+import type { TransactionCategory } from './categoryUtils';
+import {
+  getRowId,
+  getSheetPreview,
+  parseAmountValue,
+  parseDateValue,
+  suggestMapping,
+} from './columnMapping';
+import { classifyRecord } from './multi-layer-classifier';
+import { createImportReport, recordParsed, recordSkipped } from './importReport';
+
+const DATE = String.raw`(\d{1,2}[/-]\d{1,2}[/-]\d{2,4}|\d{1,2}[\s-][A-Za-z]{3,9}[\s,-]+\d{2,4})`;
+const AMOUNT = String.raw`(?:Rs\.?|₹|INR|\`)?\s*(-?[\d,]+\.\d{2})`;
+
+// "12/06/2025 [14:22] SWIGGY BANGALORE [12] 1,250.00 [Cr]"
+const TRANSACTION_LINE = new RegExp(
+  String.raw`^${DATE}(?:\s+\d{1,2}:\d{2}(?::\d{2})?)?\s+(.+?)\s+${AMOUNT}\s*(Cr|CR|C|Dr|DR|D)?\.?$`
+);
+
+// Credits that settle the bill rather than refund a purchase
+const PAYMENT_PATTERN =
+  /(payment received|payment.{0,5}thank you|thank you for (your |the )?payment|\bbbps\b|auto ?debit payment|\bpayment\b.*\b(upi|neft|imps|net ?banking)\b|\b(upi|neft|imps)\b.*\bpayment\b|^payment\b)/i;
+
+// Debits the bank charges rather than purchases
+const FEE_PATTERN =
+  /\b(fees?|charges?|interest|finance charges?|[ics]?gst|late payment|surcharge|over ?limit|annual membership)\b/i;
+
+// Summary rows that can look like dated amounts
+const SUMMARY_ROW_PATTERN =
+  /(amount due|minimum due|total dues?|due date|statement date|opening balance|closing balance|previous balance|credit limit|available (credit|cash)|total outstanding)/i;
+
+const ISSUERS: [RegExp, string][] = [
+  [/hdfc/i, 'HDFC Bank'],
+  [/icici/i, 'ICICI Bank'],
+  [/\bsbi\b|sbi card/i, 'SBI Card'],
+  [/axis/i, 'Axis Bank'],
+  [/kotak/i, 'Kotak Mahindra Bank'],
+  [/american express|amex/i, 'American Express'],
+  [/idfc/i, 'IDFC FIRST Bank'],
+  [/indusind/i, 'IndusInd Bank'],
+  [/yes bank/i, 'Yes Bank'],
+  [/\brbl\b/i, 'RBL Bank'],
+  [/au small finance|\bau bank\b/i, 'AU Small Finance Bank'],
+  [/standard chartered/i, 'Standard Chartered'],
+  [/hsbc/i, 'HSBC'],
+  [/onecard/i, 'OneCard'],
+  [/federal bank/i, 'Federal Bank'],
+];
+
+/**
+ * One transaction line of a card statement
+ */
+export interface CardStatementLine {
+  date: Date;
+  description: string;
+  amount: number; // Always positive
+  isCredit: boolean;
+}
+
+/**
+ * Cycle details printed on the statement (before payments are linked)
+ */
+export type CardStatementSummary = Pick<
+  CardStatement,
+  | 'issuer'
+  | 'cardLast4'
+  | 'statementDate'
+  | 'billingPeriod'
+  | 'dueDate'
+  | 'totalDue'
+  | 'minimumDue'
+  | 'rewardPoints'
+>;
+
+interface SummaryField {
+  key: 'statementDate' | 'dueDate' | 'totalDue' | 'minimumDue';
+  label: RegExp;
+  type: 'date' | 'amount';
+}
+
+const SUMMARY_FIELDS: SummaryField[] = [
+  { key: 'statementDate', label: /statement date/i, type: 'date' },
+  { key: 'dueDate', label: /(payment )?due date/i, type: 'date' },
+  { key: 'totalDue', label: /total (amount |payment )?dues?|total outstanding/i, type: 'amount' },
+  { key: 'minimumDue', label: /minimum (amount |payment )?dues?/i, type: 'amount' },
+];
+
+/**
+ * Find the card issuer named anywhere in the statement
+ */
+export function detectIssuer(text: string): string | undefined {
+  return ISSUERS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * Read the cycle summary from statement text lines
+ * Values may follow their label on the same line, or sit in the next line
+ * under a row of labels (the usual summary box layout)
+ */
+export function parseCardSummary(lines: string[]): CardStatementSummary {
+  const text = lines.join('\n');
+  const summary: CardStatementSummary = { issuer: detectIssuer(text) || 'Credit Card' };
+
+  const readValue = (value: string, type: SummaryField['type']) => {
+    if (type === 'date') return parseDateValue(value, 'auto') || undefined;
+    const amount = parseAmountValue(value);
+    return amount === null ? undefined : { value: Math.abs(amount), currency: 'INR' as const };
+  };
+
+  lines.forEach((line, index) => {
+    // Labels on this line, in reading order
+    const labels = SUMMARY_FIELDS.map(field => ({ field, match: line.match(field.label) }))
+      .filter(({ match, field }) => match && summary[field.key] === undefined)
+      .sort((a, b) => a.match!.index! - b.match!.index!);
+
+    labels.forEach(({ field, match }, position) => {
+      const pattern = new RegExp(field.type === 'date' ? DATE : AMOUNT);
+      const nextLabel = labels[position + 1]?.match?.index ?? line.length;
+      const sameLine = line.slice(match!.index! + match![0].length, nextLabel).match(pattern);
+
+      let value = sameLine?.[1];
+      if (!value && lines[index + 1]) {
+        // Summary box: the n-th label of a type takes the n-th value of that type below it
+        const ofType = labels.filter(l => l.field.type === field.type);
+        const values = lines[index + 1].match(new RegExp(pattern.source, 'g')) || [];
+        value = values[ofType.indexOf(labels[position])]?.match(pattern)?.[1];
+      }
+
+      if (value) {
+        const parsed = readValue(value, field.type);
+        if (parsed) (summary as Record<string, unknown>)[field.key] = parsed;
+      }
+    });
+  });
+
+  const period = text.match(
+    new RegExp(String.raw`(?:statement|billing) period\s*:?\s*(?:from\s*)?${DATE}\s*(?:to|-|–)\s*${DATE}`, 'i')
+  );
+  if (period) {
+    const start = parseDateValue(period[1], 'auto');
+    const end = parseDateValue(period[2], 'auto');
+    if (start && end) summary.billingPeriod = { start, end };
+  }
+
+  // Masked numbers ("4321 XXXX XXXX 9876"): the last group of four digits
+  const card = text.match(/card (?:no|number|ending(?: with)?)\.?\s*:?\s*([\dXx*•][\dXx*• -]*)/i);
+  const lastFour = card?.[1].match(/\d{4}/g)?.pop();
+  if (lastFour) summary.cardLast4 = lastFour;
+
+  const points = (pattern: RegExp) => {
+    const match = text.match(pattern);
+    return match ? parseInt(match[1].replace(/,/g, ''), 10) : undefined;
+  };
+  const earned = points(/points? earned[^\d\n]*([\d,]+)/i);
+  const redeemed = points(/points? redeemed[^\d\n]*([\d,]+)/i);
+  const balance = points(/(?:closing|available|total) (?:reward )?points?(?: balance)?[^\d\n]*([\d,]+)/i);
+  if (earned !== undefined || redeemed !== undefined || balance !== undefined) {
+    summary.rewardPoints = { earned, redeemed, balance };
+  }
+
+  return summary;
+}
+
+/**
+ * Pick transaction lines out of statement text
+ */
+export function parseCardStatementLines(lines: string[]): CardStatementLine[] {
+  const result: CardStatementLine[] = [];
+
+  lines.forEach(line => {
+    const match = line.trim().match(TRANSACTION_LINE);
+    if (!match) return;
+
+    const date = parseDateValue(match[1], 'auto');
+    const amount = parseAmountValue(match[3]);
+    const description = match[2]
+      .replace(new RegExp(`^${DATE}\\s+`), '') // Posting date after the transaction date
+      .replace(/\s+[+-]?\d{1,6}$/, '') // Reward points column
+      .trim();
+
+    // Summary rows ("12/06/2025 01/07/2025 12,345.00") have no description text
+    if (!date || amount === null || !/[a-z]/i.test(description)) return;
+    if (SUMMARY_ROW_PATTERN.test(description)) return;
+
+    result.push({
+      date,
+      description,
+      amount: Math.abs(amount),
+      isCredit: /^c/i.test(match[4] || '') || amount < 0,
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Read transaction lines from a CSV/XLS card statement
+ * Card exports list spends as positive amounts; credits carry "Cr", a sign or their own column
+ * Rows without a date or amount are listed in the report, when one is passed
+ */
+export function parseCardStatementRows(
+  rows: string[][],
+  report: ImportReport = createImportReport()
+): CardStatementLine[] {
+  const preview = getSheetPreview(rows);
+  const mapping = suggestMapping(preview);
+  const column = (name?: string) => (name ? preview.headers.indexOf(name) : -1);
+
+  const dateCol = column(mapping.date);
+  const timeCol = column(mapping.time);
+  const descriptionCol = column(mapping.description);
+  const amountCol = column(mapping.amount);
+  const indicatorCol = column(mapping.debitCreditColumn);
+  const debitCol = column(mapping.debit);
+  const creditCol = column(mapping.credit);
+
+  const result: CardStatementLine[] = [];
+  preview.rows.forEach((row, rowIndex) => {
+    const cell = (index: number) => (index >= 0 ? String(row[index] ?? '').trim() : '');
+    const date = parseDateValue(cell(dateCol), 'auto', cell(timeCol));
+    if (!date) {
+      recordSkipped(report, cell(dateCol) ? `Unrecognised date "${cell(dateCol)}"` : 'No date', row, rowIndex + 1);
+      return;
+    }
+
+    let amount: number | null;
+    let isCredit: boolean;
+    if (mapping.amountMode === 'split') {
+      const debit = parseAmountValue(cell(debitCol));
+      const credit = parseAmountValue(cell(creditCol));
+      amount = debit || credit;
+      isCredit = !debit && Boolean(credit);
+    } else {
+      const raw = cell(amountCol);
+      amount = parseAmountValue(raw);
+      isCredit = /^c/i.test(cell(indicatorCol)) || /cr\.?$/i.test(raw) || (amount !== null && amount < 0);
+    }
+
+    if (!amount) {
+      recordSkipped(report, 'No amount', row, rowIndex + 1);
+      return;
+    }
+    recordParsed(report);
+    result.push({
+      date,
+      description: cell(descriptionCol) || 'Card transaction',
+      amount: Math.abs(amount),
+      isCredit,
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Turn statement lines into records and the cycle summary
+ * - purchases and fees become transactions (fees tagged as finance charges)
+ * - bill payments received are kept on the statement, not counted as income
+ * - other credits (refunds, cashback) become 'received' activities
+ */
+export function buildCardStatementData(
+  summary: CardStatementSummary,
+  lines: CardStatementLine[],
+  sourceApp: UpiAppId
+): { transactions: Transaction[]; activities: ActivityRecord[]; statement: CardStatement } {
+  const transactions: Transaction[] = [];
+  const activities: ActivityRecord[] = [];
+  const usedIds = new Map<string, number>();
+  const statement: CardStatement = {
+    ...summary,
+    fees: { value: 0, currency: 'INR' },
+    paymentsReceived: [],
+    linkedPayments: [],
+    sourceApp,
+  };
+
+  const method = summary.cardLast4 ? `${summary.issuer} ••${summary.cardLast4}` : summary.issuer;
+
+  lines.forEach(line => {
+    const amount = { value: line.amount, currency: 'INR' as const };
+
+    if (line.isCredit) {
+      if (PAYMENT_PATTERN.test(line.description)) {
+        statement.paymentsReceived.push({ date: line.date, amount, description: line.description });
+      } else {
+        activities.push({
+          title: `Received ₹${line.amount.toFixed(2)}`,
+          time: line.date,
+          description: line.description,
+          transactionType: 'received',
+          amount,
+          sender: line.description,
+          sourceApp,
+        });
+      }
+      return;
+    }
+
+    const isFee = FEE_PATTERN.test(line.description);
+    if (isFee) statement.fees.value += line.amount;
+
+    const baseId = getRowId(line.date, line.amount, line.description);
+    const occurrence = (usedIds.get(baseId) || 0) + 1;
+    usedIds.set(baseId, occurrence);
+
+    transactions.push({
+      time: line.date,
+      id: occurrence > 1 ? `${baseId}-${occurrence}` : baseId,
+      description: line.description,
+      product: isFee ? 'Credit Card Fee' : 'Credit Card',
+      method,
+      status: 'Completed',
+      amount,
+      ...(isFee
+        ? { category: 'Investment & Finance' as TransactionCategory }
+        : classifyRecord(line.description, line.amount)),
+      sourceApp,
+    });
+  });
+
+  statement.fees.value = Math.round(statement.fees.value * 100) / 100;
+  return { transactions, activities, statement };
+}
@@ -13,16 +13,12 @@ export type TransactionCategory =
   | 'E-commerce'
   | 'Travel & Transport'
   | 'Bills & Utilities'
-  | 'Utilities & Bills'
   | 'Healthcare'
   | 'Education'
   | 'Investment & Finance'
-  | 'Investments'
-  | 'Transfers'
-  | 'Bank Transfers'
   | 'Transfers & Payments'
   | 'Services & Miscellaneous'
-  | 'Others';
+  | 'Uncategorized';
 
 // Extract categories from unified config
 const categories = classificationRules.categories as Record<string, { keywords: string[] }>;
@@ -69,7 +65,7 @@ export function categorizeTransaction(description: string): TransactionCategory
 
   for (const pattern of bankTransferPatterns) {
     if (pattern.test(description)) {
-      return 'Bank Transfers';
+      return 'Transfers & Payments';
     }
   }
 
@@ -81,7 +77,7 @@ export function categorizeTransaction(description: string): TransactionCategory
 
   for (const pattern of transferPatterns) {
     if (pattern.test(description)) {
-      return 'Transfers';
+      return 'Transfers & Payments';
     }
   }
 
@@ -89,7 +85,7 @@ export function categorizeTransaction(description: string): TransactionCategory
   // "Paid to [NAME]" where NAME is capitalized
   const personPaymentPattern = /(?:paid|to)\s+[A-Z][a-z]+(?:\s+[A-Z])?(?:\s+using\s+bank)/i;
   if (personPaymentPattern.test(description)) {
-    return 'Transfers';
+    return 'Transfers & Payments';
   }
 
   return 'Services & Miscellaneous'; // Default fallback
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  evaluateClassifier,
+  findRegressions,
+  formatEvaluationReport,
+  toBaseline,
+  type ClassifierBaseline,
+  type LabelledMerchant,
+} from './classifierEvaluation';
+
+const fixturePath = (name: string) => join(__dirname, '__fixtures__', name);
+const readFixture = <T>(name: string): T => JSON.parse(readFileSync(fixturePath(name), 'utf-8'));
+
+describe('evaluateClassifier', () => {
+  const evaluation = evaluateClassifier([
+    { merchant: 'Swiggy', category: 'Food' },
+    { merchant: 'Zomato', category: 'Food' },
+    { merchant: 'Uber', category: 'Travel & Transport' },
+    { merchant: 'Netflix', category: 'Food' },
+    { merchant: 'zzqx', category: 'Healthcare' },
+  ]);
+
+  it('should score precision and recall per category', () => {
+    expect(evaluation.accuracy).toBe(3 / 5);
+    expect(evaluation.perCategory.Food).toEqual({ precision: 1, recall: 2 / 3, support: 3 });
+    expect(evaluation.perCategory.Entertainment).toEqual({ precision: 0, recall: 0, support: 0 });
+    expect(evaluation.perCategory.Healthcare).toEqual({ precision: 0, recall: 0, support: 1 });
+  });
+
+  it('should count expected against predicted categories', () => {
+    expect(evaluation.confusion.Food).toEqual({ Food: 2, Entertainment: 1 });
+    expect(evaluation.confusion.Healthcare).toEqual({ Uncategorized: 1 });
+  });
+
+  it('should record which layer decided each merchant', () => {
+    expect(evaluation.perLayer.none).toEqual({ hits: 1, hitRate: 1 / 5, accuracy: 0 });
+    expect(evaluation.misses.map(miss => miss.merchant)).toEqual(['Netflix', 'zzqx']);
+    expect(evaluation.misses[1]).toMatchObject({ expected: 'Healthcare', predicted: 'Uncategorized', layer: 'none' });
+  });
+
+  it('should report regressions against a baseline', () => {
+    expect(findRegressions(evaluation, toBaseline(evaluation))).toEqual([]);
+    expect(findRegressions(evaluation, { accuracy: 0.8, recall: { Food: 1 } })).toEqual([
+      'Accuracy 60.0% is below the baseline 80.0%',
+      'Food recall 66.7% is below the baseline 100.0%',
+    ]);
+  });
+});
+
+// Benchmark against the labelled corpus. `npm run test:classifier` prints the report (it sets
+// CLASSIFIER_REPORT=1), and UPDATE_CLASSIFIER_BASELINE=1 stores the current scores as the new baseline.
+describe('classifier accuracy benchmark', () => {
+  it('should not regress below the stored baseline', () => {
+    const evaluation = evaluateClassifier(readFixture<LabelledMerchant[]>('merchant-corpus.json'));
+    if (process.env.CLASSIFIER_REPORT) {
+      console.log(formatEvaluationReport(evaluation));
+    }
+
+    if (process.env.UPDATE_CLASSIFIER_BASELINE) {
+      writeFileSync(fixturePath('classifier-baseline.json'), `${JSON.stringify(toBaseline(evaluation), null, 2)}\n`);
+    }
+
+    const baseline = readFixture<ClassifierBaseline>('classifier-baseline.json');
+    expect(findRegressions(evaluation, baseline)).toEqual([]);
+  });
+});
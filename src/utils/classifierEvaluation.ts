@@ -0,0 +1,200 @@
+/**
+ * Classifier Evaluation
+ * Scores the multi-layer classifier against a labelled merchant corpus
+ */
+
+import type { ClassificationResult, RuleType } from '../types/classifier.types';
+import { classifyTransactionMultiLayer } from './multi-layer-classifier';
+
+export interface LabelledMerchant {
+  merchant: string;
+  amount?: number;
+  category: string; // The category a person would put this merchant in
+}
+
+// Layer that decided a classification; 'none' when nothing matched
+export type ClassifierLayer = RuleType | 'none';
+
+export interface CategoryScore {
+  precision: number; // Of the merchants classified into this category, the share labelled with it
+  recall: number; // Of the merchants labelled with this category, the share classified into it
+  support: number; // Merchants labelled with this category
+}
+
+export interface LayerScore {
+  hits: number; // Merchants this layer decided
+  hitRate: number; // Share of the corpus this layer decided
+  accuracy: number; // Share of its decisions that were right
+}
+
+export interface ClassifierMiss {
+  merchant: string;
+  expected: string;
+  predicted: string;
+  layer: ClassifierLayer;
+  matcher: string;
+}
+
+export interface ClassifierEvaluation {
+  total: number;
+  correct: number;
+  accuracy: number;
+  perCategory: Record<string, CategoryScore>;
+  confusion: Record<string, Record<string, number>>; // Expected category → predicted category → count
+  perLayer: Partial<Record<ClassifierLayer, LayerScore>>;
+  misses: ClassifierMiss[];
+}
+
+// Accuracy figures a change to the rules must not fall below
+export interface ClassifierBaseline {
+  accuracy: number;
+  recall: Record<string, number>;
+}
+
+const ratio = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+// Rounded down, so a stored baseline never sits above the score it was taken from
+const floorTo4 = (value: number) => Math.floor(value * 10000) / 10000;
+
+const layerOf = (result: ClassificationResult): ClassifierLayer =>
+  result.matchedRule.matcher === 'none' ? 'none' : result.matchedRule.type;
+
+/**
+ * Classify every merchant in the corpus and score the results against their labels
+ */
+export function evaluateClassifier(corpus: LabelledMerchant[]): ClassifierEvaluation {
+  const confusion: ClassifierEvaluation['confusion'] = {};
+  const layerCounts: Partial<Record<ClassifierLayer, { hits: number; correct: number }>> = {};
+  const misses: ClassifierMiss[] = [];
+  let correct = 0;
+
+  corpus.forEach(({ merchant, amount, category: expected }) => {
+    const result = classifyTransactionMultiLayer(merchant, amount);
+    const predicted = result.category;
+    const layer = layerOf(result);
+    const isCorrect = predicted === expected;
+
+    confusion[expected] ??= {};
+    confusion[expected][predicted] = (confusion[expected][predicted] ?? 0) + 1;
+
+    const counts = (layerCounts[layer] ??= { hits: 0, correct: 0 });
+    counts.hits++;
+
+    if (isCorrect) {
+      correct++;
+      counts.correct++;
+    } else {
+      misses.push({ merchant, expected, predicted, layer, matcher: String(result.matchedRule.matcher) });
+    }
+  });
+
+  const categories = new Set(Object.keys(confusion));
+  Object.values(confusion).forEach(row => Object.keys(row).forEach(category => categories.add(category)));
+
+  const perCategory: ClassifierEvaluation['perCategory'] = {};
+  categories.forEach(category => {
+    const truePositives = confusion[category]?.[category] ?? 0;
+    const support = Object.values(confusion[category] ?? {}).reduce((sum, count) => sum + count, 0);
+    const predicted = Object.values(confusion).reduce((sum, row) => sum + (row[category] ?? 0), 0);
+    perCategory[category] = {
+      precision: ratio(truePositives, predicted),
+      recall: ratio(truePositives, support),
+      support,
+    };
+  });
+
+  const perLayer: ClassifierEvaluation['perLayer'] = {};
+  (Object.keys(layerCounts) as ClassifierLayer[]).forEach(layer => {
+    const { hits, correct: layerCorrect } = layerCounts[layer]!;
+    perLayer[layer] = { hits, hitRate: ratio(hits, corpus.length), accuracy: ratio(layerCorrect, hits) };
+  });
+
+  return {
+    total: corpus.length,
+    correct,
+    accuracy: ratio(correct, corpus.length),
+    perCategory,
+    confusion,
+    perLayer,
+    misses,
+  };
+}
+
+/**
+ * Figures from an evaluation to store as the baseline: overall accuracy and each labelled
+ * category's recall
+ */
+export function toBaseline(evaluation: ClassifierEvaluation): ClassifierBaseline {
+  const recall: Record<string, number> = {};
+  Object.entries(evaluation.perCategory)
+    .filter(([, score]) => score.support > 0)
+    .forEach(([category, score]) => {
+      recall[category] = floorTo4(score.recall);
+    });
+  return { accuracy: floorTo4(evaluation.accuracy), recall };
+}
+
+/**
+ * Where an evaluation falls below a baseline, one line per regression; empty when it doesn't
+ */
+export function findRegressions(evaluation: ClassifierEvaluation, baseline: ClassifierBaseline): string[] {
+  const regressions: string[] = [];
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  if (evaluation.accuracy < baseline.accuracy) {
+    regressions.push(`Accuracy ${percent(evaluation.accuracy)} is below the baseline ${percent(baseline.accuracy)}`);
+  }
+  Object.entries(baseline.recall).forEach(([category, expected]) => {
+    const recall = evaluation.perCategory[category]?.recall ?? 0;
+    if (recall < expected) {
+      regressions.push(`${category} recall ${percent(recall)} is below the baseline ${percent(expected)}`);
+    }
+  });
+  return regressions;
+}
+
+/**
+ * Plain-text report of an evaluation: the headline accuracy, per-category and per-layer scores,
+ * the confusion matrix and the merchants the classifier got wrong
+ */
+export function formatEvaluationReport(evaluation: ClassifierEvaluation): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+  const categories = Object.keys(evaluation.perCategory).sort();
+  const width = Math.max(...categories.map(category => category.length), 'Category'.length);
+  const lines: string[] = [];
+
+  lines.push(`Classifier accuracy: ${percent(evaluation.accuracy).trim()} (${evaluation.correct}/${evaluation.total})`);
+
+  lines.push('', `${'Category'.padEnd(width)}  Precision   Recall  Support`);
+  categories.forEach(category => {
+    const { precision, recall, support } = evaluation.perCategory[category];
+    lines.push(`${category.padEnd(width)}  ${percent(precision).padStart(9)}  ${percent(recall)}  ${String(support).padStart(7)}`);
+  });
+
+  lines.push('', `${'Layer'.padEnd(width)}       Hits  Hit rate  Accuracy`);
+  Object.entries(evaluation.perLayer)
+    .sort(([, a], [, b]) => b.hits - a.hits)
+    .forEach(([layer, { hits, hitRate, accuracy }]) => {
+      lines.push(`${layer.padEnd(width)}  ${String(hits).padStart(9)}  ${percent(hitRate).padStart(8)}  ${percent(accuracy).padStart(8)}`);
+    });
+
+  // Columns are numbered to keep the matrix narrow; the key is the row order
+  lines.push('', 'Confusion matrix (rows: expected, columns: predicted)');
+  lines.push(`${''.padEnd(width + 5)}${categories.map((_, index) => String(index + 1).padStart(4)).join('')}`);
+  categories.forEach((expected, row) => {
+    const cells = categories.map(predicted => {
+      const count = evaluation.confusion[expected]?.[predicted] ?? 0;
+      return (count ? String(count) : '.').padStart(4);
+    });
+    lines.push(`${String(row + 1).padStart(3)}  ${expected.padEnd(width)}${cells.join('')}`);
+  });
+
+  if (evaluation.misses.length > 0) {
+    lines.push('', 'Misclassified');
+    evaluation.misses.forEach(({ merchant, expected, predicted, layer, matcher }) => {
+      lines.push(`  ${merchant}: expected ${expected}, got ${predicted} (${layer} "${matcher}")`);
+    });
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyMapping,
+  findHeaderRow,
+  findMatchingProfile,
+  getHeaderSignature,
+  getSheetPreview,
+  parseAmountValue,
+  parseDateValue,
+  suggestMapping,
+  validateMapping,
+} from './columnMapping';
+import type { ColumnMapping, MappingProfile } from '../types/mapping.types';
+
+const bankRows = [
+  ['Account Statement', '', '', '', ''],
+  ['Account No: XXXX1234', '', '', '', ''],
+  ['Txn Date', 'Narration', 'Withdrawal Amt', 'Deposit Amt', 'Ref No'],
+  ['01/06/2025', 'UPI/SWIGGY/Food', '250.00', '', 'UTR001'],
+  ['02/06/2025', 'Salary June', '', '50,000.00', 'UTR002'],
+  ['', '', '', '', ''],
+  ['Closing Balance', '', '', '', ''],
+];
+
+const profile = (overrides: Partial<MappingProfile>): MappingProfile => ({
+  id: 'profile-1',
+  name: 'My Bank',
+  headers: ['Date', 'Details', 'Amount'],
+  signature: 'date|details|amount',
+  mapping: {
+    headerRow: 0,
+    date: 'Date',
+    dateFormat: 'auto',
+    description: 'Details',
+    amountMode: 'signed',
+    amount: 'Amount',
+  },
+  createdAt: '2025-06-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('columnMapping', () => {
+  describe('findHeaderRow', () => {
+    it('should skip the preamble before the table', () => {
+      expect(findHeaderRow(bankRows)).toBe(2);
+    });
+
+    it('should default to the first row when no header is found', () => {
+      expect(findHeaderRow([['a', 'b'], ['1', '2']])).toBe(0);
+    });
+  });
+
+  describe('getHeaderSignature', () => {
+    it('should ignore case, spacing and empty headers', () => {
+      expect(getHeaderSignature([' Txn  Date', 'NARRATION', ''])).toBe('txn date|narration');
+    });
+  });
+
+  describe('suggestMapping', () => {
+    it('should guess split debit/credit columns from bank headers', () => {
+      const mapping = suggestMapping(getSheetPreview(bankRows));
+
+      expect(mapping.headerRow).toBe(2);
+      expect(mapping.date).toBe('Txn Date');
+      expect(mapping.description).toBe('Narration');
+      expect(mapping.amountMode).toBe('split');
+      expect(mapping.debit).toBe('Withdrawal Amt');
+      expect(mapping.credit).toBe('Deposit Amt');
+      expect(mapping.reference).toBe('Ref No');
+    });
+  });
+
+  describe('parseDateValue', () => {
+    it('should parse day-first dates by default', () => {
+      expect(parseDateValue('05/06/2025', 'auto')).toEqual(new Date(2025, 5, 5));
+    });
+
+    it('should respect an explicit month-first format', () => {
+      expect(parseDateValue('05/06/2025', 'MM/DD/YYYY')).toEqual(new Date(2025, 4, 6));
+    });
+
+    it('should parse ISO dates and times', () => {
+      expect(parseDateValue('2025-06-05 14:30:00', 'auto')).toEqual(new Date(2025, 5, 5, 14, 30));
+    });
+
+    it('should parse month names and a separate time column', () => {
+      expect(parseDateValue('5 Jun 2025', 'DD MMM YYYY', '2:15 PM')).toEqual(
+        new Date(2025, 5, 5, 14, 15)
+      );
+    });
+
+    it('should reject invalid dates', () => {
+      expect(parseDateValue('31/02/2025', 'auto')).toBeNull();
+      expect(parseDateValue('Closing Balance', 'auto')).toBeNull();
+    });
+  });
+
+  describe('parseAmountValue', () => {
+    it('should strip currency symbols and separators', () => {
+      expect(parseAmountValue('₹1,234.50')).toBe(1234.5);
+      expect(parseAmountValue('INR 99')).toBe(99);
+    });
+
+    it('should read negative amounts in all common notations', () => {
+      expect(parseAmountValue('-250')).toBe(-250);
+      expect(parseAmountValue('(250.00)')).toBe(-250);
+      expect(parseAmountValue('250.00 Dr')).toBe(-250);
+    });
+
+    it('should return null for empty cells', () => {
+      expect(parseAmountValue('')).toBeNull();
+      expect(parseAmountValue('-')).toBeNull();
+    });
+  });
+
+  describe('validateMapping', () => {
+    it('should require an amount column for signed amounts', () => {
+      const mapping: ColumnMapping = { ...profile({}).mapping, amount: undefined };
+      expect(validateMapping(mapping)).toBe('Choose the amount column');
+    });
+  });
+
+  describe('applyMapping', () => {
+    it('should turn debits into transactions and credits into received activities', () => {
+      const mapping = suggestMapping(getSheetPreview(bankRows));
+      const result = applyMapping(bankRows, mapping, 'generic');
+
+      expect(result.transactions).toHaveLength(1);
+      expect(result.transactions[0]).toMatchObject({
+        id: 'UTR001',
+        description: 'UPI/SWIGGY/Food',
+        amount: { value: 250, currency: 'INR' },
+        referenceId: 'UTR001',
+        sourceApp: 'generic',
+      });
+
+      expect(result.activities).toHaveLength(1);
+      expect(result.activities[0]).toMatchObject({
+        transactionType: 'received',
+        amount: { value: 50000, currency: 'INR' },
+      });
+
+      // The closing balance footer has no date
+      expect(result.report).toMatchObject({ rowsRead: 3, rowsParsed: 2, rowsSkipped: 1 });
+      expect(result.report.skipped[0].reason).toMatch(/date/i);
+    });
+
+    it('should use a DR/CR indicator column for signed amounts', () => {
+      const rows = [
+        ['Date', 'Details', 'Amount', 'Type'],
+        ['2025-06-01', 'Zomato', '300', 'DR'],
+        ['2025-06-02', 'Refund', '300', 'CR'],
+      ];
+      const mapping: ColumnMapping = {
+        ...profile({}).mapping,
+        debitCreditColumn: 'Type',
+      };
+
+      const result = applyMapping(rows, mapping, 'generic');
+
+      expect(result.transactions.map(t => t.description)).toEqual(['Zomato']);
+      expect(result.activities.map(a => a.description)).toEqual(['Refund']);
+    });
+
+    it('should read single-letter DR/CR codes only on their own', () => {
+      const rows = [
+        ['Date', 'Details', 'Amount', 'Type'],
+        ['2025-06-01', 'Cash deposit', '-500', 'Deposit'],
+        ['2025-06-02', 'Swiggy', '250', 'D'],
+        ['2025-06-03', 'Cashback', '-20', 'C'],
+        ['2025-06-04', 'Uber', '180', 'DR.'],
+        ['2025-06-05', 'Salary', '-50000', 'CR'],
+      ];
+      const mapping: ColumnMapping = {
+        ...profile({}).mapping,
+        debitCreditColumn: 'Type',
+      };
+
+      const result = applyMapping(rows, mapping, 'generic');
+
+      expect(result.transactions.map(t => t.description)).toEqual(['Swiggy', 'Uber']);
+      expect(result.activities.map(a => a.description)).toEqual(['Cash deposit', 'Cashback', 'Salary']);
+    });
+
+    it('should treat positive amounts as spends when configured', () => {
+      const rows = [
+        ['Date', 'Details', 'Amount'],
+        ['2025-06-01', 'Uber', '180'],
+      ];
+      const mapping: ColumnMapping = { ...profile({}).mapping, positiveIsDebit: true };
+
+      expect(applyMapping(rows, mapping, 'generic').transactions).toHaveLength(1);
+    });
+
+    it('should give rows without a reference IDs based on their content', () => {
+      const rows = [
+        ['Date', 'Details', 'Amount', 'Ref'],
+        ['2025-06-01', 'Uber', '-180', '-'],
+        ['2025-06-01', 'Uber', '-180', ''],
+        ['2025-06-02', 'Ola', '-90', ''],
+      ];
+      const mapping: ColumnMapping = { ...profile({}).mapping, reference: 'Ref' };
+
+      const ids = applyMapping(rows, mapping, 'generic').transactions.map(t => t.id);
+      const otherFile = applyMapping([rows[0], rows[3]], mapping, 'generic').transactions.map(t => t.id);
+
+      expect(ids[0]).not.toMatch(/^row-/);
+      expect(ids[1]).toBe(`${ids[0]}-2`);
+      expect(otherFile).toEqual([ids[2]]);
+    });
+  });
+
+  describe('findMatchingProfile', () => {
+    it('should match a profile by header signature', () => {
+      const match = findMatchingProfile([profile({})], ['date', 'DETAILS', 'Amount']);
+      expect(match?.id).toBe('profile-1');
+    });
+
+    it('should not match a profile when the file has other headers', () => {
+      expect(findMatchingProfile([profile({})], ['Date', 'Details', 'Amount', 'Balance'])).toBeNull();
+    });
+
+    it('should not match when a mapped column is missing', () => {
+      expect(findMatchingProfile([profile({})], ['Date', 'Amount'])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,385 @@
+// Apply user-defined column mappings to generic CSV/XLSX statements
+
+import type { UpiAppId } from '../types/app.types';
+import type { Transaction, ActivityRecord, ImportReport } from '../types/data.types';
+import type {
+  ColumnMapping,
+  DateFormat,
+  MappingProfile,
+  SheetPreview,
+} from '../types/mapping.types';
+import { classifyRecord } from './multi-layer-classifier';
+import { createImportReport, recordParsed, recordSkipped } from './importReport';
+
+const HEADER_SCAN_ROWS = 25;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Header keywords used to find the header row and suggest a mapping
+const HEADER_HINTS: Record<
+  'date' | 'time' | 'description' | 'amount' | 'debit' | 'credit' | 'drCr' | 'status' | 'reference',
+  RegExp
+> = {
+  date: /\b(date|txn date|transaction date|value date|posted)\b/i,
+  time: /\btime\b/i,
+  description: /(description|narration|particulars|details|remarks|merchant|payee|name)/i,
+  amount: /^(amount|amt|transaction amount|txn amount)(\s*\(.*\))?$/i,
+  debit: /(debit|withdrawal|withdrawl|paid out|dr\.? amount)/i,
+  credit: /(credit|deposit|paid in|cr\.? amount)/i,
+  drCr: /^(dr\s*\/\s*cr|cr\s*\/\s*dr|type|debit\/credit|txn type)$/i,
+  status: /\bstatus\b/i,
+  reference: /(utr|ref|reference|chq|cheque|transaction id|txn id)/i,
+};
+
+const FAILED_STATUS = /(fail|declin|revers|cancel|reject|pending)/i;
+
+/**
+ * Normalize a header row so the same export always produces the same signature
+ */
+export function getHeaderSignature(headers: string[]): string {
+  return headers
+    .map(h => h.trim().toLowerCase().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .join('|');
+}
+
+/**
+ * Find the header row: the first row with a date column and at least three labels
+ * Bank downloads often start with account details before the table
+ */
+export function findHeaderRow(rows: string[][]): number {
+  const limit = Math.min(rows.length, HEADER_SCAN_ROWS);
+  for (let i = 0; i < limit; i++) {
+    const cells = rows[i].map(c => String(c).trim()).filter(Boolean);
+    if (cells.length >= 3 && cells.some(c => HEADER_HINTS.date.test(c))) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Split raw sheet rows into headers and data rows
+ */
+export function getSheetPreview(rows: string[][], headerRow: number = findHeaderRow(rows)): SheetPreview {
+  const headers = (rows[headerRow] || []).map(h => String(h).trim());
+  const dataRows = rows
+    .slice(headerRow + 1)
+    .filter(row => row.some(cell => String(cell).trim() !== ''));
+  return { headerRow, headers, rows: dataRows };
+}
+
+/**
+ * Guess a mapping from header names, for the wizard to start from
+ */
+export function suggestMapping(preview: SheetPreview): ColumnMapping {
+  const find = (pattern: RegExp, exclude: string[] = []) =>
+    preview.headers.find(h => h && pattern.test(h) && !exclude.includes(h));
+
+  const date = find(HEADER_HINTS.date) || preview.headers[0] || '';
+  const debit = find(HEADER_HINTS.debit, [date]);
+  const credit = find(HEADER_HINTS.credit, [date]);
+  const amount = find(HEADER_HINTS.amount);
+
+  return {
+    headerRow: preview.headerRow,
+    date,
+    dateFormat: 'auto',
+    time: find(HEADER_HINTS.time, [date]),
+    description: find(HEADER_HINTS.description, [date]) || '',
+    amountMode: debit && credit && !amount ? 'split' : 'signed',
+    amount,
+    debitCreditColumn: find(HEADER_HINTS.drCr),
+    positiveIsDebit: false,
+    debit,
+    credit,
+    status: find(HEADER_HINTS.status),
+    reference: find(HEADER_HINTS.reference, [date]),
+  };
+}
+
+/**
+ * Find a saved profile for a header row
+ * Only an exact header match counts: banks share column names but not date formats or signs,
+ * so files with other headers go through the wizard again
+ */
+export function findMatchingProfile(
+  profiles: MappingProfile[],
+  headers: string[]
+): MappingProfile | null {
+  const signature = getHeaderSignature(headers);
+  return profiles.find(p => p.signature === signature) || null;
+}
+
+/**
+ * Check a mapping has everything needed to build transactions
+ * @returns Error message, or null when the mapping is usable
+ */
+export function validateMapping(mapping: ColumnMapping): string | null {
+  if (!mapping.date) return 'Choose the date column';
+  if (!mapping.description) return 'Choose the description column';
+  if (mapping.amountMode === 'signed' && !mapping.amount) return 'Choose the amount column';
+  if (mapping.amountMode === 'split' && !mapping.debit && !mapping.credit) {
+    return 'Choose the debit and/or credit column';
+  }
+  return null;
+}
+
+/**
+ * Parse a date cell using the chosen format
+ * Times in the same cell ("12/01/2025 14:05", "12 Jan 2025 02:05 PM") are kept
+ */
+export function parseDateValue(value: string, format: DateFormat, timeValue?: string): Date | null {
+  const text = String(value || '').trim();
+  if (!text) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+  let rest: string;
+
+  const numeric = text.match(/^(\d{1,4})[/\-.](\d{1,2})[/\-.](\d{1,4})(.*)$/);
+  const named = text.match(/^(\d{1,2})[\s\-/]([A-Za-z]{3,9})[\s\-/,]+(\d{2,4})(.*)$/);
+
+  if (named && (format === 'DD MMM YYYY' || format === 'auto')) {
+    day = parseInt(named[1], 10);
+    month = MONTHS.indexOf(named[2].slice(0, 3).toLowerCase());
+    year = parseInt(named[3], 10);
+    rest = named[4];
+    if (month === -1) return null;
+  } else if (numeric) {
+    const [a, b, c] = [numeric[1], numeric[2], numeric[3]].map(n => parseInt(n, 10));
+    rest = numeric[4];
+
+    if (numeric[1].length === 4 || format === 'YYYY-MM-DD') {
+      [year, month, day] = [a, b - 1, c];
+    } else if (format === 'MM/DD/YYYY') {
+      [month, day, year] = [a - 1, b, c];
+    } else {
+      // DD/MM/YYYY, DD-MM-YYYY and the 'auto' default for Indian statements
+      [day, month, year] = [a, b - 1, c];
+    }
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+
+  const time = parseTimeValue(timeValue || rest);
+  const date = new Date(year, month, day, time.hours, time.minutes, time.seconds);
+
+  // Reject overflowed dates like 31/02 and out-of-range months
+  if (isNaN(date.getTime()) || date.getDate() !== day || date.getMonth() !== month) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse "14:05", "14:05:30" or "2:05 PM"; missing times are midnight
+ */
+function parseTimeValue(value: string): { hours: number; minutes: number; seconds: number } {
+  const match = String(value || '').match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i);
+  if (!match) return { hours: 0, minutes: 0, seconds: 0 };
+
+  let hours = parseInt(match[1], 10);
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+
+  return {
+    hours,
+    minutes: parseInt(match[2], 10),
+    seconds: match[3] ? parseInt(match[3], 10) : 0,
+  };
+}
+
+/**
+ * Parse an amount cell: "₹1,234.50", "-250", "(250.00)", "250.00 Dr", "INR 99"
+ * @returns Signed value (negative for debits marked in the cell) or null if empty
+ */
+export function parseAmountValue(value: string): number | null {
+  let text = String(value ?? '').trim();
+  if (!text || text === '-') return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/\bdr\.?$/i.test(text)) {
+    sign = -1;
+  }
+
+  const cleaned = text.replace(/(inr|rs\.?|₹|,|\s|dr\.?$|cr\.?$)/gi, '');
+  if (cleaned.startsWith('-')) sign = -sign;
+
+  const amount = parseFloat(cleaned.replace(/^[+-]/, ''));
+  return isNaN(amount) ? null : sign * amount;
+}
+
+/**
+ * Result of applying a mapping to a sheet
+ */
+export interface MappedRecords {
+  transactions: Transaction[];
+  activities: ActivityRecord[];
+  report: ImportReport; // Data rows after the header; blank rows aren't counted
+}
+
+/**
+ * Turn sheet rows into records using a column mapping
+ * Debits become transactions (spending); credits become 'received' activities
+ */
+export function applyMapping(
+  rows: string[][],
+  mapping: ColumnMapping,
+  sourceApp: UpiAppId
+): MappedRecords {
+  const headers = (rows[mapping.headerRow] || []).map(h => String(h).trim());
+  const column = (name?: string) => (name ? headers.indexOf(name) : -1);
+  const cell = (row: string[], index: number) => (index >= 0 ? String(row[index] ?? '').trim() : '');
+
+  const dateCol = column(mapping.date);
+  const timeCol = column(mapping.time);
+  const descriptionCol = column(mapping.description);
+  const amountCol = column(mapping.amount);
+  const drCrCol = column(mapping.debitCreditColumn);
+  const debitCol = column(mapping.debit);
+  const creditCol = column(mapping.credit);
+  const statusCol = column(mapping.status);
+  const referenceCol = column(mapping.reference);
+
+  const transactions: Transaction[] = [];
+  const activities: ActivityRecord[] = [];
+  const usedIds = new Map<string, number>();
+  const report = createImportReport();
+
+  for (let i = mapping.headerRow + 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (!row || row.every(c => String(c).trim() === '')) continue;
+
+    const time = parseDateValue(cell(row, dateCol), mapping.dateFormat, cell(row, timeCol));
+    const signedAmount = getSignedAmount(row, mapping, {
+      amountCol,
+      drCrCol,
+      debitCol,
+      creditCol,
+      cell,
+    });
+
+    // Totals, opening balances and footers have no date or no amount
+    if (!time) {
+      const date = cell(row, dateCol);
+      recordSkipped(report, date ? `Unrecognised date "${date}"` : 'No date', row, i + 1);
+      continue;
+    }
+    if (signedAmount === null || signedAmount === 0) {
+      recordSkipped(report, signedAmount === 0 ? 'Zero amount' : 'No amount', row, i + 1);
+      continue;
+    }
+
+    const description = cell(row, descriptionCol) || 'Spreadsheet transaction';
+    const status = cell(row, statusCol) || 'Completed';
+    const reference = normalizeReference(cell(row, referenceCol));
+    const value = Math.abs(signedAmount);
+
+    if (signedAmount < 0) {
+      // Content-based IDs stay stable when the same rows appear in overlapping statements
+      const baseId = reference || getRowId(time, value, description);
+      const occurrence = (usedIds.get(baseId) || 0) + 1;
+      usedIds.set(baseId, occurrence);
+
+      transactions.push({
+        time,
+        id: occurrence > 1 ? `${baseId}-${occurrence}` : baseId,
+        description,
+        product: 'Spreadsheet',
+        method: 'Imported',
+        status,
+        amount: { value, currency: 'INR' },
+        ...classifyRecord(description, value),
+        referenceId: reference,
+        sourceApp,
+      });
+      recordParsed(report);
+    } else if (FAILED_STATUS.test(status)) {
+      recordSkipped(report, `Credit with status "${status}"`, row, i + 1);
+    } else {
+      activities.push({
+        title: `Received ₹${value.toFixed(2)}`,
+        time,
+        description,
+        transactionType: 'received',
+        amount: { value, currency: 'INR' },
+        sender: description,
+        sourceApp,
+      });
+      recordParsed(report);
+    }
+  }
+
+  return { transactions, activities, report };
+}
+
+/**
+ * Keep reference cells that look like real UTR/transaction numbers
+ * Placeholders ("-", "NA", "000000") would otherwise link unrelated payments
+ */
+export function normalizeReference(value: string): string | undefined {
+  const reference = String(value || '').trim().replace(/^0+/, '');
+  if (reference.length < 6 || !/\d/.test(reference) || /\s/.test(reference)) {
+    return undefined;
+  }
+  return reference;
+}
+
+/**
+ * ID for a row without a reference: date, amount and a short description hash
+ */
+export function getRowId(time: Date, value: number, description: string): string {
+  let hash = 5381;
+  for (let i = 0; i < description.length; i++) {
+    hash = ((hash << 5) + hash + description.charCodeAt(i)) | 0;
+  }
+
+  const day = `${time.getFullYear()}${String(time.getMonth() + 1).padStart(2, '0')}${String(time.getDate()).padStart(2, '0')}`;
+  return `${day}-${Math.round(value * 100)}-${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Signed amount for a row: negative for money going out
+ */
+function getSignedAmount(
+  row: string[],
+  mapping: ColumnMapping,
+  columns: {
+    amountCol: number;
+    drCrCol: number;
+    debitCol: number;
+    creditCol: number;
+    cell: (row: string[], index: number) => string;
+  }
+): number | null {
+  const { cell } = columns;
+
+  if (mapping.amountMode === 'split') {
+    const debit = parseAmountValue(cell(row, columns.debitCol));
+    const credit = parseAmountValue(cell(row, columns.creditCol));
+    if (debit) return -Math.abs(debit);
+    if (credit) return Math.abs(credit);
+    return null;
+  }
+
+  const amount = parseAmountValue(cell(row, columns.amountCol));
+  if (amount === null) return null;
+
+  const indicator = cell(row, columns.drCrCol).toLowerCase();
+  if (indicator) {
+    // Single-letter codes only count on their own, so "Deposit" or "Charge" isn't read as D or C
+    if (/^(dr|d)\b|^(debit|withdrawal|paid|sent)/.test(indicator)) return -Math.abs(amount);
+    if (/^(cr|c)\b|^(credit|deposit|received)/.test(indicator)) return Math.abs(amount);
+  }
+
+  return mapping.positiveIsDebit ? -amount : amount;
+}
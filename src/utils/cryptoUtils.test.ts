@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { deriveKey, generateSalt, encryptText, decryptText } from './cryptoUtils';
+
+// Keep key derivation cheap in tests
+const ITERATIONS = 1000;
+
+describe('cryptoUtils', () => {
+  it('should round-trip text with the same passphrase', async () => {
+    const salt = generateSalt();
+    const key = await deriveKey('correct horse', salt, ITERATIONS);
+
+    const payload = await encryptText(key, 'Paid ₹250 to Swiggy');
+    const sameKey = await deriveKey('correct horse', salt, ITERATIONS);
+
+    expect(await decryptText(sameKey, payload)).toBe('Paid ₹250 to Swiggy');
+  });
+
+  it('should not store the plaintext in the ciphertext', async () => {
+    const key = await deriveKey('correct horse', generateSalt(), ITERATIONS);
+    const payload = await encryptText(key, 'Swiggy');
+
+    expect(new TextDecoder().decode(payload.ciphertext)).not.toContain('Swiggy');
+  });
+
+  it('should use a fresh IV for every encryption', async () => {
+    const key = await deriveKey('correct horse', generateSalt(), ITERATIONS);
+    const first = await encryptText(key, 'same text');
+    const second = await encryptText(key, 'same text');
+
+    expect(Array.from(first.iv)).not.toEqual(Array.from(second.iv));
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const salt = generateSalt();
+    const key = await deriveKey('correct horse', salt, ITERATIONS);
+    const payload = await encryptText(key, 'secret');
+
+    const wrongKey = await deriveKey('battery staple', salt, ITERATIONS);
+
+    await expect(decryptText(wrongKey, payload)).rejects.toThrow('Incorrect passphrase');
+  });
+});
@@ -0,0 +1,77 @@
+// WebCrypto helpers for the passphrase-encrypted local vault
+
+export const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Encrypted payload with the IV needed to decrypt it
+ */
+export interface EncryptedPayload {
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer;
+}
+
+/**
+ * Generate a random salt for key derivation
+ */
+export function generateSalt(): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase using PBKDF2-SHA-256
+ * The key is non-extractable, so it can only be used for encrypt/decrypt
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a string with AES-GCM using a fresh random IV
+ */
+export async function encryptText(key: CryptoKey, text: string): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+  return { iv, ciphertext };
+}
+
+/**
+ * Decrypt an AES-GCM payload back to a string
+ * @throws Error if the key is wrong or the data was tampered with
+ */
+export async function decryptText(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: payload.iv },
+      key,
+      payload.ciphertext
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM authentication fails the same way for a wrong key and for corrupted data
+    throw new Error('Incorrect passphrase. Please try again.');
+  }
+}
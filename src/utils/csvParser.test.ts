@@ -92,6 +92,32 @@ describe('csvParser', () => {
       expect(result.data!.length).toBeGreaterThanOrEqual(2);
     });
 
+    it('should report skipped rows with the reason and raw row', () => {
+      const csvContent = `Time,Transaction ID,Description,Product,Payment method,Status,Amount
+"Nov 14, 2025, 4:52 AM",GPY.123,Test,Product,Method,Complete,INR 100.00
+"Nov 14, 2025, 4:52 AM",,Missing ID,Product,Method,Complete,INR 100.00`;
+
+      const result = parseTransactionsCSV(csvContent);
+
+      expect(result.report).toMatchObject({ rowsRead: 2, rowsParsed: 1, rowsSkipped: 1 });
+      expect(result.report!.skipped[0]).toMatchObject({
+        reason: 'Missing time or transaction ID',
+        row: 2,
+      });
+      expect(result.report!.skipped[0].snippet).toContain('Missing ID');
+    });
+
+    it('should skip rows whose time cannot be read', () => {
+      const csvContent = `Time,Transaction ID,Description,Product,Payment method,Status,Amount
+"Nov 14, 2025, 4:52 AM",GPY.123,Test,Product,Method,Complete,INR 100.00
+yesterday,GPY.456,Test,Product,Method,Complete,INR 200.00`;
+
+      const result = parseTransactionsCSV(csvContent);
+
+      expect(result.data).toHaveLength(1);
+      expect(result.report!.skipped[0]).toMatchObject({ reason: 'Unreadable time', row: 2 });
+    });
+
     it('should handle different date formats', () => {
       const csvContent = `Time,Transaction ID,Description,Product,Payment method,Status,Amount
 "Dec 6, 2024, 3:30 PM",GPY.123,Test,Product,Method,Complete,INR 100.00`;
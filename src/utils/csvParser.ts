@@ -1,21 +1,25 @@
 import Papa from 'papaparse';
-import { classifyTransaction } from './multi-layer-classifier';
+import { classifyRecord } from './multi-layer-classifier';
+import type { ImportReport } from '../types/data.types';
+import { transformRows, type SkipRow } from './importReport';
 
 export interface CSVParseResult<T> {
   success: boolean;
   data?: T[];
   error?: string;
+  report?: ImportReport; // Rows read, parsed and skipped by the transform
 }
 
 /**
  * Generic CSV parser using PapaParse with TypeScript support
  * @param csvString - Raw CSV string
- * @param transform - Optional transformation function to convert row to desired type
+ * @param transform - Optional transformation function to convert row to desired type;
+ *   rows it rejects (null, or skip(reason)) are listed in the report
  * @returns Parsed data array or error
  */
 export function parseCSV<T>(
   csvString: string,
-  transform?: (row: any) => T | null
+  transform?: (row: any, skip: SkipRow) => T | null
 ): CSVParseResult<T> {
   try {
     if (!csvString || csvString.trim().length === 0) {
@@ -40,12 +44,10 @@ export function parseCSV<T>(
       return { success: true, data: result.data as T[] };
     }
 
-    // Apply transformation and filter out null values
-    const transformedData = result.data
-      .map(transform)
-      .filter((item): item is T => item !== null);
+    // Apply transformation, reporting the rows it rejects
+    const { data, report } = transformRows(result.data, transform);
 
-    return { success: true, data: transformedData };
+    return { success: true, data, report };
   } catch (error) {
     console.error('CSV parsing exception:', error);
     return {
@@ -59,20 +61,17 @@ export function parseCSV<T>(
  * Parse transaction CSV with custom transformation
  */
 export function parseTransactionsCSV(csvString: string) {
-  let rowsProcessed = 0;
-  let rowsSkipped = 0;
-
-  const result = parseCSV(csvString, (row) => {
-    rowsProcessed++;
+  return parseCSV(csvString, (row, skip) => {
     try {
       // Skip invalid rows - use exact column names from CSV
       const transactionId = row['Transaction ID'] || row.ID;
       if (!row.Time || !transactionId) {
-        rowsSkipped++;
-        if (rowsSkipped <= 3) {
-          console.warn(`Skipping row ${rowsProcessed} - missing Time or Transaction ID:`, row);
-        }
-        return null;
+        return skip('Missing time or transaction ID');
+      }
+
+      const time = new Date(row.Time);
+      if (Number.isNaN(time.getTime())) {
+        return skip('Unreadable time');
       }
 
       const description = row.Description || '';
@@ -81,22 +80,19 @@ export function parseTransactionsCSV(csvString: string) {
       const amountValue = parseFloat(amountStr.replace(/[₹$,]/g, '')) || 0;
 
       return {
-        time: new Date(row.Time),
+        time,
         id: transactionId,
         description,
         product: row.Product || '',
         method: row['Payment method'] || row.Method || '',
         status: row.Status || '',
         amount: amountStr, // Will be parsed by currencyUtils
-        category: classifyTransaction(description, amountValue),
+        ...classifyRecord(description, amountValue),
       };
     } catch (error) {
-      console.error(`Error transforming row ${rowsProcessed}:`, error, row);
-      return null;
+      return skip(error instanceof Error ? error.message : 'Row could not be read');
     }
   });
-
-  return result;
 }
 
 /**
@@ -268,6 +268,18 @@ describe('dateUtils - Failed Transaction Filtering', () => {
 
       expect(result).toHaveLength(0);
     });
+
+    it('should keep failed and reversed transactions when asked to', () => {
+      const transactions: Transaction[] = [
+        createTransaction('1', new Date('2024-06-01'), createCurrency(100), 'Failed'),
+        createTransaction('2', new Date('2025-01-01'), createCurrency(200), 'Failed'),
+        createTransaction('3', new Date('2025-01-02'), createCurrency(300), 'Reversed'),
+      ];
+
+      const result = filterTransactionsByYear(transactions, '2025', { includeFailed: true });
+
+      expect(result.map(t => t.id)).toEqual(['2', '3']);
+    });
   });
 
   describe('filterActivitiesByYear', () => {
@@ -1,13 +1,17 @@
 // Date utility functions for filtering and processing transaction data
 
-import { Transaction, GroupExpense, CashbackReward, Voucher, ActivityRecord } from '../types/data.types';
+import { Transaction, GroupExpense, CashbackReward, Voucher, ActivityRecord, LedgerEntry } from '../types/data.types';
 
 export type YearFilter = '2025' | '2024' | '2023' | 'all';
 
+export interface StatusFilterOptions {
+  includeFailed?: boolean; // Keep failed and reversed items, for the ledger to link and mark
+}
+
 /**
  * Check if a transaction status indicates failure
  */
-function isFailedTransaction(status: string): boolean {
+export function isFailedTransaction(status: string): boolean {
   if (!status) return false;
   const lowerStatus = status.toLowerCase();
   const failedStatuses = ['failed', 'declined', 'cancelled', 'canceled', 'rejected', 'error', 'refund', 'reversed'];
@@ -15,17 +19,19 @@ function isFailedTransaction(status: string): boolean {
 }
 
 /**
- * Filter transactions by year (excludes failed transactions)
+ * Filter transactions by year (excludes failed transactions unless asked to keep them)
  */
 export function filterTransactionsByYear(
   transactions: Transaction[],
-  year: YearFilter
+  year: YearFilter,
+  options: StatusFilterOptions = {}
 ): Transaction[] {
   // First filter out failed transactions
-  const failedCount = transactions.filter(t => isFailedTransaction(t.status)).length;
-  const successfulTransactions = transactions.filter(t => !isFailedTransaction(t.status));
+  const successfulTransactions = options.includeFailed
+    ? transactions
+    : transactions.filter(t => !isFailedTransaction(t.status));
 
-  console.log(`Filtering transactions - ${failedCount} failed excluded`);
+  console.log(`Filtering transactions - ${transactions.length - successfulTransactions.length} failed excluded`);
 
   if (year === 'all') {
     return successfulTransactions;
@@ -95,7 +101,7 @@ export function filterVouchersByYear(
 /**
  * Check if an activity indicates a failed transaction
  */
-function isFailedActivity(activity: ActivityRecord): boolean {
+export function isFailedActivity(activity: ActivityRecord): boolean {
   const title = activity.title.toLowerCase();
   const description = (activity.description || '').toLowerCase();
 
@@ -124,17 +130,19 @@ function isFailedActivity(activity: ActivityRecord): boolean {
 }
 
 /**
- * Filter activities by year (excludes failed activities)
+ * Filter activities by year (excludes failed activities unless asked to keep them)
  */
 export function filterActivitiesByYear(
   activities: ActivityRecord[],
-  year: YearFilter
+  year: YearFilter,
+  options: StatusFilterOptions = {}
 ): ActivityRecord[] {
   // First filter out failed activities
-  const failedActivities = activities.filter(a => isFailedActivity(a));
-  const successfulActivities = activities.filter(a => !isFailedActivity(a));
+  const successfulActivities = options.includeFailed
+    ? activities
+    : activities.filter(a => !isFailedActivity(a));
 
-  console.log(`Filtering activities - ${failedActivities.length} failed excluded`);
+  console.log(`Filtering activities - ${activities.length - successfulActivities.length} failed excluded`);
 
   if (year === 'all') {
     return successfulActivities;
@@ -149,6 +157,15 @@ export function filterActivitiesByYear(
   return yearFiltered;
 }
 
+/**
+ * Filter ledger entries by year
+ * Failed entries are kept: the ledger marks them, and readers such as getSpending skip them
+ */
+export function filterLedgerByYear(ledger: LedgerEntry[], year: YearFilter): LedgerEntry[] {
+  if (year === 'all') return ledger;
+  return ledger.filter(entry => entry.time.getFullYear() === parseInt(year));
+}
+
 /**
  * Get date range from transactions
  */
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { getFileNamePattern, matchesFileNamePattern } from './fileNamePattern';
+
+describe('fileNamePattern', () => {
+  describe('getFileNamePattern', () => {
+    it('should replace digit runs and ignore case', () => {
+      expect(getFileNamePattern('Statement_2025-06_1234.PDF')).toBe('statement_#-#_#.pdf');
+      expect(getFileNamePattern('export.csv')).toBe('export.csv');
+    });
+  });
+
+  describe('matchesFileNamePattern', () => {
+    it('should match later downloads of the same export', () => {
+      const pattern = getFileNamePattern('AcctStmt_01062025.pdf');
+
+      expect(matchesFileNamePattern('acctstmt_01072025.pdf', pattern)).toBe(true);
+      expect(matchesFileNamePattern('AcctStmt_01072025.csv', pattern)).toBe(false);
+      expect(matchesFileNamePattern('OtherStmt_01072025.pdf', pattern)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,17 @@
+// File name patterns for remembering choices made about similar uploads
+
+/**
+ * Pattern shared by the files an export produces over time
+ * Lowercased, with every run of digits (dates, account and statement numbers)
+ * replaced by '#': "Statement_2025-06_1234.pdf" → "statement_#-#_#.pdf"
+ */
+export function getFileNamePattern(fileName: string): string {
+  return fileName.trim().toLowerCase().replace(/\d+/g, '#');
+}
+
+/**
+ * Whether a file name has the given pattern
+ */
+export function matchesFileNamePattern(fileName: string, pattern: string): boolean {
+  return getFileNamePattern(fileName) === pattern;
+}
@@ -1,6 +1,6 @@
 // Combined filtering utilities for year and app filtering
 
-import type { ParsedData } from '../types/data.types';
+import type { ParsedData, LedgerEntry } from '../types/data.types';
 import type { FilterContext, AppFilter } from '../types/filter.types';
 import type { UpiAppId } from '../types/app.types';
 import {
@@ -9,6 +9,7 @@ import {
   filterGroupExpensesByYear,
   filterCashbackRewardsByYear,
   filterVouchersByYear,
+  filterLedgerByYear,
 } from './dateUtils';
 
 /**
@@ -30,11 +31,12 @@ function filterByApp<T extends { sourceApp: UpiAppId }>(items: T[], appFilter: A
 export function applyFilters(data: ParsedData, context: FilterContext): ParsedData {
   // First filter by year
   const yearFiltered: ParsedData = {
-    transactions: filterTransactionsByYear(data.transactions, context.year),
-    activities: filterActivitiesByYear(data.activities, context.year),
+    transactions: filterTransactionsByYear(data.transactions, context.year, { includeFailed: true }),
+    activities: filterActivitiesByYear(data.activities, context.year, { includeFailed: true }),
     groupExpenses: filterGroupExpensesByYear(data.groupExpenses, context.year),
     cashbackRewards: filterCashbackRewardsByYear(data.cashbackRewards, context.year),
     voucherRewards: filterVouchersByYear(data.voucherRewards, context.year),
+    cardStatements: data.cardStatements,
     sources: data.sources,
   };
 
@@ -45,12 +47,20 @@ export function applyFilters(data: ParsedData, context: FilterContext): ParsedDa
     groupExpenses: filterByApp(yearFiltered.groupExpenses, context.apps),
     cashbackRewards: filterByApp(yearFiltered.cashbackRewards, context.apps),
     voucherRewards: filterByApp(yearFiltered.voucherRewards, context.apps),
+    cardStatements: yearFiltered.cardStatements,
     sources: yearFiltered.sources,
   };
 
   return appFiltered;
 }
 
+/**
+ * Apply combined year + app filtering to a ledger built from all of the data
+ */
+export function applyLedgerFilters(ledger: LedgerEntry[], context: FilterContext): LedgerEntry[] {
+  return filterByApp(filterLedgerByYear(ledger, context.year), context.apps);
+}
+
 /**
  * Get list of unique apps from parsed data
  */
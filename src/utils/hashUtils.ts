@@ -0,0 +1,27 @@
+// Hashing helpers for identifying uploaded files
+
+/**
+ * Convert a digest buffer to a lowercase hex string
+ */
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Compute the SHA-256 hash of a buffer as hex
+ */
+export async function hashBuffer(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return toHex(digest);
+}
+
+/**
+ * Compute the SHA-256 hash of a file's contents as hex
+ * Used to key uploaded sources so the same statement is never stored twice
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  return hashBuffer(buffer);
+}
@@ -1,14 +1,16 @@
 // HTML parser for My Activity data
 
-import { ActivityRecord, Currency } from '../types/data.types';
+import { ActivityRecord, Currency, ImportReport } from '../types/data.types';
 import { parseCurrency } from './currencyUtils';
-import { classifyTransaction } from './multi-layer-classifier';
-import type { TransactionCategory } from './categoryUtils';
+import { classifyRecord } from './multi-layer-classifier';
+import { createImportReport, recordParsed, recordSkipped } from './importReport';
+import { byClass, byName, findElements, parseMarkup, textContent } from './markupParser';
 
 export interface HTMLParseResult {
   success: boolean;
   data?: ActivityRecord[];
   error?: string;
+  report?: ImportReport; // Activity cells read, parsed and skipped
 }
 
 /**
@@ -83,41 +85,35 @@ export function parseMyActivityHTML(htmlString: string): HTMLParseResult {
       return { success: true, data: [] };
     }
 
-    // Parse HTML using DOMParser
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(htmlString, 'text/html');
+    // Parsed without DOMParser so this also runs in the processing worker
+    const doc = parseMarkup(htmlString, 'html');
 
     const activities: ActivityRecord[] = [];
 
     // Find all outer-cell divs which contain individual activity records
-    const outerCells = doc.querySelectorAll('.outer-cell');
+    const outerCells = findElements(doc, byClass('outer-cell'));
 
-    let failedCount = 0;
+    const report = createImportReport();
 
     outerCells.forEach((cell, index) => {
+      const skip = (reason: string) => recordSkipped(report, reason, textContent(cell), index + 1);
+
       try {
         // Get the header (product name, usually "Google Pay")
-        const headerCell = cell.querySelector('.header-cell p');
-        const product = headerCell?.textContent?.trim() || '';
+        const headerCell = findElements(cell, byClass('header-cell'))
+          .flatMap(header => findElements(header, byName('p')))[0];
+        const product = textContent(headerCell).trim();
 
         // Get the content cell with the activity description and date
-        const contentCell = cell.querySelector('.content-cell');
-        if (!contentCell) return;
+        const contentCell = findElements(cell, byClass('content-cell'))[0];
+        if (!contentCell) return skip('No activity content');
 
         // Get ALL text content from the entire outer-cell (not just content-cell)
         // The "Failed" status might be in a sibling element
-        const fullCellText = cell.textContent?.trim() || '';
-
-        // Convert <br> tags to newlines before extracting text
-        // Clone the content cell to avoid modifying the original DOM
-        const contentCellClone = contentCell.cloneNode(true) as HTMLElement;
-        const brElements = contentCellClone.querySelectorAll('br');
-        brElements.forEach(br => {
-          br.replaceWith('\n');
-        });
+        const fullCellText = textContent(cell).trim();
 
-        // Get the content with proper line breaks
-        const contentText = contentCellClone.textContent?.trim() || '';
+        // Get the content with <br> tags read as line breaks
+        const contentText = textContent(contentCell, true).trim();
 
         // Check if this activity is marked as Failed
         // Failed transactions contain the word "Failed" somewhere in the FULL cell content
@@ -132,9 +128,8 @@ export function parseMyActivityHTML(htmlString: string): HTMLParseResult {
         const isFailed = failurePattern.test(fullCellText);
 
         if (isFailed) {
-          failedCount++;
           // Skip failed transactions - don't add them to activities
-          return;
+          return skip('Failed or declined payment');
         }
 
         // Extract transaction ID and status from Details section early
@@ -149,9 +144,8 @@ export function parseMyActivityHTML(htmlString: string): HTMLParseResult {
           // Skip transactions with Details section but no valid status (empty or missing status)
           // Google Pay app also filters these out
           if (!detailsMatchEarly) {
-            failedCount++;
             // Skip transactions without valid status
-            return;
+            return skip('No payment status in details');
           }
         }
 
@@ -164,9 +158,8 @@ export function parseMyActivityHTML(htmlString: string): HTMLParseResult {
         // If we only got 1 part, the HTML might be using elements instead of newlines
         // Try to extract from child elements
         if (textParts.length <= 2) {
-          const allElements = contentCell.querySelectorAll('*');
-          parts = Array.from(allElements)
-            .map(el => el.textContent?.trim() || '')
+          parts = findElements(contentCell)
+            .map(el => textContent(el).trim())
             .filter(Boolean);
 
           // If still no good parts, fall back to text split
@@ -177,7 +170,7 @@ export function parseMyActivityHTML(htmlString: string): HTMLParseResult {
           parts = textParts;
         }
 
-        if (parts.length === 0) return;
+        if (parts.length === 0) return skip('No activity content');
 
         // Extract date from the content text using regex
         // Google Pay has used two different date formats over time:
@@ -250,82 +243,19 @@ export function parseMyActivityHTML(htmlString: string): HTMLParseResult {
             amount,
             recipient,
             sender,
-            category: classifyTransaction(title + ' ' + contentText, amountValue) as TransactionCategory,
+            ...classifyRecord(title + ' ' + contentText, amountValue),
             sourceApp: 'googlepay' as const, // HTML parser is currently only for Google Pay
           });
-        }
-      } catch (error) {
-        console.error(`Error parsing activity ${index}:`, error);
-      }
-    });
-
-    // Get year breakdown BEFORE filtering
-    const yearBreakdown = new Map<number, { total: number; failed: number; successful: number }>();
-
-    outerCells.forEach((cell) => {
-      try {
-        const contentCell = cell.querySelector('.content-cell');
-        if (!contentCell) return;
-
-        // Convert <br> tags to newlines for proper parsing
-        const contentCellClone = contentCell.cloneNode(true) as HTMLElement;
-        const brElements = contentCellClone.querySelectorAll('br');
-        brElements.forEach(br => {
-          br.replaceWith('\n');
-        });
-
-        const contentText = contentCellClone.textContent?.trim() || '';
-        const parts = contentText.split('\n').map(p => p.trim()).filter(Boolean);
-        if (parts.length === 0) return;
-
-        // Extract date using the same regex as above (support both formats)
-        const dateRegex1 = /(\d{1,2}\s+[A-Za-z]{3,9}\s+\d{4},\s+\d{1,2}:\d{2}:\d{2}\s+(?:GMT[+-]\d{2}:\d{2}|IST))/;
-        const dateRegex2 = /([A-Za-z]{3,9}\s+\d{1,2},\s+\d{4},\s+\d{1,2}:\d{2}:\d{2}\s+[AP]M\s+(?:GMT[+-]\d{2}:\d{2}|IST))/;
-
-        const dateMatch1 = contentText.match(dateRegex1);
-        const dateMatch2 = contentText.match(dateRegex2);
-        const dateMatch = dateMatch1 || dateMatch2;
-
-        let activityDate = new Date();
-        if (dateMatch) {
-          const dateStr = dateMatch[1];
-          activityDate = new Date(dateStr);
-
-          // Fallback: if parsing fails, try without timezone
-          if (isNaN(activityDate.getTime())) {
-            const cleanDateStr = dateStr.replace(/,?\s*(IST|GMT[+-]\d{2}:\d{2})$/, '').trim();
-            activityDate = new Date(cleanDateStr);
-          }
-        }
-
-        const year = activityDate.getFullYear();
-        if (!yearBreakdown.has(year)) {
-          yearBreakdown.set(year, { total: 0, failed: 0, successful: 0 });
-        }
-
-        const fullCellText = cell.textContent?.trim() || '';
-        const failureKeywords = ['failed', 'declined', 'cancelled', 'canceled', 'rejected', 'unsuccessful'];
-        const failurePattern = new RegExp(`\\b(${failureKeywords.join('|')})\\b`, 'i');
-        const isFailed = failurePattern.test(fullCellText);
-
-        const stats = yearBreakdown.get(year)!;
-        stats.total++;
-        if (isFailed) {
-          stats.failed++;
+          recordParsed(report);
         } else {
-          stats.successful++;
+          skip('No activity title');
         }
       } catch (error) {
-        // Ignore errors in year counting
+        skip(error instanceof Error ? error.message : 'Activity could not be read');
       }
     });
 
-    // Verify if expected matches actual
-    if (activities.length !== outerCells.length - failedCount) {
-      console.warn(`⚠️ MISMATCH: Expected ${outerCells.length - failedCount} but got ${activities.length}. Some activities may have been skipped due to missing data.`);
-    }
-
-    return { success: true, data: activities };
+    return { success: true, data: activities, report };
   } catch (error) {
     console.error('My Activity HTML parse error:', error);
     return {
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_SKIPPED_DETAILS,
+  createImportReport,
+  mergeImportReports,
+  recordSkipped,
+  toSnippet,
+  transformRows,
+} from './importReport';
+
+describe('importReport', () => {
+  describe('transformRows', () => {
+    it('should count parsed rows and report rejected ones with their reason', () => {
+      const { data, report } = transformRows(['10', 'x', '', '30'], (row, skip) => {
+        if (!row) return null;
+        const value = Number(row);
+        return isNaN(value) ? skip(`Not a number "${row}"`) : value;
+      });
+
+      expect(data).toEqual([10, 30]);
+      expect(report).toMatchObject({ rowsRead: 4, rowsParsed: 2, rowsSkipped: 2 });
+      expect(report.skipped).toEqual([
+        { reason: 'Not a number "x"', snippet: 'x', row: 2 },
+        { reason: 'Row could not be read', snippet: '', row: 3 },
+      ]);
+    });
+  });
+
+  describe('recordSkipped', () => {
+    it('should keep counting once the detail list is full', () => {
+      const report = createImportReport();
+      for (let i = 0; i < MAX_SKIPPED_DETAILS + 5; i++) {
+        recordSkipped(report, 'No date', [String(i)], i + 1);
+      }
+
+      expect(report.rowsSkipped).toBe(MAX_SKIPPED_DETAILS + 5);
+      expect(report.skipped).toHaveLength(MAX_SKIPPED_DETAILS);
+    });
+  });
+
+  describe('toSnippet', () => {
+    it('should join row cells and object fields on one line', () => {
+      expect(toSnippet(['12/06/2025', ' SWIGGY\n BANGALORE ', '', '250.00'])).toBe(
+        '12/06/2025 | SWIGGY BANGALORE | 250.00'
+      );
+      expect(toSnippet({ Time: 'Nov 14', 'Transaction ID': '', Amount: 'INR 100.00' })).toBe(
+        'Time: Nov 14 | Amount: INR 100.00'
+      );
+    });
+
+    it('should cut long snippets', () => {
+      expect(toSnippet('a'.repeat(500))).toHaveLength(200);
+    });
+  });
+
+  describe('mergeImportReports', () => {
+    it('should add up the parts of one file', () => {
+      const first = transformRows([1, 2], row => row);
+      const second = transformRows([3], (_row, skip) => skip('Failed payment'));
+
+      expect(mergeImportReports([first.report, second.report])).toEqual({
+        rowsRead: 3,
+        rowsParsed: 2,
+        rowsSkipped: 1,
+        skipped: [{ reason: 'Failed payment', snippet: '3', row: 1 }],
+      });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+// Import reports - which rows of an uploaded file were imported, and why others weren't
+
+import type { ImportReport, SkippedRecord } from '../types/data.types';
+
+// Skipped rows kept with their details; the rest are only counted
+export const MAX_SKIPPED_DETAILS = 200;
+
+// Longest raw snippet kept for a skipped row
+const MAX_SNIPPET_LENGTH = 200;
+
+/**
+ * Empty report, filled in as a parser reads rows
+ */
+export function createImportReport(): ImportReport {
+  return { rowsRead: 0, rowsParsed: 0, rowsSkipped: 0, skipped: [] };
+}
+
+/**
+ * Count a row as read and imported
+ */
+export function recordParsed(report: ImportReport): void {
+  report.rowsRead++;
+  report.rowsParsed++;
+}
+
+/**
+ * Count a row as read but skipped, keeping the reason and a snippet of the raw row
+ * @param raw - The row as read: a line of text, an array of cells or a record of columns
+ * @param row - 1-based position of the row, where the format has one
+ */
+export function recordSkipped(report: ImportReport, reason: string, raw: unknown, row?: number): void {
+  report.rowsRead++;
+  report.rowsSkipped++;
+  if (report.skipped.length < MAX_SKIPPED_DETAILS) {
+    const record: SkippedRecord = { reason, snippet: toSnippet(raw) };
+    if (row !== undefined) record.row = row;
+    report.skipped.push(record);
+  }
+}
+
+/**
+ * Short single-line text of a raw row
+ */
+export function toSnippet(raw: unknown): string {
+  let text: string;
+  if (Array.isArray(raw)) {
+    text = raw.map(cell => String(cell ?? '').trim()).filter(Boolean).join(' | ');
+  } else if (raw && typeof raw === 'object') {
+    text = Object.entries(raw)
+      .filter(([, value]) => value !== undefined && value !== null && String(value).trim() !== '')
+      .map(([key, value]) => `${key}: ${String(value).trim()}`)
+      .join(' | ');
+  } else {
+    text = String(raw ?? '');
+  }
+
+  text = text.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Combine the reports of the parts of one file (e.g. the CSV and HTML inside a ZIP)
+ */
+export function mergeImportReports(reports: ImportReport[]): ImportReport {
+  return reports.reduce<ImportReport>(
+    (merged, report) => ({
+      rowsRead: merged.rowsRead + report.rowsRead,
+      rowsParsed: merged.rowsParsed + report.rowsParsed,
+      rowsSkipped: merged.rowsSkipped + report.rowsSkipped,
+      skipped: [...merged.skipped, ...report.skipped].slice(0, MAX_SKIPPED_DETAILS),
+    }),
+    createImportReport()
+  );
+}
+
+/**
+ * Rejects a row with a reason; transforms return its result
+ */
+export type SkipRow = (reason: string) => null;
+
+/**
+ * Run a row transform over every row, reporting the rows it rejects
+ * Transforms reject a row by returning skip(reason), or just null
+ */
+export function transformRows<R, T>(
+  rows: R[],
+  transform: (row: R, skip: SkipRow) => T | null
+): { data: T[]; report: ImportReport } {
+  const report = createImportReport();
+  const data: T[] = [];
+
+  rows.forEach((row, index) => {
+    let reason: string | undefined;
+    const item = transform(row, skipReason => {
+      reason = skipReason;
+      return null;
+    });
+
+    if (item === null) {
+      recordSkipped(report, reason || 'Row could not be read', row, index + 1);
+    } else {
+      recordParsed(report);
+      data.push(item);
+    }
+  });
+
+  return { data, report };
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { buildInterchangeData, getInterchangeWarnings, joinDescription } from './interchangeUtils';
+import type { InterchangeStatement } from '../types/interchange.types';
+
+const statement: InterchangeStatement = {
+  entries: [
+    { date: new Date(2025, 5, 12), amount: -1250, description: 'Swiggy', id: 'FIT1' },
+    { date: new Date(2025, 5, 13), amount: -80, description: 'Tea stall' },
+    { date: new Date(2025, 5, 13), amount: -80, description: 'Tea stall' },
+    { date: new Date(2025, 5, 15), amount: 50000, description: 'Salary', currency: 'EUR' },
+    { date: new Date(2025, 5, 16), amount: 200, description: 'Refund', status: 'Pending' },
+  ],
+  unsupportedFields: ['SIC'],
+  skippedEntries: [
+    { reason: 'No date', snippet: 'TRNAMT: -100.00' },
+    { reason: 'No amount', snippet: 'DTPOSTED: 20250614' },
+  ],
+};
+
+describe('interchangeUtils', () => {
+  describe('buildInterchangeData', () => {
+    it('should turn debits into transactions and credits into received activities', () => {
+      const { transactions, activities } = buildInterchangeData(statement, 'HDFC Bank', 'ofx', () => 'UPI');
+
+      expect(transactions.map(t => t.id)).toEqual([
+        'FIT1',
+        expect.stringMatching(/^20250613-8000-/),
+        expect.stringMatching(/^20250613-8000-.+-2$/),
+      ]);
+      expect(transactions[0]).toMatchObject({ product: 'HDFC Bank', method: 'UPI', status: 'Completed' });
+      expect(activities).toHaveLength(1);
+      expect(activities[0]).toMatchObject({ transactionType: 'received', sender: 'Salary' });
+    });
+
+    it('should report skipped entries and pending credits', () => {
+      const { report } = buildInterchangeData(statement, 'HDFC Bank', 'ofx', () => 'UPI');
+
+      expect(report).toMatchObject({ rowsRead: 7, rowsParsed: 4, rowsSkipped: 3 });
+      expect(report.skipped.map(skipped => skipped.reason)).toEqual(['No date', 'No amount', 'Credit with status "Pending"']);
+    });
+  });
+
+  describe('getInterchangeWarnings', () => {
+    it('should report unsupported fields and currencies', () => {
+      expect(getInterchangeWarnings(statement)).toEqual([
+        'Fields not imported: SIC',
+        'Amounts in EUR were imported as INR without conversion',
+      ]);
+    });
+  });
+
+  describe('joinDescription', () => {
+    it('should not repeat a memo the payee already contains', () => {
+      expect(joinDescription('Swiggy', 'Food order')).toBe('Swiggy - Food order');
+      expect(joinDescription('SWIGGY BANGALORE', 'swiggy')).toBe('SWIGGY BANGALORE');
+      expect(joinDescription(undefined, 'Memo only')).toBe('Memo only');
+    });
+  });
+});
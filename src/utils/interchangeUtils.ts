@@ -0,0 +1,107 @@
+// Shared handling for standard interchange formats (OFX/QFX, QIF, CAMT.053)
+
+import type { UpiAppId } from '../types/app.types';
+import type { Transaction, ActivityRecord, Currency, ImportReport } from '../types/data.types';
+import type { InterchangeEntry, InterchangeStatement } from '../types/interchange.types';
+import { getRowId, normalizeReference } from './columnMapping';
+import { classifyRecord } from './multi-layer-classifier';
+import { createImportReport, recordParsed, recordSkipped } from './importReport';
+
+const FAILED_STATUS = /(fail|declin|revers|cancel|reject|pending)/i;
+
+/**
+ * Payee and memo, without repeating a memo that only restates the payee
+ */
+export function joinDescription(name?: string, memo?: string): string {
+  if (!name) return memo || '';
+  if (!memo || name.toLowerCase().includes(memo.toLowerCase())) return name;
+  return `${name} - ${memo}`;
+}
+
+/**
+ * Turn interchange entries into records
+ * Debits become transactions (spending); credits become 'received' activities
+ * The report counts the parser's skipped entries too
+ * @param getMethod - Payment method for an entry (from its type or description)
+ */
+export function buildInterchangeData(
+  statement: InterchangeStatement,
+  product: string,
+  sourceApp: UpiAppId,
+  getMethod: (entry: InterchangeEntry) => string
+): { transactions: Transaction[]; activities: ActivityRecord[]; report: ImportReport } {
+  const transactions: Transaction[] = [];
+  const activities: ActivityRecord[] = [];
+  const usedIds = new Map<string, number>();
+  const report = createImportReport();
+
+  statement.skippedEntries.forEach(skipped => recordSkipped(report, skipped.reason, skipped.snippet, skipped.row));
+
+  statement.entries.forEach(entry => {
+    const value = Math.abs(entry.amount);
+    const amount: Currency = { value, currency: entry.currency?.toUpperCase() === 'USD' ? 'USD' : 'INR' };
+    const status = entry.status || 'Completed';
+    const reference = normalizeReference(entry.reference || '');
+
+    if (entry.amount < 0) {
+      // Bank-assigned ids are stable across overlapping exports; otherwise use the content
+      const baseId = entry.id || reference || getRowId(entry.date, value, entry.description);
+      const occurrence = (usedIds.get(baseId) || 0) + 1;
+      usedIds.set(baseId, occurrence);
+
+      transactions.push({
+        time: entry.date,
+        id: occurrence > 1 ? `${baseId}-${occurrence}` : baseId,
+        description: entry.description,
+        product,
+        method: getMethod(entry),
+        status,
+        amount,
+        ...classifyRecord(entry.description, value),
+        referenceId: reference,
+        sourceApp,
+      });
+      recordParsed(report);
+    } else if (FAILED_STATUS.test(status)) {
+      recordSkipped(report, `Credit with status "${status}"`, [entry.date.toDateString(), entry.description, entry.amount]);
+    } else {
+      activities.push({
+        title: `Received ${amount.currency === 'USD' ? '$' : '₹'}${value.toFixed(2)}`,
+        time: entry.date,
+        description: entry.description,
+        transactionType: 'received',
+        amount,
+        sender: entry.description,
+        sourceApp,
+      });
+      recordParsed(report);
+    }
+  });
+
+  return { transactions, activities, report };
+}
+
+/**
+ * Notes about what an interchange file carried that FinnLens didn't import
+ */
+export function getInterchangeWarnings(statement: InterchangeStatement): string[] {
+  const warnings: string[] = [];
+
+  if (statement.unsupportedFields.length > 0) {
+    warnings.push(`Fields not imported: ${statement.unsupportedFields.join(', ')}`);
+  }
+
+  // Currency only knows INR and USD
+  const currencies = new Set(
+    statement.entries
+      .map(entry => entry.currency?.toUpperCase())
+      .filter((code): code is string => Boolean(code) && code !== 'INR' && code !== 'USD')
+  );
+  if (currencies.size > 0) {
+    warnings.push(
+      `Amounts in ${Array.from(currencies).join(', ')} were imported as INR without conversion`
+    );
+  }
+
+  return warnings;
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  byClass,
+  byName,
+  childElements,
+  findElements,
+  parseMarkup,
+  textContent,
+} from './markupParser';
+
+describe('markupParser', () => {
+  describe('parseMarkup (html)', () => {
+    it('should read void elements, entities and <br> line breaks', () => {
+      const doc = parseMarkup(
+        '<!DOCTYPE html><div class="content-cell wide">Paid &#8377;100.00<br>Details:&emsp;ABC&amp;1<img src=x></div>',
+        'html'
+      );
+      const cell = findElements(doc, byClass('content-cell'))[0];
+
+      expect(textContent(cell)).toBe('Paid ₹100.00Details:\u2003ABC&1');
+      expect(textContent(cell, true)).toBe('Paid ₹100.00\nDetails:\u2003ABC&1');
+      expect(childElements(cell).map(child => child.name)).toEqual(['br', 'img']);
+    });
+
+    it('should close table cells and rows that are left open', () => {
+      const doc = parseMarkup('<TABLE><tr><td>a<td>b<tr><td>c</table>', 'html');
+      const rows = findElements(doc, byName('tr'));
+
+      expect(rows.map(row => findElements(row, byName('td')).map(cell => textContent(cell)))).toEqual([
+        ['a', 'b'],
+        ['c'],
+      ]);
+    });
+
+    it('should keep script content as text and ignore stray closing tags', () => {
+      const doc = parseMarkup("<script>var DATA = '<x><table>';</script></span><p>after</p>", 'html');
+
+      expect(findElements(doc, byName('table'))).toEqual([]);
+      expect(textContent(findElements(doc, byName('p'))[0])).toBe('after');
+    });
+  });
+
+  describe('parseMarkup (xml)', () => {
+    it('should read attributes and namespace prefixes', () => {
+      const doc = parseMarkup(
+        `<?xml version="1.0"?><ns:Doc xmlns:ns="urn:x"><ns:Amt Ccy='INR'>10</ns:Amt><Empty/></ns:Doc>`,
+        'xml'
+      );
+      const amount = findElements(doc, byName('Amt'))[0];
+
+      expect(amount.name).toBe('ns:Amt');
+      expect(amount.attributes.Ccy).toBe('INR');
+      expect(textContent(amount)).toBe('10');
+      expect(findElements(doc, byName('Empty'))).toHaveLength(1);
+    });
+
+    it('should reject XML that is not well-formed', () => {
+      expect(() => parseMarkup('<a><b></a>', 'xml')).toThrow();
+      expect(() => parseMarkup('<a>', 'xml')).toThrow();
+      expect(() => parseMarkup('just text', 'xml')).toThrow();
+    });
+  });
+});
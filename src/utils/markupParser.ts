@@ -0,0 +1,213 @@
+// Parse HTML and XML into a lightweight element tree without DOMParser, so it runs in Web Workers
+
+/**
+ * An element: its tag name, attributes and child elements or text
+ */
+export interface MarkupElement {
+  name: string; // Lowercase in HTML, as written in XML (with any namespace prefix)
+  localName: string; // Name without the namespace prefix
+  attributes: Record<string, string>;
+  children: MarkupNode[];
+}
+
+export type MarkupNode = MarkupElement | string;
+
+export type MarkupMode = 'html' | 'xml';
+
+// HTML elements that never have content or a closing tag
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+// HTML elements whose content is raw text, not markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+// HTML elements a new opening tag closes when left open ("<td>a<td>b")
+const IMPLICITLY_CLOSED: Record<string, string[]> = {
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  tr: ['td', 'th', 'tr'],
+  li: ['li'],
+  p: ['p'],
+  option: ['option'],
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  ensp: '\u2002',
+  emsp: '\u2003',
+  thinsp: '\u2009',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+};
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[!?][^>]*>|<(\/?)([A-Za-z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|[^<]+|</g;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+/**
+ * Build the element tree of an HTML or XML document
+ * HTML is read leniently like a browser would (void and implicitly closed elements, stray
+ * closing tags are ignored); XML must be well-formed.
+ * @returns A root element holding the document's top-level nodes
+ * @throws Error when XML is not well-formed
+ */
+export function parseMarkup(text: string, mode: MarkupMode): MarkupElement {
+  const root: MarkupElement = { name: '#document', localName: '#document', attributes: {}, children: [] };
+  const stack: MarkupElement[] = [root];
+  const isHtml = mode === 'html';
+  const current = () => stack[stack.length - 1];
+  let lowerText: string | undefined; // For finding the end of <script> and <style>
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(text)) !== null) {
+    const [token, cdata, closing, rawName, rawAttributes, selfClosing] = match;
+
+    if (cdata !== undefined) {
+      current().children.push(cdata);
+      continue;
+    }
+
+    if (!rawName) {
+      // Comments, doctypes and processing instructions carry no content
+      if (token.startsWith('<!') || token.startsWith('<?')) continue;
+      if (token === '<' && !isHtml) throw new Error('Unescaped "<" in XML');
+      current().children.push(decodeEntities(token));
+      continue;
+    }
+
+    const name = isHtml ? rawName.toLowerCase() : rawName;
+
+    if (closing) {
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (!isHtml && index !== stack.length - 1) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    if (isHtml) {
+      const closes = IMPLICITLY_CLOSED[name];
+      while (closes && closes.includes(current().name)) stack.pop();
+    }
+
+    const element: MarkupElement = {
+      name,
+      localName: name.slice(name.indexOf(':') + 1),
+      attributes: parseAttributes(rawAttributes),
+      children: [],
+    };
+    current().children.push(element);
+
+    if (selfClosing || (isHtml && VOID_ELEMENTS.has(name))) continue;
+
+    if (isHtml && RAW_TEXT_ELEMENTS.has(name)) {
+      lowerText ??= text.toLowerCase();
+      const end = lowerText.indexOf(`</${name}`, TOKEN_PATTERN.lastIndex);
+      const stop = end === -1 ? text.length : end;
+      element.children.push(text.slice(TOKEN_PATTERN.lastIndex, stop));
+      TOKEN_PATTERN.lastIndex = end === -1 ? text.length : text.indexOf('>', end) + 1 || text.length;
+      continue;
+    }
+
+    stack.push(element);
+  }
+
+  if (!isHtml) {
+    if (stack.length > 1) throw new Error(`Unclosed element <${current().name}>`);
+    if (!root.children.some(isElement)) throw new Error('No root element');
+  }
+
+  return root;
+}
+
+export function isElement(node: MarkupNode): node is MarkupElement {
+  return typeof node !== 'string';
+}
+
+/**
+ * Child elements, optionally only those with the given local name
+ */
+export function childElements(element: MarkupElement | undefined, localName?: string): MarkupElement[] {
+  return (element?.children || []).filter(
+    (child): child is MarkupElement => isElement(child) && (!localName || child.localName === localName)
+  );
+}
+
+/**
+ * Every element below a node, in document order, that passes the test
+ */
+export function findElements(
+  element: MarkupElement | undefined,
+  test: (element: MarkupElement) => boolean = () => true
+): MarkupElement[] {
+  const found: MarkupElement[] = [];
+  // Walked with an explicit stack; Takeout files nest deep and hold tens of thousands of elements
+  const pending = childElements(element).reverse();
+  while (pending.length > 0) {
+    const next = pending.pop()!;
+    if (test(next)) found.push(next);
+    pending.push(...childElements(next).reverse());
+  }
+  return found;
+}
+
+/**
+ * Test for elements with the given local name
+ */
+export const byName = (localName: string) => (element: MarkupElement) => element.localName === localName;
+
+/**
+ * Test for elements carrying the given class
+ */
+export const byClass = (className: string) => (element: MarkupElement) =>
+  (element.attributes.class || '').split(/\s+/).includes(className);
+
+/**
+ * Text of a node and everything below it, like the DOM's textContent
+ * @param lineBreaks - Read <br> as a newline
+ */
+export function textContent(node: MarkupNode | undefined, lineBreaks = false): string {
+  if (node === undefined) return '';
+  if (!isElement(node)) return node;
+  if (lineBreaks && node.localName === 'br') return '\n';
+  return node.children.map(child => textContent(child, lineBreaks)).join('');
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(raw)) !== null) {
+    const [, name, doubleQuoted, singleQuoted, unquoted] = match;
+    attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '');
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { classifyTransactionMultiLayer, classifyRecord, isLowConfidence } from './multi-layer-classifier';
+
+describe('classifyTransactionMultiLayer explanations', () => {
+  it('should name the shipped rule that matched in each layer', () => {
+    expect(classifyTransactionMultiLayer('AMAZON PAY BILL').matchedRule).toMatchObject({ type: 'keyword', matcher: 'amazon' });
+    expect(classifyTransactionMultiLayer('biriyani house').matchedRule).toMatchObject({ type: 'fuzzy', matcher: 'biriyani' });
+    expect(classifyTransactionMultiLayer('Razorpay Software').matchedRule).toMatchObject({ type: 'exclusion', matcher: 'razorpay' });
+    expect(classifyTransactionMultiLayer('ACME TECHNOLOGIES').matchedRule)
+      .toMatchObject({ type: 'heuristic', matcher: 'company suffix TECHNOLOGIES' });
+  });
+
+  it('should treat heuristics and unmatched merchants as low confidence', () => {
+    expect(isLowConfidence(classifyTransactionMultiLayer('Swiggy'))).toBe(false);
+    expect(isLowConfidence(classifyTransactionMultiLayer('RAVI KUMAR S', 200))).toBe(true);
+    expect(isLowConfidence(classifyTransactionMultiLayer('zzqx'))).toBe(true);
+  });
+});
+
+describe('classifyRecord', () => {
+  it('should return the category with the classification behind it', () => {
+    const { category, classification } = classifyRecord('Paid to Swiggy', 300);
+
+    expect(category).toBe('Food');
+    expect(classification).toMatchObject({ category: 'Food', confidence: 0.9, matchedRule: { matcher: 'swiggy' } });
+  });
+});
@@ -4,7 +4,13 @@
  */
 
 import classificationRules from '../config/classification-rules.json' assert { type: 'json' };
-import type { ClassificationResult } from '../types/classifier.types';
+import type {
+  ClassificationResult,
+  RuleType,
+  UserCategoryRules,
+  UserClassificationRules,
+} from '../types/classifier.types';
+import type { TransactionCategory } from './categoryUtils';
 
 interface CategoryRules {
   keywords: string[];
@@ -28,18 +34,106 @@ const config = classificationRules as {
 
 const categories = config.categories;
 
+// Below this, a category is a guess worth checking: heuristics and unmatched merchants
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+/**
+ * Categories the shipped config classifies into, in config order
+ */
+export function getClassifierCategories(): string[] {
+  return Object.keys(categories);
+}
+
+/**
+ * Whether a user-entered pattern compiles as a regex
+ */
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface UserRuleLayer {
+  type: RuleType;
+  confidence: number;
+  rulesOf: (rules: UserCategoryRules) => string[];
+  matches: (rule: string, merchant: string) => boolean;
+}
+
+// Same order and confidence as the shipped layers
+const USER_RULE_LAYERS: UserRuleLayer[] = [
+  {
+    type: 'exact',
+    confidence: 1.0,
+    rulesOf: rules => rules.exactMatches,
+    matches: (rule, merchant) => merchant.toUpperCase().trim() === rule.toUpperCase().trim(),
+  },
+  {
+    type: 'fuzzy',
+    confidence: 0.95,
+    rulesOf: rules => rules.fuzzyVariants,
+    matches: (rule, merchant) => merchant.toLowerCase().includes(rule.toLowerCase()),
+  },
+  {
+    type: 'keyword',
+    confidence: 0.9,
+    rulesOf: rules => rules.keywords,
+    matches: (rule, merchant) => merchant.toLowerCase().includes(rule.toLowerCase()),
+  },
+  {
+    type: 'pattern',
+    confidence: 0.85,
+    rulesOf: rules => rules.patterns,
+    matches: (rule, merchant) => isValidPattern(rule) && new RegExp(rule, 'i').test(merchant),
+  },
+];
+
+/**
+ * Layer 0: The user's own rules, checked before anything shipped
+ * Runs the same exact → fuzzy → keyword → pattern order as the shipped layers
+ */
+export function matchUserRules(merchant: string, userRules: UserClassificationRules): ClassificationResult | null {
+  for (const layer of USER_RULE_LAYERS) {
+    for (const [category, rules] of Object.entries(userRules)) {
+      const rule = layer.rulesOf(rules).find(candidate => candidate.trim() && layer.matches(candidate, merchant));
+      if (rule) {
+        return {
+          category,
+          confidence: layer.confidence,
+          matchedRule: { type: layer.type, priority: 0, matcher: rule },
+          isUserRule: true,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A shipped rule that matched, and the keyword, pattern or name it matched on
+ */
+interface LayerMatch {
+  category: string;
+  matcher: string;
+}
+
 /**
  * Layer 1: Exclusion Rules
  * Filters out non-merchant transactions (payment gateways, bank ISOs, P2P transfers)
+ * Returns the gateway, pattern or term that excluded the merchant
  */
-function checkExclusions(merchant: string): boolean {
+function checkExclusions(merchant: string): string | null {
   const lowerMerchant = merchant.toLowerCase();
   const exclusions = config.exclusions;
 
   // Check payment gateways
   for (const gateway of exclusions.payment_gateways) {
     if (lowerMerchant.includes(gateway.toLowerCase())) {
-      return true;
+      return gateway;
     }
   }
 
@@ -48,7 +142,7 @@ function checkExclusions(merchant: string): boolean {
     try {
       const regex = new RegExp(pattern, 'i');
       if (regex.test(merchant)) {
-        return true;
+        return pattern;
       }
     } catch (e) {
       console.warn(`Invalid exclusion pattern: ${pattern}`);
@@ -60,7 +154,7 @@ function checkExclusions(merchant: string): boolean {
     try {
       const regex = new RegExp(pattern, 'i');
       if (regex.test(merchant)) {
-        return true;
+        return pattern;
       }
     } catch (e) {
       console.warn(`Invalid personal indicator pattern: ${pattern}`);
@@ -70,25 +164,25 @@ function checkExclusions(merchant: string): boolean {
   // Check technical terms
   for (const term of exclusions.technical_terms) {
     if (lowerMerchant.includes(term.toLowerCase())) {
-      return true;
+      return term;
     }
   }
 
-  return false;
+  return null;
 }
 
 /**
  * Layer 2: Exact Match Rules
  * Brand-specific exact matches (highest priority)
  */
-function checkExactMatches(merchant: string): string | null {
+function checkExactMatches(merchant: string): LayerMatch | null {
   const upperMerchant = merchant.toUpperCase().trim();
 
   // Check each category's exact matches
   for (const [category, rules] of Object.entries(categories)) {
     for (const exactMerchant of Object.keys(rules.exactMatches)) {
       if (upperMerchant === exactMerchant.toUpperCase()) {
-        return category;
+        return { category, matcher: exactMerchant };
       }
     }
   }
@@ -100,7 +194,7 @@ function checkExactMatches(merchant: string): string | null {
  * Layer 3: Fuzzy Keyword Matching
  * Handles misspellings and variations
  */
-function checkFuzzyKeywords(merchant: string): string | null {
+function checkFuzzyKeywords(merchant: string): LayerMatch | null {
   const lowerMerchant = merchant.toLowerCase();
   const fuzzyKeywords = config.fuzzyKeywords;
 
@@ -111,7 +205,7 @@ function checkFuzzyKeywords(merchant: string): string | null {
         // Find which category contains this base keyword
         for (const [category, rules] of Object.entries(categories)) {
           if (rules.keywords.some(kw => kw.toLowerCase() === baseKeyword.toLowerCase())) {
-            return category;
+            return { category, matcher: variant };
           }
         }
       }
@@ -125,13 +219,13 @@ function checkFuzzyKeywords(merchant: string): string | null {
  * Layer 4: Standard Keyword Matching
  * Your existing keyword-based classification
  */
-function checkKeywords(merchant: string): string | null {
+function checkKeywords(merchant: string): LayerMatch | null {
   const lowerMerchant = merchant.toLowerCase();
 
   for (const [category, rules] of Object.entries(categories)) {
     for (const keyword of rules.keywords) {
       if (lowerMerchant.includes(keyword.toLowerCase())) {
-        return category;
+        return { category, matcher: keyword };
       }
     }
   }
@@ -143,13 +237,13 @@ function checkKeywords(merchant: string): string | null {
  * Layer 5: Pattern Matching
  * Regex-based pattern matching
  */
-function checkPatterns(merchant: string): string | null {
+function checkPatterns(merchant: string): LayerMatch | null {
   for (const [category, rules] of Object.entries(categories)) {
     for (const pattern of rules.patterns) {
       try {
         const regex = new RegExp(pattern, 'i');
         if (regex.test(merchant)) {
-          return category;
+          return { category, matcher: pattern };
         }
       } catch (e) {
         console.warn(`Invalid regex pattern for category ${category}: ${pattern}`);
@@ -164,7 +258,7 @@ function checkPatterns(merchant: string): string | null {
  * Layer 6: Heuristic Rules
  * Context-based classification using amount, patterns, etc.
  */
-function checkHeuristics(merchant: string, amount?: number): string | null {
+function checkHeuristics(merchant: string, amount?: number): LayerMatch | null {
   const lowerMerchant = merchant.toLowerCase();
 
   // Heuristic 1: Small personal transfers
@@ -176,17 +270,17 @@ function checkHeuristics(merchant: string, amount?: number): string | null {
     const hasBusinessTerm = businessTerms.some(term => lowerMerchant.includes(term));
 
     if (!hasBusinessTerm && words.length >= 2 && words.length <= 3 && merchant === merchant.toUpperCase()) {
-      return 'Transfers & Payments';
+      return { category: 'Transfers & Payments', matcher: 'small payment to a person' };
     }
   }
 
   // Heuristic 2: Detect company suffixes for uncategorized merchants
   const companySuffixes = ['PRIVATE LIMITED', 'PVT LTD', 'LIMITED', 'LTD', 'TECHNOLOGIES', 'CORPORATION', 'CORP'];
-  const hasCompanySuffix = companySuffixes.some(suffix => merchant.toUpperCase().includes(suffix));
+  const companySuffix = companySuffixes.find(suffix => merchant.toUpperCase().includes(suffix));
 
-  if (hasCompanySuffix) {
+  if (companySuffix) {
     // If it has a company suffix but hasn't matched anything, categorize as Miscellaneous
-    return 'Services & Miscellaneous';
+    return { category: 'Services & Miscellaneous', matcher: `company suffix ${companySuffix}` };
   }
 
   return null;
@@ -194,21 +288,27 @@ function checkHeuristics(merchant: string, amount?: number): string | null {
 
 /**
  * Main Multi-Layer Classification Function
- * Applies rules in priority order
+ * Applies rules in priority order, the user's own rules ahead of the shipped ones
  */
 export function classifyTransactionMultiLayer(
   merchant: string,
-  amount?: number
+  amount?: number,
+  userRules: UserClassificationRules = {}
 ): ClassificationResult {
+  // Layer 0: The user's rules override everything shipped
+  const userMatch = matchUserRules(merchant, userRules);
+  if (userMatch) return userMatch;
+
   // Layer 1: Check exclusions first
-  if (checkExclusions(merchant)) {
+  const exclusion = checkExclusions(merchant);
+  if (exclusion) {
     return {
       category: 'Transfers & Payments',
       confidence: 1.0,
       matchedRule: {
         type: 'exclusion',
         priority: 1,
-        matcher: 'exclusion_rules'
+        matcher: exclusion
       },
       isExcluded: true
     };
@@ -218,12 +318,12 @@ export function classifyTransactionMultiLayer(
   const exactMatch = checkExactMatches(merchant);
   if (exactMatch) {
     return {
-      category: exactMatch,
+      category: exactMatch.category,
       confidence: 1.0,
       matchedRule: {
         type: 'exact',
         priority: 2,
-        matcher: merchant
+        matcher: exactMatch.matcher
       }
     };
   }
@@ -232,12 +332,12 @@ export function classifyTransactionMultiLayer(
   const fuzzyMatch = checkFuzzyKeywords(merchant);
   if (fuzzyMatch) {
     return {
-      category: fuzzyMatch,
+      category: fuzzyMatch.category,
       confidence: 0.95,
       matchedRule: {
         type: 'fuzzy',
         priority: 3,
-        matcher: 'fuzzy_keyword'
+        matcher: fuzzyMatch.matcher
       }
     };
   }
@@ -246,12 +346,12 @@ export function classifyTransactionMultiLayer(
   const keywordMatch = checkKeywords(merchant);
   if (keywordMatch) {
     return {
-      category: keywordMatch,
+      category: keywordMatch.category,
       confidence: 0.9,
       matchedRule: {
         type: 'keyword',
         priority: 4,
-        matcher: 'keyword'
+        matcher: keywordMatch.matcher
       }
     };
   }
@@ -260,12 +360,12 @@ export function classifyTransactionMultiLayer(
   const patternMatch = checkPatterns(merchant);
   if (patternMatch) {
     return {
-      category: patternMatch,
+      category: patternMatch.category,
       confidence: 0.85,
       matchedRule: {
         type: 'pattern',
         priority: 5,
-        matcher: 'pattern'
+        matcher: patternMatch.matcher
       }
     };
   }
@@ -274,12 +374,12 @@ export function classifyTransactionMultiLayer(
   const heuristicMatch = checkHeuristics(merchant, amount);
   if (heuristicMatch) {
     return {
-      category: heuristicMatch,
+      category: heuristicMatch.category,
       confidence: 0.7,
       matchedRule: {
         type: 'heuristic',
         priority: 6,
-        matcher: 'heuristic'
+        matcher: heuristicMatch.matcher
       }
     };
   }
@@ -299,11 +399,33 @@ export function classifyTransactionMultiLayer(
 /**
  * Backward-compatible simple classifier (for existing code)
  */
-export function classifyTransaction(merchant: string, amount?: number): string {
-  const result = classifyTransactionMultiLayer(merchant, amount);
+export function classifyTransaction(
+  merchant: string,
+  amount?: number,
+  userRules: UserClassificationRules = {}
+): string {
+  const result = classifyTransactionMultiLayer(merchant, amount, userRules);
   return result.category;
 }
 
+/**
+ * Category for a parsed record, with the classification that chose it so the reason travels along
+ */
+export function classifyRecord(
+  description: string,
+  amount?: number
+): { category: TransactionCategory; classification: ClassificationResult } {
+  const classification = classifyTransactionMultiLayer(description, amount);
+  return { category: classification.category as TransactionCategory, classification };
+}
+
+/**
+ * Whether a classification is a guess rather than a rule match
+ */
+export function isLowConfidence(classification: ClassificationResult): boolean {
+  return classification.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
 /**
  * Parse HTML activity file and classify transactions
  */
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { parseOfx, parseOfxDate, parseOfxTree, findOfxNodes } from './ofxParser';
+
+const sgmlFile = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS>
+<STATUS><CODE>0<SEVERITY>INFO</STATUS>
+<DTSERVER>20250630120000
+<FI><ORG>HDFC Bank<FID>1234</FI>
+</SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>INR
+<BANKACCTFROM><BANKID>HDFC0000001<ACCTID>50100012345678<ACCTTYPE>SAVINGS</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250601<DTEND>20250630
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250612143000.000[+5.30:IST]
+<TRNAMT>-1,250.00
+<FITID>FIT0001
+<NAME>UPI-SWIGGY-swiggy@axisbank
+<MEMO>Food order
+<SIC>5812
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>ATM
+<DTPOSTED>20250614
+<TRNAMT>-2000.00
+<FITID>FIT0002
+<NAME>ATM WDL MG ROAD
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250615
+<TRNAMT>50000.00
+<FITID>FIT0003
+<NAME>SALARY ACME &amp; CO
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>120000.00<DTASOF>20250630</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const xmlFile = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>USD</CURDEF>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20250603</DTPOSTED>
+        <TRNAMT>-19.99</TRNAMT>
+        <FITID>CC-1</FITID>
+        <PAYEE><NAME>Netflix</NAME><CITY>Los Gatos</CITY></PAYEE>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+describe('ofxParser', () => {
+  describe('parseOfxTree', () => {
+    it('should build the same tree from unclosed SGML and closed XML elements', () => {
+      const sgml = parseOfxTree('<OFX><STMTTRN><TRNAMT>-5.00<NAME>A</STMTTRN></OFX>');
+      const xml = parseOfxTree('<OFX><STMTTRN><TRNAMT>-5.00</TRNAMT><NAME>A</NAME></STMTTRN></OFX>');
+
+      expect(xml).toEqual(sgml);
+      expect(findOfxNodes(sgml, 'STMTTRN')[0].children.map(c => c.name)).toEqual(['TRNAMT', 'NAME']);
+    });
+  });
+
+  describe('parseOfxDate', () => {
+    it('should keep the local wall time and ignore the zone suffix', () => {
+      expect(parseOfxDate('20250612143000.000[+5.30:IST]')).toEqual(new Date(2025, 5, 12, 14, 30, 0));
+      expect(parseOfxDate('20250612')).toEqual(new Date(2025, 5, 12));
+    });
+
+    it('should reject invalid dates', () => {
+      expect(parseOfxDate('20250231')).toBeNull();
+      expect(parseOfxDate('')).toBeNull();
+    });
+  });
+
+  describe('parseOfx', () => {
+    it('should read SGML bank statements', () => {
+      const statement = parseOfx(sgmlFile);
+
+      expect(statement.institution).toBe('HDFC Bank');
+      expect(statement.entries).toHaveLength(3);
+      expect(statement.entries[0]).toEqual({
+        date: new Date(2025, 5, 12, 14, 30, 0),
+        amount: -1250,
+        description: 'UPI-SWIGGY-swiggy@axisbank - Food order',
+        id: 'FIT0001',
+        reference: undefined,
+        type: 'DEBIT',
+        currency: 'INR',
+      });
+      expect(statement.entries[2].description).toBe('SALARY ACME & CO');
+    });
+
+    it('should report transaction fields that were not imported', () => {
+      expect(parseOfx(sgmlFile).unsupportedFields).toEqual(['SIC']);
+      expect(parseOfx(xmlFile).unsupportedFields).toEqual([]);
+    });
+
+    it('should read XML credit card statements with nested payees', () => {
+      const statement = parseOfx(xmlFile);
+
+      expect(statement.entries).toHaveLength(1);
+      expect(statement.entries[0].description).toBe('Netflix');
+      expect(statement.entries[0].currency).toBe('USD');
+    });
+
+    it('should report investment statements', () => {
+      const statement = parseOfx('<OFX><INVSTMTMSGSRSV1><INVSTMTTRNRS><INVSTMTRS></INVSTMTRS></INVSTMTTRNRS></INVSTMTMSGSRSV1></OFX>');
+
+      expect(statement.entries).toHaveLength(0);
+      expect(statement.unsupportedFields).toEqual(['INVSTMTRS (investment statements)']);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+// Parse OFX/QFX files (SGML v1.x and XML v2.x) into interchange entries
+
+import type { SkippedRecord } from '../types/data.types';
+import type { InterchangeEntry, InterchangeStatement } from '../types/interchange.types';
+import { joinDescription } from './interchangeUtils';
+import { toSnippet } from './importReport';
+
+/**
+ * An OFX element: aggregates have children, data elements have a value
+ */
+export interface OfxNode {
+  name: string;
+  value?: string;
+  children: OfxNode[];
+}
+
+// STMTTRN elements that map onto a Transaction
+const SUPPORTED_TRANSACTION_FIELDS = new Set([
+  'TRNTYPE',
+  'DTPOSTED',
+  'DTUSER',
+  'TRNAMT',
+  'FITID',
+  'CHECKNUM',
+  'REFNUM',
+  'NAME',
+  'PAYEE',
+  'MEMO',
+]);
+
+// Statement responses that carry something other than bank or card transactions
+const UNSUPPORTED_STATEMENTS: Record<string, string> = {
+  INVSTMTRS: 'INVSTMTRS (investment statements)',
+  LOANSTMTRS: 'LOANSTMTRS (loan statements)',
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Build the element tree of an OFX document
+ * SGML files leave data elements unclosed ("<TRNAMT>-250.00"), XML files close them;
+ * both come out as the same tree. The header block before <OFX> is ignored.
+ */
+export function parseOfxTree(text: string): OfxNode {
+  const root: OfxNode = { name: 'ROOT', children: [] };
+  const stack: OfxNode[] = [root];
+
+  const start = text.search(/<OFX>/i);
+  const body = start === -1 ? text : text.slice(start);
+  const tagPattern = /<(\/?)([A-Za-z0-9._]+)[^>]*>([^<]*)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(body)) !== null) {
+    const [, closing, rawName, rawValue] = match;
+    const name = rawName.toUpperCase();
+    const value = rawValue.trim();
+
+    if (closing) {
+      // Closing a data element (XML) has no aggregate to pop
+      const index = stack.map(node => node.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const node: OfxNode = { name, children: [] };
+    stack[stack.length - 1].children.push(node);
+
+    if (value) {
+      node.value = decodeEntities(value);
+    } else {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Find every element with the given name below a node
+ */
+export function findOfxNodes(node: OfxNode, name: string): OfxNode[] {
+  const found: OfxNode[] = [];
+  node.children.forEach(child => {
+    if (child.name === name) found.push(child);
+    found.push(...findOfxNodes(child, name));
+  });
+  return found;
+}
+
+/**
+ * Parse an OFX date: YYYYMMDD[HHMMSS[.XXX]][gmt offset:tz name]
+ * The local wall time is kept, like the dates of every other source
+ */
+export function parseOfxDate(value: string | undefined): Date | null {
+  const match = (value || '').trim().match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) return null;
+
+  const [year, month, day, hours, minutes, seconds] = match
+    .slice(1)
+    .map(part => (part ? parseInt(part, 10) : 0));
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Read bank (STMTRS) and credit card (CCSTMTRS) transactions from an OFX/QFX file
+ */
+export function parseOfx(text: string): InterchangeStatement {
+  const root = parseOfxTree(text);
+  const entries: InterchangeEntry[] = [];
+  const unsupported = new Set<string>();
+  const skippedEntries: SkippedRecord[] = [];
+
+  // <SONRS><FI><ORG> names the bank that produced the file
+  const institution = findOfxNodes(root, 'ORG')[0]?.value;
+
+  Object.entries(UNSUPPORTED_STATEMENTS).forEach(([name, label]) => {
+    if (findOfxNodes(root, name).length > 0) unsupported.add(label);
+  });
+
+  const statements = [...findOfxNodes(root, 'STMTRS'), ...findOfxNodes(root, 'CCSTMTRS')];
+  statements.forEach(statement => {
+    const currency = childValue(statement, 'CURDEF');
+
+    findOfxNodes(statement, 'STMTTRN').forEach(transaction => {
+      transaction.children
+        .filter(child => !SUPPORTED_TRANSACTION_FIELDS.has(child.name))
+        .forEach(child => unsupported.add(child.name));
+
+      // DTUSER is when the user made the transaction, DTPOSTED when the bank booked it
+      const date =
+        parseOfxDate(childValue(transaction, 'DTUSER')) ||
+        parseOfxDate(childValue(transaction, 'DTPOSTED'));
+      const amount = parseFloat((childValue(transaction, 'TRNAMT') || '').replace(/,/g, ''));
+
+      if (!date || isNaN(amount) || amount === 0) {
+        skippedEntries.push({
+          reason: date ? 'No amount' : 'No date',
+          snippet: toSnippet(
+            Object.fromEntries(transaction.children.map(child => [child.name, child.value]))
+          ),
+        });
+        return;
+      }
+
+      const payee = transaction.children.find(child => child.name === 'PAYEE');
+      const name = childValue(transaction, 'NAME') || (payee && childValue(payee, 'NAME'));
+      const memo = childValue(transaction, 'MEMO');
+
+      entries.push({
+        date,
+        amount,
+        description: joinDescription(name, memo) || 'OFX transaction',
+        id: childValue(transaction, 'FITID'),
+        reference: childValue(transaction, 'REFNUM') || childValue(transaction, 'CHECKNUM'),
+        type: childValue(transaction, 'TRNTYPE')?.toUpperCase(),
+        currency,
+      });
+    });
+  });
+
+  return {
+    entries,
+    institution,
+    unsupportedFields: Array.from(unsupported).sort(),
+    skippedEntries,
+  };
+}
+
+function childValue(node: OfxNode, name: string): string | undefined {
+  return node.children.find(child => child.name === name)?.value;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isNaN(point) ? entity : String.fromCodePoint(point);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
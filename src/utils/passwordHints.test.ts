@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { buildPasswordCandidates, getPasswordFields, getPasswordIssuer } from './passwordHints';
+import { UpiApp } from '../types/app.types';
+
+describe('passwordHints', () => {
+  const details = { name: 'Priya Sharma', phone: '+91 98765 43210', dob: '1990-07-15', customerId: ' 12345678 ' };
+
+  describe('buildPasswordCandidates', () => {
+    it('should build each scheme from normalised details', () => {
+      expect(buildPasswordCandidates(['phone'], details)).toEqual(['9876543210']);
+      expect(buildPasswordCandidates(['dob'], details)).toEqual(['15071990', '150790']);
+      expect(buildPasswordCandidates(['name_ddmm'], details)).toEqual(['PRIY1507', 'priy1507']);
+      expect(buildPasswordCandidates(['phone5_ddmmyy'], details)).toEqual(['43210150790']);
+      expect(buildPasswordCandidates(['customer_id'], details)).toEqual(['12345678']);
+    });
+
+    it('should skip schemes missing a detail', () => {
+      expect(buildPasswordCandidates(['name_ddmm', 'dob'], { dob: '1990-07-15' })).toEqual([
+        '15071990',
+        '150790',
+      ]);
+      expect(buildPasswordCandidates(['phone'], { phone: '12345' })).toEqual([]);
+    });
+  });
+
+  it('should ask for every field the schemes need once', () => {
+    expect(getPasswordFields(['name_ddmm', 'dob', 'phone5_ddmmyy'])).toEqual(['name', 'dob', 'phone']);
+  });
+
+  it('should tell card issuers apart by file name', () => {
+    expect(getPasswordIssuer(UpiApp.CREDIT_CARD, 'HDFC_Credit_Card_Statement.pdf')).toEqual({
+      key: 'creditcard:HDFC Bank',
+      name: 'HDFC Bank card',
+    });
+    expect(getPasswordIssuer(UpiApp.PHONEPE, 'PhonePe_Statement.pdf')).toEqual({ key: 'phonepe', name: 'PhonePe' });
+  });
+});
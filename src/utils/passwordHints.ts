@@ -0,0 +1,119 @@
+// Candidate statement passwords built from the schemes apps and banks lock their files with
+
+import { UpiApp, type PasswordSchemeId, type UpiAppId } from '../types/app.types';
+import { APP_METADATA } from '../adapters/registry';
+import { detectIssuer } from './cardStatementParser';
+
+/**
+ * Personal details a password scheme is built from
+ */
+export type PasswordField = 'name' | 'phone' | 'dob' | 'customerId';
+
+/**
+ * Details entered in the password prompt; dob is an <input type="date"> value (YYYY-MM-DD)
+ */
+export type PasswordDetails = Partial<Record<PasswordField, string>>;
+
+export const PASSWORD_FIELD_LABELS: Record<PasswordField, string> = {
+  name: 'Name (as on the account)',
+  phone: 'Registered mobile number',
+  dob: 'Date of birth',
+  customerId: 'Customer ID / CRN',
+};
+
+interface PasswordScheme {
+  label: string;
+  fields: PasswordField[];
+  build: (details: Required<PasswordDetails>) => string[];
+}
+
+export const PASSWORD_SCHEMES: Record<PasswordSchemeId, PasswordScheme> = {
+  phone: {
+    label: 'Mobile number',
+    fields: ['phone'],
+    build: ({ phone }) => [phone],
+  },
+  dob: {
+    label: 'Date of birth (DDMMYYYY or DDMMYY)',
+    fields: ['dob'],
+    build: ({ dob }) => [dob, dob.slice(0, 4) + dob.slice(6)],
+  },
+  name_ddmm: {
+    label: 'First 4 letters of name + DDMM of birth',
+    fields: ['name', 'dob'],
+    build: ({ name, dob }) => {
+      const prefix = name.slice(0, 4);
+      const ddmm = dob.slice(0, 4);
+      return [prefix.toUpperCase() + ddmm, prefix.toLowerCase() + ddmm];
+    },
+  },
+  phone5_ddmmyy: {
+    label: 'Last 5 digits of mobile + DDMMYY of birth',
+    fields: ['phone', 'dob'],
+    build: ({ phone, dob }) => [phone.slice(-5) + dob.slice(0, 4) + dob.slice(6)],
+  },
+  customer_id: {
+    label: 'Customer ID',
+    fields: ['customerId'],
+    build: ({ customerId }) => [customerId],
+  },
+};
+
+/**
+ * Details to ask for so every scheme can be tried, in first-use order
+ */
+export function getPasswordFields(schemes: PasswordSchemeId[]): PasswordField[] {
+  return [...new Set(schemes.flatMap(scheme => PASSWORD_SCHEMES[scheme].fields))];
+}
+
+/**
+ * Normalise entered details: first name letters, the 10-digit mobile number,
+ * DDMMYYYY birth date and a trimmed customer ID. Unusable values are dropped.
+ */
+function normaliseDetails(details: PasswordDetails): PasswordDetails {
+  const name = (details.name || '').trim().split(/\s+/)[0].replace(/[^a-z]/gi, '');
+  const phone = (details.phone || '').replace(/\D/g, '').slice(-10);
+  const dob = (details.dob || '').match(/^(\d{4})-(\d{2})-(\d{2})$/);
+
+  return {
+    name: name || undefined,
+    phone: phone.length === 10 ? phone : undefined,
+    dob: dob ? `${dob[3]}${dob[2]}${dob[1]}` : undefined,
+    customerId: details.customerId?.trim() || undefined,
+  };
+}
+
+/**
+ * Passwords the schemes produce from the entered details, most likely first
+ * Schemes missing one of their details are skipped
+ */
+export function buildPasswordCandidates(schemes: PasswordSchemeId[], details: PasswordDetails): string[] {
+  const normalised = normaliseDetails(details);
+  const candidates = schemes.flatMap(scheme => {
+    const { fields, build } = PASSWORD_SCHEMES[scheme];
+    return fields.every(field => normalised[field])
+      ? build(normalised as Required<PasswordDetails>)
+      : [];
+  });
+  return [...new Set(candidates)];
+}
+
+/**
+ * Who locked a file: the key its password is reused under, and a name for the prompt
+ */
+export interface PasswordIssuer {
+  key: string;
+  name: string;
+}
+
+/**
+ * Who locked a file, for reusing its password on the next file from them
+ * Card statements are told apart by the issuing bank in the file name
+ */
+export function getPasswordIssuer(app: UpiAppId, fileName: string): PasswordIssuer {
+  if (app === UpiApp.CREDIT_CARD) {
+    const issuer = detectIssuer(fileName);
+    if (issuer) return { key: `${app}:${issuer}`, name: /card$/i.test(issuer) ? issuer : `${issuer} card` };
+  }
+  return { key: app, name: APP_METADATA[app].displayName };
+}
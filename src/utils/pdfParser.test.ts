@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parsePhonePePDF, extractPDFText } from './pdfParser';
+import { parsePhonePePDF, extractPDFText, pdfLinesToRows, type PdfTextLine } from './pdfParser';
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
 
@@ -126,3 +126,32 @@ describe('parsePhonePePDF', () => {
     }
   });
 });
+
+describe('pdfLinesToRows', () => {
+  const line = (page: number, y: number, items: [number, string][]): PdfTextLine => ({
+    page,
+    y,
+    items: items.map(([x, text]) => ({ x, width: text.length * 4, text })),
+  });
+
+  it('should place values under the nearest header and join wrapped narrations', () => {
+    const lines = [
+      line(1, 700, [[20, 'Statement of account']]),
+      line(1, 650, [[20, 'Date'], [80, 'Narration'], [300, 'Withdrawal Amt.'], [400, 'Deposit Amt.']]),
+      line(1, 630, [[20, '01/06/25'], [80, 'UPI-SWIGGY-512345678901'], [320, '250.00']]),
+      line(1, 620, [[80, '-PAYMENT']]),
+      line(1, 600, [[20, '02/06/25'], [80, 'NEFT CR-SALARY'], [415, '50000.00']]),
+      line(2, 780, [[20, 'Date'], [80, 'Narration'], [300, 'Withdrawal Amt.'], [400, 'Deposit Amt.']]),
+      line(2, 760, [[20, '03/06/25'], [80, 'ATM WDL'], [320, '1000.00']]),
+    ];
+
+    const rows = pdfLinesToRows(lines, 1);
+
+    expect(rows).toEqual([
+      ['Date', 'Narration', 'Withdrawal Amt.', 'Deposit Amt.'],
+      ['01/06/25', 'UPI-SWIGGY-512345678901 -PAYMENT', '250.00', ''],
+      ['02/06/25', 'NEFT CR-SALARY', '', '50000.00'],
+      ['03/06/25', 'ATM WDL', '1000.00', ''],
+    ]);
+  });
+});
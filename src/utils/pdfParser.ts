@@ -5,13 +5,14 @@
 
 import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
 import type { UpiAppId } from '../types/app.types';
-import type { Transaction, Currency } from '../types/data.types';
-import type { TransactionCategory } from './categoryUtils';
-import { classifyTransaction } from './multi-layer-classifier';
+import type { Transaction, Currency, ImportReport } from '../types/data.types';
+import { classifyRecord } from './multi-layer-classifier';
+import { createImportReport, recordParsed, recordSkipped } from './importReport';
 
 // Configure PDF.js worker
 // Use local worker from node_modules for privacy-first approach
-if (typeof window !== 'undefined') {
+// (`self` covers both the main thread and the processing Web Worker)
+if (typeof self !== 'undefined') {
   try {
     // In Vite, we need to use the legacy build path
     pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
@@ -28,6 +29,7 @@ export interface PDFParseResult<T> {
   data?: T[];
   error?: string;
   warning?: string;
+  report?: ImportReport; // Transaction rows read, parsed and skipped
 }
 
 interface TextItem {
@@ -86,25 +88,153 @@ export async function extractPDFText(
 }
 
 /**
- * Parse PhonePe transaction PDF
+ * A line of text on a PDF page, with the horizontal position of each text run
+ */
+export interface PdfTextLine {
+  page: number;
+  y: number;
+  items: { x: number; width: number; text: string }[];
+}
+
+/**
+ * Whether a PDF has an encryption dictionary (i.e. needs a password to open)
+ * Checked on the raw bytes so no password prompt is needed just to find out
+ */
+export function isPDFEncrypted(pdfBuffer: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(pdfBuffer);
+  const scanSize = 32768;
+
+  // The trailer is at the end of the file, or near the start for linearized PDFs
+  const toText = (part: Uint8Array) => String.fromCharCode(...part);
+  return (
+    toText(bytes.subarray(Math.max(0, bytes.length - scanSize))).includes('/Encrypt') ||
+    toText(bytes.subarray(0, scanSize)).includes('/Encrypt')
+  );
+}
+
+/**
+ * Extract text lines from a (possibly password-protected) PDF, top to bottom per page
+ */
+export async function extractPDFLines(
+  pdfBuffer: ArrayBuffer,
+  password?: string
+): Promise<{ success: boolean; lines?: PdfTextLine[]; error?: string }> {
+  try {
+    const loadingTask = pdfjsLib.getDocument({
+      data: new Uint8Array(pdfBuffer),
+      password: password,
+    });
+
+    const pdf = await loadingTask.promise;
+    const lines: PdfTextLine[] = [];
+
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const textContent = await page.getTextContent();
+
+      // Group text items by Y-coordinate (rows)
+      const rowMap = new Map<number, PdfTextLine['items']>();
+      textContent.items.forEach((item: any) => {
+        if (!item.str || !item.str.trim()) return;
+        const y = Math.round(item.transform[5]);
+        if (!rowMap.has(y)) rowMap.set(y, []);
+        rowMap.get(y)!.push({ x: item.transform[4], width: item.width || 0, text: item.str.trim() });
+      });
+
+      Array.from(rowMap.entries())
+        .sort((a, b) => b[0] - a[0])
+        .forEach(([y, items]) => {
+          lines.push({ page: pageNum, y, items: items.sort((a, b) => a.x - b.x) });
+        });
+    }
+
+    return { success: true, lines };
+  } catch (error: any) {
+    if (error.name === 'PasswordException') {
+      return {
+        success: false,
+        error: 'Invalid PDF password. Please try again.',
+      };
+    }
+    if (error.name === 'InvalidPDFException') {
+      return {
+        success: false,
+        error: 'Invalid or corrupted PDF file.',
+      };
+    }
+    return {
+      success: false,
+      error: error.message || 'Failed to extract PDF text.',
+    };
+  }
+}
+
+/**
+ * Rebuild a table from PDF lines, using a header line for the column positions
  *
- * PhonePe PDFs have a multi-line structure per transaction:
- * - Row 1: Date | Description | Type | Amount
- * - Row 2: Time
- * - Row 3: Transaction ID
- * - Row 4: UTR Number
- * - Row 5: Account info
+ * Each text run goes to the header column whose centre is closest. A line
+ * without a value in the first column continues the previous row (wrapped
+ * narrations), and repeated headers on later pages are dropped.
+ *
+ * @param lines - Lines from extractPDFLines()
+ * @param headerIndex - Index of the header line in `lines`
+ * @returns Rows of cells, header first
+ */
+export function pdfLinesToRows(lines: PdfTextLine[], headerIndex: number): string[][] {
+  const header = lines[headerIndex];
+  const columns = header.items.map(item => item.x + item.width / 2);
+  const headerText = header.items.map(item => item.text).join(' ');
+
+  const rows: string[][] = [header.items.map(item => item.text)];
+  let previous: { line: PdfTextLine; cells: string[] } | null = null;
+
+  for (const line of lines.slice(headerIndex + 1)) {
+    if (line.items.map(item => item.text).join(' ') === headerText) {
+      previous = null;
+      continue;
+    }
+
+    const cells = columns.map(() => '');
+    line.items.forEach(item => {
+      const centre = item.x + item.width / 2;
+      let nearest = 0;
+      columns.forEach((column, index) => {
+        if (Math.abs(column - centre) < Math.abs(columns[nearest] - centre)) nearest = index;
+      });
+      cells[nearest] = cells[nearest] ? `${cells[nearest]} ${item.text}` : item.text;
+    });
+
+    // Wrapped text sits just below its row on the same page
+    const isContinuation =
+      !cells[0] && previous && previous.line.page === line.page && previous.line.y - line.y < 20;
+
+    if (isContinuation && previous) {
+      cells.forEach((cell, index) => {
+        if (cell) previous!.cells[index] = `${previous!.cells[index]} ${cell}`.trim();
+      });
+      previous.line = line;
+      continue;
+    }
+
+    rows.push(cells);
+    previous = { line, cells };
+  }
+
+  return rows;
+}
+
+/**
+ * Decrypt a PhonePe PDF and read its text rows, top to bottom
+ * Done at upload, so the password doesn't have to be kept with the file to parse it again
  *
  * @param pdfBuffer - PDF file as ArrayBuffer
  * @param password - PDF decryption password
- * @param sourceApp - Source app identifier (default: 'phonepe')
- * @returns Parsed transactions or error
+ * @returns Text of each row or error
  */
-export async function parsePhonePePDF(
+export async function extractPhonePeRows(
   pdfBuffer: ArrayBuffer,
-  password: string,
-  sourceApp: UpiAppId = 'phonepe'
-): Promise<PDFParseResult<Transaction>> {
+  password: string
+): Promise<{ success: boolean; rows?: string[]; error?: string }> {
   try {
     const loadingTask = pdfjsLib.getDocument({
       data: new Uint8Array(pdfBuffer),
@@ -146,184 +276,231 @@ export async function parsePhonePePDF(
         text: items.sort((a, b) => a.x - b.x).map(i => i.text).join(' '),
       }));
 
-    // Find main transaction rows (contain "Credit" or "Debit" and "INR")
-    const transactions: Transaction[] = [];
-    let skippedRows = 0;
-    const debugMode = false; // Set to true for detailed logging
-
-    if (debugMode) {
-      console.log('\n=== All Rows in PDF ===');
-      sortedRows.forEach((row, idx) => {
-        console.log(`Row ${idx}: ${row.text}`);
-      });
-      console.log('=== End of Rows ===\n');
+    return { success: true, rows: sortedRows.map(row => row.text) };
+  } catch (error: any) {
+    if (error.name === 'PasswordException') {
+      return {
+        success: false,
+        error: 'Invalid PDF password. Please try again.',
+      };
     }
+    if (error.name === 'InvalidPDFException') {
+      return {
+        success: false,
+        error: 'Invalid or corrupted PDF file.',
+      };
+    }
+    return {
+      success: false,
+      error: error.message || 'Failed to read PhonePe PDF.',
+    };
+  }
+}
 
-    for (let i = 0; i < sortedRows.length; i++) {
-      const row = sortedRows[i];
-
-      // Check if this is a main transaction row
-      const hasType = /\b(Credit|Debit)\b/.test(row.text);
-      const hasAmount = /INR\s+[\d,]+\.\d{2}/.test(row.text);
-
-      if (hasType && hasAmount) {
-        try {
-          // Parse main row
-          let dateMatch = row.text.match(/([A-Z][a-z]{2}\s+\d{2},\s+\d{4})/);
-          const typeMatch = row.text.match(/\b(Credit|Debit)\b/);
-          const amountMatch = row.text.match(/INR\s+([\d,]+\.\d{2})/);
-
-          // If date is not on this row, look in previous rows (common in PhonePe PDFs)
-          if (!dateMatch) {
-            // Check up to 3 previous rows for a date
-            for (let j = Math.max(0, i - 3); j < i; j++) {
-              const prevRow = sortedRows[j];
-              const prevDateMatch = prevRow.text.match(/([A-Z][a-z]{2}\s+\d{2},\s+\d{4})/);
-              if (prevDateMatch) {
-                dateMatch = prevDateMatch;
-                break;
-              }
+/**
+ * Parse the text rows of a PhonePe transaction PDF (see extractPhonePeRows)
+ *
+ * PhonePe PDFs have a multi-line structure per transaction:
+ * - Row 1: Date | Description | Type | Amount
+ * - Row 2: Time
+ * - Row 3: Transaction ID
+ * - Row 4: UTR Number
+ * - Row 5: Account info
+ *
+ * @param rows - Text of each row, top to bottom
+ * @param sourceApp - Source app identifier (default: 'phonepe')
+ * @returns Parsed transactions
+ */
+export function parsePhonePeRows(
+  rows: string[],
+  sourceApp: UpiAppId = 'phonepe'
+): PDFParseResult<Transaction> {
+  const sortedRows = rows.map(text => ({ text }));
+
+  // Find main transaction rows (contain "Credit" or "Debit" and "INR")
+  const transactions: Transaction[] = [];
+  const report = createImportReport();
+  const debugMode = false; // Set to true for detailed logging
+
+  if (debugMode) {
+    console.log('\n=== All Rows in PDF ===');
+    sortedRows.forEach((row, idx) => {
+      console.log(`Row ${idx}: ${row.text}`);
+    });
+    console.log('=== End of Rows ===\n');
+  }
+
+  for (let i = 0; i < sortedRows.length; i++) {
+    const row = sortedRows[i];
+
+    // Check if this is a main transaction row
+    const hasType = /\b(Credit|Debit)\b/.test(row.text);
+    const hasAmount = /INR\s+[\d,]+\.\d{2}/.test(row.text);
+
+    if (hasType && hasAmount) {
+      try {
+        // Parse main row
+        let dateMatch = row.text.match(/([A-Z][a-z]{2}\s+\d{2},\s+\d{4})/);
+        const typeMatch = row.text.match(/\b(Credit|Debit)\b/);
+        const amountMatch = row.text.match(/INR\s+([\d,]+\.\d{2})/);
+
+        // If date is not on this row, look in previous rows (common in PhonePe PDFs)
+        if (!dateMatch) {
+          // Check up to 3 previous rows for a date
+          for (let j = Math.max(0, i - 3); j < i; j++) {
+            const prevRow = sortedRows[j];
+            const prevDateMatch = prevRow.text.match(/([A-Z][a-z]{2}\s+\d{2},\s+\d{4})/);
+            if (prevDateMatch) {
+              dateMatch = prevDateMatch;
+              break;
             }
           }
+        }
 
-          if (!dateMatch || !typeMatch || !amountMatch) {
-            console.warn(`Skipping row ${i} - incomplete data: ${row.text}`);
-            console.warn(`  - Has date: ${!!dateMatch}, Has type: ${!!typeMatch}, Has amount: ${!!amountMatch}`);
-            skippedRows++;
-            continue;
-          }
+        if (!dateMatch || !typeMatch || !amountMatch) {
+          recordSkipped(report, 'No transaction date near the row', row.text, i + 1);
+          continue;
+        }
 
-          // Get description (text between date and type, or just before type if date is on different line)
-          let description = 'PhonePe Transaction';
+        // Get description (text between date and type, or just before type if date is on different line)
+        let description = 'PhonePe Transaction';
 
-          // Try to extract description from the row text
-          // Pattern 1: Date on same line - "MMM DD, YYYY Description Credit/Debit"
-          let descriptionMatch = row.text.match(
-            /[A-Z][a-z]{2}\s+\d{2},\s+\d{4}\s+(.+?)\s+(Credit|Debit)/
-          );
+        // Try to extract description from the row text
+        // Pattern 1: Date on same line - "MMM DD, YYYY Description Credit/Debit"
+        let descriptionMatch = row.text.match(
+          /[A-Z][a-z]{2}\s+\d{2},\s+\d{4}\s+(.+?)\s+(Credit|Debit)/
+        );
 
+        if (descriptionMatch) {
+          description = descriptionMatch[1].trim();
+        } else {
+          // Pattern 2: No date on line - "Description Credit/Debit"
+          descriptionMatch = row.text.match(/(.+?)\s+(Credit|Debit)/);
           if (descriptionMatch) {
             description = descriptionMatch[1].trim();
-          } else {
-            // Pattern 2: No date on line - "Description Credit/Debit"
-            descriptionMatch = row.text.match(/(.+?)\s+(Credit|Debit)/);
-            if (descriptionMatch) {
-              description = descriptionMatch[1].trim();
-            }
           }
+        }
 
-          // Collect details from next 4-5 rows
-          let time = '';
-          let transactionId = '';
-          let utrNo = '';
-          let accountInfo = '';
-
-          for (let j = i + 1; j < Math.min(i + 6, sortedRows.length); j++) {
-            const detailRow = sortedRows[j];
+        // Collect details from next 4-5 rows
+        let time = '';
+        let transactionId = '';
+        let utrNo = '';
+        let accountInfo = '';
 
-            // Stop if we hit another transaction
-            if (/\b(Credit|Debit)\b/.test(detailRow.text) && /INR\s+[\d,]+\.\d{2}/.test(detailRow.text)) {
-              break;
-            }
+        for (let j = i + 1; j < Math.min(i + 6, sortedRows.length); j++) {
+          const detailRow = sortedRows[j];
 
-            // Extract time (HH:MM AM/PM pattern)
-            if (!time && /\d{2}:\d{2}\s+[AP]M/.test(detailRow.text)) {
-              const timeMatch = detailRow.text.match(/(\d{2}:\d{2}\s+[AP]M)/);
-              time = timeMatch ? timeMatch[1] : '';
-            }
+          // Stop if we hit another transaction
+          if (/\b(Credit|Debit)\b/.test(detailRow.text) && /INR\s+[\d,]+\.\d{2}/.test(detailRow.text)) {
+            break;
+          }
 
-            // Extract transaction ID
-            if (!transactionId && /Transaction ID\s*:\s*/.test(detailRow.text)) {
-              const txIdMatch = detailRow.text.match(/Transaction ID\s*:\s*(\w+)/);
-              transactionId = txIdMatch ? txIdMatch[1] : '';
-            }
+          // Extract time (HH:MM AM/PM pattern)
+          if (!time && /\d{2}:\d{2}\s+[AP]M/.test(detailRow.text)) {
+            const timeMatch = detailRow.text.match(/(\d{2}:\d{2}\s+[AP]M)/);
+            time = timeMatch ? timeMatch[1] : '';
+          }
 
-            // Extract UTR number
-            if (!utrNo && /UTR No\s*:\s*/.test(detailRow.text)) {
-              const utrMatch = detailRow.text.match(/UTR No\s*:\s*(\w+)/);
-              utrNo = utrMatch ? utrMatch[1] : '';
-            }
+          // Extract transaction ID
+          if (!transactionId && /Transaction ID\s*:\s*/.test(detailRow.text)) {
+            const txIdMatch = detailRow.text.match(/Transaction ID\s*:\s*(\w+)/);
+            transactionId = txIdMatch ? txIdMatch[1] : '';
+          }
 
-            // Extract account info
-            if (!accountInfo && /(Credited to|Debited from)/.test(detailRow.text)) {
-              accountInfo = detailRow.text.trim();
-            }
+          // Extract UTR number
+          if (!utrNo && /UTR No\s*:\s*/.test(detailRow.text)) {
+            const utrMatch = detailRow.text.match(/UTR No\s*:\s*(\w+)/);
+            utrNo = utrMatch ? utrMatch[1] : '';
           }
 
-          // Parse date + time
-          const dateStr = dateMatch[1];
-          const dateTimeStr = time ? `${dateStr} ${time}` : dateStr;
-          const transactionDate = parsePhonePeDate(dateTimeStr);
-
-          // Parse amount
-          const amountValue = parseFloat(amountMatch[1].replace(/,/g, ''));
-          const amount: Currency = { value: amountValue, currency: 'INR' };
-
-          // Determine status (PhonePe PDFs typically only show successful transactions)
-          const status = 'Success';
-
-          // Classify transaction
-          const category = classifyTransaction(description, amountValue);
-
-          // Create transaction object
-          const transaction: Transaction = {
-            time: transactionDate,
-            id: transactionId || utrNo || `PHONEPE-${Date.now()}-${transactions.length}`,
-            description: description,
-            product: 'PhonePe UPI',
-            method: accountInfo || 'PhonePe',
-            status: status,
-            amount: amount,
-            category: category as TransactionCategory | undefined,
-            sourceApp: sourceApp,
-          };
-
-          transactions.push(transaction);
-        } catch (error) {
-          console.error(`Error parsing transaction row:`, error);
-          skippedRows++;
+          // Extract account info
+          if (!accountInfo && /(Credited to|Debited from)/.test(detailRow.text)) {
+            accountInfo = detailRow.text.trim();
+          }
         }
-      }
-    }
 
-    // Sort transactions by date (newest first)
-    transactions.sort((a, b) => b.time.getTime() - a.time.getTime());
-
-    // Return results
-    if (transactions.length === 0) {
-      return {
-        success: true,
-        data: [],
-        warning: 'No transactions found in PDF',
-      };
+        // Parse date + time
+        const dateStr = dateMatch[1];
+        const dateTimeStr = time ? `${dateStr} ${time}` : dateStr;
+        const transactionDate = parsePhonePeDate(dateTimeStr);
+
+        // Parse amount
+        const amountValue = parseFloat(amountMatch[1].replace(/,/g, ''));
+        const amount: Currency = { value: amountValue, currency: 'INR' };
+
+        // Determine status (PhonePe PDFs typically only show successful transactions)
+        const status = 'Success';
+
+        // Classify transaction
+        const { category, classification } = classifyRecord(description, amountValue);
+
+        // Create transaction object
+        const transaction: Transaction = {
+          time: transactionDate,
+          id: transactionId || utrNo || `PHONEPE-${Date.now()}-${transactions.length}`,
+          description: description,
+          product: 'PhonePe UPI',
+          method: accountInfo || 'PhonePe',
+          status: status,
+          amount: amount,
+          category,
+          classification,
+          referenceId: utrNo || undefined,
+          direction: typeMatch[1] === 'Credit' ? 'credit' : 'debit',
+          sourceApp: sourceApp,
+        };
+
+        transactions.push(transaction);
+        recordParsed(report);
+      } catch (error) {
+        recordSkipped(
+          report,
+          error instanceof Error ? error.message : 'Row could not be read',
+          row.text,
+          i + 1
+        );
+      }
     }
+  }
 
-    if (skippedRows > 0) {
-      console.warn(`Skipped ${skippedRows} rows during parsing`);
-    }
+  // Sort transactions by date (newest first)
+  transactions.sort((a, b) => b.time.getTime() - a.time.getTime());
 
+  // Return results
+  if (transactions.length === 0) {
     return {
       success: true,
-      data: transactions,
-    };
-  } catch (error: any) {
-    if (error.name === 'PasswordException') {
-      return {
-        success: false,
-        error: 'Invalid PDF password. Please try again.',
-      };
-    }
-    if (error.name === 'InvalidPDFException') {
-      return {
-        success: false,
-        error: 'Invalid or corrupted PDF file.',
-      };
-    }
-    return {
-      success: false,
-      error: error.message || 'Failed to parse PhonePe PDF.',
+      data: [],
+      warning: 'No transactions found in PDF',
+      report,
     };
   }
+
+  return {
+    success: true,
+    data: transactions,
+    report,
+  };
+}
+
+/**
+ * Parse PhonePe transaction PDF
+ *
+ * @param pdfBuffer - PDF file as ArrayBuffer
+ * @param password - PDF decryption password
+ * @param sourceApp - Source app identifier (default: 'phonepe')
+ * @returns Parsed transactions or error
+ */
+export async function parsePhonePePDF(
+  pdfBuffer: ArrayBuffer,
+  password: string,
+  sourceApp: UpiAppId = 'phonepe'
+): Promise<PDFParseResult<Transaction>> {
+  const extracted = await extractPhonePeRows(pdfBuffer, password);
+  if (!extracted.success || !extracted.rows) {
+    return { success: false, error: extracted.error };
+  }
+  return parsePhonePeRows(extracted.rows, sourceApp);
 }
 
 /**
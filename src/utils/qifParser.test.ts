@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { parseQif, detectQifDateFormat } from './qifParser';
+
+const qifFile = `!Account
+NHDFC Savings
+TBank
+^
+!Type:Bank
+D12/06'25
+T-1,250.00
+PSwiggy
+MFood order
+N412345678901
+LDining
+^
+D14/06/2025
+T-300.00
+PUber
+SCommute
+$-200.00
+STips
+$-100.00
+^
+D15/06/2025
+T50,000.00
+PSalary
+C*
+^
+!Type:Invst
+D15/06/2025
+NBuy
+YINFY
+^`;
+
+describe('qifParser', () => {
+  describe('parseQif', () => {
+    it('should read bank records and skip the account block', () => {
+      const statement = parseQif(qifFile);
+
+      expect(statement.entries).toHaveLength(3);
+      expect(statement.entries[0]).toEqual({
+        date: new Date(2025, 5, 12),
+        amount: -1250,
+        description: 'Swiggy - Food order',
+        reference: '412345678901',
+      });
+      expect(statement.entries[2].amount).toBe(50000);
+    });
+
+    it('should report unsupported fields and sections', () => {
+      expect(parseQif(qifFile).unsupportedFields).toEqual([
+        '!Type:Invst records',
+        'C (cleared status)',
+        'L (category)',
+        'S/E/$ (splits)',
+      ]);
+    });
+
+    it('should count records without a date or amount as skipped', () => {
+      const statement = parseQif('!Type:CCard\nD01/02/2025\nPNo amount\n^\nD01/02/2025\nT-10\nPCoffee\n^');
+
+      expect(statement.entries).toHaveLength(1);
+      expect(statement.skippedEntries).toEqual([{ reason: 'No amount', snippet: 'D: 01/02/2025 | P: No amount', row: 1 }]);
+    });
+  });
+
+  describe('detectQifDateFormat', () => {
+    it('should tell month-first files from day-first ones', () => {
+      expect(detectQifDateFormat(['6/5/25', '6/25/25'])).toBe('MM/DD/YYYY');
+      expect(detectQifDateFormat(['25/6/25'])).toBe('DD/MM/YYYY');
+      expect(detectQifDateFormat(['6/5/25'])).toBe('DD/MM/YYYY');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+// Parse QIF (Quicken Interchange Format) files into interchange entries
+
+import type { DateFormat } from '../types/mapping.types';
+import type { SkippedRecord } from '../types/data.types';
+import type { InterchangeEntry, InterchangeStatement } from '../types/interchange.types';
+import { parseAmountValue, parseDateValue } from './columnMapping';
+import { joinDescription } from './interchangeUtils';
+import { toSnippet } from './importReport';
+
+// Account types whose records are cash movements
+const SUPPORTED_TYPES = new Set(['bank', 'cash', 'ccard', 'oth a', 'oth l']);
+
+// Record fields that map onto a Transaction
+const SUPPORTED_FIELDS = new Set(['D', 'T', 'U', 'P', 'M', 'N']);
+
+const FIELD_NAMES: Record<string, string> = {
+  A: 'A (address)',
+  C: 'C (cleared status)',
+  L: 'L (category)',
+  S: 'S/E/$ (splits)',
+  E: 'S/E/$ (splits)',
+  $: 'S/E/$ (splits)',
+  '%': 'S/E/$ (splits)',
+  F: 'F (reimbursable flag)',
+};
+
+interface QifRecord {
+  type: string;
+  fields: Record<string, string>;
+}
+
+/**
+ * Split a QIF file into records ('^' terminated) tagged with their !Type section
+ * !Account blocks describe the account and are skipped
+ */
+export function readQifRecords(text: string): QifRecord[] {
+  const records: QifRecord[] = [];
+  let type = 'Bank';
+  let fields: Record<string, string> = {};
+  let inAccountBlock = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      const header = line.slice(1).toLowerCase();
+      if (header.startsWith('type:')) {
+        type = line.slice(6).trim();
+        inAccountBlock = false;
+      } else if (header === 'account') {
+        inAccountBlock = true;
+      }
+      // !Option / !Clear switches don't change the records
+      return;
+    }
+
+    if (line === '^') {
+      if (!inAccountBlock && Object.keys(fields).length > 0) {
+        records.push({ type, fields });
+      }
+      fields = {};
+      inAccountBlock = false;
+      return;
+    }
+
+    const code = line[0];
+    // Split lines repeat; only whether they exist matters
+    if (fields[code] === undefined) fields[code] = line.slice(1).trim();
+  });
+
+  return records;
+}
+
+/**
+ * Normalise QIF dates: "6/12'25" and " 6/12/25" become "6/12/25"
+ */
+function normalizeQifDate(value: string): string {
+  return value.replace(/'/g, '/').replace(/\s+/g, '');
+}
+
+/**
+ * Work out whether the file writes day or month first
+ * Quicken writes MM/DD, Indian tools DD/MM; a part above 12 settles it.
+ * Files where it's never settled are read as DD/MM, like the other Indian sources
+ */
+export function detectQifDateFormat(dates: string[]): DateFormat {
+  for (const date of dates) {
+    const match = normalizeQifDate(date).match(/^(\d{1,2})[/\-.](\d{1,2})[/\-.]\d{1,4}$/);
+    if (!match) continue;
+    if (parseInt(match[1], 10) > 12) return 'DD/MM/YYYY';
+    if (parseInt(match[2], 10) > 12) return 'MM/DD/YYYY';
+  }
+  return 'DD/MM/YYYY';
+}
+
+/**
+ * Read the cash transactions of a QIF file
+ * Investment, category, class and memorized-transaction sections are reported and skipped
+ */
+export function parseQif(text: string): InterchangeStatement {
+  const records = readQifRecords(text);
+  const entries: InterchangeEntry[] = [];
+  const unsupported = new Set<string>();
+  const skippedEntries: SkippedRecord[] = [];
+
+  const cashRecords = records.filter(record => {
+    if (SUPPORTED_TYPES.has(record.type.toLowerCase())) return true;
+    unsupported.add(`!Type:${record.type} records`);
+    return false;
+  });
+
+  const dateFormat = detectQifDateFormat(cashRecords.map(record => record.fields.D || ''));
+
+  cashRecords.forEach(({ fields }, index) => {
+    Object.keys(fields)
+      .filter(code => !SUPPORTED_FIELDS.has(code))
+      .forEach(code => unsupported.add(FIELD_NAMES[code] || code));
+
+    const date = parseDateValue(normalizeQifDate(fields.D || ''), dateFormat);
+    const amount = parseAmountValue(fields.T ?? fields.U ?? '');
+
+    if (!date || amount === null || amount === 0) {
+      skippedEntries.push({ reason: date ? 'No amount' : 'No date', snippet: toSnippet(fields), row: index + 1 });
+      return;
+    }
+
+    entries.push({
+      date,
+      amount,
+      description: joinDescription(fields.P, fields.M) || 'QIF transaction',
+      reference: fields.N,
+    });
+  });
+
+  return {
+    entries,
+    unsupportedFields: Array.from(unsupported).sort(),
+    skippedEntries,
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { serialize, deserialize } from './serialization';
+
+describe('serialization', () => {
+  it('should revive nested Dates', () => {
+    const value = { time: new Date('2025-06-01T10:00:00Z'), items: [{ at: new Date(0) }] };
+
+    const result = deserialize<typeof value>(serialize(value));
+
+    expect(result.time).toBeInstanceOf(Date);
+    expect(result.time.toISOString()).toBe('2025-06-01T10:00:00.000Z');
+    expect(result.items[0].at.getTime()).toBe(0);
+  });
+
+  it('should round-trip Invalid Dates instead of throwing', () => {
+    const value = { time: new Date('not a date') };
+
+    const result = deserialize<typeof value>(serialize(value));
+
+    expect(result.time).toBeInstanceOf(Date);
+    expect(Number.isNaN(result.time.getTime())).toBe(true);
+  });
+
+  it('should revive Maps with their entries', () => {
+    const value = { sources: new Map([['a', { uploadedAt: new Date(0) }]]) };
+
+    const result = deserialize<typeof value>(serialize(value));
+
+    expect(result.sources).toBeInstanceOf(Map);
+    expect(result.sources.get('a')?.uploadedAt).toBeInstanceOf(Date);
+  });
+
+  it('should leave plain values untouched', () => {
+    const value = { name: 'Swiggy', amount: 250, tags: ['food'], note: null };
+
+    expect(deserialize(serialize(value))).toEqual(value);
+  });
+});
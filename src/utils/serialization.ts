@@ -0,0 +1,53 @@
+// JSON serialization that round-trips Dates and Maps
+
+const TYPE_KEY = '__type';
+
+interface TaggedDate {
+  [TYPE_KEY]: 'Date';
+  value: string | null; // null for an Invalid Date, which has no ISO form
+}
+
+interface TaggedMap {
+  [TYPE_KEY]: 'Map';
+  entries: [unknown, unknown][];
+}
+
+/**
+ * Serialize a value to JSON, tagging Dates and Maps so they can be revived
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key, current) {
+    // Date.toJSON has already run on `current`, so check the raw value
+    const raw = this[key];
+    if (raw instanceof Date) {
+      const tagged: TaggedDate = {
+        [TYPE_KEY]: 'Date',
+        value: Number.isNaN(raw.getTime()) ? null : raw.toISOString(),
+      };
+      return tagged;
+    }
+    if (current instanceof Map) {
+      const tagged: TaggedMap = { [TYPE_KEY]: 'Map', entries: Array.from(current.entries()) };
+      return tagged;
+    }
+    return current;
+  });
+}
+
+/**
+ * Parse JSON produced by serialize(), reviving Dates and Maps
+ */
+export function deserialize<T>(json: string): T {
+  return JSON.parse(json, (_key, value) => {
+    if (value && typeof value === 'object' && TYPE_KEY in value) {
+      if (value[TYPE_KEY] === 'Date') {
+        const { value: iso } = value as TaggedDate;
+        return iso === null ? new Date(NaN) : new Date(iso);
+      }
+      if (value[TYPE_KEY] === 'Map') {
+        return new Map((value as TaggedMap).entries);
+      }
+    }
+    return value;
+  }) as T;
+}
@@ -0,0 +1,46 @@
+// Read CSV/XLS/XLSX files into rows of strings
+
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+
+/**
+ * Read every row of a spreadsheet (first sheet for workbooks) as formatted strings
+ * Some banks serve tab-separated text or HTML tables with an .xls extension,
+ * so the content decides the parser rather than the file name
+ */
+export function readSpreadsheetRows(buffer: ArrayBuffer, fileName: string): string[][] {
+  if (fileName.toLowerCase().endsWith('.csv') || isDelimitedText(buffer)) {
+    const text = new TextDecoder().decode(buffer);
+    const result = Papa.parse<string[]>(text, { skipEmptyLines: 'greedy' });
+    return result.data;
+  }
+
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) {
+    throw new Error('The spreadsheet has no sheets');
+  }
+
+  // Formatted text keeps dates and amounts the way the user sees them
+  return XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    raw: false,
+    defval: '',
+    dateNF: 'yyyy-mm-dd hh:mm:ss',
+  });
+}
+
+/**
+ * Plain text that isn't an XLSX (zip), legacy XLS (OLE) or HTML table
+ */
+function isDelimitedText(buffer: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(buffer.slice(0, 512));
+  if (bytes.length === 0) return false;
+
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  const isOle = bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0;
+  if (isZip || isOle) return false;
+
+  const head = new TextDecoder().decode(bytes).trimStart().toLowerCase();
+  return !head.startsWith('<') && !bytes.includes(0);
+}
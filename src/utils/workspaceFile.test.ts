@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createWorkspaceFile,
+  parseWorkspaceFile,
+  isWorkspaceFile,
+  getWorkspaceFileName,
+  WORKSPACE_SCHEMA_VERSION,
+} from './workspaceFile';
+import type { WorkspaceSnapshot } from '../types/workspace.types';
+
+const snapshot = (): WorkspaceSnapshot => ({
+  savedAt: new Date('2025-06-01T10:00:00Z'),
+  sources: [
+    {
+      id: 'bhim-abc',
+      app: 'bhim',
+      rawData: { bhimHtml: '<html></html>' },
+      uploadedAt: new Date('2025-06-01T09:00:00Z'),
+      fileName: 'bhim.html',
+      fileHash: 'abc',
+      fileSize: 13,
+    },
+  ],
+  parsedData: {
+    transactions: [
+      {
+        time: new Date('2025-05-30T12:00:00Z'),
+        id: 'T1',
+        description: 'Swiggy',
+        product: 'UPI',
+        method: 'UPI',
+        status: 'Success',
+        amount: { value: 250, currency: 'INR' },
+        sourceApp: 'bhim',
+        sourceId: 'bhim-abc',
+      },
+    ],
+    groupExpenses: [],
+    cashbackRewards: [],
+    voucherRewards: [],
+    activities: [],
+    sources: ['bhim'],
+  },
+  dedupReport: null,
+  dedupDecisions: { 'a|b': 'keep' },
+  counterpartyOverrides: { merges: { 'ramesh k': 'ramesh kumar' }, splits: [] },
+  selfTransfers: { ownIdentifiers: ['me@okhdfc'], decisions: {} },
+  classificationRules: {},
+  categoryBudgets: { Food: 8000 },
+  categoryOverrides: { 'bhim-abc:T1': 'Food & Dining' },
+  tags: { 'bhim-abc:T1': ['office'] },
+  notes: { 'bhim-abc:T1': 'Team lunch' },
+  filterContext: { year: '2025', apps: ['all'] },
+});
+
+describe('workspaceFile', () => {
+  it('should round-trip a workspace with dates intact', () => {
+    const restored = parseWorkspaceFile(createWorkspaceFile(snapshot()));
+
+    expect(restored.sources[0].uploadedAt).toBeInstanceOf(Date);
+    expect(restored.parsedData?.transactions[0].time.toISOString()).toBe('2025-05-30T12:00:00.000Z');
+    expect(restored.categoryOverrides).toEqual({ 'bhim-abc:T1': 'Food & Dining' });
+    expect(restored.tags).toEqual({ 'bhim-abc:T1': ['office'] });
+    expect(restored.notes).toEqual({ 'bhim-abc:T1': 'Team lunch' });
+    expect(restored.counterpartyOverrides.merges).toEqual({ 'ramesh k': 'ramesh kumar' });
+    expect(restored.categoryBudgets).toEqual({ Food: 8000 });
+  });
+
+  it('should write the schema version', () => {
+    const file = JSON.parse(createWorkspaceFile(snapshot()));
+
+    expect(file.format).toBe('finnlens');
+    expect(file.schemaVersion).toBe(WORKSPACE_SCHEMA_VERSION);
+  });
+
+  it('should recognise exports by extension or content', () => {
+    const contents = createWorkspaceFile(snapshot());
+
+    expect(isWorkspaceFile('backup.finnlens')).toBe(true);
+    expect(isWorkspaceFile('backup.json', contents.slice(0, 100))).toBe(true);
+    expect(isWorkspaceFile('statement.json', '{"transactions": []}')).toBe(false);
+  });
+
+  it('should fill in missing edits', () => {
+    const file = JSON.parse(createWorkspaceFile(snapshot()));
+    delete file.workspace.tags;
+    delete file.workspace.notes;
+
+    const restored = parseWorkspaceFile(JSON.stringify(file));
+
+    expect(restored.tags).toEqual({});
+    expect(restored.notes).toEqual({});
+  });
+
+  it('should migrate version 1 files to the current schema', () => {
+    const file = JSON.parse(createWorkspaceFile(snapshot()));
+    file.schemaVersion = 1;
+    delete file.workspace.counterpartyOverrides;
+    delete file.workspace.selfTransfers;
+    delete file.workspace.classificationRules;
+    delete file.workspace.categoryBudgets;
+
+    const restored = parseWorkspaceFile(JSON.stringify(file));
+
+    expect(restored.counterpartyOverrides).toEqual({ merges: {}, splits: [] });
+    expect(restored.selfTransfers).toEqual({ ownIdentifiers: [], decisions: {} });
+    expect(restored.classificationRules).toEqual({});
+    expect(restored.categoryBudgets).toEqual({});
+    expect(restored.tags).toEqual({ 'bhim-abc:T1': ['office'] });
+  });
+
+  it('should keep settings an older file already has when migrating', () => {
+    const file = JSON.parse(createWorkspaceFile(snapshot()));
+    file.schemaVersion = 3;
+    delete file.workspace.classificationRules;
+    delete file.workspace.categoryBudgets;
+
+    const restored = parseWorkspaceFile(JSON.stringify(file));
+
+    expect(restored.counterpartyOverrides.merges).toEqual({ 'ramesh k': 'ramesh kumar' });
+    expect(restored.selfTransfers.ownIdentifiers).toEqual(['me@okhdfc']);
+    expect(restored.classificationRules).toEqual({});
+    expect(restored.categoryBudgets).toEqual({});
+  });
+
+  it('should reject files from a newer schema version', () => {
+    const file = JSON.parse(createWorkspaceFile(snapshot()));
+    file.schemaVersion = WORKSPACE_SCHEMA_VERSION + 1;
+
+    expect(() => parseWorkspaceFile(JSON.stringify(file))).toThrow('newer version');
+  });
+
+  it('should reject files that are not workspace exports', () => {
+    expect(() => parseWorkspaceFile('{"transactions": []}')).toThrow('not a FinnLens workspace');
+    expect(() => parseWorkspaceFile('not json')).toThrow('damaged');
+  });
+
+  it('should name exports by date', () => {
+    expect(getWorkspaceFileName(new Date(2025, 0, 5))).toBe('finnlens-workspace-2025-01-05.finnlens');
+  });
+});
@@ -0,0 +1,117 @@
+// Portable workspace export/import (.finnlens files)
+
+import type { WorkspaceFile, WorkspaceSnapshot } from '../types/workspace.types';
+import { serialize, deserialize } from './serialization';
+
+export const WORKSPACE_FILE_EXTENSION = '.finnlens';
+export const WORKSPACE_SCHEMA_VERSION = 5;
+
+// Exports start with this marker, so a content preview is enough to recognise them
+const FORMAT_MARKER = '{"format":"finnlens"';
+
+/**
+ * Migrations keyed by the version they upgrade FROM
+ * Each one takes a file at version N and returns it at version N + 1.
+ * When the schema changes, bump WORKSPACE_SCHEMA_VERSION and add an entry here.
+ */
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+  // 1 → 2: counterparty merges and splits
+  1: withWorkspaceDefaults(() => ({ counterpartyOverrides: { merges: {}, splits: [] } })),
+  // 2 → 3: own accounts and self-transfer decisions
+  2: withWorkspaceDefaults(() => ({ selfTransfers: { ownIdentifiers: [], decisions: {} } })),
+  // 3 → 4: the user's category rules
+  3: withWorkspaceDefaults(() => ({ classificationRules: {} })),
+  // 4 → 5: per-category budgets
+  4: withWorkspaceDefaults(() => ({ categoryBudgets: {} })),
+};
+
+/**
+ * Migration that adds settings introduced in the next version, keeping any the file already has
+ */
+function withWorkspaceDefaults(defaults: () => Record<string, unknown>) {
+  return (file: Record<string, unknown>): Record<string, unknown> => ({
+    ...file,
+    schemaVersion: (file.schemaVersion as number) + 1,
+    workspace: { ...defaults(), ...(file.workspace as Record<string, unknown> | undefined) },
+  });
+}
+
+/**
+ * Check whether a file is a FinnLens workspace export
+ * @param fileName - Name of the uploaded file
+ * @param contentPreview - First bytes of the file, if available
+ */
+export function isWorkspaceFile(fileName: string, contentPreview?: string): boolean {
+  if (fileName.toLowerCase().endsWith(WORKSPACE_FILE_EXTENSION)) {
+    return true;
+  }
+  return Boolean(contentPreview?.trimStart().startsWith(FORMAT_MARKER));
+}
+
+/**
+ * Serialize a workspace snapshot to .finnlens file contents
+ */
+export function createWorkspaceFile(workspace: WorkspaceSnapshot): string {
+  const file: WorkspaceFile = {
+    format: 'finnlens',
+    schemaVersion: WORKSPACE_SCHEMA_VERSION,
+    exportedAt: new Date(),
+    workspace,
+  };
+  return serialize(file);
+}
+
+/**
+ * Parse .finnlens file contents, migrating older schema versions
+ * @throws Error if the file is not a workspace export or is from a newer version
+ */
+export function parseWorkspaceFile(text: string): WorkspaceSnapshot {
+  let file: Record<string, unknown>;
+  try {
+    file = deserialize<Record<string, unknown>>(text);
+  } catch {
+    throw new Error('This FinnLens file is damaged and could not be read.');
+  }
+
+  if (!file || file.format !== 'finnlens' || typeof file.schemaVersion !== 'number') {
+    throw new Error('This is not a FinnLens workspace file.');
+  }
+
+  if (file.schemaVersion > WORKSPACE_SCHEMA_VERSION) {
+    throw new Error(
+      'This file was exported by a newer version of FinnLens. Please update and try again.'
+    );
+  }
+
+  // Upgrade one version at a time
+  while ((file.schemaVersion as number) < WORKSPACE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[file.schemaVersion as number];
+    if (!migrate) {
+      throw new Error(`Unsupported FinnLens file version ${file.schemaVersion}.`);
+    }
+    file = migrate(file);
+  }
+
+  const { workspace } = file as unknown as WorkspaceFile;
+  if (!workspace || !Array.isArray(workspace.sources)) {
+    throw new Error('This FinnLens file does not contain a workspace.');
+  }
+
+  // Edits are optional so hand-trimmed files still load
+  return {
+    ...workspace,
+    dedupDecisions: workspace.dedupDecisions || {},
+    categoryOverrides: workspace.categoryOverrides || {},
+    tags: workspace.tags || {},
+    notes: workspace.notes || {},
+  };
+}
+
+/**
+ * Default download name, e.g. finnlens-workspace-2025-06-01.finnlens
+ */
+export function getWorkspaceFileName(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `finnlens-workspace-${stamp}${WORKSPACE_FILE_EXTENSION}`;
+}
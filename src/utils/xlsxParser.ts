@@ -1,24 +1,28 @@
 import * as XLSX from 'xlsx';
-import { classifyTransaction } from './multi-layer-classifier';
+import { classifyRecord } from './multi-layer-classifier';
 import type { UpiAppId } from '../types/app.types';
+import type { ImportReport } from '../types/data.types';
+import { transformRows, type SkipRow } from './importReport';
 
 export interface XLSXParseResult<T> {
   success: boolean;
   data?: T[];
   error?: string;
+  report?: ImportReport; // Rows read, parsed and skipped by the transform
 }
 
 /**
  * Generic XLSX parser using SheetJS
  * @param xlsxBuffer - Raw XLSX file buffer
  * @param sheetName - Name of the sheet to parse
- * @param transform - Optional transformation function to convert row to desired type
+ * @param transform - Optional transformation function to convert row to desired type;
+ *   rows it rejects (null, or skip(reason)) are listed in the report
  * @returns Parsed data array or error
  */
 export function parseXLSX<T>(
   xlsxBuffer: ArrayBuffer,
   sheetName: string,
-  transform?: (row: any) => T | null
+  transform?: (row: any, skip: SkipRow) => T | null
 ): XLSXParseResult<T> {
   try {
     // Parse the workbook
@@ -52,12 +56,10 @@ export function parseXLSX<T>(
       return { success: true, data: jsonData as T[] };
     }
 
-    // Apply transformation and filter out null values
-    const transformedData = jsonData
-      .map(transform)
-      .filter((item): item is T => item !== null);
+    // Apply transformation, reporting the rows it rejects
+    const { data, report } = transformRows(jsonData, transform);
 
-    return { success: true, data: transformedData };
+    return { success: true, data, report };
   } catch (error) {
     console.error('XLSX parsing exception:', error);
     return {
@@ -73,19 +75,11 @@ export function parseXLSX<T>(
  * Columns: Date, Time, Transaction Details, Other Transaction Details, Your Account, Amount, UPI Ref No., Order ID, Remarks, Tags, Comment
  */
 export function parsePaytmXLSX(xlsxBuffer: ArrayBuffer, sourceApp: UpiAppId = 'paytm') {
-  let rowsProcessed = 0;
-  let rowsSkipped = 0;
-
-  const result = parseXLSX(xlsxBuffer, 'Passbook Payment History', (row) => {
-    rowsProcessed++;
+  const result = parseXLSX(xlsxBuffer, 'Passbook Payment History', (row, skip) => {
     try {
       // Skip invalid rows
       if (!row.Date || !row['UPI Ref No.']) {
-        rowsSkipped++;
-        if (rowsSkipped <= 3) {
-          console.warn(`Skipping row ${rowsProcessed} - missing Date or UPI Ref No.:`, row);
-        }
-        return null;
+        return skip('Missing date or UPI reference number');
       }
 
       // Parse date and time (format: DD/MM/YYYY and HH:MM:SS)
@@ -93,8 +87,7 @@ export function parsePaytmXLSX(xlsxBuffer: ArrayBuffer, sourceApp: UpiAppId = 'p
       const timeParts = row.Time?.split(':') || ['00', '00', '00'];
 
       if (dateParts.length !== 3) {
-        console.warn(`Invalid date format in row ${rowsProcessed}:`, row.Date);
-        return null;
+        return skip(`Unrecognised date "${row.Date}"`);
       }
 
       const day = parseInt(dateParts[0], 10);
@@ -126,7 +119,7 @@ export function parsePaytmXLSX(xlsxBuffer: ArrayBuffer, sourceApp: UpiAppId = 'p
         method: `Paytm UPI${row['Your Account'] ? ` - ${row['Your Account']}` : ''}`,
         status: row.Remarks || 'Transaction success',
         amount: `₹${Math.abs(amountValue).toFixed(2)}`, // Will be parsed by currencyUtils
-        category: classifyTransaction(description, Math.abs(amountValue)),
+        ...classifyRecord(description, Math.abs(amountValue)),
         sourceApp,
         // Additional Paytm-specific fields (can be used for enhanced insights)
         _paytmData: {
@@ -138,13 +131,12 @@ export function parsePaytmXLSX(xlsxBuffer: ArrayBuffer, sourceApp: UpiAppId = 'p
         },
       };
     } catch (error) {
-      console.error(`Error transforming row ${rowsProcessed}:`, error, row);
-      return null;
+      return skip(error instanceof Error ? error.message : 'Row could not be read');
     }
   });
 
   if (result.success && result.data) {
-    console.log(`Paytm XLSX parsing complete: ${result.data.length} transactions (${rowsSkipped} rows skipped)`);
+    console.log(`Paytm XLSX parsing complete: ${result.data.length} transactions (${result.report?.rowsSkipped ?? 0} rows skipped)`);
   }
 
   return result;
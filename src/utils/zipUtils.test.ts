@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { BlobWriter, TextReader, ZipWriter } from '@zip.js/zip.js';
+import { listZip, loadZip } from './zipUtils';
+
+async function createZip(files: Record<string, string>, options: { password?: string; zipCrypto?: boolean } = {}) {
+  const writer = new ZipWriter(new BlobWriter('application/zip'), { ...options, useWebWorkers: false });
+  for (const [name, content] of Object.entries(files)) {
+    await writer.add(name, new TextReader(content));
+  }
+  return writer.close();
+}
+
+describe('zipUtils', () => {
+  const files = { 'statement/history.html': '<table>BHIM</table>', 'readme.txt': 'hello' };
+
+  describe('listZip', () => {
+    it('should list file names of an encrypted ZIP without the password', async () => {
+      const zip = await createZip(files, { password: 'secret' });
+
+      expect(await listZip(zip)).toEqual({ names: Object.keys(files), encrypted: true });
+    });
+
+    it('should report plain ZIPs as unencrypted', async () => {
+      expect((await listZip(await createZip(files))).encrypted).toBe(false);
+    });
+  });
+
+  describe('loadZip', () => {
+    it('should open plain ZIPs without a password', async () => {
+      const zip = await loadZip(await createZip(files));
+
+      expect(await zip.files['readme.txt'].async('text')).toBe('hello');
+    });
+
+    it.each([
+      ['AES', false],
+      ['ZipCrypto', true],
+    ])('should decrypt %s ZIPs with the password', async (_name, zipCrypto) => {
+      const zip = await loadZip(await createZip(files, { password: 'secret', zipCrypto }), 'secret');
+
+      expect(await zip.files['statement/history.html'].async('text')).toBe('<table>BHIM</table>');
+    });
+
+    it('should ask for a password when none is given', async () => {
+      const file = await createZip(files, { password: 'secret' });
+
+      await expect(loadZip(file)).rejects.toThrow(/password-protected/);
+    });
+
+    it('should reject a wrong password', async () => {
+      const file = await createZip(files, { password: 'secret' });
+
+      await expect(loadZip(file, 'wrong')).rejects.toThrow('Invalid ZIP password. Please try again.');
+    });
+  });
+});
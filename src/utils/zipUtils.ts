@@ -0,0 +1,74 @@
+// Open ZIP exports, including password-protected ones (AES or ZipCrypto)
+
+import JSZip from 'jszip';
+import {
+  BlobReader,
+  Uint8ArrayWriter,
+  ZipReader,
+  ERR_INVALID_PASSWORD,
+  type Entry,
+} from '@zip.js/zip.js';
+
+/**
+ * File names in a ZIP and whether any of them is encrypted
+ * Names are readable without the password, so adapters can still recognise the export
+ */
+export interface ZipListing {
+  names: string[];
+  encrypted: boolean;
+}
+
+/**
+ * Read the entries of a ZIP's central directory
+ * Runs on the calling thread: zip.js would otherwise spawn its own web workers
+ */
+async function readEntries(file: Blob): Promise<Entry[]> {
+  const reader = new ZipReader(new BlobReader(file), { useWebWorkers: false });
+  try {
+    return await reader.getEntries();
+  } finally {
+    await reader.close();
+  }
+}
+
+/**
+ * List a ZIP's files without decrypting them
+ */
+export async function listZip(file: Blob): Promise<ZipListing> {
+  const entries = await readEntries(file);
+  return {
+    names: entries.filter(entry => !entry.directory).map(entry => entry.filename),
+    encrypted: entries.some(entry => entry.encrypted),
+  };
+}
+
+/**
+ * Open a ZIP as a JSZip archive, decrypting it first when it is password-protected
+ * JSZip can't read encrypted entries, so those are decrypted with zip.js and re-packed
+ * @throws Error mentioning "password" when one is needed or wrong, so the password prompt shows
+ */
+export async function loadZip(file: Blob, password?: string): Promise<JSZip> {
+  const entries = await readEntries(file);
+  if (!entries.some(entry => entry.encrypted)) {
+    return JSZip.loadAsync(file);
+  }
+
+  if (!password) {
+    throw new Error('This ZIP file is password-protected. Enter its password to continue.');
+  }
+
+  const zip = new JSZip();
+  for (const entry of entries) {
+    if (entry.directory) continue;
+    try {
+      const data = await entry.getData(new Uint8ArrayWriter(), { password, useWebWorkers: false });
+      zip.file(entry.filename, data);
+    } catch (error) {
+      if (error instanceof Error && error.message === ERR_INVALID_PASSWORD) {
+        throw new Error('Invalid ZIP password. Please try again.');
+      }
+      throw error;
+    }
+  }
+  return zip;
+}
@@ -0,0 +1,44 @@
+// Web Worker that runs detection, extraction, parsing and combining off the main thread
+
+import { MultiAppManager } from '../services/MultiAppManager';
+import type { PipelineRequest, PipelineResponse } from '../types/pipeline.types';
+
+const multiAppManager = new MultiAppManager();
+
+function post(message: PipelineResponse) {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', async (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'process') {
+      const fileName = request.file.name;
+      const result = await multiAppManager.processFile(
+        request.file,
+        request.password,
+        stage => post({ type: 'progress', jobId: request.jobId, progress: { fileName, stage } }),
+        request.appOverride
+      );
+      post({ type: 'processed', jobId: request.jobId, result });
+      return;
+    }
+
+    if (request.type === 'parse') {
+      // Combining (dedup, card payment linking, sorting) runs here too, off the main thread
+      const result = await multiAppManager.parseAllAppData(
+        request.sources,
+        request.dedupDecisions,
+        progress => post({ type: 'progress', jobId: request.jobId, progress })
+      );
+      post({ type: 'parsed', jobId: request.jobId, result });
+    }
+  } catch (error) {
+    post({
+      type: 'failed',
+      jobId: request.jobId,
+      error: error instanceof Error ? error.message : 'Worker failed to process file',
+    });
+  }
+});